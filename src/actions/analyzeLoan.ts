@@ -1,12 +1,13 @@
 'use server';
 
-import { LoanData, AnalyzeLoanResponse, validateLoanData, sanitizeLoanData } from '@/types';
+import { LoanData, AnalyzeLoanResponse, PageRange, sanitizeLoanData } from '@/types';
+import { validateLoan } from '@/lib/loan-validation';
 import { SmartLoanExtractor } from '@/lib/smart-loan-extractor';
 
 // Initialize the smart extraction engine
 const extractor = new SmartLoanExtractor();
 
-export async function analyzeLoan(documentText: string): Promise<AnalyzeLoanResponse> {
+export async function analyzeLoan(documentText: string, pages?: PageRange[]): Promise<AnalyzeLoanResponse> {
   try {
     // Import audit logger
     const { auditLogger } = await import('@/lib/audit');
@@ -36,12 +37,11 @@ export async function analyzeLoan(documentText: string): Promise<AnalyzeLoanResp
       };
     }
 
-    // Sanitize input text
-    const sanitizedText = documentText
-      .replace(/[<>]/g, '') // Remove potential HTML tags
-      .trim();
+    // Sanitize input text. Markup characters become spaces rather than being removed
+    // so provenance offsets still point into the text as uploaded.
+    const sanitizedText = documentText.replace(/[<>]/g, ' ');
 
-    if (sanitizedText.length === 0) {
+    if (sanitizedText.trim().length === 0) {
       return {
         success: false,
         data: {} as LoanData,
@@ -50,7 +50,7 @@ export async function analyzeLoan(documentText: string): Promise<AnalyzeLoanResp
       };
     }
 
-    if (sanitizedText.length > 100000) { // Increased limit for better processing
+    if (sanitizedText.trim().length > 100000) { // Increased limit for better processing
       return {
         success: false,
         data: {} as LoanData,
@@ -61,7 +61,7 @@ export async function analyzeLoan(documentText: string): Promise<AnalyzeLoanResp
 
     // Use the smart extraction engine
     console.log('🤖 Using Smart AI Extraction Engine...');
-    const extractionResult = await extractor.extractLoanData(sanitizedText);
+    const extractionResult = await extractor.extractLoanData(sanitizedText, { pages });
     
     console.log(`✅ Smart extraction completed in ${extractionResult.processingTime}ms`);
     console.log(`📊 Confidence: ${(extractionResult.confidence * 100).toFixed(1)}%`);
@@ -71,7 +71,7 @@ export async function analyzeLoan(documentText: string): Promise<AnalyzeLoanResp
     const sanitizedData = sanitizeLoanData(extractionResult.data);
 
     // Validate the sanitized data
-    const validation = validateLoanData(sanitizedData);
+    const validation = validateLoan(sanitizedData);
     
     // If validation fails, still return what we extracted but mark as needing review
     if (!validation.isValid) {
@@ -88,7 +88,8 @@ export async function analyzeLoan(documentText: string): Promise<AnalyzeLoanResp
         validationErrors: validation.errors,
         confidence: extractionResult.confidence,
         suggestions: extractionResult.suggestions,
-        processingTime: extractionResult.processingTime
+        processingTime: extractionResult.processingTime,
+        provenance: extractionResult.provenance
       };
     }
 
@@ -101,7 +102,8 @@ export async function analyzeLoan(documentText: string): Promise<AnalyzeLoanResp
       isMockData: false,
       confidence: extractionResult.confidence,
       suggestions: extractionResult.suggestions,
-      processingTime: extractionResult.processingTime
+      processingTime: extractionResult.processingTime,
+      provenance: extractionResult.provenance
     };
 
   } catch (error: any) {
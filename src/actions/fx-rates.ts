@@ -0,0 +1,8 @@
+'use server';
+
+import { FxRate } from '@/lib/fx-rates';
+import { getFxRateProvider } from '@/lib/fx-rates-file';
+
+export async function getFxRates(): Promise<FxRate[]> {
+  return getFxRateProvider().getRates();
+}
@@ -0,0 +1,8 @@
+'use server';
+
+import { MarketQuote } from '@/lib/market-data';
+import { getMarketDataProvider } from '@/lib/market-data-file';
+
+export async function getMarketQuotes(facility: string): Promise<MarketQuote[]> {
+  return getMarketDataProvider().getQuotes(facility);
+}
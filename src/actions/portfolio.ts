@@ -0,0 +1,91 @@
+'use server';
+
+import { ComplianceCertificate, LoanData, PortfolioLoanInput, PortfolioLoanRecord, PortfolioLoanSummary, sanitizeLoanData } from '@/types';
+import { getPortfolioStore } from '@/lib/portfolio-store';
+import { auditLogger, AuditAction } from '@/lib/audit';
+import { enforceReportingDeadlines, getMissedTestYears } from '@/lib/compliance-certificates';
+import { CodedError, ErrorCode } from '@/lib/enterprise-errors';
+import { logComplianceCertificateEvent } from './sustainability';
+
+// Sanitize the core fields while keeping structured data (tranches, covenants, ...) intact
+const sanitizeStoredLoan = (loan: LoanData): LoanData => ({ ...loan, ...sanitizeLoanData(loan) });
+
+export async function listPortfolioLoans(): Promise<PortfolioLoanSummary[]> {
+  return getPortfolioStore().list();
+}
+
+// Steps the margin up for reporting deadlines that passed while the loan was not open
+async function enforceMissedDeadlines(record: PortfolioLoanRecord): Promise<PortfolioLoanRecord> {
+  const asOf = new Date().toISOString();
+  if (getMissedTestYears(record.loan, record.esgStatus, asOf).length === 0) return record;
+
+  const certificates: ComplianceCertificate[] = [];
+  try {
+    const updated = await getPortfolioStore().modify(record.id, current => {
+      const update = enforceReportingDeadlines(current.loan, current.esgStatus, asOf);
+      certificates.push(...update.certificates);
+      return { loan: update.loan, esgStatus: update.esgStatus };
+    });
+    for (const certificate of certificates) {
+      const adjustment = updated.loan.marginHistory?.find(entry => entry.testYear === certificate.testYear);
+      await logComplianceCertificateEvent({
+        borrower: updated.loan.borrowerName,
+        certificate,
+        adjustmentBps: adjustment?.adjustmentBps ?? null,
+      });
+    }
+    return updated;
+  } catch (error) {
+    // A margin history the step-up cannot follow; storage failures still surface
+    if (!(error instanceof CodedError && error.code === ErrorCode.VALIDATION_ERROR)) throw error;
+    console.warn(`Could not enforce reporting deadlines for loan ${record.id}: ${error.message}`);
+    return record;
+  }
+}
+
+export async function getPortfolioLoan(id: string): Promise<PortfolioLoanRecord | null> {
+  const stored = await getPortfolioStore().get(id);
+  const record = stored && await enforceMissedDeadlines(stored);
+
+  await auditLogger.log({
+    action: AuditAction.DATA_READ,
+    resource: 'loan_portfolio',
+    details: { loanId: id, found: record !== null },
+    success: record !== null,
+    riskLevel: 'LOW',
+  });
+
+  return record;
+}
+
+export async function createPortfolioLoan(input: PortfolioLoanInput): Promise<PortfolioLoanRecord> {
+  const record = await getPortfolioStore().create({ ...input, loan: sanitizeStoredLoan(input.loan) });
+
+  await auditLogger.log({
+    action: AuditAction.DATA_CREATE,
+    resource: 'loan_portfolio',
+    details: { loanId: record.id, borrower: record.loan.borrowerName },
+    success: true,
+    riskLevel: 'LOW',
+  });
+
+  return record;
+}
+
+export async function updatePortfolioLoan(
+  id: string,
+  changes: Partial<PortfolioLoanInput>
+): Promise<PortfolioLoanRecord> {
+  const sanitized = changes.loan ? { ...changes, loan: sanitizeStoredLoan(changes.loan) } : changes;
+  const record = await getPortfolioStore().update(id, sanitized);
+
+  await auditLogger.log({
+    action: AuditAction.DATA_UPDATE,
+    resource: 'loan_portfolio',
+    details: { loanId: id, fields: Object.keys(changes) },
+    success: true,
+    riskLevel: 'LOW',
+  });
+
+  return record;
+}
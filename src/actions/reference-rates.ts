@@ -0,0 +1,8 @@
+'use server';
+
+import { ReferenceRateFixing } from '@/lib/reference-rates';
+import { getReferenceRateProvider } from '@/lib/reference-rates-file';
+
+export async function getReferenceRateFixings(): Promise<ReferenceRateFixing[]> {
+  return getReferenceRateProvider().getFixings();
+}
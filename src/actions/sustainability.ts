@@ -0,0 +1,35 @@
+'use server';
+
+import { auditLogger, AuditAction } from '@/lib/audit';
+import { ComplianceCertificate } from '@/types';
+
+export interface ComplianceCertificateAuditEvent {
+  borrower: string;
+  certificate: ComplianceCertificate;
+  // Margin adjustment the transition applied, if any
+  adjustmentBps: number | null;
+}
+
+// Records each compliance certificate transition: submission, review or a missed deadline
+export async function logComplianceCertificateEvent(event: ComplianceCertificateAuditEvent): Promise<void> {
+  const { certificate } = event;
+  const latest = certificate.events[certificate.events.length - 1];
+
+  await auditLogger.log({
+    action: AuditAction.ESG_MILESTONE_UPDATE,
+    resource: 'compliance_certificate',
+    details: {
+      borrower: event.borrower,
+      certificateId: certificate.id,
+      testYear: certificate.testYear,
+      status: certificate.status,
+      deadline: certificate.deadline,
+      verifier: certificate.assurance?.verifier ?? null,
+      assuranceReport: certificate.assurance?.fileName ?? null,
+      note: latest?.note ?? null,
+      adjustmentBps: event.adjustmentBps,
+    },
+    success: true,
+    riskLevel: certificate.status === 'missed' ? 'HIGH' : certificate.status === 'rejected' ? 'MEDIUM' : 'LOW',
+  });
+}
@@ -0,0 +1,28 @@
+'use server';
+
+import { auditLogger, AuditAction } from '@/lib/audit';
+import { TradeBlotterFilter, TradeExportFormat } from '@/lib/trade-blotter';
+
+export interface TradeExportEvent {
+  borrower: string;
+  format: TradeExportFormat;
+  tradeIds: string[];
+  filter: TradeBlotterFilter;
+}
+
+// The export itself happens in the browser; this records who exported which trades
+export async function logTradeExport(event: TradeExportEvent): Promise<void> {
+  await auditLogger.log({
+    action: AuditAction.DATA_EXPORT,
+    resource: 'trade_blotter',
+    details: {
+      borrower: event.borrower,
+      format: event.format,
+      tradeCount: event.tradeIds.length,
+      tradeIds: event.tradeIds,
+      filter: event.filter,
+    },
+    success: true,
+    riskLevel: 'MEDIUM',
+  });
+}
@@ -0,0 +1,77 @@
+/**
+ * Loan Analysis API
+ * POST runs the extraction engine over a document and applies the result to an unlocked loan
+ */
+
+import { NextRequest } from 'next/server';
+import { LoanData } from '@/types';
+import { analyzeLoan } from '@/actions/analyzeLoan';
+import { CodedError, ErrorCode } from '@/lib/enterprise-errors';
+import { getPortfolioStore } from '@/lib/portfolio-store';
+import { createTradingStatusForLoan } from '@/lib/loan-state';
+import { validateLoan } from '@/lib/loan-validation';
+import { apiError, apiErrorFromException, apiSuccess, readJsonBody } from '@/lib/api-response';
+
+// analyzeLoan reports failures as string codes
+const ANALYSIS_ERROR_CODES: Record<string, ErrorCode> = {
+  INVALID_INPUT: ErrorCode.INVALID_INPUT,
+  EMPTY_INPUT: ErrorCode.EMPTY_INPUT,
+  INPUT_TOO_LARGE: ErrorCode.INPUT_TOO_LARGE,
+  EXTRACTION_ERROR: ErrorCode.PARSING_ERROR,
+};
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const body = await readJsonBody(request);
+  if (!body) {
+    return apiError(ErrorCode.INVALID_INPUT, 'Request body must be a JSON object');
+  }
+
+  try {
+    const store = getPortfolioStore();
+    const record = await store.get(id);
+    if (!record) {
+      return apiError(ErrorCode.LOAN_NOT_FOUND, `Loan ${id} not found`);
+    }
+
+    const analysis = await analyzeLoan(body.documentText as string);
+    if (!analysis.success || !analysis.data) {
+      return apiError(ANALYSIS_ERROR_CODES[analysis.error || ''] ?? ErrorCode.PARSING_ERROR, undefined, {
+        suggestions: analysis.suggestions,
+      });
+    }
+
+    // Verified loans are locked; the analysis is returned but not applied
+    const applied = !record.verificationStatus.isLocked;
+    const updated = applied
+      ? await store.modify(id, current => {
+          if (current.verificationStatus.isLocked) return {};
+          // The document's tranches and lenders replace the old ones even when it has none
+          const loan: LoanData = {
+            ...current.loan,
+            ...analysis.data,
+            tranches: analysis.data?.tranches,
+            lenders: analysis.data?.lenders,
+          };
+          const validation = validateLoan(loan);
+          if (!validation.isValid) {
+            throw new CodedError(ErrorCode.VALIDATION_ERROR, 'Analyzed loan data failed validation', {
+              validationErrors: validation.errors,
+            });
+          }
+          return {
+            loan,
+            esgStatus: { ...current.esgStatus, target: loan.esgTarget || current.esgStatus.target },
+            // Until the first trade the syndicate follows the loan's lender schedule
+            tradingStatus: current.tradingStatus.lastTradeTimestamp
+              ? current.tradingStatus
+              : createTradingStatusForLoan(loan),
+          };
+        })
+      : record;
+
+    return apiSuccess({ applied, analysis, loan: updated });
+  } catch (error) {
+    return apiErrorFromException(error);
+  }
+}
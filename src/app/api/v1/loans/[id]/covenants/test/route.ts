@@ -0,0 +1,62 @@
+/**
+ * Covenant Test API
+ * POST tests reported financials for one test date against the loan's covenant package
+ */
+
+import { NextRequest } from 'next/server';
+import { CovenantTestResult } from '@/types';
+import { CodedError, ErrorCode } from '@/lib/enterprise-errors';
+import { getPortfolioStore } from '@/lib/portfolio-store';
+import { CovenantFinancials, getCovenantPackage, testCovenantPackage } from '@/lib/covenants';
+import { applyCovenantResults } from '@/lib/loan-state';
+import { apiError, apiErrorFromException, apiSuccess, readJsonBody } from '@/lib/api-response';
+import { auditLogger, AuditAction } from '@/lib/audit';
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const body = await readJsonBody(request);
+  if (!body) {
+    return apiError(ErrorCode.INVALID_INPUT, 'Request body must be a JSON object');
+  }
+
+  const testDate = typeof body.testDate === 'string' ? body.testDate : '';
+  const financials = body.financials as CovenantFinancials;
+  const validationErrors: string[] = [];
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(testDate) || isNaN(Date.parse(testDate))) {
+    validationErrors.push('Test date must be an ISO date (YYYY-MM-DD)');
+  }
+  if (!financials || typeof financials !== 'object' || Object.values(financials).some(value => typeof value !== 'number' || !Number.isFinite(value))) {
+    validationErrors.push('Financials must map covenant IDs to numbers');
+  }
+  if (validationErrors.length > 0) {
+    return apiError(ErrorCode.VALIDATION_ERROR, 'Covenant test request failed validation', { validationErrors });
+  }
+
+  try {
+    // Test against the stored covenants and record the results inside the write queue
+    let results: CovenantTestResult[] = [];
+    const { riskStatus } = await getPortfolioStore().modify(id, record => {
+      const covenants = getCovenantPackage(record.loan);
+      if (covenants.length === 0) {
+        throw new CodedError(ErrorCode.INSUFFICIENT_DATA, 'Loan has no covenants to test');
+      }
+      results = testCovenantPackage(covenants, financials, testDate);
+      return { riskStatus: applyCovenantResults(record.riskStatus, testDate, results) };
+    });
+
+    const breaches = results.filter(result => result.status === 'breach');
+    if (breaches.length > 0) {
+      await auditLogger.log({
+        action: AuditAction.COVENANT_BREACH,
+        resource: 'risk_management',
+        details: { loanId: id, testDate, covenants: breaches.map(result => result.covenantId) },
+        success: true,
+        riskLevel: 'CRITICAL',
+      });
+    }
+
+    return apiSuccess({ testDate, results, riskStatus });
+  } catch (error) {
+    return apiErrorFromException(error);
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Single Loan API
+ * GET returns the loan with its verification, ESG, risk and trading state, after
+ * stepping the margin up for any sustainability reporting deadline it has missed
+ */
+
+import { NextRequest } from 'next/server';
+import { ErrorCode } from '@/lib/enterprise-errors';
+import { getPortfolioLoan } from '@/actions/portfolio';
+import { apiError, apiErrorFromException, apiSuccess } from '@/lib/api-response';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const record = await getPortfolioLoan(id);
+    if (!record) {
+      return apiError(ErrorCode.LOAN_NOT_FOUND, `Loan ${id} not found`);
+    }
+    return apiSuccess(record);
+  } catch (error) {
+    return apiErrorFromException(error);
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Loan Trading API
+ * GET returns lender allocations, POST executes a secondary trade
+ */
+
+import { NextRequest } from 'next/server';
+import { ErrorCode } from '@/lib/enterprise-errors';
+import { getPortfolioStore } from '@/lib/portfolio-store';
+import { TradeRejectedError } from '@/lib/loan-state';
+import { LENDER_CATEGORY_LABELS } from '@/lib/transfer-restrictions';
+import { executeInstantTrade } from '@/lib/trade-lifecycle';
+import { apiError, apiErrorFromException, apiSuccess, readJsonBody } from '@/lib/api-response';
+import { auditLogger } from '@/lib/audit';
+import { LenderCategory, TradeRequest, TradingStatus } from '@/types';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const record = await getPortfolioStore().get(id);
+    if (!record) {
+      return apiError(ErrorCode.LOAN_NOT_FOUND, `Loan ${id} not found`);
+    }
+    return apiSuccess(record.tradingStatus);
+  } catch (error) {
+    return apiErrorFromException(error);
+  }
+}
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const body = await readJsonBody(request);
+  if (!body) {
+    return apiError(ErrorCode.INVALID_INPUT, 'Request body must be a JSON object');
+  }
+
+  const sellAmount = Number(body.sellAmount);
+  const sellerName = typeof body.sellerName === 'string' ? body.sellerName.trim() : '';
+  const buyerName = typeof body.buyerName === 'string' ? body.buyerName.trim() : '';
+  const buyerCategory = body.buyerCategory;
+  const price = body.price === undefined ? undefined : Number(body.price);
+  const validationErrors: string[] = [];
+  if (price !== undefined && !Number.isFinite(price)) {
+    validationErrors.push('Price must be a number (percent of par)');
+  }
+  if (buyerCategory !== undefined && !(typeof buyerCategory === 'string' && buyerCategory in LENDER_CATEGORY_LABELS)) {
+    validationErrors.push(`Buyer category must be one of ${Object.keys(LENDER_CATEGORY_LABELS).join(', ')}`);
+  }
+  if (!sellerName) {
+    validationErrors.push('Seller name is required');
+  }
+  // The minimum transfer depends on the seller's holding, so applyTrade enforces it
+  if (!Number.isFinite(sellAmount) || sellAmount <= 0) {
+    validationErrors.push('Sell amount must be a positive number');
+  }
+  if (!buyerName) {
+    validationErrors.push('Buyer name is required');
+  }
+  if (validationErrors.length > 0) {
+    return apiError(ErrorCode.VALIDATION_ERROR, 'Trade request failed validation', { validationErrors });
+  }
+
+  const trade: TradeRequest = {
+    sellerName,
+    buyerName,
+    amount: sellAmount,
+    ...(price !== undefined ? { price } : {}),
+    ...(buyerCategory ? { buyerCategory: buyerCategory as LenderCategory } : {}),
+    ...(body.buyerIsAffiliate === true ? { buyerIsAffiliate: true } : {}),
+  };
+
+  try {
+    // Trade against the stored allocations inside the store's write queue
+    let tradingStatus: TradingStatus;
+    try {
+      ({ tradingStatus } = await getPortfolioStore().modify(id, record => ({
+        tradingStatus: executeInstantTrade(record.tradingStatus, trade, {
+          restrictions: record.loan.transferRestrictions,
+          eventOfDefault: record.riskStatus.isInDefault,
+        }),
+      })));
+    } catch (error) {
+      if (!(error instanceof TradeRejectedError)) throw error;
+      await auditLogger.logTradeExecution({ amount: sellAmount, facilityId: id }, false, undefined, error.message);
+      return apiError(ErrorCode.TRADE_REJECTED, error.message, {
+        reason: error.reason,
+        ...(error.details.length > 0 ? { reasons: error.details } : {}),
+        sellerName,
+        buyerName,
+        sellAmount,
+      });
+    }
+
+    await auditLogger.logTradeExecution(
+      { amount: sellAmount, lenders: tradingStatus.lenderAllocations, facilityId: id },
+      true
+    );
+
+    return apiSuccess(tradingStatus, 201);
+  } catch (error) {
+    return apiErrorFromException(error);
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Loan Verification API
+ * POST validates the loan terms and locks them, as "Verify & Lock" does in the UI
+ */
+
+import { NextRequest } from 'next/server';
+import { CodedError, ErrorCode } from '@/lib/enterprise-errors';
+import { getPortfolioStore } from '@/lib/portfolio-store';
+import { seedTradingStatus, verifyLoanState } from '@/lib/loan-state';
+import { validateLoan } from '@/lib/loan-validation';
+import { apiError, apiErrorFromException, apiSuccess } from '@/lib/api-response';
+import { auditLogger, AuditAction } from '@/lib/audit';
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const store = getPortfolioStore();
+    const record = await store.get(id);
+    if (!record) {
+      return apiError(ErrorCode.LOAN_NOT_FOUND, `Loan ${id} not found`);
+    }
+
+    // Verification is idempotent
+    if (record.verificationStatus.isVerified) {
+      return apiSuccess(record);
+    }
+
+    // Validate and seed the syndicate inside the write queue, so a trade executed meanwhile is kept
+    const updated = await store.modify(id, current => {
+      if (current.verificationStatus.isVerified) return {};
+      const validation = validateLoan(current.loan);
+      if (!validation.isValid) {
+        throw new CodedError(ErrorCode.VALIDATION_ERROR, 'Loan data failed validation', {
+          validationErrors: validation.errors,
+        });
+      }
+      return {
+        verificationStatus: verifyLoanState(),
+        tradingStatus: seedTradingStatus(current.tradingStatus, current.loan),
+      };
+    });
+
+    await auditLogger.log({
+      action: AuditAction.DATA_UPDATE,
+      resource: 'loan_verification',
+      details: { loanId: id, verified: true, source: 'api' },
+      success: true,
+      riskLevel: 'LOW',
+    });
+
+    return apiSuccess(updated);
+  } catch (error) {
+    return apiErrorFromException(error);
+  }
+}
@@ -0,0 +1,384 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the versioned loans REST API
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { NextRequest } from 'next/server';
+import { ErrorCode } from '@/lib/enterprise-errors';
+import { GET as listLoans, POST as createLoan } from './route';
+import { GET as getLoan } from './[id]/route';
+import { POST as verifyLoan } from './[id]/verify/route';
+import { POST as executeTrade } from './[id]/trades/route';
+import { POST as testCovenants } from './[id]/covenants/test/route';
+import { POST as analyzeLoanDocument } from './[id]/analyze/route';
+
+const validLoan = {
+  borrowerName: 'Acme Corporation',
+  facilityAmount: 100000000,
+  currency: 'USD',
+  interestRateMargin: 2.5,
+  leverageCovenant: 4.0,
+  esgTarget: 'Reduce Scope 1 and 2 emissions by 30% by 2030',
+};
+
+const jsonRequest = (url: string, body?: unknown) =>
+  new NextRequest(`http://localhost${url}`, {
+    method: 'POST',
+    body: body === undefined ? undefined : JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const routeParams = (id: string) => ({ params: Promise.resolve({ id }) });
+
+describe('Loans API v1', () => {
+  let directory: string;
+  const originalStorePath = process.env.PORTFOLIO_STORE_PATH;
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'loans-api-'));
+    process.env.PORTFOLIO_STORE_PATH = join(directory, 'portfolio.json');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+    process.env.PORTFOLIO_STORE_PATH = originalStorePath;
+    jest.restoreAllMocks();
+  });
+
+  const createValidLoan = async () => {
+    const response = await createLoan(jsonRequest('/api/v1/loans', { loan: validLoan }));
+    return (await response.json()).data;
+  };
+
+  it('creates, lists and reads loans', async () => {
+    const response = await createLoan(jsonRequest('/api/v1/loans', { loan: validLoan }));
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body.success).toBe(true);
+    expect(body.data.verificationStatus.isVerified).toBe(false);
+
+    const list = await (await listLoans()).json();
+    expect(list.data.some((loan: { id: string }) => loan.id === body.data.id)).toBe(true);
+
+    const read = await getLoan(new NextRequest('http://localhost/api/v1/loans/x'), routeParams(body.data.id));
+    expect((await read.json()).data.loan.borrowerName).toBe('Acme Corporation');
+  });
+
+  it('steps the margin up on read for a reporting deadline missed while the loan was closed', async () => {
+    const sustainabilityTerms = {
+      kpis: [{
+        id: 'emissions', metric: 'Scope 1 and 2 emissions', unit: 'ktCO2e', direction: 'decrease',
+        baselineYear: 2023, baselineValue: 100, targets: [{ testYear: 2024, target: 90 }], weighting: 100,
+      }],
+      ratchetDownBps: 5,
+      ratchetUpBps: 5,
+    };
+    const created = await createLoan(jsonRequest('/api/v1/loans', {
+      loan: { ...validLoan, signingDate: '2024-01-01', terminationDate: '2029-01-01', sustainabilityTerms },
+    }));
+    const { id } = (await created.json()).data;
+
+    const read = await (await getLoan(new NextRequest(`http://localhost/api/v1/loans/${id}`), routeParams(id))).json();
+    expect(read.data.loan.marginHistory).toEqual([
+      expect.objectContaining({ effectiveDate: '2025-07-01', testYear: 2024, adjustmentBps: 5, margin: 2.55 }),
+    ]);
+    expect(read.data.esgStatus.complianceCertificates).toEqual([expect.objectContaining({ testYear: 2024, status: 'missed' })]);
+
+    const reread = await (await getLoan(new NextRequest(`http://localhost/api/v1/loans/${id}`), routeParams(id))).json();
+    expect(reread.data.loan.marginHistory).toHaveLength(1);
+  });
+
+  it('rejects loans that fail the validation schema', async () => {
+    const response = await createLoan(jsonRequest('/api/v1/loans', { ...validLoan, facilityAmount: 100, currency: 'XYZ' }));
+    const body = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(body.error.code).toBe(ErrorCode.VALIDATION_ERROR);
+    expect(body.error.details.validationErrors.length).toBeGreaterThanOrEqual(2);
+  });
+
+  it('rejects malformed structured fields with a validation error', async () => {
+    const malformed = [
+      { covenants: [{ id: 'c1', metric: 'leverage', label: 'Leverage', operator: '<=', threshold: 4 }] },
+      { tranches: [null] },
+      { lenders: 'Bank A' },
+      { sustainabilityTerms: { kpis: [{ id: 'k1', metric: 'Scope 1', unit: 't', weighting: 100 }], ratchetDownBps: 5, ratchetUpBps: 5 } },
+      { feeTerms: { commitmentFeePercentOfMargin: 'lots' } },
+      { revolverMovements: [{ id: 'm1', trancheId: 'rcf', type: 'drawdown', date: '2026-03-01', amount: 1000000 }] },
+      { taxonomyScreening: { useOfProceeds: 'solar park' } },
+    ];
+
+    for (const fields of malformed) {
+      const response = await createLoan(jsonRequest('/api/v1/loans', { loan: { ...validLoan, ...fields } }));
+      expect(response.status).toBe(422);
+      expect((await response.json()).error.code).toBe(ErrorCode.VALIDATION_ERROR);
+    }
+  });
+
+  it('rejects malformed bodies and unknown loans', async () => {
+    const malformed = await createLoan(new NextRequest('http://localhost/api/v1/loans', { method: 'POST', body: 'not json' }));
+    expect(malformed.status).toBe(400);
+    expect((await malformed.json()).error.code).toBe(ErrorCode.INVALID_INPUT);
+
+    const missing = await verifyLoan(jsonRequest('/api/v1/loans/missing/verify'), routeParams('loan_missing'));
+    expect(missing.status).toBe(404);
+    expect((await missing.json()).error.code).toBe(ErrorCode.LOAN_NOT_FOUND);
+  });
+
+  it('verifies a loan and locks it against re-analysis', async () => {
+    const loan = await createValidLoan();
+
+    const verified = await verifyLoan(jsonRequest(`/api/v1/loans/${loan.id}/verify`), routeParams(loan.id));
+    const verifiedBody = await verified.json();
+    expect(verified.status).toBe(200);
+    expect(verifiedBody.data.verificationStatus.isLocked).toBe(true);
+
+    const analysis = await analyzeLoanDocument(
+      jsonRequest(`/api/v1/loans/${loan.id}/analyze`, { documentText: 'Borrower: Other Corp. Facility Amount: $250,000,000' }),
+      routeParams(loan.id)
+    );
+    const analysisBody = await analysis.json();
+    expect(analysisBody.data.applied).toBe(false);
+    expect(analysisBody.data.loan.loan.borrowerName).toBe('Acme Corporation');
+  });
+
+  it('seeds the trading syndicate from the analyzed lender schedule on verification', async () => {
+    const loan = await createValidLoan();
+    const documentText = [
+      'Borrower: Acme Corporation',
+      'Facility Amount: $100,000,000',
+      'SCHEDULE 1 - THE ORIGINAL LENDERS',
+      'Name of Original Lender | Commitment',
+      'First Lender Bank | $60,000,000',
+      'Second Lender Bank | $40,000,000',
+    ].join('\n');
+
+    await analyzeLoanDocument(jsonRequest(`/api/v1/loans/${loan.id}/analyze`, { documentText }), routeParams(loan.id));
+    const verified = await (await verifyLoan(jsonRequest(`/api/v1/loans/${loan.id}/verify`), routeParams(loan.id))).json();
+
+    expect(verified.data.tradingStatus.lenderAllocations).toEqual([
+      { lenderName: 'First Lender Bank', amount: 60000000, percentage: 60 },
+      { lenderName: 'Second Lender Bank', amount: 40000000, percentage: 40 },
+    ]);
+    expect(verified.data.tradingStatus.totalFacilityAmount).toBe(100000000);
+  });
+
+  it('keeps a trade executed while the loan is being verified', async () => {
+    const loan = await createValidLoan();
+
+    const [, trade] = await Promise.all([
+      verifyLoan(jsonRequest(`/api/v1/loans/${loan.id}/verify`), routeParams(loan.id)),
+      executeTrade(
+        jsonRequest(`/api/v1/loans/${loan.id}/trades`, { sellerName: 'Bank A', sellAmount: 10000000, buyerName: 'Bank B' }),
+        routeParams(loan.id)
+      ),
+    ]);
+    expect(trade.status).toBe(201);
+
+    const read = await (await getLoan(new NextRequest(`http://localhost/api/v1/loans/${loan.id}`), routeParams(loan.id))).json();
+    expect(read.data.verificationStatus.isVerified).toBe(true);
+    expect(read.data.tradingStatus.lenderAllocations.find((lender: { lenderName: string }) => lender.lenderName === 'Bank B').amount).toBe(40000000);
+  });
+
+  it('replaces the lender schedule and syndicate on re-analysis and validates the result', async () => {
+    const loan = await createValidLoan();
+    const withLenders = [
+      'Borrower: Acme Corporation',
+      'Facility Amount: $100,000,000',
+      'SCHEDULE 1 - THE ORIGINAL LENDERS',
+      'Name of Original Lender | Commitment',
+      'First Lender Bank | $60,000,000',
+      'Second Lender Bank | $40,000,000',
+    ].join('\n');
+    await analyzeLoanDocument(jsonRequest(`/api/v1/loans/${loan.id}/analyze`, { documentText: withLenders }), routeParams(loan.id));
+
+    const reanalyzed = await (await analyzeLoanDocument(
+      jsonRequest(`/api/v1/loans/${loan.id}/analyze`, { documentText: 'Borrower: Acme Corporation. Facility Amount: $200,000,000' }),
+      routeParams(loan.id)
+    )).json();
+    expect(reanalyzed.data.loan.loan.lenders).toBeUndefined();
+    expect(reanalyzed.data.loan.tradingStatus.totalFacilityAmount).toBe(200000000);
+    expect(reanalyzed.data.loan.tradingStatus.lenderAllocations.map((lender: { lenderName: string }) => lender.lenderName))
+      .toEqual(['Bank A', 'Bank B', 'Bank C']);
+
+    const shortSchedule = withLenders.replace('$40,000,000', '$30,000,000');
+    const invalid = await analyzeLoanDocument(
+      jsonRequest(`/api/v1/loans/${loan.id}/analyze`, { documentText: shortSchedule }),
+      routeParams(loan.id)
+    );
+    expect(invalid.status).toBe(422);
+    expect((await invalid.json()).error.details.validationErrors)
+      .toContain('Lender commitments (90,000,000) must sum to the facility amount (100,000,000)');
+  });
+
+  it('maps empty analysis input to an error code', async () => {
+    const loan = await createValidLoan();
+    const response = await analyzeLoanDocument(
+      jsonRequest(`/api/v1/loans/${loan.id}/analyze`, { documentText: '   ' }),
+      routeParams(loan.id)
+    );
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.code).toBe(ErrorCode.EMPTY_INPUT);
+  });
+
+  it('executes trades from a named seller and rejects ones exceeding its holding', async () => {
+    const loan = await createValidLoan();
+
+    const trade = await executeTrade(
+      jsonRequest(`/api/v1/loans/${loan.id}/trades`, { sellerName: 'Bank A', sellAmount: 10000000, buyerName: 'Fund D' }),
+      routeParams(loan.id)
+    );
+    const tradeBody = await trade.json();
+    expect(trade.status).toBe(201);
+    expect(tradeBody.data.lenderAllocations.find((lender: { lenderName: string }) => lender.lenderName === 'Fund D').amount).toBe(10000000);
+    expect(tradeBody.data.lenderAllocations.find((lender: { lenderName: string }) => lender.lenderName === 'Bank A').amount).toBe(40000000);
+
+    const rejected = await executeTrade(
+      jsonRequest(`/api/v1/loans/${loan.id}/trades`, { sellerName: 'Bank B', sellAmount: 40000000, buyerName: 'Fund E' }),
+      routeParams(loan.id)
+    );
+    const rejectedBody = await rejected.json();
+    expect(rejected.status).toBe(409);
+    expect(rejectedBody.error.code).toBe(ErrorCode.TRADE_REJECTED);
+    expect(rejectedBody.error.details.reason).toBe('exceeds_holding');
+
+    const tooSmall = await executeTrade(
+      jsonRequest(`/api/v1/loans/${loan.id}/trades`, { sellerName: 'Bank A', sellAmount: 1000, buyerName: 'Fund E' }),
+      routeParams(loan.id)
+    );
+    expect(tooSmall.status).toBe(409);
+    expect((await tooSmall.json()).error.details.reason).toBe('minimum_transfer');
+
+    const noSeller = await executeTrade(
+      jsonRequest(`/api/v1/loans/${loan.id}/trades`, { sellAmount: 10000000, buyerName: 'Fund E' }),
+      routeParams(loan.id)
+    );
+    expect(noSeller.status).toBe(422);
+  });
+
+  it('lets a lender sell out a holding below the minimum transfer', async () => {
+    const response = await createLoan(jsonRequest('/api/v1/loans', {
+      loan: {
+        ...validLoan,
+        lenders: [
+          { lenderName: 'Anchor Bank', amount: 99500000, percentage: 99.5 },
+          { lenderName: 'Small Fund', amount: 500000, percentage: 0.5 },
+        ],
+      },
+    }));
+    const loan = (await response.json()).data;
+
+    const trade = await executeTrade(
+      jsonRequest(`/api/v1/loans/${loan.id}/trades`, { sellerName: 'Small Fund', sellAmount: 500000, buyerName: 'Anchor Bank' }),
+      routeParams(loan.id)
+    );
+    expect(trade.status).toBe(201);
+    expect((await trade.json()).data.lenderAllocations).toEqual([
+      expect.objectContaining({ lenderName: 'Anchor Bank', amount: 100000000 }),
+    ]);
+  });
+
+  it('applies overlapping trades one after the other', async () => {
+    const loan = await createValidLoan();
+    const sell = (buyerName: string) => executeTrade(
+      jsonRequest(`/api/v1/loans/${loan.id}/trades`, { sellerName: 'Bank A', sellAmount: 30000000, buyerName }),
+      routeParams(loan.id)
+    );
+
+    const responses = await Promise.all([sell('Fund D'), sell('Fund E')]);
+    expect(responses.map(response => response.status).sort()).toEqual([201, 409]);
+
+    const stored = await (await getLoan(new NextRequest('http://localhost/api/v1/loans/x'), routeParams(loan.id))).json();
+    const holding = (name: string) => stored.data.tradingStatus.lenderAllocations
+      .find((lender: { lenderName: string }) => lender.lenderName === name)?.amount;
+    expect(holding('Bank A')).toBe(20000000);
+  });
+
+  it('rejects trades to buyers the transfer restrictions exclude', async () => {
+    const response = await createLoan(jsonRequest('/api/v1/loans', {
+      loan: {
+        ...validLoan,
+        transferRestrictions: {
+          borrowerConsentRequired: true,
+          consentExceptions: ['existing_lender'],
+          prohibitedCategories: ['competitor'],
+          approvedLenders: [],
+          restrictedLenders: ['Elliott Management Corporation'],
+        },
+      },
+    }));
+    const loan = (await response.json()).data;
+
+    const restricted = await executeTrade(
+      jsonRequest(`/api/v1/loans/${loan.id}/trades`, { sellerName: 'Bank A', sellAmount: 10000000, buyerName: 'Elliott Management' }),
+      routeParams(loan.id)
+    );
+    const restrictedBody = await restricted.json();
+    expect(restricted.status).toBe(409);
+    expect(restrictedBody.error.details.reason).toBe('ineligible_buyer');
+    expect(restrictedBody.error.details.reasons).toHaveLength(1);
+
+    const competitor = await executeTrade(
+      jsonRequest(`/api/v1/loans/${loan.id}/trades`, {
+        sellerName: 'Bank A',
+        sellAmount: 10000000,
+        buyerName: 'Rival Industries',
+        buyerCategory: 'competitor',
+      }),
+      routeParams(loan.id)
+    );
+    expect(competitor.status).toBe(409);
+
+    const unknownCategory = await executeTrade(
+      jsonRequest(`/api/v1/loans/${loan.id}/trades`, {
+        sellerName: 'Bank A',
+        sellAmount: 10000000,
+        buyerName: 'Fund D',
+        buyerCategory: 'hedge_fund',
+      }),
+      routeParams(loan.id)
+    );
+    expect(unknownCategory.status).toBe(422);
+
+    const needsConsent = await executeTrade(
+      jsonRequest(`/api/v1/loans/${loan.id}/trades`, { sellerName: 'Bank A', sellAmount: 10000000, buyerName: 'Fund D' }),
+      routeParams(loan.id)
+    );
+    expect(needsConsent.status).toBe(409);
+    expect((await needsConsent.json()).error.details.reason).toBe('consent_required');
+  });
+
+  it('tests covenants and records a breach on the loan', async () => {
+    const loan = await createValidLoan();
+
+    const response = await testCovenants(
+      jsonRequest(`/api/v1/loans/${loan.id}/covenants/test`, { testDate: '2026-09-30', financials: { leverage: 4.6 } }),
+      routeParams(loan.id)
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.results[0].status).toBe('breach');
+    expect(body.data.riskStatus.isInDefault).toBe(true);
+
+    const stored = await (await getLoan(new NextRequest('http://localhost/api/v1/loans/x'), routeParams(loan.id))).json();
+    expect(stored.data.riskStatus.lastCovenantTestDate).toBe('2026-09-30');
+
+    const invalid = await testCovenants(
+      jsonRequest(`/api/v1/loans/${loan.id}/covenants/test`, { testDate: 'Q3', financials: { leverage: 'high' } }),
+      routeParams(loan.id)
+    );
+    expect(invalid.status).toBe(422);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Loans API
+ * GET lists the loan portfolio, POST registers a new loan
+ */
+
+import { NextRequest } from 'next/server';
+import { LoanData, sanitizeLoanData } from '@/types';
+import { ErrorCode } from '@/lib/enterprise-errors';
+import { getPortfolioStore } from '@/lib/portfolio-store';
+import { buildPortfolioLoanInput } from '@/lib/loan-state';
+import { validateLoan } from '@/lib/loan-validation';
+import { apiError, apiErrorFromException, apiSuccess, readJsonBody } from '@/lib/api-response';
+import { auditLogger, AuditAction } from '@/lib/audit';
+
+export async function GET() {
+  try {
+    return apiSuccess(await getPortfolioStore().list());
+  } catch (error) {
+    return apiErrorFromException(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const body = await readJsonBody(request);
+  if (!body) {
+    return apiError(ErrorCode.INVALID_INPUT, 'Request body must be a JSON object');
+  }
+
+  try {
+    // Accept either { loan: {...} } or the loan fields at the top level
+    const submitted = (body.loan ?? body) as LoanData;
+    const loan = { ...submitted, ...sanitizeLoanData(submitted) } as LoanData;
+
+    const validation = validateLoan(loan);
+    if (!validation.isValid) {
+      return apiError(ErrorCode.VALIDATION_ERROR, 'Loan data failed validation', {
+        validationErrors: validation.errors,
+      });
+    }
+
+    const record = await getPortfolioStore().create(buildPortfolioLoanInput(loan));
+
+    await auditLogger.log({
+      action: AuditAction.DATA_CREATE,
+      resource: 'loan_portfolio',
+      details: { loanId: record.id, borrower: loan.borrowerName, source: 'api' },
+      success: true,
+      riskLevel: 'LOW',
+    });
+
+    return apiSuccess(record, 201);
+  } catch (error) {
+    return apiErrorFromException(error);
+  }
+}
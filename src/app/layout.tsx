@@ -24,7 +24,7 @@ export default function RootLayout({
       <body
         className={`${inter.variable} font-inter antialiased`}
       >
-        <ApplicationProvider>
+        <ApplicationProvider persist>
           {children}
         </ApplicationProvider>
       </body>
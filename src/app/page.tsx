@@ -7,6 +7,7 @@ import { ESGManagerTab } from '@/components/tabs/ESGManagerTab';
 import { RiskDashboardTab } from '@/components/tabs/RiskDashboardTab';
 import { TradingManagerTab } from '@/components/tabs/TradingManagerTab';
 import { HeaderClock } from '@/components/ui/dynamic-clock';
+import { LoanPicker } from '@/components/enterprise/LoanPicker';
 import { useApplication } from '@/contexts/ApplicationContext';
 import { Badge } from '@/components/ui/badge';
 import { AlertCircle, CheckCircle, Clock, Users } from 'lucide-react';
@@ -63,6 +64,9 @@ export default function Home() {
               </Badge>
             </div>
             <div className="flex items-center space-x-6">
+              {/* Portfolio Loan Picker */}
+              <LoanPicker />
+
               {/* Current Loan Info */}
               {state.currentLoan && (
                 <div className="text-right bg-slate-800/50 rounded-lg px-4 py-2 border border-slate-700">
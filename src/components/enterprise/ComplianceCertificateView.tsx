@@ -0,0 +1,205 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { FileCheck } from 'lucide-react';
+import { useApplication } from '@/contexts/ApplicationContext';
+import { getCertificateForYear, getReportingDeadline } from '@/lib/compliance-certificates';
+import { getKpiTarget, getTestYears } from '@/lib/sustainability-kpis';
+import { ComplianceCertificate, ComplianceCertificateStatus, LoanData } from '@/types';
+
+interface ComplianceCertificateViewProps {
+  loan: LoanData;
+}
+
+const STATUS_STYLES: Record<ComplianceCertificateStatus, string> = {
+  submitted: 'bg-blue-100 text-blue-800',
+  accepted: 'bg-green-100 text-green-800',
+  rejected: 'bg-amber-100 text-amber-800',
+  missed: 'bg-red-100 text-red-800',
+};
+
+const latestNote = (certificate: ComplianceCertificate): string | undefined =>
+  certificate.events[certificate.events.length - 1]?.note;
+
+export function ComplianceCertificateView({ loan }: ComplianceCertificateViewProps) {
+  const { state, submitComplianceCertificate, reviewComplianceCertificate } = useApplication();
+  const terms = loan.sustainabilityTerms;
+  const certificates = state.esgStatus.complianceCertificates ?? [];
+  const today = new Date().toISOString().substring(0, 10);
+
+  // Borrower submission
+  const testYears = terms ? getTestYears(terms) : [];
+  const openYears = testYears.filter(year => {
+    const certificate = getCertificateForYear(certificates, year);
+    return (!certificate || certificate.status === 'rejected') && today <= getReportingDeadline(year);
+  });
+  const [testYear, setTestYear] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [verifier, setVerifier] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  if (!terms) return null;
+  const selectedYear = Number(testYear) || openYears[0];
+  const pending = certificates.filter(certificate => certificate.status === 'submitted');
+
+  const handleSubmit = () => {
+    const reported = Object.fromEntries(
+      Object.entries(values)
+        .filter(([, value]) => value.trim() !== '')
+        .map(([kpiId, value]) => [kpiId, Number(value)])
+    );
+    const rejected = submitComplianceCertificate({
+      testYear: selectedYear,
+      values: reported,
+      assurance: { verifier, fileName },
+    });
+    setError(rejected ? rejected.message : null);
+    if (!rejected) {
+      setValues({});
+      setVerifier('');
+      setFileName('');
+      setTestYear('');
+    }
+  };
+
+  const handleReview = (certificateId: string, accepted: boolean) => {
+    const rejected = reviewComplianceCertificate(certificateId, { accepted, note: notes[certificateId] });
+    setError(rejected ? rejected.message : null);
+    if (!rejected) setNotes(prev => ({ ...prev, [certificateId]: '' }));
+  };
+
+  return (
+    <Card className="shadow-lg" data-testid="compliance-certificates">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <FileCheck className="w-6 h-6" />
+          <span>Compliance Certificates</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-600 border-b border-slate-200">
+              <th className="py-2 pr-4">Test year</th>
+              <th className="py-2 pr-4">Due by</th>
+              <th className="py-2 pr-4">Verifier</th>
+              <th className="py-2">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {testYears.map(year => {
+              const certificate = getCertificateForYear(certificates, year);
+              const note = certificate && latestNote(certificate);
+              return (
+                <tr key={year} className="border-b border-slate-100" data-testid="certificate-row">
+                  <td className="py-2 pr-4 text-slate-800">{year}</td>
+                  <td className="py-2 pr-4 text-slate-700">{getReportingDeadline(year)}</td>
+                  <td className="py-2 pr-4 text-slate-700">{certificate?.assurance?.verifier ?? '-'}</td>
+                  <td className="py-2">
+                    {certificate ? (
+                      <Badge variant="secondary" className={STATUS_STYLES[certificate.status]}>{certificate.status}</Badge>
+                    ) : (
+                      <span className="text-slate-500">Awaiting certificate</span>
+                    )}
+                    {note && <span className="ml-2 text-xs text-slate-500">{note}</span>}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {openYears.length > 0 && (
+          <div className="space-y-3 p-4 bg-slate-50 rounded-lg">
+            <div className="flex items-center gap-3">
+              <span className="text-sm font-medium text-slate-700">Submit certificate for</span>
+              <select
+                value={selectedYear}
+                onChange={(e) => setTestYear(e.target.value)}
+                className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                aria-label="Test year"
+                data-testid="certificate-year-select"
+              >
+                {openYears.map(year => <option key={year} value={year}>{year}</option>)}
+              </select>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {terms.kpis.filter(kpi => getKpiTarget(kpi, selectedYear) !== null).map(kpi => (
+                <label key={kpi.id} className="text-sm text-slate-600 space-y-1">
+                  <span>{kpi.metric} (target {getKpiTarget(kpi, selectedYear)} {kpi.unit})</span>
+                  <Input
+                    type="number"
+                    value={values[kpi.id] ?? ''}
+                    onChange={(e) => setValues(prev => ({ ...prev, [kpi.id]: e.target.value }))}
+                    data-testid={`certificate-value-input-${kpi.id}`}
+                  />
+                </label>
+              ))}
+              <label className="text-sm text-slate-600 space-y-1">
+                <span>External verifier</span>
+                <Input value={verifier} onChange={(e) => setVerifier(e.target.value)} data-testid="certificate-verifier-input" />
+              </label>
+              <label className="text-sm text-slate-600 space-y-1">
+                <span>Assurance report</span>
+                <Input
+                  type="file"
+                  accept=".pdf,.doc,.docx"
+                  onChange={(e) => setFileName(e.target.files?.[0]?.name ?? '')}
+                  data-testid="certificate-assurance-input"
+                />
+              </label>
+            </div>
+            <Button onClick={handleSubmit} className="bg-green-600 hover:bg-green-700" data-testid="submit-certificate-button">
+              Submit certificate
+            </Button>
+          </div>
+        )}
+
+        {pending.map(certificate => (
+          <div key={certificate.id} className="space-y-2 p-4 border border-blue-200 rounded-lg" data-testid="certificate-review">
+            <h4 className="font-semibold text-slate-800">{certificate.testYear} certificate awaiting review</h4>
+            <p className="text-sm text-slate-600">
+              Assured by {certificate.assurance?.verifier} ({certificate.assurance?.fileName})
+            </p>
+            {terms.kpis.filter(kpi => getKpiTarget(kpi, certificate.testYear) !== null).map(kpi => (
+              <div key={kpi.id} className="flex justify-between text-sm">
+                <span className="text-slate-700">{kpi.metric}</span>
+                <span className="text-slate-800">
+                  {certificate.values[kpi.id] ?? 'not reported'} against {getKpiTarget(kpi, certificate.testYear)} {kpi.unit}
+                </span>
+              </div>
+            ))}
+            <div className="flex flex-wrap items-center gap-3">
+              <Input
+                placeholder="Review note"
+                value={notes[certificate.id] ?? ''}
+                onChange={(e) => setNotes(prev => ({ ...prev, [certificate.id]: e.target.value }))}
+                className="flex-1"
+                data-testid="certificate-note-input"
+              />
+              <Button variant="outline" onClick={() => handleReview(certificate.id, false)} data-testid="reject-certificate-button">
+                Reject
+              </Button>
+              <Button onClick={() => handleReview(certificate.id, true)} className="bg-green-600 hover:bg-green-700" data-testid="accept-certificate-button">
+                Accept and apply ratchet
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {error && <p className="text-sm text-red-600" data-testid="certificate-error">{error}</p>}
+
+        <p className="text-xs text-slate-500">
+          The margin only moves once the agent accepts a certificate. A test year with no certificate by its deadline
+          is treated as every KPI missed and the margin steps up.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,33 @@
+'use client';
+
+import { useApplication } from '@/contexts/ApplicationContext';
+import { formatCurrencyAmount } from '@/lib/fx-rates';
+
+interface CurrencyAmountProps {
+  amount: number;
+  currency: string;
+  // ISO date the reporting amount is converted at, latest rates when omitted
+  date?: string;
+  fractionDigits?: number;
+  className?: string;
+}
+
+/**
+ * An amount in its own currency, with the reporting currency equivalent beneath
+ * when the two differ and a rate is known
+ */
+export function CurrencyAmount({ amount, currency, date, fractionDigits = 0, className }: CurrencyAmountProps) {
+  const { fx, reportingCurrency } = useApplication();
+  const converted = currency === reportingCurrency ? null : fx.tryConvert(amount, currency, reportingCurrency, date);
+
+  return (
+    <span className={className}>
+      {formatCurrencyAmount(amount, currency, fractionDigits)}
+      {converted !== null && (
+        <span className="block text-xs font-normal text-slate-500" data-testid="reporting-amount">
+          ≈ {formatCurrencyAmount(converted, reportingCurrency, fractionDigits)}
+        </span>
+      )}
+    </span>
+  );
+}
@@ -3,6 +3,11 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useApplication } from '@/contexts/ApplicationContext';
+import { formatCurrencyAmount } from '@/lib/fx-rates';
+import { getLoanInterestSummary } from '@/lib/interest-schedule';
+import { getAnnualFees } from '@/lib/fee-schedule';
+import { getReferenceRateConvention } from '@/lib/reference-rates';
+import { getMarginAdjustmentAt } from '@/lib/sustainability-kpis';
 import { 
   TrendingUp, 
   DollarSign, 
@@ -15,15 +20,32 @@ import {
 } from 'lucide-react';
 
 export function DashboardMetrics() {
-  const { state } = useApplication();
+  const { state, fx, reportingCurrency, rateCurve } = useApplication();
 
   // Calculate key metrics
   const totalExposure = state.currentLoan?.facilityAmount || 0;
-  const currentRate = state.currentLoan?.interestRateMargin || 0;
-  const esgDiscount = state.esgStatus.discountApplied ? 0.1 : 0;
-  const effectiveRate = Math.max(0, currentRate - esgDiscount);
-  const annualInterest = totalExposure * (effectiveRate / 100);
-  const esgSavings = state.esgStatus.discountApplied ? totalExposure * 0.001 : 0;
+  const asOf = new Date().toISOString().substring(0, 10);
+  const interest = state.currentLoan
+    ? getLoanInterestSummary(state.currentLoan, rateCurve, asOf)
+    : { principal: 0, allInRate: 0, annualInterest: 0, accruedInterest: 0 };
+  const annualFees = state.currentLoan ? getAnnualFees(state.currentLoan, asOf).total : 0;
+  // The sustainability ratchet is already in the margin; this is what it moves interest by
+  const sustainabilityBps = state.currentLoan ? getMarginAdjustmentAt(state.currentLoan, asOf) : 0;
+  const esgSavings = -interest.principal * (sustainabilityBps / 10000);
+  const annualInterest = interest.annualInterest;
+  // Fees are spread over the drawn principal to give the all-in cost of the loan
+  const feeRate = interest.principal > 0 ? (annualFees / interest.principal) * 100 : 0;
+  const effectiveRate = interest.allInRate + feeRate;
+  const referenceIndex = getReferenceRateConvention(state.currentLoan?.currency || reportingCurrency).index;
+
+  // Amounts are shown in the reporting currency, or the loan's own currency when there is no rate
+  const loanCurrency = state.currentLoan?.currency || reportingCurrency;
+  const formatReporting = (amount: number, unit: number, suffix: string, digits: number): string => {
+    const converted = fx.tryConvert(amount, loanCurrency, reportingCurrency);
+    return converted === null
+      ? `${formatCurrencyAmount(amount / unit, loanCurrency, digits)}${suffix}`
+      : `${formatCurrencyAmount(converted / unit, reportingCurrency, digits)}${suffix}`;
+  };
 
   // Risk assessment
   const riskLevel = state.riskStatus.isInDefault ? 'HIGH' : 
@@ -39,8 +61,10 @@ export function DashboardMetrics() {
   const metrics = [
     {
       title: 'Total Exposure',
-      value: `$${(totalExposure / 1000000).toFixed(0)}M`,
-      subtitle: state.currentLoan?.currency || 'USD',
+      value: formatReporting(totalExposure, 1000000, 'M', 0),
+      subtitle: loanCurrency === reportingCurrency
+        ? loanCurrency
+        : `${formatCurrencyAmount(totalExposure / 1000000, loanCurrency, 0)}M in ${loanCurrency}`,
       icon: DollarSign,
       color: 'text-green-600',
       bgColor: 'bg-green-50'
@@ -48,15 +72,22 @@ export function DashboardMetrics() {
     {
       title: 'Effective Rate',
       value: `${effectiveRate.toFixed(2)}%`,
-      subtitle: esgDiscount > 0 ? `${esgDiscount}% ESG discount` : 'Base rate',
+      subtitle: sustainabilityBps !== 0
+        ? `${referenceIndex} + margin + fees, ${sustainabilityBps < 0 ? 'less' : 'plus'} ${Math.abs(sustainabilityBps)} bps sustainability ratchet`
+        : `${referenceIndex} + margin + fees`,
       icon: TrendingUp,
       color: 'text-blue-600',
       bgColor: 'bg-blue-50'
     },
     {
-      title: 'Annual Interest',
-      value: `$${(annualInterest / 1000000).toFixed(1)}M`,
-      subtitle: esgSavings > 0 ? `$${(esgSavings / 1000).toFixed(0)}K saved` : 'Projected',
+      title: 'Annual Cost',
+      value: formatReporting(annualInterest + annualFees, 1000000, 'M', 1),
+      subtitle: [
+        `${formatReporting(annualInterest, 1000000, 'M', 1)} interest`,
+        `${formatReporting(annualFees, 1000, 'K', 0)} fees`,
+        esgSavings > 0 ? `${formatReporting(esgSavings, 1000, 'K', 0)} saved` : null,
+        esgSavings < 0 ? `${formatReporting(-esgSavings, 1000, 'K', 0)} step-up` : null,
+      ].filter(Boolean).join(', '),
       icon: BarChart3,
       color: 'text-purple-600',
       bgColor: 'bg-purple-50'
@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Receipt } from 'lucide-react';
+import { useApplication } from '@/contexts/ApplicationContext';
+import { formatCurrencyAmount } from '@/lib/fx-rates';
+import { FEE_TYPE_LABELS, buildFeeSchedule, getAnnualFees } from '@/lib/fee-schedule';
+import { getDrawnBalanceAt, getRevolvingTranches } from '@/lib/revolving-facility';
+import { LoanData, RevolverMovementType } from '@/types';
+
+interface FeeScheduleViewProps {
+  loan: LoanData;
+}
+
+const today = () => new Date().toISOString().substring(0, 10);
+
+export function FeeScheduleView({ loan }: FeeScheduleViewProps) {
+  const { recordRevolverMovement } = useApplication();
+  const asOf = today();
+  const revolvers = getRevolvingTranches(loan);
+  const fees = buildFeeSchedule(loan, asOf);
+  const annualFees = getAnnualFees(loan, asOf);
+
+  const [trancheId, setTrancheId] = useState(revolvers[0]?.id ?? '');
+  const [type, setType] = useState<RevolverMovementType>('drawdown');
+  const [date, setDate] = useState(asOf);
+  const [amount, setAmount] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRecord = () => {
+    const rejected = recordRevolverMovement({ trancheId: trancheId || revolvers[0]?.id, type, date, amount: Number(amount) });
+    setError(rejected ? rejected.message : null);
+    if (!rejected) setAmount('');
+  };
+
+  const trancheName = (id: string) => revolvers.find(tranche => tranche.id === id)?.name ?? id;
+
+  return (
+    <Card className="shadow-xl border-0 bg-gradient-to-br from-slate-50 to-white" data-testid="fee-schedule">
+      <CardHeader className="bg-gradient-to-r from-slate-100 to-slate-50 rounded-t-lg">
+        <CardTitle className="flex items-center space-x-3 text-xl">
+          <div className="bg-gradient-to-r from-amber-500 to-amber-600 p-2 rounded-lg">
+            <Receipt className="w-6 h-6 text-white" />
+          </div>
+          <span className="text-slate-800">Revolver &amp; Fees</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6 p-8">
+        <div className="grid grid-cols-3 gap-4" data-testid="annual-fees">
+          {(['commitment', 'utilisation', 'agency'] as const).map(feeType => (
+            <div key={feeType} className="bg-white rounded-lg p-4 shadow-md">
+              <p className="text-sm text-slate-600">{FEE_TYPE_LABELS[feeType]}</p>
+              <p className="text-lg font-semibold text-slate-800">{formatCurrencyAmount(annualFees[feeType], loan.currency)} p.a.</p>
+            </div>
+          ))}
+        </div>
+
+        {revolvers.length > 0 ? (
+          <div className="space-y-4">
+            {revolvers.map(tranche => {
+              const drawn = getDrawnBalanceAt(loan, tranche.id, asOf);
+              const utilisation = tranche.amount > 0 ? (drawn / tranche.amount) * 100 : 0;
+              return (
+                <div key={tranche.id} data-testid="revolver-utilisation">
+                  <div className="flex justify-between text-sm">
+                    <span className="font-medium text-slate-800">{tranche.name}</span>
+                    <span className="text-slate-600">
+                      {formatCurrencyAmount(drawn, tranche.currency)} drawn of {formatCurrencyAmount(tranche.amount, tranche.currency)} ({utilisation.toFixed(1)}%)
+                    </span>
+                  </div>
+                  <div className="h-2 mt-1 bg-slate-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-amber-500 rounded-full" style={{ width: `${Math.min(utilisation, 100)}%` }} />
+                  </div>
+                </div>
+              );
+            })}
+
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+              <select
+                value={trancheId}
+                onChange={(e) => setTrancheId(e.target.value)}
+                className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                aria-label="Revolving facility"
+                data-testid="revolver-tranche-select"
+              >
+                {revolvers.map(tranche => <option key={tranche.id} value={tranche.id}>{tranche.name}</option>)}
+              </select>
+              <select
+                value={type}
+                onChange={(e) => setType(e.target.value as RevolverMovementType)}
+                className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                aria-label="Movement type"
+                data-testid="revolver-type-select"
+              >
+                <option value="drawdown">Drawdown</option>
+                <option value="repayment">Repayment</option>
+              </select>
+              <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} aria-label="Date" data-testid="revolver-date-input" />
+              <Input
+                type="number"
+                placeholder="Amount"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                aria-label="Amount"
+                data-testid="revolver-amount-input"
+              />
+              <Button onClick={handleRecord} disabled={!amount} data-testid="record-movement-button">
+                Record
+              </Button>
+            </div>
+            {error && <p className="text-sm text-red-600" data-testid="movement-error">{error}</p>}
+
+            {(loan.revolverMovements ?? []).length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-600 border-b border-slate-200">
+                    <th className="py-2 pr-4">Date</th>
+                    <th className="py-2 pr-4">Facility</th>
+                    <th className="py-2 pr-4">Movement</th>
+                    <th className="py-2 text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...(loan.revolverMovements ?? [])].sort((a, b) => a.date.localeCompare(b.date)).map(movement => (
+                    <tr key={movement.id} className="border-b border-slate-100" data-testid="revolver-movement-row">
+                      <td className="py-2 pr-4 text-slate-800">{movement.date}</td>
+                      <td className="py-2 pr-4 text-slate-700">{trancheName(movement.trancheId)}</td>
+                      <td className="py-2 pr-4 text-slate-700 capitalize">{movement.type}</td>
+                      <td className="py-2 text-right text-slate-800">
+                        {formatCurrencyAmount(movement.amount, revolvers.find(tranche => tranche.id === movement.trancheId)?.currency ?? loan.currency)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">This loan has no revolving facility; only the agency fee applies.</p>
+        )}
+
+        {fees.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-600 border-b border-slate-200">
+                  <th className="py-2 pr-4">Payable</th>
+                  <th className="py-2 pr-4">Fee</th>
+                  <th className="py-2 pr-4">Period</th>
+                  <th className="py-2 text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fees.map(fee => (
+                  <tr key={`${fee.type}-${fee.facilityId}-${fee.periodStart}`} className="border-b border-slate-100" data-testid="fee-row">
+                    <td className="py-2 pr-4 text-slate-800">
+                      {fee.paymentDate}
+                      {fee.projected && <span className="ml-2 text-xs text-slate-400">projected</span>}
+                    </td>
+                    <td className="py-2 pr-4 text-slate-700">
+                      {FEE_TYPE_LABELS[fee.type]}
+                      {fee.facilityId && <span className="text-slate-500"> ({fee.facilityName})</span>}
+                    </td>
+                    <td className="py-2 pr-4 text-slate-700">{fee.periodStart} to {fee.periodEnd}</td>
+                    <td className="py-2 text-right font-medium text-slate-800">{formatCurrencyAmount(fee.amount, fee.currency, 2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="text-xs text-slate-500">
+          Commitment and utilisation fees are paid in arrears each period on the drawings recorded; future periods assume
+          today&apos;s drawn balance carries on. The agency fee is paid in advance on signing and each anniversary.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
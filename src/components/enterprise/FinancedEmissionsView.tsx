@@ -0,0 +1,200 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Factory } from 'lucide-react';
+import { useApplication } from '@/contexts/ApplicationContext';
+import {
+  EmissionsFootprint,
+  FinancedEmissionsReport,
+  PCAF_DATA_QUALITY,
+  buildFinancedEmissionsReport
+} from '@/lib/financed-emissions';
+import { formatCurrencyAmount } from '@/lib/fx-rates';
+import { AttributionBasis, EmissionsDataSource, LoanData } from '@/types';
+
+const DATA_SOURCE_LABELS: Record<EmissionsDataSource, string> = {
+  verified_reported: 'Reported, verified',
+  unverified_reported: 'Reported, unverified',
+  physical_activity: 'Physical activity',
+  revenue_based: 'Revenue-based estimate',
+  asset_based: 'Asset-based estimate',
+};
+
+const today = () => new Date().toISOString().substring(0, 10);
+
+const formatTonnes = (tonnes: number): string => `${Math.round(tonnes).toLocaleString()} tCO2e`;
+
+const formatIntensity = (value: number | null): string => (value === null ? '-' : value.toFixed(1));
+
+// Blank inputs are null rather than zero
+const parseOptional = (text: string): number | null => (text.trim() === '' ? null : Number(text));
+
+function BorrowerEmissionsForm({ loan }: { loan: LoanData }) {
+  const { setBorrowerEmissions } = useApplication();
+  const current = loan.borrowerEmissions;
+  const [reportingYear, setReportingYear] = useState(String(current?.reportingYear ?? new Date().getFullYear() - 1));
+  const [scope1, setScope1] = useState(current ? String(current.scope1) : '');
+  const [scope2, setScope2] = useState(current ? String(current.scope2) : '');
+  const [scope3, setScope3] = useState(current?.scope3 != null ? String(current.scope3) : '');
+  const [attributionBasis, setAttributionBasis] = useState<AttributionBasis>(current?.attributionBasis ?? 'evic');
+  const [attributionValue, setAttributionValue] = useState(current ? String(current.attributionValue) : '');
+  const [revenue, setRevenue] = useState(current?.revenue != null ? String(current.revenue) : '');
+  const [dataSource, setDataSource] = useState<EmissionsDataSource>(current?.dataSource ?? 'unverified_reported');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = () => {
+    const rejected = setBorrowerEmissions({
+      reportingYear: Number(reportingYear),
+      scope1: Number(scope1),
+      scope2: Number(scope2),
+      scope3: parseOptional(scope3),
+      attributionBasis,
+      attributionValue: Number(attributionValue),
+      revenue: parseOptional(revenue),
+      currency: loan.currency,
+      dataSource,
+    });
+    setError(rejected ? rejected.message : null);
+  };
+
+  return (
+    <div className="space-y-3 p-4 bg-slate-50 rounded-lg">
+      <h4 className="text-sm font-semibold text-slate-700">{loan.borrowerName} emissions</h4>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <Input type="number" placeholder="Reporting year" value={reportingYear} onChange={(e) => setReportingYear(e.target.value)} aria-label="Reporting year" data-testid="emissions-year-input" />
+        <Input type="number" placeholder="Scope 1 tCO2e" value={scope1} onChange={(e) => setScope1(e.target.value)} aria-label="Scope 1" data-testid="emissions-scope1-input" />
+        <Input type="number" placeholder="Scope 2 tCO2e" value={scope2} onChange={(e) => setScope2(e.target.value)} aria-label="Scope 2" data-testid="emissions-scope2-input" />
+        <Input type="number" placeholder="Scope 3 tCO2e (optional)" value={scope3} onChange={(e) => setScope3(e.target.value)} aria-label="Scope 3" data-testid="emissions-scope3-input" />
+        <select
+          value={attributionBasis}
+          onChange={(e) => setAttributionBasis(e.target.value as AttributionBasis)}
+          className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+          aria-label="Attribution basis"
+          data-testid="emissions-basis-select"
+        >
+          <option value="evic">EVIC (listed)</option>
+          <option value="equity_and_debt">Total equity + debt (unlisted)</option>
+        </select>
+        <Input type="number" placeholder={`Value (${loan.currency})`} value={attributionValue} onChange={(e) => setAttributionValue(e.target.value)} aria-label="Attribution value" data-testid="emissions-value-input" />
+        <Input type="number" placeholder={`Revenue (${loan.currency}, optional)`} value={revenue} onChange={(e) => setRevenue(e.target.value)} aria-label="Revenue" data-testid="emissions-revenue-input" />
+        <select
+          value={dataSource}
+          onChange={(e) => setDataSource(e.target.value as EmissionsDataSource)}
+          className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+          aria-label="Data source"
+          data-testid="emissions-source-select"
+        >
+          {(Object.keys(DATA_SOURCE_LABELS) as EmissionsDataSource[]).map(source => (
+            <option key={source} value={source}>{DATA_SOURCE_LABELS[source]} (score {PCAF_DATA_QUALITY[source]})</option>
+          ))}
+        </select>
+      </div>
+      <Button onClick={handleSave} className="bg-green-600 hover:bg-green-700" data-testid="save-emissions-button">Save emissions</Button>
+      {error && <p className="text-sm text-red-600" data-testid="emissions-error">{error}</p>}
+    </div>
+  );
+}
+
+function FootprintCells({ footprint, currency }: { footprint: EmissionsFootprint; currency: string }) {
+  return (
+    <>
+      <td className="py-2 pr-4">{formatCurrencyAmount(footprint.outstanding, currency)}</td>
+      <td className="py-2 pr-4">{footprint.coverage.toFixed(0)}%</td>
+      <td className="py-2 pr-4">{formatTonnes(footprint.financedScope12)}</td>
+      <td className="py-2 pr-4">{formatTonnes(footprint.financedScope3)}</td>
+      <td className="py-2 pr-4">{formatIntensity(footprint.carbonFootprint)}</td>
+      <td className="py-2 pr-4">{formatIntensity(footprint.weightedIntensity)}</td>
+      <td className="py-2">{footprint.dataQualityScore === null ? '-' : footprint.dataQualityScore.toFixed(1)}</td>
+    </>
+  );
+}
+
+export function FinancedEmissionsView() {
+  const { state, loadPortfolioRecords, fx, reportingCurrency } = useApplication();
+  const [report, setReport] = useState<FinancedEmissionsReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Rebuild whenever the portfolio listing, the current loan or the rates change
+  useEffect(() => {
+    let cancelled = false;
+    loadPortfolioRecords().then(records => {
+      if (cancelled) return;
+      try {
+        setReport(buildFinancedEmissionsReport(records, today(), { fx, reportingCurrency }));
+        setError(null);
+      } catch (err) {
+        setReport(null);
+        setError(err instanceof Error ? err.message : 'Failed to build financed emissions');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [state.portfolio, state.currentLoan, state.tradingStatus, fx, reportingCurrency]);
+
+  return (
+    <Card className="shadow-lg" data-testid="financed-emissions">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Factory className="w-6 h-6" />
+            <span>Financed Emissions</span>
+          </div>
+          {report && report.portfolio.carbonFootprint !== null && (
+            <Badge variant="secondary" data-testid="portfolio-carbon-footprint">
+              {report.portfolio.carbonFootprint.toFixed(1)} tCO2e per {report.reportingCurrency}M
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {state.currentLoan && <BorrowerEmissionsForm key={state.currentLoanId ?? 'current'} loan={state.currentLoan} />}
+
+        {error && <p className="text-sm text-red-700">Financed emissions are unavailable: {error}</p>}
+
+        {report && report.lenders.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-600 border-b border-slate-200">
+                  <th className="py-2 pr-4">Lender</th>
+                  <th className="py-2 pr-4">Outstanding ({report.reportingCurrency})</th>
+                  <th className="py-2 pr-4">Coverage</th>
+                  <th className="py-2 pr-4">Scope 1+2</th>
+                  <th className="py-2 pr-4">Scope 3</th>
+                  <th className="py-2 pr-4">tCO2e / M invested</th>
+                  <th className="py-2 pr-4">WACI</th>
+                  <th className="py-2">PCAF score</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.lenders.map(lender => (
+                  <tr key={lender.lenderName} className="border-b border-slate-100" data-testid="financed-emissions-row">
+                    <td className="py-2 pr-4 font-medium text-slate-900">{lender.lenderName}</td>
+                    <FootprintCells footprint={lender} currency={report.reportingCurrency} />
+                  </tr>
+                ))}
+                <tr className="font-semibold text-slate-900" data-testid="financed-emissions-total">
+                  <td className="py-2 pr-4">Portfolio</td>
+                  <FootprintCells footprint={report.portfolio} currency={report.reportingCurrency} />
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <p className="text-xs text-slate-500">
+          Each lender is attributed its outstanding over the borrower&apos;s EVIC, or total equity plus debt, of the
+          borrower&apos;s emissions (PCAF business loans). Footprint and coverage use outstanding amounts as of today
+          in {reportingCurrency}; WACI is Scope 1 and 2 tonnes per million of revenue. PCAF scores run from 1 (verified)
+          to 5 (estimated).
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
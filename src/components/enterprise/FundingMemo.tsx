@@ -0,0 +1,116 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { CurrencyAmount } from '@/components/enterprise/CurrencyAmount';
+import { useApplication, useLoanData } from '@/contexts/ApplicationContext';
+import { formatCurrencyAmount } from '@/lib/fx-rates';
+import { TRADE_STAGE_LABELS } from '@/lib/trade-lifecycle';
+import { calculateTradeSettlement, getPricingTerms } from '@/lib/trade-pricing';
+import { TradeRecord } from '@/types';
+import { Printer, X } from 'lucide-react';
+
+interface FundingMemoProps {
+  trade: TradeRecord;
+  onClose: () => void;
+}
+
+const today = () => new Date().toISOString().substring(0, 10);
+
+export function FundingMemo({ trade, onClose }: FundingMemoProps) {
+  const { reportingCurrency, rateCurve } = useApplication();
+  const loanData = useLoanData();
+  const currency = loanData?.currency ?? reportingCurrency;
+  const formatCurrency = (amount: number): string => formatCurrencyAmount(amount, currency, 2);
+  const terms = getPricingTerms(loanData, rateCurve);
+  const settlement = calculateTradeSettlement(trade, terms, today());
+
+  const rows: Array<[string, string]> = [
+    ['Borrower', loanData?.borrowerName || '—'],
+    ['Seller', trade.sellerName],
+    ['Buyer', trade.buyerName],
+    ['Trade date', trade.tradeDate],
+    [settlement.projected ? 'Expected settlement date' : 'Settlement date', settlement.settlementDate],
+    ['Settlement type', trade.settlementType === 'par' ? 'Par' : 'Distressed'],
+    ['Currency', currency],
+    ['Status', TRADE_STAGE_LABELS[trade.stage]],
+  ];
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-6 shadow-lg text-sm print:shadow-none print:border-0" data-testid="funding-memo">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-900">Funding Memo</h3>
+          <p className="text-xs text-slate-500">
+            {settlement.projected ? 'Projected amounts, final figures are fixed on settlement' : 'Final settled amounts'}
+          </p>
+        </div>
+        <div className="flex gap-2 print:hidden">
+          <Button size="sm" variant="outline" onClick={() => window.print()}>
+            <Printer className="w-4 h-4 mr-1" />
+            Print
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onClose} aria-label="Close funding memo">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-x-8 gap-y-1 mb-4">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex justify-between border-b border-slate-100 py-1">
+            <dt className="text-slate-500">{label}</dt>
+            <dd className="font-medium text-slate-800">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <table className="w-full">
+        <tbody>
+          <tr className="border-b border-slate-100">
+            <td className="py-1 text-slate-600">Par amount</td>
+            <td className="py-1 text-right text-slate-800">{formatCurrency(trade.amount)}</td>
+          </tr>
+          <tr className="border-b border-slate-100">
+            <td className="py-1 text-slate-600">Purchase price at {trade.price.toFixed(3)}%</td>
+            <td className="py-1 text-right text-slate-800">{formatCurrency(settlement.purchasePrice)}</td>
+          </tr>
+          <tr className="border-b border-slate-100">
+            <td className="py-1 text-slate-600">
+              Accrued interest at {settlement.allInRate.toFixed(2)}% for {settlement.accruedDays} days
+              <span className="block text-xs text-slate-400">
+                Interest period {settlement.interestPeriod.start} to {settlement.interestPeriod.end}, {terms.dayCount}
+              </span>
+            </td>
+            <td className="py-1 text-right text-slate-800">{formatCurrency(settlement.accruedInterest)}</td>
+          </tr>
+          <tr className="border-b border-slate-100">
+            <td className="py-1 text-slate-600">Less delayed compensation</td>
+            <td className="py-1 text-right text-slate-800">({formatCurrency(settlement.delayedCompensation)})</td>
+          </tr>
+          <tr className="border-b-2 border-slate-300 font-semibold">
+            <td className="py-2 text-slate-900">Settlement amount payable by buyer to seller</td>
+            <td className="py-2 text-right text-slate-900" data-testid="settlement-amount">
+              <CurrencyAmount amount={settlement.settlementAmount} currency={currency} date={settlement.settlementDate} fractionDigits={2} />
+            </td>
+          </tr>
+          {settlement.fees.map(fee => (
+            <tr key={fee.label} className="border-b border-slate-100">
+              <td className="py-1 text-slate-600">{fee.label} (paid by {fee.payer})</td>
+              <td className="py-1 text-right text-slate-800">{formatCurrency(fee.amount)}</td>
+            </tr>
+          ))}
+          <tr className="font-semibold">
+            <td className="py-2 text-slate-900">Total funding required from buyer</td>
+            <td className="py-2 text-right text-slate-900">
+              <CurrencyAmount amount={settlement.buyerFunding} currency={currency} date={settlement.settlementDate} fractionDigits={2} />
+            </td>
+          </tr>
+          <tr className="font-semibold">
+            <td className="py-1 text-slate-900">Net proceeds to seller</td>
+            <td className="py-1 text-right text-slate-900">{formatCurrency(settlement.sellerProceeds)}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Percent } from 'lucide-react';
+import { useApplication } from '@/contexts/ApplicationContext';
+import { formatCurrencyAmount } from '@/lib/fx-rates';
+import { buildInterestSchedules, getAccruedInterest, getCurrentInterestPeriod } from '@/lib/interest-schedule';
+import { RateMode } from '@/lib/reference-rates';
+import { LoanData } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface InterestScheduleViewProps {
+  loan: LoanData;
+}
+
+const RATE_MODE_LABELS: Record<RateMode, string> = {
+  compounded_in_arrears: 'compounded in arrears',
+  term: 'term rate',
+};
+
+const today = () => new Date().toISOString().substring(0, 10);
+
+export function InterestScheduleView({ loan }: InterestScheduleViewProps) {
+  const { rateCurve } = useApplication();
+  const asOf = today();
+  const schedules = buildInterestSchedules(loan, rateCurve, asOf);
+
+  return (
+    <Card className="shadow-xl border-0 bg-gradient-to-br from-slate-50 to-white" data-testid="interest-schedule">
+      <CardHeader className="bg-gradient-to-r from-slate-100 to-slate-50 rounded-t-lg">
+        <CardTitle className="flex items-center space-x-3 text-xl">
+          <div className="bg-gradient-to-r from-indigo-500 to-indigo-600 p-2 rounded-lg">
+            <Percent className="w-6 h-6 text-white" />
+          </div>
+          <span className="text-slate-800">Interest Schedule</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-8 p-8">
+        {schedules.map(schedule => {
+          const current = getCurrentInterestPeriod(schedule, asOf);
+          const { terms } = schedule;
+          return (
+            <div key={schedule.facilityId} className="space-y-3" data-testid="interest-facility">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <h4 className="font-semibold text-slate-800">{schedule.name}</h4>
+                <div className="flex flex-wrap gap-2 text-xs">
+                  <Badge variant="secondary">{terms.index} {RATE_MODE_LABELS[terms.mode]}</Badge>
+                  <Badge variant="secondary">+{terms.margin.toFixed(2)}% margin</Badge>
+                  <Badge variant="secondary">{terms.floor.toFixed(2)}% floor</Badge>
+                  <Badge variant="secondary">{terms.dayCount}</Badge>
+                </div>
+              </div>
+              {current && (
+                <p className="text-sm text-slate-600" data-testid="accrued-interest">
+                  Accrued since {current.start}:{' '}
+                  <span className="font-semibold text-slate-800">
+                    {formatCurrencyAmount(getAccruedInterest(schedule, rateCurve, asOf), schedule.currency, 2)}
+                  </span>
+                </p>
+              )}
+              {schedule.periods.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-slate-600 border-b border-slate-200">
+                        <th className="py-2 pr-4">Period</th>
+                        <th className="py-2 pr-4 text-right">Days</th>
+                        <th className="py-2 pr-4 text-right">Principal</th>
+                        <th className="py-2 pr-4 text-right">{terms.index}</th>
+                        <th className="py-2 pr-4 text-right">Margin</th>
+                        <th className="py-2 pr-4 text-right">All-in</th>
+                        <th className="py-2 text-right">Interest</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {schedule.periods.map(period => (
+                        <tr
+                          key={period.start}
+                          className={cn('border-b border-slate-100', period === current && 'bg-indigo-50')}
+                          data-testid="interest-period-row"
+                        >
+                          <td className="py-2 pr-4 text-slate-800">
+                            {period.start} to {period.end}
+                            {period.projected && <span className="ml-2 text-xs text-slate-400">projected</span>}
+                          </td>
+                          <td className="py-2 pr-4 text-right text-slate-700">{period.days}</td>
+                          <td className="py-2 pr-4 text-right text-slate-700">{formatCurrencyAmount(period.principal, schedule.currency)}</td>
+                          <td className="py-2 pr-4 text-right text-slate-700">{period.referenceRate.toFixed(4)}%</td>
+                          <td className="py-2 pr-4 text-right text-slate-700">{period.margin.toFixed(2)}%</td>
+                          <td className="py-2 pr-4 text-right text-slate-700">{period.allInRate.toFixed(4)}%</td>
+                          <td className="py-2 text-right font-medium text-slate-800">{formatCurrencyAmount(period.interest, schedule.currency, 2)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="text-sm text-slate-500">No interest periods: the facility has matured.</p>
+              )}
+            </div>
+          );
+        })}
+        <p className="text-xs text-slate-500">
+          Rates after the last published fixing carry it forward and are marked projected. Principal is taken at the
+          start of each period; revolving facilities accrue on their average drawn balance. Margins follow the
+          sustainability ratchet from the period each adjustment takes effect.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useApplication } from '@/contexts/ApplicationContext';
+import {
+  CONCENTRATION_LIMIT,
+  ConcentrationDimension,
+  ExposureLine,
+  LenderExposureReport as ExposureReport,
+  buildLenderExposureReport
+} from '@/lib/lender-exposure';
+import { formatCurrencyAmount } from '@/lib/fx-rates';
+import { AlertTriangle, Landmark } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const DIMENSION_LABELS: Record<ConcentrationDimension, string> = {
+  facility: 'of the facility to',
+  borrower: 'of its book in',
+  sector: 'of its book in',
+};
+
+const today = () => new Date().toISOString().substring(0, 10);
+
+function ExposureTable({ title, lines, showShare }: { title: string; lines: ExposureLine[]; showShare: boolean }) {
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-slate-700 mb-2">{title}</h4>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-slate-500 border-b border-slate-200">
+            <th className="py-1 pr-2"></th>
+            <th className="py-1 pr-2 text-right">Committed</th>
+            <th className="py-1 pr-2 text-right">Funded</th>
+            {showShare && <th className="py-1 text-right">Share</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {lines.map(line => (
+            <tr key={`${line.name}-${line.currency}`} className="border-b border-slate-100">
+              <td className="py-1 pr-2 text-slate-800">{line.name}</td>
+              <td className="py-1 pr-2 text-right">{formatCurrencyAmount(line.commitment, line.currency)}</td>
+              <td className="py-1 pr-2 text-right">{formatCurrencyAmount(line.funded, line.currency)}</td>
+              {showShare && (
+                <td className={cn('py-1 text-right', line.percentage > CONCENTRATION_LIMIT && 'text-red-600 font-semibold')}>
+                  {line.percentage.toFixed(1)}%
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function LenderExposureReport() {
+  const { state, loadPortfolioRecords, fx, reportingCurrency } = useApplication();
+  const [report, setReport] = useState<ExposureReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedLender, setSelectedLender] = useState<string | null>(null);
+
+  // Rebuild whenever the portfolio listing, the current loan's syndicate or the rates change
+  useEffect(() => {
+    let cancelled = false;
+    loadPortfolioRecords().then(records => {
+      if (cancelled) return;
+      try {
+        setReport(buildLenderExposureReport(records, today(), { fx, reportingCurrency }));
+        setError(null);
+      } catch (err) {
+        setReport(null);
+        setError(err instanceof Error ? err.message : 'Failed to build lender exposure');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [state.portfolio, state.currentLoan, state.tradingStatus, fx, reportingCurrency]);
+
+  if (error) {
+    return (
+      <Card data-testid="lender-exposure">
+        <CardContent className="py-4 text-sm text-red-700">
+          Lender exposure is unavailable: {error}
+        </CardContent>
+      </Card>
+    );
+  }
+  if (!report || report.lenders.length === 0) return null;
+
+  const lender = report.lenders.find(entry => entry.lenderName === selectedLender) ?? report.lenders[0];
+
+  return (
+    <Card data-testid="lender-exposure">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Landmark className="w-6 h-6" />
+            <span>Lender Exposure</span>
+          </div>
+          <Badge variant="secondary">
+            {new Set(report.lenders.flatMap(entry => entry.facilities.map(facility => facility.loanId))).size} loans
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {report.flags.length > 0 && (
+          <ul className="space-y-1 text-sm text-red-800 bg-red-50 border border-red-200 rounded-lg p-3" data-testid="concentration-flags">
+            {report.flags.map(flag => (
+              <li key={`${flag.lenderName}-${flag.dimension}-${flag.name}`} className="flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                {flag.lenderName} holds {flag.percentage.toFixed(1)}% {DIMENSION_LABELS[flag.dimension]} {flag.name}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-600 border-b border-slate-200">
+              <th className="py-2 pr-4">Lender</th>
+              <th className="py-2 pr-4">Committed ({report.reportingCurrency})</th>
+              <th className="py-2 pr-4">Funded ({report.reportingCurrency})</th>
+              <th className="py-2 pr-4">By currency</th>
+              <th className="py-2">Facilities</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.lenders.map(entry => (
+              <tr
+                key={entry.lenderName}
+                onClick={() => setSelectedLender(entry.lenderName)}
+                className={cn(
+                  'border-b border-slate-100 cursor-pointer hover:bg-slate-50 align-top',
+                  entry.lenderName === lender.lenderName && 'bg-blue-50'
+                )}
+                data-testid="lender-exposure-row"
+              >
+                <td className="py-2 pr-4 font-medium text-slate-900">
+                  {entry.lenderName}
+                  {report.flags.some(flag => flag.lenderName === entry.lenderName) && (
+                    <AlertTriangle className="inline w-4 h-4 ml-1 text-red-500" aria-label="Concentration" />
+                  )}
+                </td>
+                <td className="py-2 pr-4">{formatCurrencyAmount(entry.totalCommitment, report.reportingCurrency)}</td>
+                <td className="py-2 pr-4">{formatCurrencyAmount(entry.totalFunded, report.reportingCurrency)}</td>
+                <td className="py-2 pr-4 text-slate-600">
+                  {entry.byCurrency.map(line => (
+                    <div key={line.currency}>
+                      {formatCurrencyAmount(line.commitment, line.currency)} / {formatCurrencyAmount(line.funded, line.currency)}
+                    </div>
+                  ))}
+                </td>
+                <td className="py-2">{new Set(entry.facilities.map(facility => facility.loanId)).size}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6" data-testid="lender-exposure-breakdown">
+          <ExposureTable title={`${lender.lenderName} by borrower`} lines={lender.byBorrower} showShare />
+          <ExposureTable title={`${lender.lenderName} by sector`} lines={lender.bySector} showShare />
+        </div>
+        <p className="text-xs text-slate-500">
+          Funded exposure as of {report.asOf}: term facilities net of scheduled repayments, revolving facilities at their drawn balance.
+          Totals, borrower and sector shares are in {report.reportingCurrency} at that day&apos;s rates.
+          Holdings above {CONCENTRATION_LIMIT}% are flagged.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
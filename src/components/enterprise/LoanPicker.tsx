@@ -0,0 +1,60 @@
+'use client';
+
+import { useState } from 'react';
+import { useApplication } from '@/contexts/ApplicationContext';
+import { FolderOpen, Plus, AlertCircle, CheckCircle } from 'lucide-react';
+
+const NEW_LOAN_VALUE = '__new__';
+
+export function LoanPicker() {
+  const { state, loadLoan, resetState } = useApplication();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const currentLoan = state.portfolio.find(loan => loan.id === state.currentLoanId);
+
+  const handleSelect = async (value: string) => {
+    if (value === NEW_LOAN_VALUE) {
+      resetState();
+      return;
+    }
+    if (value === state.currentLoanId) return;
+
+    setIsLoading(true);
+    await loadLoan(value);
+    setIsLoading(false);
+  };
+
+  return (
+    <div className="flex items-center space-x-2 bg-slate-800/50 rounded-lg px-3 py-2 border border-slate-700" data-testid="loan-picker">
+      <FolderOpen className="w-4 h-4 text-slate-300" />
+      <select
+        value={state.currentLoanId ?? NEW_LOAN_VALUE}
+        onChange={(e) => handleSelect(e.target.value)}
+        disabled={isLoading}
+        aria-label="Select loan"
+        className="bg-transparent text-sm text-white focus:outline-none max-w-[220px]"
+      >
+        <option value={NEW_LOAN_VALUE} className="text-slate-900">
+          {state.currentLoan && !state.currentLoanId ? `${state.currentLoan.borrowerName} (unsaved)` : 'New loan…'}
+        </option>
+        {state.portfolio.map(loan => (
+          <option key={loan.id} value={loan.id} className="text-slate-900">
+            {loan.borrowerName} · {loan.currency} {loan.facilityAmount.toLocaleString()}
+          </option>
+        ))}
+      </select>
+      {currentLoan?.isInDefault && <AlertCircle className="w-4 h-4 text-red-400" />}
+      {currentLoan && !currentLoan.isInDefault && currentLoan.isVerified && <CheckCircle className="w-4 h-4 text-emerald-400" />}
+      {state.currentLoanId && (
+        <button
+          type="button"
+          onClick={() => handleSelect(NEW_LOAN_VALUE)}
+          className="text-slate-300 hover:text-white"
+          title="Start a new loan"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+}
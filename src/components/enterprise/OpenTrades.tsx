@@ -0,0 +1,160 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { FundingMemo } from '@/components/enterprise/FundingMemo';
+import { CurrencyAmount } from '@/components/enterprise/CurrencyAmount';
+import { useApplication, useLoanData, useTradingStatus } from '@/contexts/ApplicationContext';
+import {
+  TRADE_STAGE_LABELS,
+  calculateDelayedCompensation,
+  getNextStages,
+  getOpenTrades
+} from '@/lib/trade-lifecycle';
+import { getAllInRate, getPricingTerms } from '@/lib/trade-pricing';
+import { formatCurrencyAmount } from '@/lib/fx-rates';
+import { TradeRecord } from '@/types';
+import { ArrowRightLeft, ChevronDown, ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const today = () => new Date().toISOString().substring(0, 10);
+
+export function OpenTrades() {
+  const { advanceTrade, reportingCurrency, rateCurve } = useApplication();
+  const tradingStatus = useTradingStatus();
+  const loanData = useLoanData();
+  const [expandedTradeId, setExpandedTradeId] = useState<string | null>(null);
+  const [stageError, setStageError] = useState<string | null>(null);
+  const [memoTradeId, setMemoTradeId] = useState<string | null>(null);
+
+  const openTrades = getOpenTrades(tradingStatus);
+  const allInRate = getAllInRate(getPricingTerms(loanData, rateCurve));
+  const currency = loanData?.currency ?? reportingCurrency;
+
+  const handleAdvance = (trade: TradeRecord, stage: TradeRecord['stage']) => {
+    const error = advanceTrade(trade.id, stage);
+    setStageError(error ? error.message : null);
+  };
+
+  return (
+    <Card className="shadow-xl border-0 bg-gradient-to-br from-slate-50 to-white" data-testid="open-trades">
+      <CardHeader className="bg-gradient-to-r from-amber-100 to-amber-50 rounded-t-lg">
+        <CardTitle className="flex items-center justify-between text-xl">
+          <div className="flex items-center space-x-3">
+            <div className="bg-gradient-to-r from-amber-500 to-amber-600 p-2 rounded-lg">
+              <ArrowRightLeft className="w-6 h-6 text-white" />
+            </div>
+            <span className="text-slate-800">Open Trades</span>
+          </div>
+          <Badge variant="secondary">{openTrades.length} in settlement</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        {stageError && (
+          <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3" role="alert">{stageError}</p>
+        )}
+        {openTrades.length === 0 ? (
+          <p className="text-sm text-slate-500">No trades awaiting settlement.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-600 border-b border-slate-200">
+                <th className="py-2 pr-4"></th>
+                <th className="py-2 pr-4">Trade</th>
+                <th className="py-2 pr-4">Amount</th>
+                <th className="py-2 pr-4">Stage</th>
+                <th className="py-2 pr-4">Target Settlement</th>
+                <th className="py-2 pr-4">Delayed Comp.</th>
+                <th className="py-2">Next Step</th>
+              </tr>
+            </thead>
+            <tbody>
+              {openTrades.map(trade => {
+                const isExpanded = expandedTradeId === trade.id;
+                const isLate = trade.targetSettlementDate < today();
+                return (
+                  <Fragment key={trade.id}>
+                    <tr className="border-b border-slate-100 align-top" data-testid="open-trade-row">
+                      <td className="py-3 pr-2">
+                        <button
+                          type="button"
+                          onClick={() => setExpandedTradeId(isExpanded ? null : trade.id)}
+                          aria-label={`${isExpanded ? 'Hide' : 'Show'} history for ${trade.sellerName} to ${trade.buyerName}`}
+                          className="text-slate-500 hover:text-slate-800"
+                        >
+                          {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        </button>
+                      </td>
+                      <td className="py-3 pr-4">
+                        <span className="font-medium text-slate-900">{trade.sellerName} → {trade.buyerName}</span>
+                        <span className="block text-xs text-slate-500 capitalize">{trade.settlementType} · traded {trade.tradeDate}</span>
+                      </td>
+                      <td className="py-3 pr-4 text-slate-700">
+                        <CurrencyAmount amount={trade.amount} currency={currency} date={trade.tradeDate} />
+                        <span className="block text-xs text-slate-500">at {trade.price.toFixed(2)}</span>
+                      </td>
+                      <td className="py-3 pr-4">
+                        <Badge variant="outline" data-testid="trade-stage">{TRADE_STAGE_LABELS[trade.stage]}</Badge>
+                      </td>
+                      <td className={cn('py-3 pr-4', isLate ? 'text-red-600 font-semibold' : 'text-slate-700')}>
+                        {trade.targetSettlementDate}
+                        {isLate && <span className="block text-xs">Past target</span>}
+                      </td>
+                      <td className="py-3 pr-4 text-slate-700">
+                        {formatCurrencyAmount(calculateDelayedCompensation(trade, today(), allInRate), currency)}
+                      </td>
+                      <td className="py-3">
+                        <div className="flex flex-wrap gap-2">
+                          {getNextStages(trade).map(stage => (
+                            <Button
+                              key={stage}
+                              size="sm"
+                              variant={stage === 'cancelled' ? 'outline' : 'default'}
+                              onClick={() => handleAdvance(trade, stage)}
+                            >
+                              {stage === 'cancelled' ? 'Cancel' : TRADE_STAGE_LABELS[stage]}
+                            </Button>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="bg-slate-50">
+                        <td></td>
+                        <td colSpan={6} className="py-3">
+                          <ol className="space-y-1 text-xs text-slate-600" data-testid="trade-history">
+                            {trade.history.map(change => (
+                              <li key={`${change.stage}-${change.timestamp}`}>
+                                <span className="font-medium text-slate-800">{TRADE_STAGE_LABELS[change.stage]}</span>
+                                {' · '}{new Date(change.timestamp).toLocaleString()}
+                                {change.note && ` · ${change.note}`}
+                              </li>
+                            ))}
+                          </ol>
+                          <button
+                            type="button"
+                            onClick={() => setMemoTradeId(memoTradeId === trade.id ? null : trade.id)}
+                            className="mt-2 text-xs text-blue-700 hover:underline"
+                          >
+                            Funding Memo
+                          </button>
+                          {memoTradeId === trade.id && (
+                            <div className="mt-3">
+                              <FundingMemo trade={trade} onClose={() => setMemoTradeId(null)} />
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { CalendarClock } from 'lucide-react';
+import { getOutstandingBalances } from '@/lib/repayment-schedule';
+import { formatCurrencyAmount } from '@/lib/fx-rates';
+import { LoanData, getTotalFacilityAmount } from '@/types';
+
+interface RepaymentScheduleViewProps {
+  loan: LoanData;
+}
+
+const formatAmount = (amount: number, currency: string) => `${formatCurrencyAmount(amount / 1000000, currency, 2)}M`;
+
+export function RepaymentScheduleView({ loan }: RepaymentScheduleViewProps) {
+  const balances = getOutstandingBalances(loan);
+  const facilityAmount = getTotalFacilityAmount(loan);
+
+  const keyDates = [
+    { label: 'Signing Date', value: loan.signingDate },
+    { label: 'Availability Period End', value: loan.availabilityPeriodEnd },
+    { label: 'Termination Date', value: loan.terminationDate },
+  ];
+
+  return (
+    <Card className="shadow-xl border-0 bg-gradient-to-br from-slate-50 to-white" data-testid="repayment-schedule">
+      <CardHeader className="bg-gradient-to-r from-slate-100 to-slate-50 rounded-t-lg">
+        <CardTitle className="flex items-center justify-between text-xl">
+          <div className="flex items-center space-x-3">
+            <div className="bg-gradient-to-r from-teal-500 to-teal-600 p-2 rounded-lg">
+              <CalendarClock className="w-6 h-6 text-white" />
+            </div>
+            <span className="text-slate-800">Repayment Schedule</span>
+          </div>
+          {loan.repaymentSchedule && (
+            <Badge variant="secondary" className="capitalize">{loan.repaymentSchedule.type}</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6 p-8">
+        <div className="grid grid-cols-3 gap-4">
+          {keyDates.map(({ label, value }) => (
+            <div key={label} className="bg-white rounded-lg p-4 shadow-md">
+              <p className="text-sm text-slate-600">{label}</p>
+              <p className="text-lg font-semibold text-slate-800">{value || '—'}</p>
+            </div>
+          ))}
+        </div>
+
+        {balances.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-600 border-b border-slate-200">
+                  <th className="py-2 pr-4">Date</th>
+                  <th className="py-2 pr-4">Repayment</th>
+                  <th className="py-2 pr-4">Outstanding</th>
+                  <th className="py-2 w-1/3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {balances.map((point, index) => (
+                  <tr key={`${point.date}-${index}`} className="border-b border-slate-100" data-testid="repayment-row">
+                    <td className="py-2 pr-4 font-medium text-slate-800">{point.date}</td>
+                    <td className="py-2 pr-4 text-slate-700">{point.repayment > 0 ? formatAmount(point.repayment, loan.currency) : '—'}</td>
+                    <td className="py-2 pr-4 text-slate-700">{formatAmount(point.outstanding, loan.currency)}</td>
+                    <td className="py-2">
+                      <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-teal-500 rounded-full"
+                          style={{ width: `${facilityAmount > 0 ? (point.outstanding / facilityAmount) * 100 : 0}%` }}
+                        />
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">No repayment schedule has been extracted for this loan.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
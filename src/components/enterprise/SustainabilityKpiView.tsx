@@ -0,0 +1,233 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Leaf } from 'lucide-react';
+import { useApplication } from '@/contexts/ApplicationContext';
+import { defaultEnterpriseConfig } from '@/config/enterprise-config';
+import { assessTestPeriod, generateKpiId } from '@/lib/sustainability-kpis';
+import { KpiDirection, LoanData, SustainabilityKpi, SustainabilityPerformanceTarget } from '@/types';
+
+interface SustainabilityKpiViewProps {
+  loan: LoanData;
+}
+
+const formatBps = (bps: number): string => `${bps > 0 ? '+' : ''}${bps} bps`;
+
+// "2026: 45, 2027: 40" into targets; null when any entry does not parse
+const parseTargets = (text: string): SustainabilityPerformanceTarget[] | null => {
+  const entries = text.split(',').map(entry => entry.trim()).filter(Boolean);
+  const targets = entries.map(entry => {
+    const [year, target] = entry.split(':').map(part => Number(part.trim()));
+    return { testYear: year, target };
+  });
+  return targets.length > 0 && targets.every(({ testYear, target }) => Number.isInteger(testYear) && Number.isFinite(target))
+    ? targets
+    : null;
+};
+
+export function SustainabilityKpiView({ loan }: SustainabilityKpiViewProps) {
+  const { state, setSustainabilityTerms } = useApplication();
+  const terms = loan.sustainabilityTerms;
+  const reports = state.esgStatus.kpiReports ?? [];
+  const defaultRatchetBps = defaultEnterpriseConfig.business.esgDiscountRate * 100;
+
+  // KPI framework set-up
+  const [drafts, setDrafts] = useState<SustainabilityKpi[]>([]);
+  const [metric, setMetric] = useState('');
+  const [unit, setUnit] = useState('');
+  const [direction, setDirection] = useState<KpiDirection>('decrease');
+  const [baselineYear, setBaselineYear] = useState('');
+  const [baselineValue, setBaselineValue] = useState('');
+  const [targets, setTargets] = useState('');
+  const [weighting, setWeighting] = useState('');
+  const [ratchetDownBps, setRatchetDownBps] = useState(String(defaultRatchetBps));
+  const [ratchetUpBps, setRatchetUpBps] = useState(String(defaultRatchetBps));
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAddKpi = () => {
+    const parsedTargets = parseTargets(targets);
+    if (!metric.trim() || !parsedTargets) {
+      setError('Enter a metric and targets as year: value pairs, e.g. 2026: 45, 2027: 40');
+      return;
+    }
+    setDrafts(prev => [...prev, {
+      id: generateKpiId(),
+      metric: metric.trim(),
+      unit: unit.trim(),
+      direction,
+      baselineYear: Number(baselineYear),
+      baselineValue: baselineValue.trim() === '' ? null : Number(baselineValue),
+      targets: parsedTargets,
+      weighting: Number(weighting),
+    }]);
+    setMetric('');
+    setUnit('');
+    setBaselineValue('');
+    setTargets('');
+    setWeighting('');
+    setError(null);
+  };
+
+  const handleSaveFramework = () => {
+    const rejected = setSustainabilityTerms({
+      kpis: drafts,
+      ratchetDownBps: Number(ratchetDownBps),
+      ratchetUpBps: Number(ratchetUpBps),
+    });
+    setError(rejected ? rejected.message : null);
+    if (!rejected) setDrafts([]);
+  };
+
+  const kpiRows = terms?.kpis ?? drafts;
+
+  return (
+    <Card className="shadow-lg" data-testid="sustainability-kpis">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Leaf className="w-6 h-6" />
+          <span>Sustainability KPIs</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {terms ? (
+          <p className="text-sm text-slate-600" data-testid="ratchet-terms">
+            Margin steps down by up to {terms.ratchetDownBps} bps when every KPI tested meets its target and up by
+            up to {terms.ratchetUpBps} bps when every KPI misses, each KPI moving its own discount or its weighting&apos;s share.
+            {terms.maxDiscountBps !== undefined && ` The total discount is capped at ${terms.maxDiscountBps} bps.`}
+          </p>
+        ) : (
+          <p className="text-sm text-slate-600">
+            Set up the loan&apos;s KPIs, their sustainability performance targets and the margin ratchet to price it
+            on reported performance.
+          </p>
+        )}
+
+        {kpiRows.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-600 border-b border-slate-200">
+                  <th className="py-2 pr-4">KPI</th>
+                  <th className="py-2 pr-4">Baseline</th>
+                  <th className="py-2 pr-4">Targets</th>
+                  <th className="py-2 text-right">Weighting</th>
+                </tr>
+              </thead>
+              <tbody>
+                {kpiRows.map(kpi => (
+                  <tr key={kpi.id} className="border-b border-slate-100" data-testid="kpi-row">
+                    <td className="py-2 pr-4 text-slate-800">
+                      {kpi.metric}
+                      <span className="ml-2 text-xs text-slate-500">{kpi.direction === 'decrease' ? 'lower is better' : 'higher is better'}</span>
+                    </td>
+                    <td className="py-2 pr-4 text-slate-700">{kpi.baselineValue === null ? 'Not stated' : `${kpi.baselineValue} ${kpi.unit}`} ({kpi.baselineYear})</td>
+                    <td className="py-2 pr-4 text-slate-700">
+                      {kpi.targets.map(target => `${target.testYear}: ${target.target}`).join(', ')} {kpi.unit}
+                    </td>
+                    <td className="py-2 text-right text-slate-800">
+                      {kpi.weighting}%{kpi.discountBps !== undefined && ` (${kpi.discountBps} bps)`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {!terms && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <Input placeholder="Metric" value={metric} onChange={(e) => setMetric(e.target.value)} aria-label="Metric" data-testid="kpi-metric-input" />
+              <Input placeholder="Unit" value={unit} onChange={(e) => setUnit(e.target.value)} aria-label="Unit" data-testid="kpi-unit-input" />
+              <select
+                value={direction}
+                onChange={(e) => setDirection(e.target.value as KpiDirection)}
+                className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                aria-label="Direction"
+                data-testid="kpi-direction-select"
+              >
+                <option value="decrease">Lower is better</option>
+                <option value="increase">Higher is better</option>
+              </select>
+              <Input type="number" placeholder="Weighting %" value={weighting} onChange={(e) => setWeighting(e.target.value)} aria-label="Weighting" data-testid="kpi-weighting-input" />
+              <Input type="number" placeholder="Baseline year" value={baselineYear} onChange={(e) => setBaselineYear(e.target.value)} aria-label="Baseline year" data-testid="kpi-baseline-year-input" />
+              <Input type="number" placeholder="Baseline value" value={baselineValue} onChange={(e) => setBaselineValue(e.target.value)} aria-label="Baseline value" data-testid="kpi-baseline-value-input" />
+              <Input placeholder="Targets, e.g. 2026: 45, 2027: 40" value={targets} onChange={(e) => setTargets(e.target.value)} aria-label="Targets" className="md:col-span-2" data-testid="kpi-targets-input" />
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <Button variant="outline" onClick={handleAddKpi} data-testid="add-kpi-button">Add KPI</Button>
+              <label className="text-sm text-slate-600 flex items-center gap-2">
+                Step-down bps
+                <Input type="number" value={ratchetDownBps} onChange={(e) => setRatchetDownBps(e.target.value)} className="w-24" data-testid="ratchet-down-input" />
+              </label>
+              <label className="text-sm text-slate-600 flex items-center gap-2">
+                Step-up bps
+                <Input type="number" value={ratchetUpBps} onChange={(e) => setRatchetUpBps(e.target.value)} className="w-24" data-testid="ratchet-up-input" />
+              </label>
+              <Button onClick={handleSaveFramework} disabled={drafts.length === 0} className="bg-green-600 hover:bg-green-700" data-testid="save-kpis-button">
+                Save KPI framework
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600" data-testid="kpi-error">{error}</p>}
+
+        {terms && reports.map(report => {
+          const result = assessTestPeriod(terms, report);
+          return (
+            <div key={report.testYear} className="space-y-2" data-testid="kpi-test-result">
+              <div className="flex items-center justify-between">
+                <h4 className="font-semibold text-slate-800">{report.testYear} test period</h4>
+                <Badge variant="secondary" className={result.adjustmentBps <= 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}>
+                  {formatBps(result.adjustmentBps)}
+                </Badge>
+              </div>
+              {result.assessments.map(assessment => (
+                <div key={assessment.kpiId} className="flex justify-between text-sm">
+                  <span className="text-slate-700">
+                    {assessment.metric}: {assessment.value ?? 'not reported'} against {assessment.target} {assessment.unit}
+                  </span>
+                  <span className={assessment.met ? 'text-green-700' : 'text-red-700'}>
+                    {assessment.met ? 'Met' : 'Missed'} ({formatBps(assessment.adjustmentBps)})
+                  </span>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+
+        {(loan.marginHistory ?? []).length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-600 border-b border-slate-200">
+                <th className="py-2 pr-4">Effective</th>
+                <th className="py-2 pr-4">Basis</th>
+                <th className="py-2 pr-4 text-right">Adjustment</th>
+                <th className="py-2 text-right">Margin</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(loan.marginHistory ?? []).map((entry, index) => (
+                <tr key={`${entry.effectiveDate}-${index}`} className="border-b border-slate-100" data-testid="margin-history-row">
+                  <td className="py-2 pr-4 text-slate-800">{entry.effectiveDate}</td>
+                  <td className="py-2 pr-4 text-slate-700">{entry.testYear ? `${entry.testYear} KPIs` : 'ESG target verified'}</td>
+                  <td className="py-2 pr-4 text-right text-slate-700">{formatBps(entry.adjustmentBps)}</td>
+                  <td className="py-2 text-right font-medium text-slate-800">{entry.margin.toFixed(2)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <p className="text-xs text-slate-500">
+          Unreported KPIs count as missed. Each test year&apos;s adjustment replaces the last and takes effect from the
+          next interest period after its certificate is accepted.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,247 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Scale } from 'lucide-react';
+import { useApplication } from '@/contexts/ApplicationContext';
+import {
+  AlignmentStatus,
+  OBJECTIVE_LABELS,
+  SAFEGUARD_LABELS,
+  buildTaxonomyAlignmentReport,
+  classifyNaceCode,
+  generateUseOfProceedsId,
+  getDnshObjectives,
+  getTaxonomyActivity
+} from '@/lib/eu-taxonomy';
+import { formatCurrencyAmount } from '@/lib/fx-rates';
+import { EnvironmentalObjective, LoanData, SafeguardTopic, TaxonomyScreening } from '@/types';
+
+interface TaxonomyAlignmentViewProps {
+  loan: LoanData;
+}
+
+const STATUS_STYLES: Record<AlignmentStatus, { label: string; className: string }> = {
+  aligned: { label: 'Aligned', className: 'bg-green-100 text-green-800' },
+  eligible: { label: 'Eligible, not aligned', className: 'bg-amber-100 text-amber-800' },
+  not_eligible: { label: 'Not eligible', className: 'bg-slate-100 text-slate-700' },
+};
+
+const EMPTY_SCREENING: TaxonomyScreening = { useOfProceeds: [], minimumSafeguards: {} };
+
+// Loan-level shares are unknown when a facility currency has no FX rate
+const formatShare = (percentage: number | null): string => (percentage !== null ? `${percentage.toFixed(1)}%` : '—');
+
+export function TaxonomyAlignmentView({ loan }: TaxonomyAlignmentViewProps) {
+  const { fx, setTaxonomyScreening } = useApplication();
+  const screening = loan.taxonomyScreening ?? EMPTY_SCREENING;
+  const report = buildTaxonomyAlignmentReport(loan, { fx });
+  const tranches = loan.tranches ?? [];
+
+  // New use of proceeds
+  const [trancheId, setTrancheId] = useState(tranches[0]?.id ?? '');
+  const [description, setDescription] = useState('');
+  const [naceCode, setNaceCode] = useState('');
+  const [activityId, setActivityId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [metricValue, setMetricValue] = useState('');
+  const [criteriaConfirmed, setCriteriaConfirmed] = useState(false);
+  const [dnsh, setDnsh] = useState<Partial<Record<EnvironmentalObjective, boolean>>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const candidates = classifyNaceCode(naceCode);
+  // The first matching activity unless another is picked; '' is not eligible
+  const selectedActivityId = candidates.some(activity => activity.id === activityId) ? activityId : candidates[0]?.id ?? '';
+  const activity = selectedActivityId ? getTaxonomyActivity(selectedActivityId) : null;
+
+  const save = (next: TaxonomyScreening): boolean => {
+    const rejected = setTaxonomyScreening(next);
+    setError(rejected ? rejected.message : null);
+    return !rejected;
+  };
+
+  const handleSafeguard = (topic: SafeguardTopic, met: boolean) => {
+    save({ ...screening, minimumSafeguards: { ...screening.minimumSafeguards, [topic]: met } });
+  };
+
+  const handleAdd = () => {
+    const added = save({
+      ...screening,
+      useOfProceeds: [...screening.useOfProceeds, {
+        id: generateUseOfProceedsId(),
+        trancheId: tranches.length > 0 ? trancheId : null,
+        description: description.trim(),
+        naceCode: naceCode.trim(),
+        activityId: activity?.id ?? null,
+        amount: Number(amount),
+        metricValue: activity?.threshold && metricValue.trim() !== '' ? Number(metricValue) : null,
+        criteriaConfirmed: Boolean(activity && !activity.threshold && criteriaConfirmed),
+        dnsh: activity ? dnsh : {},
+      }],
+    });
+    if (added) {
+      setDescription('');
+      setNaceCode('');
+      setActivityId('');
+      setAmount('');
+      setMetricValue('');
+      setCriteriaConfirmed(false);
+      setDnsh({});
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    save({ ...screening, useOfProceeds: screening.useOfProceeds.filter(entry => entry.id !== id) });
+  };
+
+  return (
+    <Card className="shadow-lg" data-testid="taxonomy-alignment">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Scale className="w-6 h-6" />
+            <span>EU Taxonomy Alignment</span>
+          </div>
+          <Badge variant="secondary" className="bg-green-100 text-green-800" data-testid="taxonomy-aligned-percentage">
+            {formatShare(report.alignedPercentage)} aligned
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6 text-sm">
+        <fieldset className="space-y-1">
+          <legend className="font-medium text-slate-700">Minimum safeguards in place</legend>
+          {(Object.keys(SAFEGUARD_LABELS) as SafeguardTopic[]).map(topic => (
+            <label key={topic} className="flex items-center space-x-2 text-slate-600">
+              <input
+                type="checkbox"
+                checked={Boolean(screening.minimumSafeguards[topic])}
+                onChange={(e) => handleSafeguard(topic, e.target.checked)}
+                data-testid={`safeguard-${topic}`}
+              />
+              <span>{SAFEGUARD_LABELS[topic]}</span>
+            </label>
+          ))}
+        </fieldset>
+
+        <div className="space-y-3 p-4 bg-slate-50 rounded-lg">
+          <h4 className="font-medium text-slate-700">Add use of proceeds</h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {tranches.length > 0 && (
+              <select
+                value={trancheId}
+                onChange={(e) => setTrancheId(e.target.value)}
+                className="px-3 py-2 border border-slate-300 rounded-lg"
+                aria-label="Facility"
+                data-testid="proceeds-facility-select"
+              >
+                {tranches.map(tranche => <option key={tranche.id} value={tranche.id}>{tranche.name}</option>)}
+              </select>
+            )}
+            <Input placeholder="Description" value={description} onChange={(e) => setDescription(e.target.value)} aria-label="Description" data-testid="proceeds-description-input" />
+            <Input placeholder="NACE code, e.g. D35.11" value={naceCode} onChange={(e) => setNaceCode(e.target.value)} aria-label="NACE code" data-testid="proceeds-nace-input" />
+            <select
+              value={selectedActivityId}
+              onChange={(e) => setActivityId(e.target.value)}
+              className="px-3 py-2 border border-slate-300 rounded-lg"
+              aria-label="Taxonomy activity"
+              data-testid="proceeds-activity-select"
+            >
+              {candidates.map(candidate => <option key={candidate.id} value={candidate.id}>{candidate.id} {candidate.name}</option>)}
+              <option value="">Not taxonomy-eligible</option>
+            </select>
+            <Input type="number" placeholder="Amount" value={amount} onChange={(e) => setAmount(e.target.value)} aria-label="Amount" data-testid="proceeds-amount-input" />
+            {activity?.threshold && (
+              <Input
+                type="number"
+                placeholder={`${activity.threshold.metric} (${activity.threshold.unit})`}
+                value={metricValue}
+                onChange={(e) => setMetricValue(e.target.value)}
+                aria-label={activity.threshold.metric}
+                data-testid="proceeds-metric-input"
+              />
+            )}
+          </div>
+          {activity && (
+            <div className="space-y-2">
+              <p className="text-slate-600">{activity.criteria}</p>
+              {!activity.threshold && (
+                <label className="flex items-center space-x-2 text-slate-600">
+                  <input
+                    type="checkbox"
+                    checked={criteriaConfirmed}
+                    onChange={(e) => setCriteriaConfirmed(e.target.checked)}
+                    data-testid="proceeds-criteria-checkbox"
+                  />
+                  <span>Technical screening criteria met</span>
+                </label>
+              )}
+              <fieldset className="grid grid-cols-1 md:grid-cols-2 gap-1">
+                <legend className="font-medium text-slate-700">Does no significant harm to</legend>
+                {getDnshObjectives(activity).map(objective => (
+                  <label key={objective} className="flex items-center space-x-2 text-slate-600">
+                    <input
+                      type="checkbox"
+                      checked={Boolean(dnsh[objective])}
+                      onChange={(e) => setDnsh(prev => ({ ...prev, [objective]: e.target.checked }))}
+                      data-testid={`proceeds-dnsh-${objective}`}
+                    />
+                    <span>{OBJECTIVE_LABELS[objective]}</span>
+                  </label>
+                ))}
+              </fieldset>
+            </div>
+          )}
+          <Button onClick={handleAdd} className="bg-green-600 hover:bg-green-700" data-testid="add-proceeds-button">Add</Button>
+        </div>
+
+        {error && <p className="text-red-600" data-testid="taxonomy-error">{error}</p>}
+
+        <div className="space-y-4" data-testid="taxonomy-report">
+          {report.facilities.map(facility => (
+            <div key={facility.facilityId ?? 'facility'} className="space-y-2" data-testid="taxonomy-facility">
+              <div className="flex items-center justify-between border-b border-slate-200 pb-1">
+                <h4 className="font-semibold text-slate-800">
+                  {facility.name} ({formatCurrencyAmount(facility.amount, facility.currency)})
+                </h4>
+                <span className="text-slate-700">
+                  {facility.eligiblePercentage.toFixed(1)}% eligible, {facility.alignedPercentage.toFixed(1)}% aligned
+                </span>
+              </div>
+              {facility.assessments.map(assessment => (
+                <div key={assessment.useOfProceeds.id} className="flex items-start justify-between gap-4" data-testid="taxonomy-proceeds-row">
+                  <div>
+                    <p className="text-slate-800">
+                      {assessment.useOfProceeds.description}: {formatCurrencyAmount(assessment.useOfProceeds.amount, facility.currency)}
+                      <span className="ml-2 text-xs text-slate-500">
+                        NACE {assessment.useOfProceeds.naceCode}{assessment.activity && `, activity ${assessment.activity.id}`}
+                      </span>
+                    </p>
+                    {assessment.gaps.length > 0 && <p className="text-xs text-amber-700">{assessment.gaps.join('; ')}</p>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary" className={STATUS_STYLES[assessment.status].className}>
+                      {STATUS_STYLES[assessment.status].label}
+                    </Badge>
+                    <Button size="sm" variant="ghost" onClick={() => handleRemove(assessment.useOfProceeds.id)}>Remove</Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+          <p className="font-semibold text-slate-900" data-testid="taxonomy-loan-total">
+            Loan: {formatShare(report.eligiblePercentage)} taxonomy-eligible, {formatShare(report.alignedPercentage)} aligned
+          </p>
+        </div>
+
+        <p className="text-xs text-slate-500">
+          Proceeds are screened against the climate change mitigation activities of the Climate Delegated Act. An activity
+          is aligned when it meets the technical screening criteria, does no significant harm to the other five
+          objectives and the borrower meets the minimum safeguards. Proceeds not screened count as neither.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
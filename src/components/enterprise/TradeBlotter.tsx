@@ -0,0 +1,202 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { FundingMemo } from '@/components/enterprise/FundingMemo';
+import { CurrencyAmount } from '@/components/enterprise/CurrencyAmount';
+import { useApplication, useLoanData, useTradingStatus } from '@/contexts/ApplicationContext';
+import { logTradeExport } from '@/actions/trade-blotter';
+import { TRADE_STAGE_LABELS } from '@/lib/trade-lifecycle';
+import {
+  TRADE_BLOTTER_STATUS_LABELS,
+  TradeBlotterFilter,
+  TradeBlotterStatus,
+  TradeExportFormat,
+  exportTrades,
+  filterTrades,
+  getTradeStatus
+} from '@/lib/trade-blotter';
+import { Download, ScrollText } from 'lucide-react';
+
+const STATUS_BADGE_CLASSES: Record<TradeBlotterStatus, string> = {
+  open: 'bg-amber-100 text-amber-800',
+  settled: 'bg-green-100 text-green-800',
+  cancelled: 'bg-slate-100 text-slate-700',
+};
+
+const MIME_TYPES: Record<TradeExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+// Hand the file to the browser; jsdom has no object URLs
+const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  if (typeof URL.createObjectURL !== 'function') return;
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export function TradeBlotter() {
+  const tradingStatus = useTradingStatus();
+  const loanData = useLoanData();
+  const { reportingCurrency } = useApplication();
+  const [filter, setFilter] = useState<TradeBlotterFilter>({});
+  const [memoTradeId, setMemoTradeId] = useState<string | null>(null);
+
+  const allTrades = tradingStatus.trades ?? [];
+  const trades = filterTrades(allTrades, filter);
+
+  const updateFilter = (changes: TradeBlotterFilter) => {
+    setFilter(previous => ({ ...previous, ...changes }));
+  };
+
+  const handleExport = async (format: TradeExportFormat) => {
+    downloadFile(exportTrades(trades, format), `trade-blotter.${format}`, MIME_TYPES[format]);
+    try {
+      await logTradeExport({
+        borrower: loanData?.borrowerName ?? '',
+        format,
+        tradeIds: trades.map(trade => trade.id),
+        filter,
+      });
+    } catch (error) {
+      console.error('Failed to record trade export:', error);
+    }
+  };
+
+  if (allTrades.length === 0) return null;
+
+  return (
+    <Card data-testid="trade-blotter">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <ScrollText className="w-6 h-6" />
+            <span>Trade Blotter</span>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => handleExport('csv')} data-testid="export-csv-button">
+              <Download className="w-4 h-4 mr-1" />
+              Export CSV
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => handleExport('json')} data-testid="export-json-button">
+              <Download className="w-4 h-4 mr-1" />
+              Export JSON
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <Input
+            placeholder="Counterparty"
+            value={filter.counterparty ?? ''}
+            onChange={(e) => updateFilter({ counterparty: e.target.value || undefined })}
+            aria-label="Counterparty"
+            data-testid="blotter-counterparty-filter"
+          />
+          <Input
+            type="date"
+            value={filter.from ?? ''}
+            onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+            aria-label="Traded from"
+            data-testid="blotter-from-filter"
+          />
+          <Input
+            type="date"
+            value={filter.to ?? ''}
+            onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+            aria-label="Traded to"
+            data-testid="blotter-to-filter"
+          />
+          <select
+            value={filter.status ?? ''}
+            onChange={(e) => updateFilter({ status: (e.target.value || undefined) as TradeBlotterStatus | undefined })}
+            className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+            aria-label="Status"
+            data-testid="blotter-status-filter"
+          >
+            <option value="">All statuses</option>
+            {(Object.keys(TRADE_BLOTTER_STATUS_LABELS) as TradeBlotterStatus[]).map(status => (
+              <option key={status} value={status}>{TRADE_BLOTTER_STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+        </div>
+
+        {trades.length === 0 ? (
+          <p className="text-sm text-slate-500">No trades match these filters.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-600 border-b border-slate-200">
+                <th className="py-2 pr-4">Trade</th>
+                <th className="py-2 pr-4">Counterparties</th>
+                <th className="py-2 pr-4">Amount</th>
+                <th className="py-2 pr-4">Price</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2 pr-4">Traded</th>
+                <th className="py-2">Settled</th>
+              </tr>
+            </thead>
+            <tbody>
+              {trades.map(trade => {
+                const status = getTradeStatus(trade);
+                const updatedAt = trade.history[trade.history.length - 1]?.timestamp;
+                return (
+                  <Fragment key={trade.id}>
+                    <tr className="border-b border-slate-100 align-top" data-testid="blotter-row">
+                      <td className="py-3 pr-4 font-mono text-xs text-slate-500">{trade.id}</td>
+                      <td className="py-3 pr-4 font-medium text-slate-900">{trade.sellerName} to {trade.buyerName}</td>
+                      <td className="py-3 pr-4">
+                        <CurrencyAmount amount={trade.amount} currency={loanData?.currency ?? reportingCurrency} date={trade.tradeDate} />
+                      </td>
+                      <td className="py-3 pr-4">{trade.price.toFixed(2)}</td>
+                      <td className="py-3 pr-4">
+                        <Badge variant="default" className={STATUS_BADGE_CLASSES[status]}>
+                          {TRADE_STAGE_LABELS[trade.stage]}
+                        </Badge>
+                        {updatedAt && (
+                          <span className="block text-xs text-slate-400 mt-1">{new Date(updatedAt).toLocaleString()}</span>
+                        )}
+                      </td>
+                      <td className="py-3 pr-4">{trade.tradeDate}</td>
+                      <td className="py-3">
+                        {trade.settlementDate ?? '—'}
+                        {status === 'settled' && (
+                          <button
+                            type="button"
+                            onClick={() => setMemoTradeId(memoTradeId === trade.id ? null : trade.id)}
+                            className="block mt-1 text-xs text-blue-700 hover:underline"
+                          >
+                            Funding Memo
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {memoTradeId === trade.id && (
+                      <tr>
+                        <td colSpan={7} className="py-3">
+                          <FundingMemo trade={trade} onClose={() => setMemoTradeId(null)} />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+        <p className="text-xs text-slate-500">
+          {trades.length} of {allTrades.length} trades
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,243 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useApplication, useLoanData } from '@/contexts/ApplicationContext';
+import { LENDER_CATEGORY_LABELS, getTradeLimits } from '@/lib/transfer-restrictions';
+import { formatCurrencyAmount } from '@/lib/fx-rates';
+import { ConsentException, LenderCategory, TransferRestrictions } from '@/types';
+import { ShieldCheck } from 'lucide-react';
+
+const CONSENT_EXCEPTION_LABELS: Record<ConsentException, string> = {
+  existing_lender: 'Transfers to an existing lender',
+  affiliate: 'Transfers to an affiliate of a lender',
+  event_of_default: 'While an event of default is continuing',
+};
+
+const EMPTY_RESTRICTIONS: TransferRestrictions = {
+  borrowerConsentRequired: false,
+  consentExceptions: [],
+  prohibitedCategories: [],
+  approvedLenders: [],
+  restrictedLenders: [],
+};
+
+const parseNames = (value: string): string[] =>
+  value.split(/[;\n]/).map(name => name.trim()).filter(name => name.length > 0);
+
+const toggle = <T,>(values: T[], value: T, included: boolean): T[] =>
+  included ? [...values.filter(existing => existing !== value), value] : values.filter(existing => existing !== value);
+
+export function TransferRestrictionsPanel() {
+  const { setTransferRestrictions, reportingCurrency } = useApplication();
+  const loanData = useLoanData();
+  const formatCurrency = (amount: number): string => formatCurrencyAmount(amount, loanData?.currency ?? reportingCurrency);
+  const [draft, setDraft] = useState<TransferRestrictions | null>(null);
+  // Lender lists are edited as free text and parsed on save
+  const [restrictedText, setRestrictedText] = useState('');
+  const [approvedText, setApprovedText] = useState('');
+
+  const restrictions = loanData?.transferRestrictions;
+  const limits = getTradeLimits(restrictions);
+
+  const handleSave = () => {
+    if (!draft) return;
+    setTransferRestrictions({
+      ...draft,
+      restrictedLenders: parseNames(restrictedText),
+      approvedLenders: parseNames(approvedText),
+    });
+    setDraft(null);
+  };
+
+  const handleEdit = () => {
+    const current = restrictions ?? EMPTY_RESTRICTIONS;
+    setDraft(current);
+    setRestrictedText(current.restrictedLenders.join('\n'));
+    setApprovedText(current.approvedLenders.join('\n'));
+  };
+
+  const updateAmount = (field: 'minimumTransferAmount' | 'minimumHoldAmount', value: string) => {
+    if (!draft) return;
+    const amount = parseFloat(value);
+    const updated = { ...draft };
+    if (Number.isFinite(amount) && amount > 0) {
+      updated[field] = amount;
+    } else {
+      delete updated[field];
+    }
+    setDraft(updated);
+  };
+
+  return (
+    <Card className="shadow-xl border-0 bg-gradient-to-br from-slate-50 to-white" data-testid="transfer-restrictions">
+      <CardHeader className="bg-gradient-to-r from-violet-100 to-violet-50 rounded-t-lg">
+        <CardTitle className="flex items-center justify-between text-xl">
+          <div className="flex items-center space-x-3">
+            <div className="bg-gradient-to-r from-violet-500 to-violet-600 p-2 rounded-lg">
+              <ShieldCheck className="w-6 h-6 text-white" />
+            </div>
+            <span className="text-slate-800">Transfer Restrictions</span>
+          </div>
+          {restrictions && (
+            <Badge variant="secondary">
+              {restrictions.borrowerConsentRequired ? 'Borrower consent' : 'Free transferability'}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4 text-sm">
+        {draft ? (
+          <div className="space-y-4" data-testid="transfer-restrictions-editor">
+            <label className="flex items-center space-x-2 font-medium text-slate-700">
+              <input
+                type="checkbox"
+                checked={draft.borrowerConsentRequired}
+                onChange={(e) => setDraft({ ...draft, borrowerConsentRequired: e.target.checked })}
+              />
+              <span>Borrower consent required</span>
+            </label>
+
+            <fieldset className="space-y-1">
+              <legend className="font-medium text-slate-700">Consent not required for</legend>
+              {(Object.keys(CONSENT_EXCEPTION_LABELS) as ConsentException[]).map(exception => (
+                <label key={exception} className="flex items-center space-x-2 text-slate-600">
+                  <input
+                    type="checkbox"
+                    checked={draft.consentExceptions.includes(exception)}
+                    onChange={(e) => setDraft({ ...draft, consentExceptions: toggle(draft.consentExceptions, exception, e.target.checked) })}
+                  />
+                  <span>{CONSENT_EXCEPTION_LABELS[exception]}</span>
+                </label>
+              ))}
+            </fieldset>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label className="block text-slate-700">
+                Minimum transfer (USD)
+                <Input
+                  type="number"
+                  min="0"
+                  value={draft.minimumTransferAmount ?? ''}
+                  onChange={(e) => updateAmount('minimumTransferAmount', e.target.value)}
+                  className="mt-1"
+                />
+              </label>
+              <label className="block text-slate-700">
+                Minimum hold (USD)
+                <Input
+                  type="number"
+                  min="0"
+                  value={draft.minimumHoldAmount ?? ''}
+                  onChange={(e) => updateAmount('minimumHoldAmount', e.target.value)}
+                  className="mt-1"
+                />
+              </label>
+            </div>
+
+            <fieldset className="space-y-1">
+              <legend className="font-medium text-slate-700">Prohibited transferees</legend>
+              {(Object.keys(LENDER_CATEGORY_LABELS) as LenderCategory[]).map(category => (
+                <label key={category} className="flex items-center space-x-2 text-slate-600">
+                  <input
+                    type="checkbox"
+                    checked={draft.prohibitedCategories.includes(category)}
+                    onChange={(e) => setDraft({ ...draft, prohibitedCategories: toggle(draft.prohibitedCategories, category, e.target.checked) })}
+                  />
+                  <span>{LENDER_CATEGORY_LABELS[category]}</span>
+                </label>
+              ))}
+            </fieldset>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label className="block text-slate-700">
+                Restricted lenders (one per line)
+                <textarea
+                  value={restrictedText}
+                  onChange={(e) => setRestrictedText(e.target.value)}
+                  data-testid="restricted-lenders-input"
+                  rows={3}
+                  className="mt-1 w-full p-2 border border-slate-200 rounded-lg"
+                />
+              </label>
+              <label className="block text-slate-700">
+                Approved lenders (one per line)
+                <textarea
+                  value={approvedText}
+                  onChange={(e) => setApprovedText(e.target.value)}
+                  rows={3}
+                  className="mt-1 w-full p-2 border border-slate-200 rounded-lg"
+                />
+              </label>
+            </div>
+
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleSave} data-testid="save-transfer-restrictions">Save Restrictions</Button>
+              <Button size="sm" variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            {restrictions ? (
+              <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-3">
+                <div>
+                  <dt className="text-slate-500">Borrower consent</dt>
+                  <dd className="font-medium text-slate-800">
+                    {restrictions.borrowerConsentRequired
+                      ? `Required${restrictions.deemedConsentDays ? `, deemed after ${restrictions.deemedConsentDays} business days` : ''}`
+                      : 'Not required'}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-slate-500">Consent exceptions</dt>
+                  <dd className="font-medium text-slate-800">
+                    {restrictions.consentExceptions.length > 0
+                      ? restrictions.consentExceptions.map(exception => CONSENT_EXCEPTION_LABELS[exception]).join('; ')
+                      : 'None'}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-slate-500">Minimum transfer / hold</dt>
+                  <dd className="font-medium text-slate-800">
+                    {formatCurrency(limits.minTransferAmount)} / {formatCurrency(limits.minHoldAmount)}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-slate-500">Prohibited transferees</dt>
+                  <dd className="font-medium text-slate-800">
+                    {restrictions.prohibitedCategories.length > 0
+                      ? restrictions.prohibitedCategories.map(category => LENDER_CATEGORY_LABELS[category]).join('; ')
+                      : 'None'}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-slate-500">Restricted lenders</dt>
+                  <dd className="font-medium text-slate-800">{restrictions.restrictedLenders.join('; ') || 'None'}</dd>
+                </div>
+                <div>
+                  <dt className="text-slate-500">Approved lenders</dt>
+                  <dd className="font-medium text-slate-800">{restrictions.approvedLenders.join('; ') || 'Any eligible institution'}</dd>
+                </div>
+              </dl>
+            ) : (
+              <p className="text-slate-500">No transfer restrictions recorded for this loan. Trades are checked against the default minimums only.</p>
+            )}
+            {loanData && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleEdit}
+                data-testid="edit-transfer-restrictions"
+              >
+                {restrictions ? 'Edit Restrictions' : 'Add Restrictions'}
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,10 +7,15 @@ import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { ErrorNotification } from '@/components/ui/error-notification';
-import { RealTimeClock } from '@/components/ui/dynamic-clock';
 import { useApplication, useESGStatus, useLoanData } from '@/contexts/ApplicationContext';
-import { CheckCircle, Upload, AlertTriangle, FileText, Loader2, Leaf, Target, TrendingDown, Award, Calendar, DollarSign } from 'lucide-react';
-import { getUserFriendlyError, LoanData } from '@/types';
+import { CurrencyAmount } from '@/components/enterprise/CurrencyAmount';
+import { SustainabilityKpiView } from '@/components/enterprise/SustainabilityKpiView';
+import { ComplianceCertificateView } from '@/components/enterprise/ComplianceCertificateView';
+import { FinancedEmissionsView } from '@/components/enterprise/FinancedEmissionsView';
+import { TaxonomyAlignmentView } from '@/components/enterprise/TaxonomyAlignmentView';
+import { assessTestPeriod, getCurrentMarginAdjustment } from '@/lib/sustainability-kpis';
+import { CheckCircle, Upload, AlertTriangle, FileText, Loader2, Target, TrendingDown, Award, DollarSign } from 'lucide-react';
+import { getUserFriendlyError } from '@/types';
 import { analyzeLoan } from '@/actions/analyzeLoan';
 
 // Sample ESG-focused loan document
@@ -42,56 +47,13 @@ FINANCIAL COVENANTS:
 The Borrower commits to transparent reporting and independent verification of all sustainability metrics.`;
 
 export function ESGManagerTab() {
-  const { applyESGDiscount, setLoanData } = useApplication();
+  const { setLoanData, reportingCurrency } = useApplication();
   const esgStatus = useESGStatus();
   const loanData = useLoanData();
-  const [showSuccessBanner, setShowSuccessBanner] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [documentText, setDocumentText] = useState('');
   const [isPending, startTransition] = useTransition();
   const [showUploadSection, setShowUploadSection] = useState(!loanData);
-  const [esgMetrics, setESGMetrics] = useState({
-    carbonReduction: 0,
-    renewableEnergy: 0,
-    esgRating: 'B+',
-    lastUpdated: new Date()
-  });
-  const [milestones, setMilestones] = useState([
-    { id: 1, title: 'Reduce carbon emissions by 30%', target: '2027', completed: false, impact: 'High' },
-    { id: 2, title: 'Achieve 50% renewable energy', target: '2026', completed: false, impact: 'High' },
-    { id: 3, title: 'Maintain ESG rating B+ or higher', target: 'Ongoing', completed: true, impact: 'Medium' },
-    { id: 4, title: 'Implement zero-waste policy', target: '2025', completed: false, impact: 'Medium' }
-  ]);
-
-  const handleUploadVerification = () => {
-    try {
-      if (!loanData) {
-        setError('No loan data available. Please upload an ESG document first or complete the origination process.');
-        return;
-      }
-
-      if (!loanData.esgTarget || loanData.esgTarget.trim().length === 0) {
-        setError('No ESG target found in loan data. Cannot apply sustainability discount.');
-        return;
-      }
-
-      if (loanData.interestRateMargin <= 0.1) {
-        setError('Interest rate margin is too low to apply discount. Minimum margin after discount must be 0.01%.');
-        return;
-      }
-
-      setError(null);
-      applyESGDiscount();
-      setShowSuccessBanner(true);
-      
-      setTimeout(() => {
-        setShowSuccessBanner(false);
-      }, 5000);
-    } catch (error) {
-      console.error('Error applying ESG discount:', error);
-      setError('Failed to apply ESG discount. Please try again.');
-    }
-  };
 
   const handleAnalyzeESGDocument = () => {
     if (!documentText.trim()) {
@@ -134,18 +96,16 @@ export function ESGManagerTab() {
     setShowUploadSection(true);
   };
 
-  const handleToggleMilestone = (id: number) => {
-    setMilestones(prev => prev.map(milestone => 
-      milestone.id === id ? { ...milestone, completed: !milestone.completed } : milestone
-    ));
-  };
-
-  // Calculate ESG performance metrics
-  const completedMilestones = milestones.filter(m => m.completed).length;
-  const totalMilestones = milestones.length;
-  const completionRate = (completedMilestones / totalMilestones) * 100;
-  const potentialSavings = loanData ? Math.round((loanData.facilityAmount * 0.001)) : 0;
-  const actualSavings = esgStatus.discountApplied ? potentialSavings : 0;
+  // ESG performance from the latest KPI test period and the margin ratchet
+  const terms = loanData?.sustainabilityTerms;
+  const reports = esgStatus.kpiReports ?? [];
+  const latestResult = terms && reports.length > 0 ? assessTestPeriod(terms, reports[reports.length - 1]) : null;
+  const kpisMet = latestResult?.assessments.filter(assessment => assessment.met).length ?? 0;
+  const kpisTested = latestResult?.assessments.length ?? 0;
+  const completionRate = kpisTested > 0 ? (kpisMet / kpisTested) * 100 : 0;
+  const adjustmentBps = loanData ? getCurrentMarginAdjustment(loanData) : 0;
+  const actualSavings = loanData ? Math.round(-loanData.facilityAmount * (adjustmentBps / 10000)) : 0;
+  const currency = loanData?.currency ?? reportingCurrency;
 
   return (
     <div className="space-y-6">
@@ -164,7 +124,7 @@ export function ESGManagerTab() {
           </div>
           <div className="text-right bg-gradient-to-br from-teal-50 to-teal-100 p-4 rounded-xl shadow-lg">
             <p className="text-sm font-semibold text-teal-700 uppercase tracking-wide">Annual Savings</p>
-            <p className="text-2xl font-bold text-teal-600">${actualSavings.toLocaleString()}</p>
+            <p className="text-2xl font-bold text-teal-600"><CurrencyAmount amount={actualSavings} currency={currency} /></p>
           </div>
         </div>
       </div>
@@ -177,33 +137,13 @@ export function ESGManagerTab() {
         />
       )}
 
-      {/* Success Banner */}
-      {showSuccessBanner && esgStatus.discountApplied && (
-        <div className="bg-gradient-to-r from-green-50 to-emerald-50 border border-green-200 rounded-xl p-8 animate-fade-in shadow-xl">
-          <div className="flex items-center">
-            <div className="bg-green-500 p-3 rounded-full mr-6">
-              <CheckCircle className="w-8 h-8 text-white" />
-            </div>
-            <div>
-              <h3 className="text-2xl font-bold text-green-800">
-                Sustainability Discount Applied Successfully
-              </h3>
-              <p className="text-green-700 mt-2 text-lg">
-                Interest rate margin reduced by 0.1% for meeting ESG targets. 
-                Annual savings: ${potentialSavings.toLocaleString()}
-              </p>
-            </div>
-          </div>
-        </div>
-      )}
-
       {/* ESG Performance Dashboard */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <Card className="transition-all duration-300 hover:shadow-xl hover:-translate-y-1 border-0 shadow-lg bg-gradient-to-br from-green-50 to-green-100">
           <CardContent className="p-8">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-semibold text-slate-600 uppercase tracking-wide">Completion Rate</p>
+                <p className="text-sm font-semibold text-slate-600 uppercase tracking-wide">KPIs Met</p>
                 <p className="text-4xl font-bold text-green-600 mt-2">{completionRate.toFixed(0)}%</p>
               </div>
               <div className="bg-green-500 p-4 rounded-full">
@@ -217,8 +157,8 @@ export function ESGManagerTab() {
           <CardContent className="p-8">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-semibold text-slate-600 uppercase tracking-wide">Milestones</p>
-                <p className="text-4xl font-bold text-blue-700 mt-2">{completedMilestones}/{totalMilestones}</p>
+                <p className="text-sm font-semibold text-slate-600 uppercase tracking-wide">Latest Test</p>
+                <p className="text-4xl font-bold text-blue-700 mt-2">{kpisMet}/{kpisTested}</p>
               </div>
               <div className="bg-blue-500 p-4 rounded-full">
                 <Award className="w-8 h-8 text-white" />
@@ -231,9 +171,9 @@ export function ESGManagerTab() {
           <CardContent className="p-8">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-semibold text-slate-600 uppercase tracking-wide">Rate Discount</p>
+                <p className="text-sm font-semibold text-slate-600 uppercase tracking-wide">Margin Ratchet</p>
                 <p className="text-4xl font-bold text-purple-600 mt-2">
-                  {esgStatus.discountApplied ? '0.1%' : '0.0%'}
+                  {adjustmentBps > 0 ? '+' : ''}{adjustmentBps} bps
                 </p>
               </div>
               <div className="bg-purple-500 p-4 rounded-full">
@@ -248,7 +188,7 @@ export function ESGManagerTab() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-semibold text-slate-600 uppercase tracking-wide">Annual Savings</p>
-                <p className="text-4xl font-bold text-teal-600 mt-2">${actualSavings.toLocaleString()}</p>
+                <p className="text-4xl font-bold text-teal-600 mt-2"><CurrencyAmount amount={actualSavings} currency={currency} /></p>
               </div>
               <div className="bg-teal-500 p-4 rounded-full">
                 <DollarSign className="w-8 h-8 text-white" />
@@ -340,59 +280,17 @@ export function ESGManagerTab() {
         </div>
       )}
 
-      {/* ESG Milestones Tracking */}
-      {loanData && (
-        <Card className="shadow-lg">
-          <CardHeader>
-            <CardTitle className="flex items-center space-x-2">
-              <Leaf className="w-6 h-6" />
-              <span>Sustainability Milestones</span>
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            {milestones.map((milestone) => (
-              <div key={milestone.id} className="flex items-center justify-between p-4 bg-slate-50 rounded-lg">
-                <div className="flex items-center space-x-4">
-                  <button
-                    onClick={() => handleToggleMilestone(milestone.id)}
-                    className={`w-6 h-6 rounded-full border-2 flex items-center justify-center transition-colors ${
-                      milestone.completed 
-                        ? 'bg-green-500 border-green-500 text-white' 
-                        : 'border-slate-300 hover:border-green-400'
-                    }`}
-                  >
-                    {milestone.completed && <CheckCircle className="w-4 h-4" />}
-                  </button>
-                  <div>
-                    <p className={`font-medium ${milestone.completed ? 'text-green-800' : 'text-slate-900'}`}>
-                      {milestone.title}
-                    </p>
-                    <div className="flex items-center space-x-4 mt-1">
-                      <span className="text-sm text-slate-600 flex items-center">
-                        <Calendar className="w-4 h-4 mr-1" />
-                        Target: {milestone.target}
-                      </span>
-                      <Badge 
-                        variant={milestone.impact === 'High' ? 'destructive' : 'secondary'}
-                        className={milestone.impact === 'High' ? 'bg-orange-100 text-orange-800' : 'bg-blue-100 text-blue-800'}
-                      >
-                        {milestone.impact} Impact
-                      </Badge>
-                    </div>
-                  </div>
-                </div>
-                <div className="text-right">
-                  {milestone.completed && (
-                    <Badge variant="default" className="bg-green-100 text-green-800">
-                      Completed
-                    </Badge>
-                  )}
-                </div>
-              </div>
-            ))}
-          </CardContent>
-        </Card>
-      )}
+      {/* Sustainability KPIs and margin ratchet */}
+      {loanData && <SustainabilityKpiView loan={loanData} />}
+
+      {/* Annual compliance certificates and the agent's review */}
+      {loanData && <ComplianceCertificateView loan={loanData} />}
+
+      {/* Borrower emissions and the portfolio's financed emissions */}
+      {loanData && <FinancedEmissionsView />}
+
+      {/* EU Taxonomy screening of the use of proceeds */}
+      {loanData && <TaxonomyAlignmentView loan={loanData} />}
 
       {/* ESG Target Display */}
       {loanData && (
@@ -422,9 +320,9 @@ export function ESGManagerTab() {
                   <p className="text-2xl font-bold text-blue-900">
                     {loanData.interestRateMargin}%
                   </p>
-                  {esgStatus.discountApplied && (
+                  {adjustmentBps !== 0 && (
                     <p className="text-xs text-blue-600 mt-1">
-                      ↓ 0.1% ESG discount applied
+                      {adjustmentBps < 0 ? '↓' : '↑'} {Math.abs(adjustmentBps)} bps sustainability ratchet
                     </p>
                   )}
                 </div>
@@ -455,86 +353,6 @@ export function ESGManagerTab() {
           </CardContent>
         </Card>
       )}
-
-      {/* ESG Verification Section */}
-      {loanData && (
-        <Card className="shadow-lg">
-          <CardHeader>
-            <CardTitle className="flex items-center space-x-2">
-              <Award className="w-6 h-6" />
-              <span>ESG Performance Verification</span>
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-6">
-              <p className="text-slate-600">
-                Verify ESG target achievement to unlock sustainability-linked pricing benefits and interest rate discounts.
-              </p>
-              
-              <div className="bg-gradient-to-r from-green-50 to-blue-50 border border-green-200 rounded-lg p-6">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <h4 className="text-lg font-semibold text-slate-900">Sustainability Discount Available</h4>
-                    <p className="text-slate-600 mt-1">
-                      Reduce interest rate margin by 0.1 percentage points upon ESG target verification
-                    </p>
-                    <div className="mt-3 space-y-2">
-                      <p className="text-sm text-slate-700">
-                        <strong>Potential annual savings:</strong> ${potentialSavings.toLocaleString()}
-                      </p>
-                      <p className="text-sm text-slate-700">
-                        <strong>Milestone completion:</strong> {completedMilestones}/{totalMilestones} ({completionRate.toFixed(0)}%)
-                      </p>
-                    </div>
-                  </div>
-                  <Button
-                    onClick={handleUploadVerification}
-                    disabled={esgStatus.verificationUploaded}
-                    className={`transition-all duration-200 ${
-                      esgStatus.verificationUploaded 
-                        ? 'bg-green-100 text-green-800' 
-                        : 'bg-green-600 hover:bg-green-700 hover:scale-105'
-                    }`}
-                    size="lg"
-                  >
-                    {esgStatus.verificationUploaded ? (
-                      <>
-                        <CheckCircle className="w-5 h-5 mr-2" />
-                        Verified & Applied
-                      </>
-                    ) : (
-                      <>
-                        <Upload className="w-5 h-5 mr-2" />
-                        Verify ESG Achievement
-                      </>
-                    )}
-                  </Button>
-                </div>
-              </div>
-
-              {esgStatus.discountApplied && (
-                <div className="bg-green-50 border border-green-200 rounded-lg p-6">
-                  <div className="flex items-center">
-                    <CheckCircle className="w-6 h-6 text-green-600 mr-4" />
-                    <div>
-                      <h4 className="text-lg font-semibold text-green-800">Sustainability Discount Applied</h4>
-                      <p className="text-green-700 mt-1">
-                        Interest rate margin reduced to {loanData?.interestRateMargin}% - 
-                        Annual savings: ${actualSavings.toLocaleString()}
-                      </p>
-                      <div className="text-sm text-green-600 mt-2 flex items-center space-x-2">
-                        <span>Discount applied on</span>
-                        <RealTimeClock format="date-only" className="font-semibold" />
-                        <span>based on verified ESG performance.</span>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              )}
-            </div>
-          </CardContent>
-        </Card>
-      )}
     </div>
   );
 }
\ No newline at end of file
@@ -194,4 +194,52 @@ describe('OriginationTab', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('Field Provenance', () => {
+    it('highlights the source passage of a clicked field', async () => {
+      const text = 'Borrower: Acme Holdings Ltd\nFacility Amount: $150,000,000\nMargin: 3.25%';
+      const amountStart = text.indexOf('150,000,000');
+
+      mockAnalyzeLoan.mockResolvedValue({
+        success: true,
+        data: {
+          borrowerName: 'Acme Holdings Ltd',
+          facilityAmount: 150000000,
+          currency: 'USD',
+          interestRateMargin: 3.25,
+          leverageCovenant: 0,
+          esgTarget: ''
+        },
+        isMockData: false,
+        provenance: {
+          facilityAmount: {
+            field: 'facilityAmount',
+            method: 'pattern',
+            pattern: 'Facility\\s+Amount',
+            startOffset: amountStart,
+            endOffset: amountStart + '150,000,000'.length,
+            snippet: 'Facility Amount: $150,000,000',
+            pageNumber: 2,
+            confidence: 0.92
+          }
+        }
+      });
+
+      renderWithContext(<OriginationTab />);
+
+      fireEvent.change(screen.getByPlaceholderText('Or paste loan agreement text here...'), { target: { value: text } });
+      fireEvent.click(screen.getByText('Analyze Document'));
+
+      const badge = await screen.findByRole('button', { name: 'Show source for Amount' });
+      expect(badge).toHaveTextContent('92%');
+      expect(mockAnalyzeLoan).toHaveBeenCalledWith(text, undefined);
+
+      fireEvent.click(badge);
+
+      const panel = screen.getByTestId('field-source');
+      expect(panel.querySelector('mark')).toHaveTextContent('150,000,000');
+      expect(panel).toHaveTextContent('Page 2');
+      expect(panel).toHaveTextContent('Confidence 92%');
+    });
+  });
+});
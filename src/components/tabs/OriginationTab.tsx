@@ -1,17 +1,27 @@
 'use client';
 
-import { useState, useTransition, useEffect } from 'react';
+import { useState, useTransition, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { analyzeLoan } from '@/actions/analyzeLoan';
-import { LoanData, validateLoanData } from '@/types';
-import { Loader2, CheckCircle, AlertTriangle, Upload, FileText, Building, DollarSign, Percent, TrendingUp, Leaf } from 'lucide-react';
+import { LoanData, Tranche, FacilityType, FACILITY_TYPE_LABELS, LOAN_SECTORS, ExtractionProvenance, PageRange, calculateTrancheTotals } from '@/types';
+import { validateLoan } from '@/lib/loan-validation';
+import { Loader2, CheckCircle, AlertTriangle, Upload, FileText, Building, DollarSign, Percent, TrendingUp, Leaf, Layers, Plus, Trash2, Users, CalendarClock } from 'lucide-react';
 import { useApplication } from '@/contexts/ApplicationContext';
 
+const SOURCE_CONTEXT_LENGTH = 120;
+
+const EXTRACTION_METHOD_LABELS = {
+  pattern: 'Pattern match',
+  nlp: 'Entity recognition',
+  derived: 'Derived',
+  default: 'Default value',
+} as const;
+
 export function OriginationTab() {
-  const { setLoanData, verifyAndLockData, state } = useApplication();
+  const { setLoanData, verifyAndLockData, state, fx } = useApplication();
   const [documentText, setDocumentText] = useState('');
   const [extractedData, setExtractedData] = useState<LoanData | null>(null);
   const [manualData, setManualData] = useState<LoanData>({
@@ -32,6 +42,13 @@ export function OriginationTab() {
     processingTime?: number;
     extractedFields?: string[];
   }>({});
+  const [provenance, setProvenance] = useState<ExtractionProvenance>({});
+  const [selectedField, setSelectedField] = useState<keyof LoanData | null>(null);
+  // Page ranges of the uploaded file; dropped once the text is edited
+  const [documentPages, setDocumentPages] = useState<PageRange[] | undefined>(undefined);
+  // Text the current provenance offsets refer to
+  const [analyzedText, setAnalyzedText] = useState('');
+  const documentTextRef = useRef<HTMLTextAreaElement>(null);
 
   // Clear errors on component mount and when switching modes
   useEffect(() => {
@@ -47,25 +64,29 @@ export function OriginationTab() {
     }
   }, [documentText, error]);
 
-  const handleAnalyze = () => {
+  const runAnalysis = (text: string, pages?: PageRange[]) => {
     // Clear any previous errors first
     setError(null);
     setValidationErrors([]);
     
-    if (!documentText.trim()) {
+    if (!text.trim()) {
       setError('Please enter loan document text before analyzing.');
       return;
     }
 
     setSuccess(false);
     setProcessingStats({});
+    setProvenance({});
+    setSelectedField(null);
 
     startTransition(async () => {
       try {
-        const result = await analyzeLoan(documentText);
+        const result = await analyzeLoan(text, pages);
         
         if (result && result.success && result.data) {
           setExtractedData(result.data);
+          setProvenance(result.provenance || {});
+          setAnalyzedText(text);
           setProcessingStats({
             confidence: result.confidence,
             processingTime: result.processingTime,
@@ -91,6 +112,25 @@ export function OriginationTab() {
     });
   };
 
+  const handleAnalyze = () => runAnalysis(documentText, documentPages);
+
+  const handleDocumentTextChange = (text: string) => {
+    setDocumentText(text);
+    setDocumentPages(undefined);
+  };
+
+  const handleShowSource = (field: keyof LoanData) => {
+    setSelectedField(field);
+
+    // Select the source passage in the document text when it is still the analyzed text
+    const source = provenance[field];
+    const textarea = documentTextRef.current;
+    if (textarea && source && source.startOffset !== null && source.endOffset !== null && documentText === analyzedText) {
+      textarea.focus();
+      textarea.setSelectionRange(source.startOffset, source.endOffset);
+    }
+  };
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -113,11 +153,12 @@ export function OriginationTab() {
       
       const processedDoc = await processDocument(file);
       setDocumentText(processedDoc.text);
+      setDocumentPages(processedDoc.pages);
       setError(null);
       
       if (processedDoc.text.trim()) {
         setTimeout(() => {
-          handleAnalyze();
+          runAnalysis(processedDoc.text, processedDoc.pages);
         }, 1000);
       }
       
@@ -166,6 +207,7 @@ ARTICLE VI - REPRESENTATIONS AND WARRANTIES
 The Borrower represents and warrants that it is duly organized and validly existing under the laws of Delaware and has full corporate power and authority to execute and deliver this Agreement.`;
     
     setDocumentText(sampleDoc);
+    setDocumentPages(undefined);
     setError(null);
     setSuccess(false);
     setValidationErrors([]);
@@ -173,16 +215,74 @@ The Borrower represents and warrants that it is duly organized and validly exist
   };
 
   const handleManualDataChange = (field: keyof LoanData, value: string | number) => {
-    setManualData(prev => ({
+    setManualData(prev => {
+      const updated = { ...prev, [field]: value };
+      return field === 'currency' && prev.tranches ? withTrancheRollUp(updated) : updated;
+    });
+    
+    if (validationErrors.length > 0) {
+      setValidationErrors([]);
+    }
+  };
+
+  // Tranche amounts summed in the loan currency at the latest FX rates; null when a
+  // tranche currency has no rate, so the facility amount has to be entered
+  const getTrancheRollUp = (data: LoanData): number | null => {
+    const { amountByCurrency } = calculateTrancheTotals(data.tranches || []);
+    let total = 0;
+    for (const [currency, amount] of Object.entries(amountByCurrency)) {
+      const converted = fx.tryConvert(amount, currency, data.currency);
+      if (converted === null) return null;
+      total += converted;
+    }
+    return total;
+  };
+
+  // Keep the facility amount equal to the tranches' total in the loan currency
+  const withTrancheRollUp = (data: LoanData): LoanData => {
+    if (!data.tranches || data.tranches.length === 0) {
+      return { ...data, tranches: undefined };
+    }
+    const rollUp = getTrancheRollUp(data);
+    return rollUp === null ? data : { ...data, facilityAmount: rollUp };
+  };
+
+  const handleAddTranche = () => {
+    setManualData(prev => {
+      const tranches = prev.tranches || [];
+      const newTranche: Tranche = {
+        id: `tranche_${Date.now()}_${tranches.length + 1}`,
+        name: `Facility ${String.fromCharCode(65 + tranches.length)}`,
+        facilityType: 'term_loan',
+        amount: 0,
+        currency: prev.currency,
+        interestRateMargin: prev.interestRateMargin,
+        tenorMonths: 60,
+      };
+      return withTrancheRollUp({ ...prev, tranches: [...tranches, newTranche] });
+    });
+  };
+
+  const handleTrancheChange = (id: string, field: keyof Tranche, value: string | number | undefined) => {
+    setManualData(prev => withTrancheRollUp({
       ...prev,
-      [field]: value
+      tranches: (prev.tranches || []).map(tranche =>
+        tranche.id === id ? { ...tranche, [field]: value } : tranche
+      ),
     }));
-    
+
     if (validationErrors.length > 0) {
       setValidationErrors([]);
     }
   };
 
+  const handleRemoveTranche = (id: string) => {
+    setManualData(prev => withTrancheRollUp({
+      ...prev,
+      tranches: (prev.tranches || []).filter(tranche => tranche.id !== id),
+    }));
+  };
+
   const handleSwitchToManual = () => {
     setInputMode('manual');
     setError(null);
@@ -198,7 +298,7 @@ The Borrower represents and warrants that it is duly organized and validly exist
   };
 
   const handleManualSubmit = () => {
-    const validation = validateLoanData(manualData);
+    const validation = validateLoan(manualData);
     if (!validation.isValid) {
       setValidationErrors(validation.errors);
       setError('Please correct the validation errors before submitting.');
@@ -206,11 +306,23 @@ The Borrower represents and warrants that it is duly organized and validly exist
     }
 
     setExtractedData(manualData);
+    setProvenance({});
+    setSelectedField(null);
     setSuccess(true);
     setError(null);
     setValidationErrors([]);
   };
 
+  // Sector is not in the agreement, so it is picked for extracted and manual data alike
+  const handleSectorChange = (sector: string) => {
+    const value = sector || undefined;
+    if (inputMode === 'manual') {
+      setManualData(prev => ({ ...prev, sector: value }));
+    } else {
+      setExtractedData(prev => prev && { ...prev, sector: value });
+    }
+  };
+
   const handleVerifyAndLock = () => {
     if (extractedData) {
       setLoanData(extractedData);
@@ -221,6 +333,53 @@ The Borrower represents and warrants that it is duly organized and validly exist
   };
 
   const currentData = inputMode === 'manual' ? manualData : extractedData;
+  const currentProvenance: ExtractionProvenance = inputMode === 'document' ? provenance : {};
+  const selectedSource = selectedField ? currentProvenance[selectedField] : undefined;
+
+  const renderSourceBadge = (field: keyof LoanData, label: string) => {
+    const source = currentProvenance[field];
+    if (!source) return null;
+
+    const confidence = Math.round(source.confidence * 100);
+    return (
+      <button
+        type="button"
+        onClick={() => handleShowSource(field)}
+        aria-label={`Show source for ${label}`}
+        title={EXTRACTION_METHOD_LABELS[source.method]}
+        className={`ml-auto text-xs font-medium px-2 py-0.5 rounded-full ${
+          confidence >= 80 ? 'bg-emerald-100 text-emerald-800' : confidence >= 50 ? 'bg-amber-100 text-amber-800' : 'bg-slate-100 text-slate-600'
+        } ${selectedField === field ? 'ring-2 ring-blue-400' : ''}`}
+      >
+        {confidence}%
+      </button>
+    );
+  };
+
+  // Source passage with the extracted value highlighted, from the analyzed text when still available
+  const renderSourcePassage = () => {
+    if (!selectedSource) return null;
+    const { startOffset, endOffset } = selectedSource;
+
+    if (startOffset === null || endOffset === null) {
+      return <p className="text-slate-500 italic">Not found in the document text{selectedSource.snippet ? `: ${selectedSource.snippet}` : ''}</p>;
+    }
+    if (documentText !== analyzedText) {
+      return <p className="text-slate-700">{selectedSource.snippet}</p>;
+    }
+
+    const before = analyzedText.substring(Math.max(0, startOffset - SOURCE_CONTEXT_LENGTH), startOffset);
+    const after = analyzedText.substring(endOffset, endOffset + SOURCE_CONTEXT_LENGTH);
+    return (
+      <p className="text-slate-700 whitespace-pre-wrap">
+        {startOffset > SOURCE_CONTEXT_LENGTH && '…'}{before}
+        <mark className="bg-yellow-200 rounded px-0.5">{analyzedText.substring(startOffset, endOffset)}</mark>
+        {after}{endOffset + SOURCE_CONTEXT_LENGTH < analyzedText.length && '…'}
+      </p>
+    );
+  };
+  const hasManualTranches = !!manualData.tranches && manualData.tranches.length > 0;
+  const facilityAmountRolledUp = hasManualTranches && getTrancheRollUp(manualData) !== null;
   const isDataReady = currentData && currentData.borrowerName && currentData.facilityAmount > 0;
 
   return (
@@ -363,12 +522,12 @@ The Borrower represents and warrants that it is duly organized and validly exist
                   </div>
                   <label htmlFor="file-upload" className="cursor-pointer">
                     <span className="text-xl font-semibold text-slate-900 block">Upload Document</span>
-                    <span className="text-slate-600 mt-1 block">PDF, Word, or text files up to 10MB</span>
+                    <span className="text-slate-600 mt-1 block">PDF, Word, HTML or text files up to 10MB</span>
                   </label>
                   <input
                     id="file-upload"
                     type="file"
-                    accept=".pdf,.doc,.docx,.txt"
+                    accept=".pdf,.doc,.docx,.txt,.html,.htm"
                     className="sr-only"
                     onChange={handleFileUpload}
                   />
@@ -386,8 +545,9 @@ The Borrower represents and warrants that it is duly organized and validly exist
                 <div className="flex-1">
                   <Textarea
                     placeholder="Or paste loan agreement text here..."
+                    ref={documentTextRef}
                     value={documentText}
-                    onChange={(e) => setDocumentText(e.target.value)}
+                    onChange={(e) => handleDocumentTextChange(e.target.value)}
                     className="w-full h-64 resize-none border-slate-200 focus:border-blue-400 focus:ring-blue-400/20"
                   />
                 </div>
@@ -453,6 +613,8 @@ The Borrower represents and warrants that it is duly organized and validly exist
                         value={manualData.facilityAmount || ''}
                         onChange={(e) => handleManualDataChange('facilityAmount', parseFloat(e.target.value) || 0)}
                         placeholder="500000000"
+                        readOnly={facilityAmountRolledUp}
+                        title={facilityAmountRolledUp ? 'Calculated from the tranches below' : undefined}
                         className="border-slate-200 focus:border-emerald-400 focus:ring-emerald-400/20"
                       />
                     </div>
@@ -474,6 +636,90 @@ The Borrower represents and warrants that it is duly organized and validly exist
                     </div>
                   </div>
 
+                  {/* Tranches */}
+                  <div className="rounded-xl border border-slate-200 p-4 space-y-3" data-testid="tranche-editor">
+                    <div className="flex items-center justify-between">
+                      <label className="flex items-center text-sm font-semibold text-slate-700">
+                        <div className="p-1.5 bg-slate-100 rounded-lg mr-2">
+                          <Layers className="w-4 h-4 text-slate-600" />
+                        </div>
+                        Facilities / Tranches
+                      </label>
+                      <Button type="button" variant="outline" size="sm" onClick={handleAddTranche}>
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add Tranche
+                      </Button>
+                    </div>
+                    {!hasManualTranches && (
+                      <p className="text-xs text-slate-500">Single-facility loan. Add tranches for Term Loan A/B, revolver and other facilities.</p>
+                    )}
+                    {manualData.tranches?.map((tranche) => (
+                      <div key={tranche.id} className="grid grid-cols-6 gap-2 items-center" data-testid="tranche-row">
+                        <Input
+                          aria-label="Tranche name"
+                          value={tranche.name}
+                          onChange={(e) => handleTrancheChange(tranche.id, 'name', e.target.value)}
+                          className="col-span-2 border-slate-200"
+                        />
+                        <select
+                          aria-label="Facility type"
+                          value={tranche.facilityType}
+                          onChange={(e) => handleTrancheChange(tranche.id, 'facilityType', e.target.value as FacilityType)}
+                          className="px-2 py-2 border border-slate-200 rounded-lg text-sm"
+                        >
+                          {(Object.keys(FACILITY_TYPE_LABELS) as FacilityType[]).map(type => (
+                            <option key={type} value={type}>{FACILITY_TYPE_LABELS[type]}</option>
+                          ))}
+                        </select>
+                        <Input
+                          aria-label="Tranche amount"
+                          type="number"
+                          value={tranche.amount || ''}
+                          onChange={(e) => handleTrancheChange(tranche.id, 'amount', parseFloat(e.target.value) || 0)}
+                          placeholder="Amount"
+                          className="border-slate-200"
+                        />
+                        <select
+                          aria-label="Tranche currency"
+                          value={tranche.currency}
+                          onChange={(e) => handleTrancheChange(tranche.id, 'currency', e.target.value)}
+                          className="px-2 py-2 border border-slate-200 rounded-lg text-sm"
+                        >
+                          {['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD'].map(code => (
+                            <option key={code} value={code}>{code}</option>
+                          ))}
+                        </select>
+                        <div className="flex items-center space-x-1">
+                          <Input
+                            aria-label="Tranche margin"
+                            type="number"
+                            step="0.01"
+                            value={tranche.interestRateMargin || ''}
+                            onChange={(e) => handleTrancheChange(tranche.id, 'interestRateMargin', parseFloat(e.target.value) || 0)}
+                            placeholder="Margin %"
+                            className="border-slate-200"
+                          />
+                          <Input
+                            aria-label="Tranche tenor (months)"
+                            type="number"
+                            value={tranche.tenorMonths || ''}
+                            onChange={(e) => handleTrancheChange(tranche.id, 'tenorMonths', parseInt(e.target.value, 10) || undefined)}
+                            placeholder="Months"
+                            className="border-slate-200"
+                          />
+                          <button
+                            type="button"
+                            aria-label={`Remove ${tranche.name}`}
+                            onClick={() => handleRemoveTranche(tranche.id)}
+                            className="p-2 text-slate-500 hover:text-red-600"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
                   <div>
                     <label className="flex items-center text-sm font-semibold text-slate-700 mb-3">
                       <div className="p-1.5 bg-slate-100 rounded-lg mr-2">
@@ -565,6 +811,7 @@ The Borrower represents and warrants that it is duly organized and validly exist
                     <Building className="w-4 h-4 text-slate-600" />
                   </div>
                   Borrower Name
+                  {renderSourceBadge('borrowerName', 'Borrower Name')}
                 </label>
                 <Input
                   value={currentData?.borrowerName || ''}
@@ -573,6 +820,25 @@ The Borrower represents and warrants that it is duly organized and validly exist
                 />
               </div>
 
+              <div>
+                <label className="flex items-center text-sm font-semibold text-slate-700 mb-3">
+                  Sector
+                </label>
+                <select
+                  value={currentData?.sector || ''}
+                  onChange={(e) => handleSectorChange(e.target.value)}
+                  disabled={!currentData || state.verificationStatus.isLocked}
+                  aria-label="Sector"
+                  data-testid="sector-select"
+                  className="w-full px-3 py-2 border border-slate-200 rounded-lg bg-white disabled:bg-slate-50"
+                >
+                  <option value="">Unclassified</option>
+                  {LOAN_SECTORS.map(sector => (
+                    <option key={sector} value={sector}>{sector}</option>
+                  ))}
+                </select>
+              </div>
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="flex items-center text-sm font-semibold text-slate-700 mb-3">
@@ -580,6 +846,7 @@ The Borrower represents and warrants that it is duly organized and validly exist
                       <DollarSign className="w-4 h-4 text-slate-600" />
                     </div>
                     Amount
+                    {renderSourceBadge('facilityAmount', 'Amount')}
                   </label>
                   <Input
                     value={currentData?.facilityAmount?.toLocaleString() || ''}
@@ -588,7 +855,10 @@ The Borrower represents and warrants that it is duly organized and validly exist
                   />
                 </div>
                 <div>
-                  <label className="text-sm font-semibold text-slate-700 mb-3 block">Currency</label>
+                  <label className="flex items-center text-sm font-semibold text-slate-700 mb-3">
+                    Currency
+                    {renderSourceBadge('currency', 'Currency')}
+                  </label>
                   <Input
                     value={currentData?.currency || ''}
                     readOnly
@@ -597,12 +867,111 @@ The Borrower represents and warrants that it is duly organized and validly exist
                 </div>
               </div>
 
+              {currentData?.tranches && currentData.tranches.length > 0 && (
+                <div>
+                  <label className="flex items-center text-sm font-semibold text-slate-700 mb-3">
+                    <div className="p-1.5 bg-slate-100 rounded-lg mr-2">
+                      <Layers className="w-4 h-4 text-slate-600" />
+                    </div>
+                    Facilities ({currentData.tranches.length})
+                    {renderSourceBadge('tranches', 'Facilities')}
+                  </label>
+                  <table className="w-full text-sm border border-slate-200 rounded-lg" data-testid="tranche-summary">
+                    <thead className="bg-slate-50 text-slate-600">
+                      <tr>
+                        <th className="text-left px-3 py-2">Facility</th>
+                        <th className="text-right px-3 py-2">Amount</th>
+                        <th className="text-right px-3 py-2">Margin</th>
+                        <th className="text-right px-3 py-2">Tenor</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {currentData.tranches.map((tranche) => (
+                        <tr key={tranche.id} className="border-t border-slate-100">
+                          <td className="px-3 py-2">
+                            <div className="font-medium text-slate-900">{tranche.name}</div>
+                            <div className="text-xs text-slate-500">{FACILITY_TYPE_LABELS[tranche.facilityType]}</div>
+                          </td>
+                          <td className="text-right px-3 py-2">{tranche.currency} {tranche.amount.toLocaleString()}</td>
+                          <td className="text-right px-3 py-2">{tranche.interestRateMargin}%</td>
+                          <td className="text-right px-3 py-2">{tranche.tenorMonths ? `${tranche.tenorMonths}m` : '-'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {currentData?.lenders && currentData.lenders.length > 0 && (
+                <div>
+                  <label className="flex items-center text-sm font-semibold text-slate-700 mb-3">
+                    <div className="p-1.5 bg-slate-100 rounded-lg mr-2">
+                      <Users className="w-4 h-4 text-slate-600" />
+                    </div>
+                    Lenders ({currentData.lenders.length})
+                    {renderSourceBadge('lenders', 'Lenders')}
+                  </label>
+                  <table className="w-full text-sm border border-slate-200 rounded-lg" data-testid="lender-summary">
+                    <thead className="bg-slate-50 text-slate-600">
+                      <tr>
+                        <th className="text-left px-3 py-2">Lender</th>
+                        <th className="text-right px-3 py-2">Commitment</th>
+                        <th className="text-right px-3 py-2">Share</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {currentData.lenders.map((lender) => (
+                        <tr key={lender.lenderName} className="border-t border-slate-100">
+                          <td className="px-3 py-2 font-medium text-slate-900">{lender.lenderName}</td>
+                          <td className="text-right px-3 py-2">{currentData.currency} {lender.amount.toLocaleString()}</td>
+                          <td className="text-right px-3 py-2">{lender.percentage.toFixed(2)}%</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {(currentData?.signingDate || currentData?.terminationDate) && (
+                <div>
+                  <label className="flex items-center text-sm font-semibold text-slate-700 mb-3">
+                    <div className="p-1.5 bg-slate-100 rounded-lg mr-2">
+                      <CalendarClock className="w-4 h-4 text-slate-600" />
+                    </div>
+                    Key Dates
+                    {renderSourceBadge('repaymentSchedule', 'Repayment Schedule')}
+                  </label>
+                  <dl className="grid grid-cols-3 gap-3 text-sm" data-testid="key-dates">
+                    {[
+                      { field: 'signingDate' as const, label: 'Signing' },
+                      { field: 'availabilityPeriodEnd' as const, label: 'Availability End' },
+                      { field: 'terminationDate' as const, label: 'Termination' },
+                    ].map(({ field, label }) => (
+                      <div key={field} className="rounded-lg border border-slate-200 px-3 py-2">
+                        <dt className="flex items-center text-xs text-slate-500">
+                          {label}
+                          {renderSourceBadge(field, label)}
+                        </dt>
+                        <dd className="font-medium text-slate-900">{currentData?.[field] || '—'}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                  {currentData?.repaymentSchedule && (
+                    <p className="mt-2 text-xs text-slate-600">
+                      {currentData.repaymentSchedule.type === 'bullet' ? 'Bullet repayment' : 'Amortising'} ·{' '}
+                      {currentData.repaymentSchedule.instalments.length} instalment{currentData.repaymentSchedule.instalments.length !== 1 ? 's' : ''}
+                    </p>
+                  )}
+                </div>
+              )}
+
               <div>
                 <label className="flex items-center text-sm font-semibold text-slate-700 mb-3">
                   <div className="p-1.5 bg-slate-100 rounded-lg mr-2">
                     <Percent className="w-4 h-4 text-slate-600" />
                   </div>
                   Rate Margin (%)
+                  {renderSourceBadge('interestRateMargin', 'Rate Margin (%)')}
                 </label>
                 <Input
                   value={currentData?.interestRateMargin?.toString() || ''}
@@ -617,6 +986,7 @@ The Borrower represents and warrants that it is duly organized and validly exist
                     <TrendingUp className="w-4 h-4 text-slate-600" />
                   </div>
                   Leverage Covenant
+                  {renderSourceBadge('leverageCovenant', 'Leverage Covenant')}
                 </label>
                 <Input
                   value={currentData?.leverageCovenant?.toString() || ''}
@@ -631,6 +1001,7 @@ The Borrower represents and warrants that it is duly organized and validly exist
                     <Leaf className="w-4 h-4 text-slate-600" />
                   </div>
                   ESG Target
+                  {renderSourceBadge('esgTarget', 'ESG Target')}
                 </label>
                 <Textarea
                   value={currentData?.esgTarget || ''}
@@ -640,6 +1011,27 @@ The Borrower represents and warrants that it is duly organized and validly exist
               </div>
             </div>
 
+            {/* Source Passage */}
+            {selectedSource && (
+              <div className="rounded-xl p-4 border border-yellow-200 bg-yellow-50/50 text-sm space-y-2" data-testid="field-source">
+                <div className="flex items-center justify-between">
+                  <span className="font-semibold text-slate-800">Source passage</span>
+                  <button type="button" onClick={() => setSelectedField(null)} className="text-xs text-slate-500 hover:text-slate-700">
+                    Close
+                  </button>
+                </div>
+                {renderSourcePassage()}
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-600">
+                  <span>{EXTRACTION_METHOD_LABELS[selectedSource.method]}</span>
+                  {selectedSource.pageNumber !== null && <span>Page {selectedSource.pageNumber}</span>}
+                  <span>Confidence {Math.round(selectedSource.confidence * 100)}%</span>
+                  {selectedSource.pattern && (
+                    <code className="truncate max-w-full" title={selectedSource.pattern}>{selectedSource.pattern}</code>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Processing Stats */}
             {processingStats.processingTime && (
               <div className="bg-gradient-to-r from-blue-50 to-indigo-50 rounded-xl p-4 border border-blue-100">
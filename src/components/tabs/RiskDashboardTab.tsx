@@ -1,22 +1,41 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Slider } from '@/components/ui/slider';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { TradingClock } from '@/components/ui/dynamic-clock';
 import { useApplication, useRiskStatus, useLoanData } from '@/contexts/ApplicationContext';
-import { AlertTriangle, TrendingUp, Shield, Activity, BarChart3, AlertCircle, CheckCircle, Clock } from 'lucide-react';
+import { AlertTriangle, TrendingUp, Shield, Activity, BarChart3, AlertCircle, CheckCircle, Clock, ClipboardCheck } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { CovenantFinancials, getApplicableThreshold, getCovenantPackage, getCovenantTestDates } from '@/lib/covenants';
+import { Covenant, CovenantStatus } from '@/types';
+import { RepaymentScheduleView } from '@/components/enterprise/RepaymentScheduleView';
+import { InterestScheduleView } from '@/components/enterprise/InterestScheduleView';
+import { FeeScheduleView } from '@/components/enterprise/FeeScheduleView';
+
+const formatCovenantValue = (covenant: Pick<Covenant, 'unit'>, value: number) =>
+  covenant.unit === 'ratio' ? `${value.toFixed(2)}x` : value.toLocaleString();
 
 export function RiskDashboardTab() {
-  const { updateCurrentLeverage } = useApplication();
+  const { updateCurrentLeverage, testCovenants } = useApplication();
   const riskStatus = useRiskStatus();
   const loanData = useLoanData();
   const [currentLeverageValue, setCurrentLeverageValue] = useState<number[]>([0]);
   const [riskHistory, setRiskHistory] = useState<Array<{timestamp: Date, leverage: number, status: string}>>([]);
   const [alertsCount, setAlertsCount] = useState(0);
+  const [selectedTestDate, setSelectedTestDate] = useState('');
+  const [reportedFigures, setReportedFigures] = useState<Record<string, string>>({});
+
+  const covenantPackage = useMemo(() => getCovenantPackage(loanData), [loanData]);
+  const covenantTestDates = useMemo(() => {
+    const dates = new Set<string>();
+    covenantPackage.forEach(covenant => getCovenantTestDates(covenant).forEach(date => dates.add(date)));
+    return Array.from(dates).sort();
+  }, [covenantPackage]);
+  const testDate = selectedTestDate || covenantTestDates[0] || '';
 
   // Initialize slider value when loan data is available
   useEffect(() => {
@@ -63,6 +82,20 @@ export function RiskDashboardTab() {
     updateCurrentLeverage(newLeverage);
   };
 
+  const handleRunCovenantTest = () => {
+    const financials: CovenantFinancials = {};
+    Object.entries(reportedFigures).forEach(([covenantId, value]) => {
+      if (value.trim() !== '') financials[covenantId] = parseFloat(value);
+    });
+    testCovenants(testDate, financials);
+  };
+
+  const getCovenantBadgeClass = (status: CovenantStatus) => cn("px-3 py-1 font-semibold", {
+    "bg-gradient-to-r from-red-500 to-red-600 text-white": status === 'breach',
+    "bg-gradient-to-r from-yellow-500 to-yellow-600 text-white": status === 'warning',
+    "bg-gradient-to-r from-green-500 to-green-600 text-white": status === 'compliant',
+  });
+
   const leverageCovenant = loanData?.leverageCovenant || 0;
   const currentLeverage = currentLeverageValue[0];
   const isBreached = currentLeverage > leverageCovenant;
@@ -325,6 +358,116 @@ export function RiskDashboardTab() {
         </CardContent>
       </Card>
 
+      {/* Covenant Package */}
+      {covenantPackage.length > 0 && (
+        <Card className="shadow-xl border-0 bg-gradient-to-br from-slate-50 to-white" data-testid="covenant-package">
+          <CardHeader className="bg-gradient-to-r from-slate-100 to-slate-50 rounded-t-lg">
+            <CardTitle className="flex items-center justify-between text-xl">
+              <div className="flex items-center space-x-3">
+                <div className="bg-gradient-to-r from-indigo-500 to-indigo-600 p-2 rounded-lg">
+                  <ClipboardCheck className="w-6 h-6 text-white" />
+                </div>
+                <span className="text-slate-800">Covenant Compliance Test</span>
+              </div>
+              {riskStatus.lastCovenantTestDate && (
+                <span className="text-sm font-medium text-slate-500">
+                  Last tested: {riskStatus.lastCovenantTestDate}
+                </span>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6 p-8">
+            <div className="flex items-end space-x-4">
+              <div>
+                <label className="text-sm font-semibold text-slate-700 mb-2 block">Test Date</label>
+                <select
+                  value={testDate}
+                  onChange={(e) => setSelectedTestDate(e.target.value)}
+                  className="px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400/20 focus:border-indigo-400"
+                >
+                  {covenantTestDates.map(date => (
+                    <option key={date} value={date}>{date}</option>
+                  ))}
+                </select>
+              </div>
+              <Button onClick={handleRunCovenantTest} disabled={!testDate}>
+                Run Covenant Test
+              </Button>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-600 border-b border-slate-200">
+                    <th className="py-2 pr-4">Covenant</th>
+                    <th className="py-2 pr-4">Requirement</th>
+                    <th className="py-2 pr-4">Reported Figure</th>
+                    <th className="py-2 pr-4">Headroom</th>
+                    <th className="py-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {covenantPackage.map(covenant => {
+                    const result = riskStatus.covenantStatuses.find(status => status.covenantId === covenant.id);
+                    const threshold = testDate ? getApplicableThreshold(covenant, testDate) : covenant.threshold;
+                    return (
+                      <tr key={covenant.id} className="border-b border-slate-100" data-testid="covenant-row">
+                        <td className="py-3 pr-4 font-medium text-slate-800">
+                          {covenant.label}
+                          <span className="block text-xs text-slate-500 capitalize">
+                            {covenant.testFrequency.replace('_', '-')}
+                            {covenant.stepDowns.length > 0 && ` · ${covenant.stepDowns.length} step-down${covenant.stepDowns.length !== 1 ? 's' : ''}`}
+                          </span>
+                        </td>
+                        <td className="py-3 pr-4 text-slate-700">
+                          {covenant.operator === '<=' ? '≤' : '≥'} {formatCovenantValue(covenant, threshold)}
+                        </td>
+                        <td className="py-3 pr-4">
+                          <Input
+                            type="number"
+                            step={covenant.unit === 'ratio' ? '0.01' : '1'}
+                            value={reportedFigures[covenant.id] ?? ''}
+                            onChange={(e) => setReportedFigures(prev => ({ ...prev, [covenant.id]: e.target.value }))}
+                            aria-label={`${covenant.label} reported figure`}
+                            className="w-36"
+                          />
+                        </td>
+                        <td className="py-3 pr-4 text-slate-700">
+                          {result && result.testDate === testDate ? `${(result.headroom * 100).toFixed(1)}%` : '—'}
+                        </td>
+                        <td className="py-3">
+                          {result && result.testDate === testDate ? (
+                            <Badge
+                              variant={result.status === 'breach' ? "destructive" : result.status === 'warning' ? "secondary" : "default"}
+                              className={getCovenantBadgeClass(result.status)}
+                            >
+                              {result.status.toUpperCase()}
+                            </Badge>
+                          ) : (
+                            <span className="text-slate-400">Not tested</span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Repayment Schedule */}
+      {loanData && (loanData.repaymentSchedule || loanData.terminationDate) && (
+        <RepaymentScheduleView loan={loanData} />
+      )}
+
+      {/* Interest Schedule */}
+      {loanData && <InterestScheduleView loan={loanData} />}
+
+      {/* Revolver drawings and fees */}
+      {loanData && <FeeScheduleView loan={loanData} />}
+
       {/* Loan Information */}
       {loanData && (
         <Card>
@@ -3,6 +3,7 @@ import { render, screen, fireEvent, waitFor, act } from '@testing-library/react'
 import userEvent from '@testing-library/user-event';
 import { TradingManagerTab } from './TradingManagerTab';
 import { ApplicationProvider } from '@/contexts/ApplicationContext';
+import { CsvMarketDataProvider } from '@/lib/market-data';
 import { LenderAllocation, TradingStatus } from '@/types';
 
 // Mock the ApplicationContext with initial trading data
@@ -132,6 +133,139 @@ describe('TradingManagerTab', () => {
     expect(buyerNameInput).toHaveValue('');
   });
 
+  it('should reject a trade larger than the selected seller holds', async () => {
+    const user = userEvent.setup();
+    
+    render(
+      <TestWrapper>
+        <TradingManagerTab />
+      </TestWrapper>
+    );
+
+    await user.selectOptions(screen.getByTestId('seller-select'), 'Bank C');
+    await user.type(screen.getByTestId('sell-amount-input'), '25000000');
+    await user.type(screen.getByTestId('buyer-name-input'), 'New Bank');
+    await user.click(screen.getByTestId('execute-trade-button'));
+
+    expect(screen.getByTestId('trade-error')).toHaveTextContent('Bank C holds 20,000,000');
+    // The rejected trade is kept in the form for correction
+    expect(screen.getByTestId('sell-amount-input')).toHaveValue(25000000);
+    expect(screen.queryByText('New Bank')).not.toBeInTheDocument();
+  });
+
+  it('should take an agreed trade through settlement from the open trades view', async () => {
+    const user = userEvent.setup();
+    
+    render(
+      <TestWrapper>
+        <TradingManagerTab />
+      </TestWrapper>
+    );
+
+    await user.selectOptions(screen.getByTestId('seller-select'), 'Bank B');
+    await user.type(screen.getByTestId('sell-amount-input'), '10000000');
+    await user.type(screen.getByTestId('buyer-name-input'), 'Fund D');
+    await user.click(screen.getByTestId('execute-trade-button'));
+
+    // Holdings are unchanged until settlement
+    expect(screen.getByTestId('trade-stage')).toHaveTextContent('Trade Agreed');
+    expect(screen.getByText('$30,000,000')).toBeInTheDocument();
+
+    for (const step of ['Confirmation Signed', 'Transfer Certificate Drafted', 'Agent Processing', 'Funded', 'Settled']) {
+      await user.click(screen.getByRole('button', { name: step }));
+    }
+
+    expect(screen.queryAllByTestId('open-trade-row')).toHaveLength(0);
+    expect(screen.getByText('Bank B to Fund D')).toBeInTheDocument();
+    expect(screen.getByText('Fund D')).toBeInTheDocument();
+  });
+
+  it('should price a trade and show its funding memo once settled', async () => {
+    const user = userEvent.setup();
+
+    render(
+      <TestWrapper>
+        <TradingManagerTab />
+      </TestWrapper>
+    );
+
+    await user.selectOptions(screen.getByTestId('seller-select'), 'Bank B');
+    await user.type(screen.getByTestId('sell-amount-input'), '10000000');
+    await user.type(screen.getByTestId('trade-price-input'), '97.5');
+    await user.type(screen.getByTestId('buyer-name-input'), 'Fund D');
+    expect(screen.getByTestId('preview-settlement-amount')).toBeInTheDocument();
+    await user.click(screen.getByTestId('execute-trade-button'));
+
+    for (const step of ['Confirmation Signed', 'Transfer Certificate Drafted', 'Agent Processing', 'Funded', 'Settled']) {
+      await user.click(screen.getByRole('button', { name: step }));
+    }
+    await user.click(screen.getByRole('button', { name: 'Funding Memo' }));
+
+    expect(screen.getByTestId('funding-memo')).toHaveTextContent('Purchase price at 97.500%');
+    expect(screen.getByTestId('funding-memo')).toHaveTextContent('$9,750,000.00');
+    expect(screen.getByTestId('settlement-amount')).toBeInTheDocument();
+  });
+
+  it('should keep every trade in the blotter after the tab is remounted', async () => {
+    const user = userEvent.setup();
+
+    const { rerender } = render(
+      <TestWrapper>
+        <TradingManagerTab />
+      </TestWrapper>
+    );
+
+    for (const [seller, buyer] of [['Bank B', 'Fund D'], ['Bank C', 'Fund E']]) {
+      await user.selectOptions(screen.getByTestId('seller-select'), seller);
+      await user.type(screen.getByTestId('sell-amount-input'), '5000000');
+      await user.type(screen.getByTestId('buyer-name-input'), buyer);
+      await user.click(screen.getByTestId('execute-trade-button'));
+    }
+
+    rerender(<TestWrapper>{null}</TestWrapper>);
+    rerender(
+      <TestWrapper>
+        <TradingManagerTab />
+      </TestWrapper>
+    );
+
+    expect(screen.getAllByTestId('blotter-row')).toHaveLength(2);
+    await user.type(screen.getByTestId('blotter-counterparty-filter'), 'fund e');
+    expect(screen.getAllByTestId('blotter-row')).toHaveLength(1);
+    expect(screen.getByTestId('blotter-row')).toHaveTextContent('Bank C to Fund E');
+    await user.selectOptions(screen.getByTestId('blotter-status-filter'), 'settled');
+    expect(screen.getByText('No trades match these filters.')).toBeInTheDocument();
+  });
+
+  it('should show quotes from the market data provider and replay them in order', async () => {
+    jest.useFakeTimers();
+    const marketData = new CsvMarketDataProvider([
+      'date,facility,bid,ask,volume',
+      '2026-09-01,*,97.000,97.500,50000000',
+      '2026-09-02,*,97.500,98.000,60000000',
+    ].join('\n'));
+
+    render(
+      <ApplicationProvider marketData={marketData}>
+        <TradingManagerTab />
+      </ApplicationProvider>
+    );
+
+    await waitFor(() => expect(screen.getByTestId('quote-date')).toHaveTextContent('2026-09-02'));
+    expect(screen.getByTestId('market-price')).toHaveTextContent('97.75');
+
+    fireEvent.click(screen.getByTestId('replay-toggle'));
+    expect(screen.getByTestId('quote-date')).toHaveTextContent('2026-09-01');
+    expect(screen.getByTestId('market-price')).toHaveTextContent('97.25');
+
+    act(() => {
+      jest.advanceTimersByTime(5000);
+    });
+    expect(screen.getByTestId('quote-date')).toHaveTextContent('2026-09-02');
+
+    jest.useRealTimers();
+  });
+
   it('should display settlement badge after trade execution', async () => {
     const user = userEvent.setup();
     
@@ -247,7 +381,8 @@ describe('TradingManagerTab', () => {
     );
 
     // Check percentage formatting in the table - using actual rendered values
-    expect(screen.getAllByText('20.0%')).toHaveLength(2); // Bank A and Bank C
+    expect(screen.getByText('50.0%')).toBeInTheDocument(); // Bank A
     expect(screen.getByText('30.0%')).toBeInTheDocument(); // Bank B
+    expect(screen.getByText('20.0%')).toBeInTheDocument(); // Bank C
   });
 });
\ No newline at end of file
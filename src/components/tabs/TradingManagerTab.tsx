@@ -5,59 +5,117 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { TradingClock } from '@/components/ui/dynamic-clock';
-import { useApplication, useTradingStatus, useLoanData } from '@/contexts/ApplicationContext';
-import { TrendingUp, Users, DollarSign, Clock, CheckCircle, AlertCircle, BarChart3, PieChart } from 'lucide-react';
+import { useApplication, useTradingStatus, useLoanData, useRiskStatus } from '@/contexts/ApplicationContext';
+import { OpenTrades } from '@/components/enterprise/OpenTrades';
+import { TransferRestrictionsPanel } from '@/components/enterprise/TransferRestrictionsPanel';
+import { TradeBlotter } from '@/components/enterprise/TradeBlotter';
+import { CurrencyAmount } from '@/components/enterprise/CurrencyAmount';
+import { LenderExposureReport } from '@/components/enterprise/LenderExposureReport';
+import { PAR_PRICE, SETTLEMENT_BUSINESS_DAYS, addBusinessDays } from '@/lib/trade-lifecycle';
+import { MarketDataReplay, MarketQuote, getMidPrice, getQuoteAsOf, getSpread } from '@/lib/market-data';
+import { LENDER_CATEGORY_LABELS, checkTransferEligibility, getTradeLimits } from '@/lib/transfer-restrictions';
+import { calculateTradeSettlement, getPricingTerms } from '@/lib/trade-pricing';
+import { getConcentrationRisk } from '@/lib/lender-exposure';
+import { formatCurrencyAmount } from '@/lib/fx-rates';
+import { LenderCategory, TradeRecord, TradeRequest, TradeSettlementType } from '@/types';
+import { TrendingUp, Users, DollarSign, CheckCircle, AlertCircle, BarChart3, PieChart, ShieldCheck } from 'lucide-react';
 
 export function TradingManagerTab() {
-  const { executeTrade } = useApplication();
+  const { agreeTrade, marketData, reportingCurrency, rateCurve } = useApplication();
   const tradingStatus = useTradingStatus();
   const loanData = useLoanData();
+  const riskStatus = useRiskStatus();
   const [sellAmount, setSellAmount] = useState<string>('');
   const [buyerName, setBuyerName] = useState<string>('');
+  const [sellerName, setSellerName] = useState<string>('');
+  const [tradeError, setTradeError] = useState<string | null>(null);
   const [showSettlementBadge, setShowSettlementBadge] = useState<boolean>(false);
-  const [tradeHistory, setTradeHistory] = useState<Array<{
-    timestamp: Date;
-    sellAmount: number;
-    buyerName: string;
-    status: 'completed' | 'pending';
-  }>>([]);
-  const [marketData, setMarketData] = useState({
-    avgPrice: 98.5,
-    spread: 0.25,
-    volume24h: 125000000,
-    lastTrade: new Date()
-  });
+  const [settlementType, setSettlementType] = useState<TradeSettlementType>('par');
+  const [buyerCategory, setBuyerCategory] = useState<LenderCategory | ''>('');
+  const [buyerIsAffiliate, setBuyerIsAffiliate] = useState<boolean>(false);
+  const [tradePrice, setTradePrice] = useState<string>('');
+  const [quotes, setQuotes] = useState<MarketQuote[]>([]);
+  const [replayMode, setReplayMode] = useState<boolean>(false);
+  const [replayQuote, setReplayQuote] = useState<MarketQuote | null>(null);
+  const facility = loanData?.borrowerName ?? '';
+  const currency = loanData?.currency ?? reportingCurrency;
 
-  // Update market data periodically for real-time feel
+  // Quotes for the loan, or the generic market quote when it has none of its own
   useEffect(() => {
-    const interval = setInterval(() => {
-      setMarketData(prev => ({
-        ...prev,
-        avgPrice: prev.avgPrice + (Math.random() - 0.5) * 0.1,
-        spread: Math.max(0.1, prev.spread + (Math.random() - 0.5) * 0.05),
-        lastTrade: new Date()
-      }));
-    }, 5000); // Update every 5 seconds for more dynamic feel
+    if (!marketData) return;
+    let cancelled = false;
+    marketData.getQuotes(facility)
+      .then(loaded => {
+        if (!cancelled) setQuotes(loaded);
+      })
+      .catch(error => console.error('Failed to load market data:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [marketData, facility]);
 
+  // Replay steps through the quote history every 5 seconds, the same way on every run
+  useEffect(() => {
+    if (!replayMode) return;
+    const replay = new MarketDataReplay(quotes);
+    const interval = setInterval(() => setReplayQuote(replay.advance()), 5000);
     return () => clearInterval(interval);
-  }, []);
+  }, [quotes, replayMode]);
+
+  const toggleReplay = () => {
+    setReplayQuote(null);
+    setReplayMode(!replayMode);
+  };
+
+  const quote = replayMode
+    ? replayQuote ?? quotes[0] ?? null
+    : getQuoteAsOf(quotes, new Date().toISOString().substring(0, 10));
+  const marketPrice = quote ? getMidPrice(quote) : null;
+
+  // Default to the first lender of record until another seller is picked
+  const selectedSeller = tradingStatus.lenderAllocations.some(lender => lender.lenderName === sellerName)
+    ? sellerName
+    : tradingStatus.lenderAllocations[0]?.lenderName ?? '';
+
+  const restrictions = loanData?.transferRestrictions;
+  const tradeLimits = getTradeLimits(restrictions);
+  // Trades are struck at the entered price, or at the current market price when none is given
+  const price = parseFloat(tradePrice) || (marketPrice !== null ? Math.round(marketPrice * 100) / 100 : PAR_PRICE);
+  const buildTradeRequest = (amount: number): TradeRequest => ({
+    sellerName: selectedSeller,
+    buyerName: buyerName.trim(),
+    amount,
+    price,
+    ...(buyerCategory ? { buyerCategory } : {}),
+    ...(buyerIsAffiliate ? { buyerIsAffiliate: true } : {}),
+  });
+
+  // Checked as the buyer is entered so ineligible counterparties are flagged before execution
+  const eligibility = restrictions && buyerName.trim()
+    ? checkTransferEligibility(
+        restrictions,
+        buildTradeRequest(parseFloat(sellAmount) || 0),
+        tradingStatus.lenderAllocations.map(lender => lender.lenderName),
+        riskStatus.isInDefault
+      )
+    : null;
 
   const handleExecuteTrade = () => {
     const amount = parseFloat(sellAmount);
-    if (amount > 0 && buyerName.trim()) {
-      executeTrade(amount, buyerName.trim());
-      
-      // Add to trade history
-      setTradeHistory(prev => [{
-        timestamp: new Date(),
-        sellAmount: amount,
-        buyerName: buyerName.trim(),
-        status: 'completed'
-      }, ...prev.slice(0, 9)]); // Keep last 10 trades
+    if (amount > 0 && buyerName.trim() && selectedSeller) {
+      // Holdings move when the trade settles; until then it is tracked under Open Trades
+      const rejection = agreeTrade(buildTradeRequest(amount), settlementType);
+      if (rejection) {
+        setTradeError(rejection.message);
+        return;
+      }
+      setTradeError(null);
       
       setSellAmount('');
       setBuyerName('');
+      setTradePrice('');
+      setBuyerCategory('');
+      setBuyerIsAffiliate(false);
       setShowSettlementBadge(true);
       
       setTimeout(() => {
@@ -66,25 +124,37 @@ export function TradingManagerTab() {
     }
   };
 
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(amount);
-  };
+  const formatCurrency = (amount: number): string => formatCurrencyAmount(amount, currency);
 
   const formatPercentage = (percentage: number): string => {
     return `${percentage.toFixed(1)}%`;
   };
 
-  const isExecuteDisabled = !sellAmount || !buyerName.trim() || parseFloat(sellAmount) <= 0;
+  const settlementLabel = `T+${SETTLEMENT_BUSINESS_DAYS[settlementType]} (${settlementType === 'par' ? 'Par' : 'Distressed'})`;
+
+  const pricingTerms = getPricingTerms(loanData, rateCurve);
+  const tradeDate = new Date().toISOString().substring(0, 10);
+  const previewTrade: TradeRecord = {
+    ...buildTradeRequest(parseFloat(sellAmount) || 0),
+    id: 'preview',
+    price,
+    settlementType,
+    tradeDate,
+    targetSettlementDate: addBusinessDays(tradeDate, SETTLEMENT_BUSINESS_DAYS[settlementType]),
+    settlementDate: null,
+    stage: 'agreed',
+    history: [],
+    delayedCompensation: 0,
+  };
+  const previewSettlement = calculateTradeSettlement(previewTrade, pricingTerms, tradeDate);
+  const buyerFees = pricingTerms.fees.filter(fee => fee.payer === 'buyer').reduce((sum, fee) => sum + fee.amount, 0);
+
+  const isExecuteDisabled = !sellAmount || !buyerName.trim() || !selectedSeller || parseFloat(sellAmount) <= 0;
 
   // Calculate portfolio metrics
   const totalParticipants = tradingStatus.lenderAllocations.length;
   const largestAllocation = Math.max(...tradingStatus.lenderAllocations.map(l => l.percentage));
-  const concentrationRisk = largestAllocation > 40 ? 'High' : largestAllocation > 25 ? 'Medium' : 'Low';
+  const concentrationRisk = getConcentrationRisk(largestAllocation);
 
   return (
     <div className="space-y-6">
@@ -99,11 +169,11 @@ export function TradingManagerTab() {
         <div className="flex items-center space-x-6">
           <div className="text-right bg-gradient-to-br from-green-50 to-green-100 p-4 rounded-xl shadow-lg">
             <p className="text-sm font-semibold text-green-700 uppercase tracking-wide">Market Price</p>
-            <p className="text-2xl font-bold text-green-600">{marketData.avgPrice.toFixed(2)}</p>
+            <p className="text-2xl font-bold text-green-600">{marketPrice !== null ? marketPrice.toFixed(2) : '—'}</p>
           </div>
           <div className="text-right bg-gradient-to-br from-blue-50 to-blue-100 p-4 rounded-xl shadow-lg">
             <p className="text-sm font-semibold text-blue-700 uppercase tracking-wide">Spread</p>
-            <p className="text-xl font-bold text-blue-600">{marketData.spread.toFixed(2)}%</p>
+            <p className="text-xl font-bold text-blue-600">{quote ? `${getSpread(quote).toFixed(2)}%` : '—'}</p>
           </div>
         </div>
       </div>
@@ -116,7 +186,7 @@ export function TradingManagerTab() {
               <div>
                 <p className="text-sm font-semibold text-slate-600 uppercase tracking-wide">Total Facility</p>
                 <p className="text-3xl font-bold text-green-700 mt-2">
-                  {formatCurrency(tradingStatus.totalFacilityAmount)}
+                  <CurrencyAmount amount={tradingStatus.totalFacilityAmount} currency={currency} />
                 </p>
               </div>
               <div className="bg-green-500 p-4 rounded-full">
@@ -146,7 +216,7 @@ export function TradingManagerTab() {
               <div>
                 <p className="text-sm font-semibold text-slate-600 uppercase tracking-wide">24h Volume</p>
                 <p className="text-3xl font-bold text-purple-700 mt-2">
-                  {formatCurrency(marketData.volume24h)}
+                  {quote ? formatCurrency(quote.volume) : '—'}
                 </p>
               </div>
               <div className="bg-purple-500 p-4 rounded-full">
@@ -246,7 +316,7 @@ export function TradingManagerTab() {
             <div className="flex justify-between items-center">
               <span className="text-xl font-bold text-slate-900">Total Facility Amount:</span>
               <span className="text-2xl font-bold bg-gradient-to-r from-slate-700 to-slate-900 bg-clip-text text-transparent" data-testid="total-facility-amount">
-                {formatCurrency(tradingStatus.totalFacilityAmount)}
+                <CurrencyAmount amount={tradingStatus.totalFacilityAmount} currency={currency} />
               </span>
             </div>
           </div>
@@ -274,26 +344,54 @@ export function TradingManagerTab() {
             <div className="grid grid-cols-2 md:grid-cols-4 gap-6 text-sm">
               <div className="bg-white rounded-lg p-4 shadow-md">
                 <span className="text-blue-700 font-semibold">Current Price:</span>
-                <p className="font-bold text-blue-900 text-xl">{marketData.avgPrice.toFixed(2)}</p>
+                <p className="font-bold text-blue-900 text-xl" data-testid="market-price">{marketPrice !== null ? marketPrice.toFixed(2) : '—'}</p>
               </div>
               <div className="bg-white rounded-lg p-4 shadow-md">
-                <span className="text-blue-700 font-semibold">Bid-Ask Spread:</span>
-                <p className="font-bold text-blue-900 text-xl">{marketData.spread.toFixed(2)}%</p>
+                <span className="text-blue-700 font-semibold">Bid / Ask:</span>
+                <p className="font-bold text-blue-900 text-xl">{quote ? `${quote.bid.toFixed(3)} / ${quote.ask.toFixed(3)}` : '—'}</p>
               </div>
               <div className="bg-white rounded-lg p-4 shadow-md">
                 <span className="text-blue-700 font-semibold">Settlement:</span>
-                <p className="font-bold text-blue-900 text-xl">T+0 (Instant)</p>
+                <p className="font-bold text-blue-900 text-xl">T+7 Par / T+20 Distressed</p>
               </div>
               <div className="bg-white rounded-lg p-4 shadow-md">
-                <span className="text-blue-700 font-semibold">Last Update:</span>
-                <div className="font-bold text-blue-900 text-xl">
-                  <TradingClock className="text-blue-900 text-xl font-bold" />
-                </div>
+                <span className="text-blue-700 font-semibold">Quote Date:</span>
+                <p className="font-bold text-blue-900 text-xl" data-testid="quote-date">{quote?.date ?? 'No quotes'}</p>
+                <button
+                  type="button"
+                  onClick={toggleReplay}
+                  disabled={quotes.length === 0}
+                  className="mt-1 text-xs text-blue-700 hover:underline disabled:text-slate-400 disabled:no-underline"
+                  data-testid="replay-toggle"
+                >
+                  {replayMode ? 'Replaying history · show latest' : 'Replay history'}
+                </button>
               </div>
             </div>
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-8">
+            <div>
+              <label htmlFor="seller-name" className="block text-sm font-bold text-slate-700 mb-3 uppercase tracking-wide">
+                Selling Lender
+              </label>
+              <select
+                id="seller-name"
+                value={selectedSeller}
+                onChange={(e) => setSellerName(e.target.value)}
+                data-testid="seller-select"
+                className="w-full text-lg p-4 border-2 border-slate-200 rounded-xl focus:border-blue-500 transition-all bg-white"
+              >
+                {tradingStatus.lenderAllocations.map(lender => (
+                  <option key={lender.lenderName} value={lender.lenderName}>
+                    {`${lender.lenderName} · ${formatPercentage(lender.percentage)}`}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-slate-500 mt-2 font-medium">
+                Holds {formatCurrency(tradingStatus.lenderAllocations.find(lender => lender.lenderName === selectedSeller)?.amount ?? 0)}
+              </p>
+            </div>
             <div>
               <label htmlFor="sell-amount" className="block text-sm font-bold text-slate-700 mb-3 uppercase tracking-wide">
                 Trade Amount (USD)
@@ -309,7 +407,18 @@ export function TradingManagerTab() {
                 step="1000000"
                 className="text-lg p-4 border-2 border-slate-200 rounded-xl focus:border-blue-500 transition-all"
               />
-              <p className="text-xs text-slate-500 mt-2 font-medium">Minimum: $1,000,000</p>
+              <p className="text-xs text-slate-500 mt-2 font-medium">Minimum: {formatCurrency(tradeLimits.minTransferAmount)}</p>
+              <Input
+                type="number"
+                placeholder={`Price ${price.toFixed(2)}`}
+                value={tradePrice}
+                onChange={(e) => setTradePrice(e.target.value)}
+                data-testid="trade-price-input"
+                aria-label="Price (% of par)"
+                min="0"
+                step="0.125"
+                className="mt-3 text-sm p-2 border border-slate-200 rounded-lg"
+              />
             </div>
             <div>
               <label htmlFor="buyer-name" className="block text-sm font-bold text-slate-700 mb-3 uppercase tracking-wide">
@@ -325,6 +434,37 @@ export function TradingManagerTab() {
                 className="text-lg p-4 border-2 border-slate-200 rounded-xl focus:border-blue-500 transition-all"
               />
               <p className="text-xs text-slate-500 mt-2 font-medium">New or existing syndicate member</p>
+              <select
+                value={settlementType}
+                onChange={(e) => setSettlementType(e.target.value as TradeSettlementType)}
+                data-testid="settlement-type-select"
+                aria-label="Settlement type"
+                className="mt-3 w-full text-sm p-2 border border-slate-200 rounded-lg bg-white"
+              >
+                <option value="par">Par (T+7)</option>
+                <option value="distressed">Distressed (T+20)</option>
+              </select>
+              <select
+                value={buyerCategory}
+                onChange={(e) => setBuyerCategory(e.target.value as LenderCategory | '')}
+                data-testid="buyer-category-select"
+                aria-label="Buyer category"
+                className="mt-3 w-full text-sm p-2 border border-slate-200 rounded-lg bg-white"
+              >
+                <option value="">Buyer category…</option>
+                {(Object.keys(LENDER_CATEGORY_LABELS) as LenderCategory[]).map(category => (
+                  <option key={category} value={category}>{LENDER_CATEGORY_LABELS[category]}</option>
+                ))}
+              </select>
+              <label className="mt-2 flex items-center space-x-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={buyerIsAffiliate}
+                  onChange={(e) => setBuyerIsAffiliate(e.target.checked)}
+                  data-testid="buyer-affiliate-checkbox"
+                />
+                <span>Affiliate of a lender</span>
+              </label>
             </div>
             <div className="flex items-end">
               <Button
@@ -339,6 +479,38 @@ export function TradingManagerTab() {
             </div>
           </div>
 
+          {tradeError && (
+            <div className="flex items-center space-x-3 rounded-xl border border-red-200 bg-red-50 p-4 text-red-800" role="alert" data-testid="trade-error">
+              <AlertCircle className="w-5 h-5 flex-shrink-0" />
+              <span className="font-medium">{tradeError}</span>
+            </div>
+          )}
+
+          {/* Transfer Eligibility */}
+          {eligibility && (
+            <div
+              className={`rounded-xl border p-4 text-sm ${eligibility.eligible ? 'border-emerald-200 bg-emerald-50 text-emerald-800' : 'border-red-200 bg-red-50 text-red-800'}`}
+              data-testid="transfer-eligibility"
+            >
+              <div className="flex items-center space-x-2 font-semibold">
+                <ShieldCheck className="w-5 h-5" />
+                <span>{eligibility.eligible ? `${buyerName.trim()} is an eligible transferee` : `${buyerName.trim()} is not an eligible transferee`}</span>
+              </div>
+              {eligibility.reasons.length > 0 && (
+                <ul className="mt-2 list-disc pl-6 space-y-1">
+                  {eligibility.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                </ul>
+              )}
+              {eligibility.eligible && (
+                <p className="mt-2" data-testid="consent-requirement">
+                  {eligibility.consentRequired
+                    ? `Borrower consent required${restrictions?.deemedConsentDays ? ` (deemed given after ${restrictions.deemedConsentDays} business days)` : ''}`
+                    : 'Borrower consent not required'}
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Trade Preview */}
           {sellAmount && buyerName && (
             <div className="bg-gradient-to-br from-slate-50 to-slate-100 rounded-xl p-6 shadow-inner animate-fade-in">
@@ -346,19 +518,29 @@ export function TradingManagerTab() {
               <div className="grid grid-cols-2 gap-6 text-sm">
                 <div className="bg-white rounded-lg p-4 shadow-md">
                   <span className="text-slate-600 font-semibold">Trade Amount:</span>
-                  <p className="font-bold text-slate-900 text-xl">{formatCurrency(parseFloat(sellAmount) || 0)}</p>
+                  <p className="font-bold text-slate-900 text-xl"><CurrencyAmount amount={parseFloat(sellAmount) || 0} currency={currency} /></p>
                 </div>
                 <div className="bg-white rounded-lg p-4 shadow-md">
-                  <span className="text-slate-600 font-semibold">Estimated Price:</span>
-                  <p className="font-bold text-slate-900 text-xl">{marketData.avgPrice.toFixed(2)}</p>
+                  <span className="text-slate-600 font-semibold">Price:</span>
+                  <p className="font-bold text-slate-900 text-xl">{price.toFixed(2)}</p>
                 </div>
                 <div className="bg-white rounded-lg p-4 shadow-md">
                   <span className="text-slate-600 font-semibold">Settlement:</span>
-                  <p className="font-bold text-green-600 text-xl">Instant (T+0)</p>
+                  <p className="font-bold text-green-600 text-xl">{settlementLabel}</p>
                 </div>
                 <div className="bg-white rounded-lg p-4 shadow-md">
                   <span className="text-slate-600 font-semibold">Fees:</span>
-                  <p className="font-bold text-slate-900 text-xl">$0 (No fees)</p>
+                  <p className="font-bold text-slate-900 text-xl">{formatCurrency(buyerFees)} (Agent transfer fee)</p>
+                </div>
+                <div className="bg-white rounded-lg p-4 shadow-md">
+                  <span className="text-slate-600 font-semibold">Accrued Interest:</span>
+                  <p className="font-bold text-slate-900 text-xl">{formatCurrency(previewSettlement.accruedInterest)}</p>
+                </div>
+                <div className="bg-white rounded-lg p-4 shadow-md">
+                  <span className="text-slate-600 font-semibold">Settlement Amount:</span>
+                  <p className="font-bold text-slate-900 text-xl" data-testid="preview-settlement-amount">
+                    <CurrencyAmount amount={previewSettlement.settlementAmount} currency={currency} />
+                  </p>
                 </div>
               </div>
             </div>
@@ -368,57 +550,30 @@ export function TradingManagerTab() {
 
       {/* Settlement Status */}
       {showSettlementBadge && (
-        <div className="flex justify-center animate-fade-in">
+        <div className="flex justify-center animate-fade-in" data-testid="settlement-badge">
           <div className="bg-gradient-to-r from-green-50 to-emerald-50 border border-green-200 rounded-xl p-6 flex items-center space-x-4 shadow-xl">
             <div className="bg-green-500 p-3 rounded-full">
               <CheckCircle className="w-8 h-8 text-white" />
             </div>
             <div>
-              <p className="font-bold text-green-800 text-xl">Trade Executed Successfully</p>
-              <p className="text-sm text-green-700 mt-1">Settlement completed instantly (T+0)</p>
+              <p className="font-bold text-green-800 text-xl">Trade Agreed</p>
+              <p className="text-sm text-green-700 mt-1">Settlement targeted {settlementLabel}</p>
             </div>
           </div>
         </div>
       )}
 
-      {/* Trade History */}
-      {tradeHistory.length > 0 && (
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center space-x-2">
-              <Clock className="w-6 h-6" />
-              <span>Recent Trade Activity</span>
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-3">
-              {tradeHistory.map((trade, index) => (
-                <div key={index} className="flex items-center justify-between p-4 bg-slate-50 rounded-lg">
-                  <div className="flex items-center space-x-4">
-                    <CheckCircle className="w-5 h-5 text-green-500" />
-                    <div>
-                      <p className="font-medium text-slate-900">
-                        Trade with {trade.buyerName}
-                      </p>
-                      <p className="text-sm text-slate-600">
-                        {trade.timestamp.toLocaleString()}
-                      </p>
-                    </div>
-                  </div>
-                  <div className="text-right">
-                    <p className="font-bold text-slate-900">
-                      {formatCurrency(trade.sellAmount)}
-                    </p>
-                    <Badge variant="default" className="bg-green-100 text-green-800">
-                      {trade.status === 'completed' ? 'Completed' : 'Pending'}
-                    </Badge>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
-      )}
+      {/* Open Trades */}
+      <OpenTrades />
+
+      {/* Transfer Restrictions */}
+      <TransferRestrictionsPanel />
+
+      {/* Trade Blotter */}
+      <TradeBlotter />
+
+      {/* Lender Exposure */}
+      <LenderExposureReport />
 
       {/* Last Trade Information */}
       {tradingStatus.lastTradeTimestamp && (
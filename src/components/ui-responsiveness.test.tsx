@@ -30,7 +30,7 @@ function ResponsivenessTestComponent({ testLoanData }: { testLoanData?: LoanData
     // Use a small fixed trade amount that will always work with the default lender allocations
     // The default allocations are 50M, 30M, 20M, so 1M should always be available
     const tradeAmount = 1000000;
-    executeTrade(tradeAmount, 'New Bank');
+    executeTrade({ sellerName: 'Bank A', buyerName: 'New Bank', amount: tradeAmount });
   };
 
   return (
@@ -41,6 +41,7 @@ export interface EnterpriseConfig {
     // ESG discount parameters
     esgDiscountRate: number;
     maxEsgDiscount: number;
+    sustainabilityReportingDays: number; // Days after each test year's end to submit the compliance certificate
     
     // Risk thresholds
     riskWarningThreshold: number; // Percentage of covenant
@@ -49,6 +50,18 @@ export interface EnterpriseConfig {
     // Trading limits
     minTradeAmount: number;
     maxTradeAmount: number;
+    minHoldAmount: number; // Smallest holding a lender may keep after a partial transfer
+    
+    // Trade settlement
+    referenceRate: number;        // Reference rate (percent) used when no fixing is available for the loan's index
+    referenceRateFloor: number;   // Floor (percent) applied to the reference rate unless the loan sets its own
+    interestPeriodMonths: number; // Length of each interest period
+    transferFee: number;          // Agent's fee for processing a transfer, paid by the buyer
+
+    // Facility fees, unless the loan sets its own
+    commitmentFeePercentOfMargin: number; // Commitment fee on undrawn revolver amounts, as a percentage of margin
+    utilisationFeeBands: Array<{ aboveUtilisation: number; rate: number }>; // Fee on drawn amounts by utilisation
+    agencyFee: number;                    // Annual agency fee
   };
 
   // Supported currencies
@@ -135,12 +148,26 @@ export const defaultEnterpriseConfig: EnterpriseConfig = {
     
     esgDiscountRate: 0.1,              // 0.1% discount
     maxEsgDiscount: 0.5,               // Maximum 0.5% total discount
+    sustainabilityReportingDays: 120,  // Certificate due 120 days after year-end
     
     riskWarningThreshold: 0.9,         // 90% of covenant
     riskBreachThreshold: 1.0,          // 100% of covenant
     
     minTradeAmount: 1_000_000,         // $1M minimum trade
     maxTradeAmount: 1_000_000_000,     // $1B maximum trade
+    minHoldAmount: 5_000_000,          // $5M minimum hold
+    
+    referenceRate: 4.3,                // 4.30% term SOFR
+    referenceRateFloor: 0,             // Zero floor
+    interestPeriodMonths: 3,           // Quarterly interest periods
+    transferFee: 3_500,                // $3,500 agent transfer fee
+
+    commitmentFeePercentOfMargin: 35,  // 35% of the applicable margin
+    utilisationFeeBands: [
+      { aboveUtilisation: 33.33, rate: 0.1 },  // 0.10% above one third drawn
+      { aboveUtilisation: 66.67, rate: 0.2 },  // 0.20% above two thirds drawn
+    ],
+    agencyFee: 50_000,                 // $50,000 a year
   },
 
   currencies: {
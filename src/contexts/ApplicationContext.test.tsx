@@ -1,7 +1,8 @@
 import React from 'react';
-import { render, screen, act } from '@testing-library/react';
+import { render, screen, act, renderHook, waitFor } from '@testing-library/react';
 import { ApplicationProvider, useApplication, useLoanData } from './ApplicationContext';
-import { LoanData } from '@/types';
+import { Covenant, LoanData } from '@/types';
+import { InMemoryPortfolioRepository } from '@/lib/portfolio-repository';
 import * as fc from 'fast-check';
 
 // Test component to interact with the context
@@ -138,6 +139,87 @@ describe('ApplicationContext', () => {
     expect(screen.getByTestId('risk-status')).toHaveTextContent('In default'); // 5.0 > 4.0 covenant
   });
 
+  it('should test leverage against the step-down in force and update its covenant status', () => {
+    const { result } = renderHook(() => useApplication(), { wrapper: ApplicationProvider });
+    const leverage: Covenant = {
+      id: 'leverage',
+      metric: 'leverage',
+      label: 'Total Leverage Ratio',
+      operator: '<=',
+      threshold: 4.5,
+      unit: 'ratio',
+      testFrequency: 'quarterly',
+      testDates: [],
+      stepDowns: [{ until: '2099-12-31', threshold: 3.5 }],
+    };
+
+    act(() => {
+      result.current.setLoanData({
+        borrowerName: 'Test Corp',
+        facilityAmount: 100000000,
+        currency: 'USD',
+        interestRateMargin: 2.5,
+        leverageCovenant: 4.5,
+        esgTarget: 'Carbon neutral by 2030',
+        covenants: [leverage],
+      });
+    });
+
+    act(() => {
+      result.current.updateCurrentLeverage(3.3);
+    });
+    expect(result.current.state.riskStatus).toMatchObject({ currentLeverage: 3.3, isInDefault: false, warningLevel: 'warning' });
+
+    act(() => {
+      result.current.updateCurrentLeverage(3.8);
+    });
+    expect(result.current.state.riskStatus).toMatchObject({ isInDefault: true, warningLevel: 'breach' });
+    expect(result.current.state.riskStatus.covenantStatuses).toEqual([
+      expect.objectContaining({ covenantId: 'leverage', actual: 3.8, threshold: 3.5, status: 'breach' }),
+    ]);
+  });
+
+  it('should step the margin up once for each missed reporting deadline', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { result } = renderHook(() => useApplication(), { wrapper: ApplicationProvider });
+
+    act(() => {
+      result.current.setLoanData({
+        borrowerName: 'Test Corp',
+        facilityAmount: 100000000,
+        currency: 'USD',
+        interestRateMargin: 2.5,
+        leverageCovenant: 4.0,
+        esgTarget: 'Carbon neutral by 2030',
+        signingDate: '2019-06-30',
+        terminationDate: '2024-06-30',
+        sustainabilityTerms: {
+          kpis: [{
+            id: 'emissions',
+            metric: 'Scope 1 and 2 emissions',
+            unit: 'ktCO2e',
+            direction: 'decrease',
+            baselineYear: 2019,
+            baselineValue: 100,
+            targets: [{ testYear: 2020, target: 90 }, { testYear: 2021, target: 80 }],
+            weighting: 100,
+          }],
+          ratchetDownBps: 10,
+          ratchetUpBps: 5,
+        },
+      });
+    });
+    act(() => {
+      result.current.updateCurrentLeverage(3.0);
+    });
+
+    const missedWarnings = warn.mock.calls.filter(([message]) => message === 'Sustainability reporting deadline missed:');
+    expect(missedWarnings).toHaveLength(1);
+    expect(result.current.state.esgStatus.complianceCertificates?.map(certificate => certificate.status)).toEqual(['missed', 'missed']);
+    expect(result.current.state.currentLoan?.marginHistory).toHaveLength(2);
+    warn.mockRestore();
+  });
+
   it('should throw error when useApplication is used outside provider', () => {
     // Suppress console.error for this test
     const originalError = console.error;
@@ -305,4 +387,104 @@ describe('ApplicationContext', () => {
       expect(screen.getByTestId('esg-status')).toHaveTextContent('Discount applied');
     });
   });
-});
\ No newline at end of file
+});
+
+describe('Portfolio persistence', () => {
+  const buildLoan = (borrowerName: string): LoanData => ({
+    borrowerName,
+    facilityAmount: 100000000,
+    currency: 'USD',
+    interestRateMargin: 2.5,
+    leverageCovenant: 4.0,
+    esgTarget: 'Carbon neutral by 2030',
+  });
+
+  const renderWithRepository = (repository: InMemoryPortfolioRepository) =>
+    renderHook(() => useApplication(), {
+      wrapper: ({ children }: { children: React.ReactNode }) => (
+        <ApplicationProvider repository={repository}>{children}</ApplicationProvider>
+      ),
+    });
+
+  it('creates a portfolio record on first save and updates it afterwards', async () => {
+    const repository = new InMemoryPortfolioRepository();
+    const { result } = renderWithRepository(repository);
+
+    act(() => {
+      result.current.setLoanData(buildLoan('Acme Corp'));
+    });
+
+    let loanId: string | null = null;
+    await act(async () => {
+      loanId = await result.current.saveCurrentLoan();
+    });
+
+    expect(loanId).not.toBeNull();
+    expect(result.current.state.currentLoanId).toBe(loanId);
+
+    act(() => {
+      result.current.verifyAndLockData();
+    });
+    await act(async () => {
+      await result.current.saveCurrentLoan();
+    });
+
+    const summaries = await repository.list();
+    expect(summaries).toHaveLength(1);
+    expect(summaries[0].isVerified).toBe(true);
+    expect(result.current.state.portfolio).toHaveLength(1);
+  });
+
+  it('switches between loans with their own workflow state', async () => {
+    const repository = new InMemoryPortfolioRepository();
+    const { result } = renderWithRepository(repository);
+
+    act(() => {
+      result.current.setLoanData(buildLoan('First Borrower'));
+    });
+    act(() => {
+      result.current.updateCurrentLeverage(5.0);
+    });
+    let firstId: string | null = null;
+    await act(async () => {
+      firstId = await result.current.saveCurrentLoan();
+    });
+
+    act(() => {
+      result.current.resetState();
+    });
+    act(() => {
+      result.current.setLoanData(buildLoan('Second Borrower'));
+    });
+    await act(async () => {
+      await result.current.saveCurrentLoan();
+    });
+
+    expect(result.current.state.riskStatus.isInDefault).toBe(false);
+    expect(result.current.state.portfolio).toHaveLength(2);
+
+    await act(async () => {
+      await result.current.loadLoan(firstId as unknown as string);
+    });
+
+    expect(result.current.state.currentLoan?.borrowerName).toBe('First Borrower');
+    expect(result.current.state.riskStatus.isInDefault).toBe(true);
+  });
+
+  it('lists stored loans on mount', async () => {
+    const repository = new InMemoryPortfolioRepository();
+    const { result: seed } = renderWithRepository(repository);
+    act(() => {
+      seed.current.setLoanData(buildLoan('Stored Borrower'));
+    });
+    await act(async () => {
+      await seed.current.saveCurrentLoan();
+    });
+
+    const { result } = renderWithRepository(repository);
+
+    await waitFor(() => {
+      expect(result.current.state.portfolio.map(loan => loan.borrowerName)).toEqual(['Stored Borrower']);
+    });
+  });
+});
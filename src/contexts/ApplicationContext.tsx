@@ -1,58 +1,171 @@
 'use client';
 
-import React, { createContext, useContext, useReducer, ReactNode } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useRef, useState, ReactNode } from 'react';
 import { 
   ApplicationState, 
+  BorrowerEmissions,
   LoanData, 
   VerificationState, 
   ESGStatus, 
+  MarginAdjustment,
   RiskStatus, 
   TradingStatus,
-  LenderAllocation 
+  LenderAllocation,
+  CovenantTestResult,
+  PortfolioLoanInput,
+  PortfolioLoanRecord,
+  PortfolioLoanSummary,
+  RevolverMovement,
+  SustainabilityLinkedTerms,
+  TaxonomyScreening,
+  TradeRequest,
+  TradeSettlementType,
+  TradeStage,
+  TransferRestrictions,
+  getTotalFacilityAmount
 } from '@/types';
+import {
+  CovenantFinancials,
+  getCovenantPackage,
+  getOverallCovenantStatus,
+  testCovenant,
+  testCovenantPackage
+} from '@/lib/covenants';
+import { CodedError } from '@/lib/enterprise-errors';
+import { PortfolioRepository } from '@/lib/portfolio-repository';
+import { MarketDataProvider } from '@/lib/market-data';
+import { FxRateProvider, FxRateTable, REPORTING_CURRENCY } from '@/lib/fx-rates';
+import { ReferenceRateCurve, ReferenceRateProvider } from '@/lib/reference-rates';
+import {
+  applyCovenantResults,
+  createInitialESGStatus,
+  createInitialRiskStatus,
+  createInitialTradingStatus,
+  createInitialVerificationState,
+  seedTradingStatus,
+  TradeRejectedError,
+  verifyLoanState
+} from '@/lib/loan-state';
+import {
+  AdvanceTradeOptions,
+  AgreeTradeOptions,
+  TradeTransitionError,
+  advanceTrade as applyTradeStage,
+  agreeTrade as applyAgreedTrade,
+  executeInstantTrade,
+  generateTradeId
+} from '@/lib/trade-lifecycle';
+import { getTradeLimits } from '@/lib/transfer-restrictions';
+import { getAllInRate, getPricingTerms } from '@/lib/trade-pricing';
+import {
+  generateMovementId,
+  recordRevolverMovement as applyRevolverMovement
+} from '@/lib/revolving-facility';
+import {
+  applyMarginAdjustment,
+  setSustainabilityTerms as attachSustainabilityTerms
+} from '@/lib/sustainability-kpis';
+import {
+  CertificateReview,
+  CertificateSubmission,
+  ComplianceUpdate,
+  enforceReportingDeadlines,
+  generateCertificateId,
+  getMissedTestYears,
+  reviewComplianceCertificate as applyCertificateReview,
+  submitComplianceCertificate as applyCertificateSubmission
+} from '@/lib/compliance-certificates';
+import { validateBorrowerEmissions } from '@/lib/financed-emissions';
+import { validateTaxonomyScreening } from '@/lib/eu-taxonomy';
+import { getNextInterestPeriodStart } from '@/lib/interest-schedule';
+import { defaultEnterpriseConfig } from '@/config/enterprise-config';
+import {
+  createPortfolioLoan,
+  getPortfolioLoan,
+  listPortfolioLoans,
+  updatePortfolioLoan
+} from '@/actions/portfolio';
+import { getMarketQuotes } from '@/actions/market-data';
+import { getFxRates } from '@/actions/fx-rates';
+import { getReferenceRateFixings } from '@/actions/reference-rates';
+import { logComplianceCertificateEvent } from '@/actions/sustainability';
+
+// Repository backed by the server-side file store
+export const serverPortfolioRepository: PortfolioRepository = {
+  create: createPortfolioLoan,
+  get: getPortfolioLoan,
+  update: updatePortfolioLoan,
+  list: listPortfolioLoans,
+};
+
+export const serverMarketDataProvider: MarketDataProvider = {
+  getQuotes: getMarketQuotes,
+};
+
+export const serverFxRateProvider: FxRateProvider = {
+  getRates: getFxRates,
+};
+
+export const serverReferenceRateProvider: ReferenceRateProvider = {
+  getFixings: getReferenceRateFixings,
+};
+
+// Delay before state changes are written to the portfolio store
+const AUTO_SAVE_DELAY_MS = 500;
 
 // Action types for state management
 type ApplicationAction =
   | { type: 'SET_LOAN_DATA'; payload: LoanData }
   | { type: 'SET_VERIFICATION_STATUS'; payload: VerificationState }
+  | { type: 'VERIFY_AND_LOCK'; payload: VerificationState }
   | { type: 'SET_ESG_STATUS'; payload: ESGStatus }
   | { type: 'SET_RISK_STATUS'; payload: RiskStatus }
   | { type: 'SET_TRADING_STATUS'; payload: TradingStatus }
-  | { type: 'UPDATE_INTEREST_RATE_MARGIN'; payload: number }
-  | { type: 'UPDATE_CURRENT_LEVERAGE'; payload: number }
-  | { type: 'EXECUTE_TRADE'; payload: { sellAmount: number; buyerName: string } }
+  | { type: 'APPLY_MARGIN_ADJUSTMENT'; payload: Pick<MarginAdjustment, 'effectiveDate' | 'testYear' | 'adjustmentBps'> }
+  | { type: 'SET_SUSTAINABILITY_TERMS'; payload: SustainabilityLinkedTerms }
+  | { type: 'SUBMIT_COMPLIANCE_CERTIFICATE'; payload: { submission: CertificateSubmission; at: string } }
+  | { type: 'REVIEW_COMPLIANCE_CERTIFICATE'; payload: { certificateId: string; review: CertificateReview; at: string } }
+  | { type: 'ENFORCE_REPORTING_DEADLINES'; payload: { asOf: string } }
+  | { type: 'SET_BORROWER_EMISSIONS'; payload: BorrowerEmissions }
+  | { type: 'SET_TAXONOMY_SCREENING'; payload: TaxonomyScreening }
+  | { type: 'SET_TRANSFER_RESTRICTIONS'; payload: TransferRestrictions | undefined }
+  | { type: 'RECORD_REVOLVER_MOVEMENT'; payload: RevolverMovement }
+  | { type: 'UPDATE_CURRENT_LEVERAGE'; payload: { leverage: number; result: CovenantTestResult | null } }
+  | { type: 'TEST_COVENANTS'; payload: { testDate: string; results: CovenantTestResult[] } }
+  | { type: 'EXECUTE_TRADE'; payload: { trade: TradeRequest; options: AgreeTradeOptions } }
+  | { type: 'AGREE_TRADE'; payload: { trade: TradeRequest; options: AgreeTradeOptions } }
+  | { type: 'ADVANCE_TRADE'; payload: { tradeId: string; stage: TradeStage; options: AdvanceTradeOptions } }
+  | { type: 'SET_PORTFOLIO'; payload: PortfolioLoanSummary[] }
+  | { type: 'SET_CURRENT_LOAN_ID'; payload: string }
+  | { type: 'LOAD_PORTFOLIO_LOAN'; payload: PortfolioLoanRecord }
   | { type: 'RESET_STATE' };
 
 // Initial state
 const initialState: ApplicationState = {
   currentLoan: null,
-  verificationStatus: {
-    isVerified: false,
-    isLocked: false,
-    verificationTimestamp: null,
-  },
-  esgStatus: {
-    target: '',
-    discountApplied: false,
-    verificationUploaded: false,
-  },
-  riskStatus: {
-    currentLeverage: 0,
-    isInDefault: false,
-    warningLevel: 'safe',
-  },
-  tradingStatus: {
-    lenderAllocations: [
-      { lenderName: 'Bank A', amount: 50000000, percentage: 50 },
-      { lenderName: 'Bank B', amount: 30000000, percentage: 30 },
-      { lenderName: 'Bank C', amount: 20000000, percentage: 20 },
-    ],
-    totalFacilityAmount: 100000000,
-    lastTradeTimestamp: null,
-    settlementStatus: 'instant',
-  },
+  currentLoanId: null,
+  portfolio: [],
+  verificationStatus: createInitialVerificationState(),
+  esgStatus: createInitialESGStatus(),
+  riskStatus: createInitialRiskStatus(),
+  tradingStatus: createInitialTradingStatus(),
 };
 
+// Applies a compliance certificate transition, leaving the state alone if it is not allowed
+function applyComplianceUpdate(
+  state: ApplicationState,
+  transition: (loan: LoanData, esgStatus: ESGStatus) => ComplianceUpdate
+): ApplicationState {
+  if (!state.currentLoan) return state;
+  try {
+    const { loan, esgStatus } = transition(state.currentLoan, state.esgStatus);
+    return { ...state, currentLoan: loan, esgStatus };
+  } catch (error) {
+    if (error instanceof CodedError) return state;
+    throw error;
+  }
+}
+
 // Reducer function
 function applicationReducer(state: ApplicationState, action: ApplicationAction): ApplicationState {
   switch (action.type) {
@@ -66,7 +179,7 @@ function applicationReducer(state: ApplicationState, action: ApplicationAction):
         },
         tradingStatus: {
           ...state.tradingStatus,
-          totalFacilityAmount: action.payload.facilityAmount,
+          totalFacilityAmount: getTotalFacilityAmount(action.payload),
         },
       };
 
@@ -76,6 +189,14 @@ function applicationReducer(state: ApplicationState, action: ApplicationAction):
         verificationStatus: action.payload,
       };
 
+    case 'VERIFY_AND_LOCK':
+      // The verified lender schedule becomes the trading syndicate
+      return {
+        ...state,
+        verificationStatus: action.payload,
+        tradingStatus: seedTradingStatus(state.tradingStatus, state.currentLoan),
+      };
+
     case 'SET_ESG_STATUS':
       return {
         ...state,
@@ -94,81 +215,194 @@ function applicationReducer(state: ApplicationState, action: ApplicationAction):
         tradingStatus: action.payload,
       };
 
-    case 'UPDATE_INTEREST_RATE_MARGIN':
+    case 'APPLY_MARGIN_ADJUSTMENT':
+      if (!state.currentLoan) return state;
+      try {
+        return {
+          ...state,
+          currentLoan: applyMarginAdjustment(state.currentLoan, action.payload),
+          esgStatus: {
+            ...state.esgStatus,
+            discountApplied: action.payload.adjustmentBps < 0,
+            verificationUploaded: true,
+          },
+        };
+      } catch (error) {
+        if (error instanceof CodedError) return state;
+        throw error;
+      }
+
+    case 'SET_SUSTAINABILITY_TERMS':
+      if (!state.currentLoan) return state;
+      try {
+        return {
+          ...state,
+          currentLoan: attachSustainabilityTerms(state.currentLoan, action.payload, state.esgStatus.kpiReports ?? []),
+        };
+      } catch (error) {
+        if (error instanceof CodedError) return state;
+        throw error;
+      }
+
+    case 'SUBMIT_COMPLIANCE_CERTIFICATE': {
+      const { submission, at } = action.payload;
+      return applyComplianceUpdate(state, (loan, esgStatus) => applyCertificateSubmission(loan, esgStatus, submission, at));
+    }
+
+    case 'REVIEW_COMPLIANCE_CERTIFICATE': {
+      const { certificateId, review, at } = action.payload;
+      return applyComplianceUpdate(state, (loan, esgStatus) => applyCertificateReview(loan, esgStatus, certificateId, review, at));
+    }
+
+    case 'ENFORCE_REPORTING_DEADLINES':
+      return applyComplianceUpdate(state, (loan, esgStatus) => enforceReportingDeadlines(loan, esgStatus, action.payload.asOf));
+
+    case 'SET_BORROWER_EMISSIONS':
+      if (!state.currentLoan) return state;
+      try {
+        validateBorrowerEmissions(action.payload);
+      } catch (error) {
+        if (error instanceof CodedError) return state;
+        throw error;
+      }
+      return {
+        ...state,
+        currentLoan: {
+          ...state.currentLoan,
+          borrowerEmissions: action.payload,
+        },
+      };
+
+    case 'SET_TAXONOMY_SCREENING':
       if (!state.currentLoan) return state;
+      try {
+        validateTaxonomyScreening(state.currentLoan, action.payload);
+      } catch (error) {
+        if (error instanceof CodedError) return state;
+        throw error;
+      }
       return {
         ...state,
         currentLoan: {
           ...state.currentLoan,
-          interestRateMargin: action.payload,
+          taxonomyScreening: action.payload,
         },
       };
 
-    case 'UPDATE_CURRENT_LEVERAGE':
-      const newLeverage = action.payload;
-      const leverageCovenant = state.currentLoan?.leverageCovenant || 0;
-      const isInDefault = newLeverage > leverageCovenant;
-      
+    case 'SET_TRANSFER_RESTRICTIONS':
+      if (!state.currentLoan) return state;
+      return {
+        ...state,
+        currentLoan: {
+          ...state.currentLoan,
+          transferRestrictions: action.payload,
+        },
+      };
+
+    case 'UPDATE_CURRENT_LEVERAGE': {
+      const { leverage, result } = action.payload;
+      if (!result) {
+        return { ...state, riskStatus: { ...state.riskStatus, currentLeverage: leverage } };
+      }
+
+      // Replace the leverage row; other covenants tested on the last test date still count towards default
+      const covenantStatuses = state.riskStatus.covenantStatuses.some(status => status.covenantId === result.covenantId)
+        ? state.riskStatus.covenantStatuses.map(status => (status.covenantId === result.covenantId ? result : status))
+        : [...state.riskStatus.covenantStatuses, result];
+      const overallStatus = getOverallCovenantStatus(covenantStatuses);
+
       return {
         ...state,
         riskStatus: {
           ...state.riskStatus,
-          currentLeverage: newLeverage,
-          isInDefault,
-          warningLevel: isInDefault ? 'breach' : newLeverage > leverageCovenant * 0.9 ? 'warning' : 'safe',
+          currentLeverage: leverage,
+          covenantStatuses,
+          isInDefault: overallStatus === 'breach',
+          warningLevel: overallStatus === 'compliant' ? 'safe' : overallStatus,
         },
       };
+    }
+
+    case 'TEST_COVENANTS':
+      return {
+        ...state,
+        riskStatus: applyCovenantResults(state.riskStatus, action.payload.testDate, action.payload.results),
+      };
 
     case 'EXECUTE_TRADE':
-      const { sellAmount, buyerName } = action.payload;
-      const currentAllocations = [...state.tradingStatus.lenderAllocations];
-      
-      // Find seller (first lender with sufficient amount)
-      const sellerIndex = currentAllocations.findIndex(lender => lender.amount >= sellAmount);
-      if (sellerIndex === -1) return state; // No seller with sufficient amount
-      
-      // Find or create buyer
-      let buyerIndex = currentAllocations.findIndex(lender => lender.lenderName === buyerName);
-      if (buyerIndex === -1) {
-        // Add new buyer
-        currentAllocations.push({
-          lenderName: buyerName,
-          amount: sellAmount,
-          percentage: 0, // Will be calculated below
-        });
-        buyerIndex = currentAllocations.length - 1;
-      } else {
-        // Update existing buyer
-        currentAllocations[buyerIndex].amount += sellAmount;
+      try {
+        return {
+          ...state,
+          tradingStatus: executeInstantTrade(state.tradingStatus, action.payload.trade, action.payload.options),
+        };
+      } catch (error) {
+        if (error instanceof TradeRejectedError) return state; // Rejected trades leave the syndicate unchanged
+        throw error;
       }
-      
-      // Update seller
-      currentAllocations[sellerIndex].amount -= sellAmount;
-      
-      // Remove seller if they have no remaining amount
-      if (currentAllocations[sellerIndex].amount === 0) {
-        currentAllocations.splice(sellerIndex, 1);
-        if (buyerIndex > sellerIndex) buyerIndex--; // Adjust buyer index if needed
+
+    case 'AGREE_TRADE':
+      try {
+        return {
+          ...state,
+          tradingStatus: applyAgreedTrade(state.tradingStatus, action.payload.trade, action.payload.options),
+        };
+      } catch (error) {
+        if (error instanceof TradeRejectedError) return state;
+        throw error;
       }
-      
-      // Recalculate percentages
-      const totalAmount = state.tradingStatus.totalFacilityAmount;
-      currentAllocations.forEach(lender => {
-        lender.percentage = (lender.amount / totalAmount) * 100;
-      });
-      
+
+    case 'ADVANCE_TRADE':
+      try {
+        return {
+          ...state,
+          tradingStatus: applyTradeStage(state.tradingStatus, action.payload.tradeId, action.payload.stage, action.payload.options),
+        };
+      } catch (error) {
+        if (error instanceof TradeRejectedError || error instanceof TradeTransitionError) return state;
+        throw error;
+      }
+
+    case 'RECORD_REVOLVER_MOVEMENT':
+      if (!state.currentLoan) return state;
+      try {
+        return {
+          ...state,
+          currentLoan: applyRevolverMovement(state.currentLoan, action.payload),
+        };
+      } catch (error) {
+        if (error instanceof CodedError) return state;
+        throw error;
+      }
+
+    case 'SET_PORTFOLIO':
       return {
         ...state,
-        tradingStatus: {
-          ...state.tradingStatus,
-          lenderAllocations: currentAllocations,
-          lastTradeTimestamp: new Date(),
-          settlementStatus: 'instant',
-        },
+        portfolio: action.payload,
+      };
+
+    case 'SET_CURRENT_LOAN_ID':
+      return {
+        ...state,
+        currentLoanId: action.payload,
+      };
+
+    case 'LOAD_PORTFOLIO_LOAN':
+      return {
+        ...state,
+        currentLoanId: action.payload.id,
+        currentLoan: action.payload.loan,
+        verificationStatus: action.payload.verificationStatus,
+        esgStatus: action.payload.esgStatus,
+        riskStatus: action.payload.riskStatus,
+        tradingStatus: action.payload.tradingStatus,
       };
 
     case 'RESET_STATE':
-      return initialState;
+      // The portfolio listing outlives the loan being worked on
+      return {
+        ...initialState,
+        portfolio: state.portfolio,
+      };
 
     default:
       return state;
@@ -183,9 +417,31 @@ interface ApplicationContextType {
   setLoanData: (data: LoanData) => void;
   verifyAndLockData: () => void;
   applyESGDiscount: () => void;
+  setSustainabilityTerms: (terms: SustainabilityLinkedTerms) => CodedError | null;
+  submitComplianceCertificate: (submission: Omit<CertificateSubmission, 'id'>) => CodedError | null;
+  reviewComplianceCertificate: (certificateId: string, review: CertificateReview) => CodedError | null;
+  setBorrowerEmissions: (emissions: BorrowerEmissions) => CodedError | null;
+  setTaxonomyScreening: (screening: TaxonomyScreening) => CodedError | null;
   updateCurrentLeverage: (leverage: number) => void;
-  executeTrade: (sellAmount: number, buyerName: string) => void;
+  setTransferRestrictions: (restrictions: TransferRestrictions | undefined) => void;
+  recordRevolverMovement: (movement: Omit<RevolverMovement, 'id'>) => CodedError | null;
+  testCovenants: (testDate: string, financials: CovenantFinancials) => CovenantTestResult[];
+  executeTrade: (trade: TradeRequest) => TradeRejectedError | null;
+  agreeTrade: (trade: TradeRequest, settlementType?: TradeSettlementType) => TradeRejectedError | null;
+  advanceTrade: (tradeId: string, stage: TradeStage, note?: string) => TradeRejectedError | TradeTransitionError | null;
   resetState: () => void;
+  // Portfolio persistence
+  saveCurrentLoan: () => Promise<string | null>;
+  loadLoan: (id: string) => Promise<boolean>;
+  refreshPortfolio: () => Promise<void>;
+  loadPortfolioRecords: () => Promise<PortfolioLoanRecord[]>;
+  // Secondary market quotes, null when no quote source is configured
+  marketData: MarketDataProvider | null;
+  // Exchange rates (empty until loaded) and the currency figures are reported in
+  fx: FxRateTable;
+  reportingCurrency: string;
+  // Reference rate fixings, empty until loaded (rates then fall back to the configured rate)
+  rateCurve: ReferenceRateCurve;
 }
 
 // Create context
@@ -194,10 +450,210 @@ const ApplicationContext = createContext<ApplicationContextType | undefined>(und
 // Provider component
 interface ApplicationProviderProps {
   children: ReactNode;
+  // Persist loans through the server-side portfolio store
+  persist?: boolean;
+  // Explicit repository, takes precedence over `persist`
+  repository?: PortfolioRepository;
+  // Quote source for the trading screens, the server-side quote file when persisting
+  marketData?: MarketDataProvider;
+  // Exchange rate source, the server-side rate file when persisting
+  fxRates?: FxRateProvider;
+  // Reference rate source, the server-side fixings file when persisting
+  referenceRates?: ReferenceRateProvider;
 }
 
-export function ApplicationProvider({ children }: ApplicationProviderProps) {
+export function ApplicationProvider({
+  children,
+  persist = false,
+  repository,
+  marketData,
+  fxRates,
+  referenceRates
+}: ApplicationProviderProps) {
   const [state, dispatch] = useReducer(applicationReducer, initialState);
+  const portfolioRepository = repository ?? (persist ? serverPortfolioRepository : null);
+  const marketDataProvider = marketData ?? (persist ? serverMarketDataProvider : null);
+  const fxRateProvider = fxRates ?? (persist ? serverFxRateProvider : null);
+  const [fx, setFx] = useState(() => new FxRateTable([]));
+  const referenceRateProvider = referenceRates ?? (persist ? serverReferenceRateProvider : null);
+  const [rateCurve, setRateCurve] = useState(() => new ReferenceRateCurve([]));
+
+  // Saves are chained so a loan is only created once, even under rapid updates
+  const saveQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const loanIdRef = useRef<string | null>(null);
+  const lastSavedRef = useRef<string | null>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const getPortfolioInput = (current: ApplicationState): PortfolioLoanInput | null => {
+    if (!current.currentLoan) return null;
+    return {
+      loan: current.currentLoan,
+      verificationStatus: current.verificationStatus,
+      esgStatus: current.esgStatus,
+      riskStatus: current.riskStatus,
+      tradingStatus: current.tradingStatus,
+    };
+  };
+
+  const refreshPortfolio = async () => {
+    if (!portfolioRepository) return;
+    try {
+      dispatch({ type: 'SET_PORTFOLIO', payload: await portfolioRepository.list() });
+    } catch (error) {
+      console.error('Failed to load portfolio:', error);
+    }
+  };
+
+  const saveCurrentLoan = (): Promise<string | null> => {
+    const operation = saveQueueRef.current.then(async () => {
+      const input = getPortfolioInput(stateRef.current);
+      if (!portfolioRepository || !input) return null;
+
+      const snapshot = JSON.stringify(input);
+      if (loanIdRef.current && snapshot === lastSavedRef.current) return loanIdRef.current;
+
+      if (loanIdRef.current) {
+        await portfolioRepository.update(loanIdRef.current, input);
+      } else {
+        const record = await portfolioRepository.create(input);
+        loanIdRef.current = record.id;
+        dispatch({ type: 'SET_CURRENT_LOAN_ID', payload: record.id });
+      }
+      lastSavedRef.current = snapshot;
+
+      await refreshPortfolio();
+      return loanIdRef.current;
+    });
+
+    saveQueueRef.current = operation.catch(error => {
+      console.error('Failed to save loan to portfolio:', error);
+    });
+    return operation.catch(() => null);
+  };
+
+  const loadLoan = async (id: string): Promise<boolean> => {
+    if (!portfolioRepository) return false;
+
+    // Flush pending changes to the current loan before switching
+    await saveQueueRef.current;
+    try {
+      const record = await portfolioRepository.get(id);
+      if (!record) return false;
+
+      loanIdRef.current = record.id;
+      lastSavedRef.current = JSON.stringify(getPortfolioInput(applicationReducer(stateRef.current, { type: 'LOAD_PORTFOLIO_LOAN', payload: record })));
+      dispatch({ type: 'LOAD_PORTFOLIO_LOAN', payload: record });
+
+      console.log('Loan loaded from portfolio:', {
+        id: record.id,
+        borrower: record.loan.borrowerName,
+        timestamp: new Date().toISOString()
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to load loan from portfolio:', error);
+      return false;
+    }
+  };
+
+  // Every loan in the portfolio, with the current loan's live state in place of its saved copy
+  const loadPortfolioRecords = async (): Promise<PortfolioLoanRecord[]> => {
+    const current = stateRef.current;
+    const input = getPortfolioInput(current);
+    const now = new Date().toISOString();
+    const currentRecords: PortfolioLoanRecord[] = input
+      ? [{ ...input, id: current.currentLoanId ?? 'current', createdAt: now, updatedAt: now }]
+      : [];
+    if (!portfolioRepository) return currentRecords;
+
+    try {
+      const summaries = await portfolioRepository.list();
+      const stored = await Promise.all(
+        summaries
+          .filter(summary => summary.id !== current.currentLoanId)
+          .map(summary => portfolioRepository.get(summary.id))
+      );
+      return [...currentRecords, ...stored.filter((record): record is PortfolioLoanRecord => record !== null)];
+    } catch (error) {
+      console.error('Failed to load portfolio loans:', error);
+      return currentRecords;
+    }
+  };
+
+  // Load exchange rates once a rate source is available
+  useEffect(() => {
+    if (!fxRateProvider) return;
+    let cancelled = false;
+    fxRateProvider.getRates()
+      .then(rates => {
+        if (!cancelled) setFx(new FxRateTable(rates));
+      })
+      .catch(error => console.error('Failed to load FX rates:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [fxRateProvider]);
+
+  // Load reference rate fixings once a source is available
+  useEffect(() => {
+    if (!referenceRateProvider) return;
+    let cancelled = false;
+    referenceRateProvider.getFixings()
+      .then(fixings => {
+        if (!cancelled) setRateCurve(new ReferenceRateCurve(fixings));
+      })
+      .catch(error => console.error('Failed to load reference rates:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [referenceRateProvider]);
+
+  // Load the portfolio listing once a repository is available
+  useEffect(() => {
+    refreshPortfolio();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [portfolioRepository]);
+
+  // Test years whose reporting deadline passed by today without a certificate
+  const today = new Date().toISOString().substring(0, 10);
+  const overdueTestYears = state.currentLoan ? getMissedTestYears(state.currentLoan, state.esgStatus, today).join(',') : '';
+
+  // Step the margin up for them; runs again only when the overdue years or the date change
+  useEffect(() => {
+    const { currentLoan, esgStatus } = stateRef.current;
+    if (!overdueTestYears || !currentLoan) return;
+    const asOf = new Date().toISOString();
+    let update: ComplianceUpdate;
+
+    try {
+      update = enforceReportingDeadlines(currentLoan, esgStatus, asOf);
+    } catch (error) {
+      if (!(error instanceof CodedError)) throw error;
+      console.warn('Reporting deadlines could not be enforced:', error.message);
+      return;
+    }
+    if (update.certificates.length === 0) return;
+
+    dispatch({ type: 'ENFORCE_REPORTING_DEADLINES', payload: { asOf } });
+    auditComplianceUpdate(update);
+
+    console.warn('Sustainability reporting deadline missed:', {
+      testYears: update.certificates.map(certificate => certificate.testYear),
+      margin: update.loan.interestRateMargin,
+      timestamp: asOf
+    });
+  }, [overdueTestYears]);
+
+  // Auto-save the current loan shortly after its state changes
+  useEffect(() => {
+    if (!portfolioRepository || !state.currentLoan) return;
+    const timer = setTimeout(() => {
+      saveCurrentLoan();
+    }, AUTO_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [portfolioRepository, state.currentLoan, state.verificationStatus, state.esgStatus, state.riskStatus, state.tradingStatus]);
 
   // Helper functions
   const setLoanData = (data: LoanData) => {
@@ -206,76 +662,312 @@ export function ApplicationProvider({ children }: ApplicationProviderProps) {
     // Log activity
     console.log('Loan data set:', {
       borrower: data.borrowerName,
-      amount: data.facilityAmount,
+      amount: getTotalFacilityAmount(data),
       currency: data.currency,
+      tranches: data.tranches?.length || 0,
       timestamp: new Date().toISOString()
     });
   };
 
   const verifyAndLockData = () => {
     dispatch({
-      type: 'SET_VERIFICATION_STATUS',
-      payload: {
-        isVerified: true,
-        isLocked: true,
-        verificationTimestamp: new Date(),
-      },
+      type: 'VERIFY_AND_LOCK',
+      payload: verifyLoanState(),
     });
     
     console.log('Data verified and locked at:', new Date().toISOString());
   };
 
+  // Flat step-down for loans without KPIs, on verification of the ESG target
   const applyESGDiscount = () => {
     if (state.currentLoan) {
-      const newMargin = Math.max(0.01, state.currentLoan.interestRateMargin - 0.1);
-      dispatch({ type: 'UPDATE_INTEREST_RATE_MARGIN', payload: newMargin });
+      const discount = defaultEnterpriseConfig.business.esgDiscountRate;
+      const today = new Date().toISOString().substring(0, 10);
       dispatch({
-        type: 'SET_ESG_STATUS',
+        type: 'APPLY_MARGIN_ADJUSTMENT',
         payload: {
-          ...state.esgStatus,
-          discountApplied: true,
-          verificationUploaded: true,
+          effectiveDate: getNextInterestPeriodStart(state.currentLoan, today),
+          testYear: null,
+          adjustmentBps: -discount * 100,
         },
       });
       
       console.log('ESG discount applied:', {
         oldRate: state.currentLoan.interestRateMargin,
-        newRate: newMargin,
-        savings: state.currentLoan.facilityAmount * 0.001,
+        discount,
+        savings: state.currentLoan.facilityAmount * (discount / 100),
         timestamp: new Date().toISOString()
       });
     }
   };
 
+  const setSustainabilityTerms = (terms: SustainabilityLinkedTerms): CodedError | null => {
+    if (!state.currentLoan) return null;
+
+    try {
+      attachSustainabilityTerms(state.currentLoan, terms, state.esgStatus.kpiReports ?? []);
+    } catch (error) {
+      if (!(error instanceof CodedError)) throw error;
+      return error;
+    }
+
+    dispatch({ type: 'SET_SUSTAINABILITY_TERMS', payload: terms });
+    console.log('Sustainability KPIs set:', { kpis: terms.kpis.map(kpi => kpi.metric), timestamp: new Date().toISOString() });
+    return null;
+  };
+
+  // Records each certificate transition without holding up the workflow
+  const auditComplianceUpdate = (update: ComplianceUpdate) => {
+    update.certificates.forEach(certificate => {
+      const adjustment = update.loan.marginHistory?.find(entry => entry.testYear === certificate.testYear);
+      logComplianceCertificateEvent({
+        borrower: update.loan.borrowerName,
+        certificate,
+        adjustmentBps: adjustment?.adjustmentBps ?? null,
+      }).catch(error => console.error('Failed to record compliance certificate event:', error));
+    });
+  };
+
+  const submitComplianceCertificate = (submission: Omit<CertificateSubmission, 'id'>): CodedError | null => {
+    if (!state.currentLoan) return null;
+    const recorded: CertificateSubmission = { ...submission, id: generateCertificateId() };
+    const at = new Date().toISOString();
+    let update: ComplianceUpdate;
+
+    try {
+      update = applyCertificateSubmission(state.currentLoan, state.esgStatus, recorded, at);
+    } catch (error) {
+      if (!(error instanceof CodedError)) throw error;
+      console.warn('Compliance certificate rejected:', { testYear: submission.testYear, reason: error.message });
+      return error;
+    }
+
+    dispatch({ type: 'SUBMIT_COMPLIANCE_CERTIFICATE', payload: { submission: recorded, at } });
+    auditComplianceUpdate(update);
+
+    console.log('Compliance certificate submitted:', {
+      testYear: submission.testYear,
+      verifier: submission.assurance.verifier,
+      timestamp: at
+    });
+    return null;
+  };
+
+  // Accepting applies the certificate's margin ratchet from the next interest period
+  const reviewComplianceCertificate = (certificateId: string, review: CertificateReview): CodedError | null => {
+    if (!state.currentLoan) return null;
+    const at = new Date().toISOString();
+    let update: ComplianceUpdate;
+
+    try {
+      update = applyCertificateReview(state.currentLoan, state.esgStatus, certificateId, review, at);
+    } catch (error) {
+      if (!(error instanceof CodedError)) throw error;
+      console.warn('Compliance certificate review rejected:', { certificateId, reason: error.message });
+      return error;
+    }
+
+    dispatch({ type: 'REVIEW_COMPLIANCE_CERTIFICATE', payload: { certificateId, review, at } });
+    auditComplianceUpdate(update);
+
+    console.log('Compliance certificate reviewed:', {
+      certificateId,
+      accepted: review.accepted,
+      margin: update.loan.interestRateMargin,
+      timestamp: at
+    });
+    return null;
+  };
+
+  const setBorrowerEmissions = (emissions: BorrowerEmissions): CodedError | null => {
+    if (!state.currentLoan) return null;
+
+    try {
+      validateBorrowerEmissions(emissions);
+    } catch (error) {
+      if (!(error instanceof CodedError)) throw error;
+      return error;
+    }
+
+    dispatch({ type: 'SET_BORROWER_EMISSIONS', payload: emissions });
+    console.log('Borrower emissions set:', {
+      reportingYear: emissions.reportingYear,
+      dataSource: emissions.dataSource,
+      timestamp: new Date().toISOString()
+    });
+    return null;
+  };
+
+  const setTaxonomyScreening = (screening: TaxonomyScreening): CodedError | null => {
+    if (!state.currentLoan) return null;
+
+    try {
+      validateTaxonomyScreening(state.currentLoan, screening);
+    } catch (error) {
+      if (!(error instanceof CodedError)) throw error;
+      return error;
+    }
+
+    dispatch({ type: 'SET_TAXONOMY_SCREENING', payload: screening });
+    console.log('Taxonomy screening set:', {
+      useOfProceeds: screening.useOfProceeds.length,
+      timestamp: new Date().toISOString()
+    });
+    return null;
+  };
+
+  const setTransferRestrictions = (restrictions: TransferRestrictions | undefined) => {
+    dispatch({ type: 'SET_TRANSFER_RESTRICTIONS', payload: restrictions });
+  };
+
+  const recordRevolverMovement = (movement: Omit<RevolverMovement, 'id'>): CodedError | null => {
+    if (!state.currentLoan) return null;
+    const recorded: RevolverMovement = { ...movement, id: generateMovementId() };
+
+    // Check against the drawn balance so the caller can report why it was rejected
+    try {
+      applyRevolverMovement(state.currentLoan, recorded);
+    } catch (error) {
+      if (!(error instanceof CodedError)) throw error;
+      console.warn('Revolver movement rejected:', { ...movement, reason: error.message });
+      return error;
+    }
+
+    dispatch({ type: 'RECORD_REVOLVER_MOVEMENT', payload: recorded });
+
+    console.log('Revolver movement recorded:', {
+      ...movement,
+      timestamp: new Date().toISOString()
+    });
+    return null;
+  };
+
   const updateCurrentLeverage = (leverage: number) => {
-    dispatch({ type: 'UPDATE_CURRENT_LEVERAGE', payload: leverage });
+    // Test against the leverage covenant in force today, step-downs included
+    const covenant = getCovenantPackage(state.currentLoan).find(entry => entry.metric === 'leverage');
+    const result = covenant ? testCovenant(covenant, leverage, new Date().toISOString().substring(0, 10)) : null;
+    dispatch({ type: 'UPDATE_CURRENT_LEVERAGE', payload: { leverage, result } });
     
     // Log risk level changes
-    const leverageCovenant = state.currentLoan?.leverageCovenant || 0;
-    const isInDefault = leverage > leverageCovenant;
-    const warningLevel = isInDefault ? 'breach' : leverage > leverageCovenant * 0.9 ? 'warning' : 'safe';
-    
-    if (isInDefault || warningLevel === 'warning') {
+    if (result && result.status !== 'compliant') {
       console.warn('Risk level changed:', {
         leverage,
-        covenant: leverageCovenant,
-        status: warningLevel,
+        covenant: result.threshold,
+        status: result.status,
         timestamp: new Date().toISOString()
       });
     }
   };
 
-  const executeTrade = (sellAmount: number, buyerName: string) => {
-    dispatch({ type: 'EXECUTE_TRADE', payload: { sellAmount, buyerName } });
+  const testCovenants = (testDate: string, financials: CovenantFinancials): CovenantTestResult[] => {
+    const results = testCovenantPackage(getCovenantPackage(state.currentLoan), financials, testDate);
+    dispatch({ type: 'TEST_COVENANTS', payload: { testDate, results } });
+    
+    const breaches = results.filter(result => result.status === 'breach');
+    if (breaches.length > 0) {
+      console.warn('Covenant breach detected:', {
+        testDate,
+        covenants: breaches.map(result => `${result.label}: ${result.actual} vs ${result.threshold}`),
+        timestamp: new Date().toISOString()
+      });
+    }
+    
+    return results;
+  };
+
+  const executeTrade = (trade: TradeRequest): TradeRejectedError | null => {
+    const options: AgreeTradeOptions = {
+      id: generateTradeId(),
+      restrictions: state.currentLoan?.transferRestrictions,
+      eventOfDefault: state.riskStatus.isInDefault,
+    };
+
+    // Check the trade against current holdings so the caller can report why it was rejected
+    try {
+      executeInstantTrade(state.tradingStatus, trade, options);
+    } catch (error) {
+      if (!(error instanceof TradeRejectedError)) throw error;
+      console.warn('Trade rejected:', {
+        ...trade,
+        reason: error.reason,
+        timestamp: new Date().toISOString()
+      });
+      return error;
+    }
+
+    dispatch({ type: 'EXECUTE_TRADE', payload: { trade, options } });
     
     console.log('Trade executed:', {
-      amount: sellAmount,
-      buyer: buyerName,
+      amount: trade.amount,
+      seller: trade.sellerName,
+      buyer: trade.buyerName,
+      timestamp: new Date().toISOString()
+    });
+    return null;
+  };
+
+  const agreeTrade = (trade: TradeRequest, settlementType: TradeSettlementType = 'par'): TradeRejectedError | null => {
+    // The id is fixed here so the reducer stays deterministic
+    const options: AgreeTradeOptions = {
+      settlementType,
+      id: generateTradeId(),
+      restrictions: state.currentLoan?.transferRestrictions,
+      eventOfDefault: state.riskStatus.isInDefault,
+    };
+    try {
+      applyAgreedTrade(state.tradingStatus, trade, options);
+    } catch (error) {
+      if (!(error instanceof TradeRejectedError)) throw error;
+      console.warn('Trade rejected:', {
+        ...trade,
+        reason: error.reason,
+        timestamp: new Date().toISOString()
+      });
+      return error;
+    }
+
+    dispatch({ type: 'AGREE_TRADE', payload: { trade, options } });
+
+    console.log('Trade agreed:', {
+      id: options.id,
+      amount: trade.amount,
+      seller: trade.sellerName,
+      buyer: trade.buyerName,
+      settlementType,
       timestamp: new Date().toISOString()
     });
+    return null;
+  };
+
+  const advanceTrade = (
+    tradeId: string,
+    stage: TradeStage,
+    note?: string
+  ): TradeRejectedError | TradeTransitionError | null => {
+    // Delayed compensation accrues at the all-in rate
+    const options: AdvanceTradeOptions = {
+      annualRate: getAllInRate(getPricingTerms(state.currentLoan, rateCurve)),
+      limits: getTradeLimits(state.currentLoan?.transferRestrictions),
+      note,
+      at: new Date(),
+    };
+    try {
+      applyTradeStage(state.tradingStatus, tradeId, stage, options);
+    } catch (error) {
+      if (!(error instanceof TradeRejectedError) && !(error instanceof TradeTransitionError)) throw error;
+      console.warn('Trade stage change rejected:', { tradeId, stage, error: error.message });
+      return error;
+    }
+
+    dispatch({ type: 'ADVANCE_TRADE', payload: { tradeId, stage, options } });
+
+    console.log('Trade stage changed:', { tradeId, stage, timestamp: options.at?.toISOString() });
+    return null;
   };
 
   const resetState = () => {
+    loanIdRef.current = null;
+    lastSavedRef.current = null;
     dispatch({ type: 'RESET_STATE' });
     console.log('Application state reset at:', new Date().toISOString());
   };
@@ -286,9 +978,27 @@ export function ApplicationProvider({ children }: ApplicationProviderProps) {
     setLoanData,
     verifyAndLockData,
     applyESGDiscount,
+    setSustainabilityTerms,
+    submitComplianceCertificate,
+    reviewComplianceCertificate,
+    setBorrowerEmissions,
+    setTaxonomyScreening,
     updateCurrentLeverage,
+    setTransferRestrictions,
+    recordRevolverMovement,
+    testCovenants,
     executeTrade,
+    agreeTrade,
+    advanceTrade,
     resetState,
+    saveCurrentLoan,
+    loadLoan,
+    refreshPortfolio,
+    loadPortfolioRecords,
+    marketData: marketDataProvider,
+    fx,
+    reportingCurrency: REPORTING_CURRENCY,
+    rateCurve,
   };
 
   return (
@@ -328,6 +1038,11 @@ export function useRiskStatus() {
   return state.riskStatus;
 }
 
+export function usePortfolio() {
+  const { state } = useApplication();
+  return state.portfolio;
+}
+
 export function useTradingStatus() {
   const { state } = useApplication();
   return state.tradingStatus;
@@ -6,4 +6,5 @@ export {
   useESGStatus,
   useRiskStatus,
   useTradingStatus,
+  usePortfolio,
 } from './ApplicationContext';
\ No newline at end of file
@@ -0,0 +1,84 @@
+/**
+ * REST API Response Helpers
+ * Consistent JSON envelopes for /api/v1 routes, with errors mapped through EnterpriseError codes
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { CodedError, ErrorCode, enterpriseErrorHandler } from '@/lib/enterprise-errors';
+
+export interface ApiErrorBody {
+  success: false;
+  error: {
+    code: ErrorCode;
+    message: string;
+    correlationId: string;
+    details?: Record<string, unknown>;
+  };
+}
+
+export interface ApiSuccessBody<T> {
+  success: true;
+  data: T;
+}
+
+const HTTP_STATUS_BY_CODE: Partial<Record<ErrorCode, number>> = {
+  [ErrorCode.INVALID_INPUT]: 400,
+  [ErrorCode.EMPTY_INPUT]: 400,
+  [ErrorCode.INPUT_TOO_LARGE]: 413,
+  [ErrorCode.INVALID_FILE_TYPE]: 415,
+  [ErrorCode.UNSUPPORTED_FORMAT]: 415,
+  [ErrorCode.PARSING_ERROR]: 422,
+  [ErrorCode.VALIDATION_ERROR]: 422,
+  [ErrorCode.INSUFFICIENT_DATA]: 422,
+  [ErrorCode.INVALID_LOAN_TERMS]: 422,
+  [ErrorCode.LOAN_NOT_FOUND]: 404,
+  [ErrorCode.TRADE_REJECTED]: 409,
+  [ErrorCode.UNAUTHORIZED_ACCESS]: 403,
+};
+
+export function apiSuccess<T>(data: T, status: number = 200): NextResponse<ApiSuccessBody<T>> {
+  return NextResponse.json({ success: true, data }, { status });
+}
+
+export function apiError(
+  code: ErrorCode,
+  message?: string,
+  details?: Record<string, unknown>
+): NextResponse<ApiErrorBody> {
+  const error = enterpriseErrorHandler.createError(code, message ? new Error(message) : undefined, details);
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: error.code,
+        message: message || error.userMessage,
+        correlationId: error.correlationId,
+        ...(details ? { details } : {}),
+      },
+    },
+    { status: HTTP_STATUS_BY_CODE[code] ?? 500 }
+  );
+}
+
+/**
+ * Map an unexpected exception to an API error response
+ */
+export function apiErrorFromException(error: unknown): NextResponse<ApiErrorBody> {
+  if (error instanceof CodedError) {
+    return apiError(error.code, error.message, error.details);
+  }
+  return apiError(ErrorCode.STORAGE_ERROR, error instanceof Error ? error.message : 'Unknown error');
+}
+
+/**
+ * Parse a JSON object body, or null when the body is missing or malformed
+ */
+export async function readJsonBody(request: NextRequest): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await request.json();
+    return body && typeof body === 'object' && !Array.isArray(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for compliance certificate submission, review and missed reporting deadlines
+ */
+
+import { ESGStatus, LoanData } from '@/types';
+import { auditLogger, AuditAction } from './audit';
+import { logComplianceCertificateEvent } from '@/actions/sustainability';
+import {
+  CertificateSubmission,
+  enforceReportingDeadlines,
+  getMissedTestYears,
+  getReportingDeadline,
+  reviewComplianceCertificate,
+  submitComplianceCertificate
+} from './compliance-certificates';
+
+const loan: LoanData = {
+  borrowerName: 'Green Energy Solutions Inc.',
+  facilityAmount: 100000000,
+  currency: 'USD',
+  interestRateMargin: 2.25,
+  leverageCovenant: 3.75,
+  esgTarget: 'Halve emissions by 2027',
+  signingDate: '2025-01-01',
+  terminationDate: '2028-01-01',
+  sustainabilityTerms: {
+    kpis: [
+      {
+        id: 'emissions',
+        metric: 'Scope 1 and 2 emissions',
+        unit: 'ktCO2e',
+        direction: 'decrease',
+        baselineYear: 2023,
+        baselineValue: 100,
+        targets: [{ testYear: 2025, target: 80 }, { testYear: 2026, target: 70 }],
+        weighting: 60,
+      },
+      {
+        id: 'renewables',
+        metric: 'Renewable electricity',
+        unit: '%',
+        direction: 'increase',
+        baselineYear: 2023,
+        baselineValue: 40,
+        targets: [{ testYear: 2026, target: 75 }],
+        weighting: 40,
+      },
+    ],
+    ratchetDownBps: 10,
+    ratchetUpBps: 5,
+  },
+};
+
+const esgStatus: ESGStatus = { target: loan.esgTarget, discountApplied: false, verificationUploaded: false };
+
+const submission: CertificateSubmission = {
+  id: 'certificate_2025',
+  testYear: 2025,
+  values: { emissions: 75 },
+  assurance: { verifier: 'Assurance Partners LLP', fileName: 'assurance-2025.pdf' },
+};
+
+describe('getReportingDeadline', () => {
+  it('falls 120 days after the test year-end', () => {
+    expect(getReportingDeadline(2025)).toBe('2026-04-30');
+    expect(getReportingDeadline(2027)).toBe('2028-04-29');
+  });
+});
+
+describe('submitComplianceCertificate', () => {
+  it('records the certificate pending review without moving the margin', () => {
+    const update = submitComplianceCertificate(loan, esgStatus, submission, '2026-03-10T09:00:00.000Z');
+
+    expect(update.loan).toBe(loan);
+    expect(update.esgStatus.complianceCertificates).toEqual([{
+      ...submission,
+      deadline: '2026-04-30',
+      status: 'submitted',
+      events: [{ status: 'submitted', at: '2026-03-10T09:00:00.000Z' }],
+    }]);
+    expect(update.esgStatus.kpiReports).toBeUndefined();
+  });
+
+  it('requires an assurance report, an open test year and a timely submission', () => {
+    const submitted = submitComplianceCertificate(loan, esgStatus, submission, '2026-03-10T09:00:00.000Z').esgStatus;
+
+    expect(() => submitComplianceCertificate(loan, esgStatus, { ...submission, assurance: { verifier: '', fileName: '' } }, '2026-03-10'))
+      .toThrow("Attach the external verifier's assurance report");
+    expect(() => submitComplianceCertificate(loan, submitted, { ...submission, id: 'again' }, '2026-03-11'))
+      .toThrow('2025 already has a submitted certificate');
+    expect(() => submitComplianceCertificate(loan, esgStatus, submission, '2026-05-01'))
+      .toThrow('The 2025 certificate was due by 2026-04-30');
+    expect(() => submitComplianceCertificate(loan, esgStatus, { ...submission, testYear: 2030 }, '2026-03-10'))
+      .toThrow('No KPI is tested in 2030');
+  });
+});
+
+describe('reviewComplianceCertificate', () => {
+  const submitted = submitComplianceCertificate(loan, esgStatus, submission, '2026-03-10T09:00:00.000Z').esgStatus;
+
+  it('applies the ratchet from the next interest period once accepted', () => {
+    const update = reviewComplianceCertificate(loan, submitted, 'certificate_2025', { accepted: true }, '2026-03-20T09:00:00.000Z');
+
+    expect(update.certificates[0].status).toBe('accepted');
+    expect(update.loan.marginHistory).toEqual([
+      { effectiveDate: '2026-04-01', testYear: 2025, adjustmentBps: -6, margin: expect.closeTo(2.19, 10), contractualMargin: 2.25 },
+    ]);
+    expect(update.esgStatus.kpiReports).toEqual([{ testYear: 2025, reportedOn: '2026-03-20', values: { emissions: 75 } }]);
+    expect(update.esgStatus).toMatchObject({ discountApplied: true, verificationUploaded: true });
+  });
+
+  it('leaves the margin alone on rejection and lets the borrower resubmit', () => {
+    expect(() => reviewComplianceCertificate(loan, submitted, 'certificate_2025', { accepted: false }, '2026-03-20'))
+      .toThrow('Give a reason for rejecting the certificate');
+
+    const update = reviewComplianceCertificate(loan, submitted, 'certificate_2025', { accepted: false, note: 'Assurance scope excludes Scope 2' }, '2026-03-20T09:00:00.000Z');
+    expect(update.loan).toBe(loan);
+    expect(update.certificates[0].events.map(event => event.status)).toEqual(['submitted', 'rejected']);
+    expect(() => reviewComplianceCertificate(loan, update.esgStatus, 'certificate_2025', { accepted: true }, '2026-03-21'))
+      .toThrow('The 2025 certificate is not awaiting review');
+
+    const resubmitted = submitComplianceCertificate(loan, update.esgStatus, { ...submission, id: 'certificate_2025_b' }, '2026-04-02T09:00:00.000Z');
+    expect(resubmitted.esgStatus.complianceCertificates?.map(certificate => certificate.status)).toEqual(['rejected', 'submitted']);
+  });
+});
+
+describe('enforceReportingDeadlines', () => {
+  it('steps the margin up for a test year with no certificate by its deadline', () => {
+    expect(getMissedTestYears(loan, esgStatus, '2026-04-30')).toEqual([]);
+
+    const update = enforceReportingDeadlines(loan, esgStatus, '2026-05-01T00:00:00.000Z');
+    expect(update.certificates).toEqual([expect.objectContaining({ testYear: 2025, status: 'missed', assurance: null })]);
+    expect(update.loan.marginHistory).toEqual([
+      { effectiveDate: '2026-07-01', testYear: 2025, adjustmentBps: 3, margin: expect.closeTo(2.28, 10), contractualMargin: 2.25 },
+    ]);
+    expect(enforceReportingDeadlines(update.loan, update.esgStatus, '2026-06-01').certificates).toEqual([]);
+  });
+
+  it('dates the step-up from the deadline however late it is enforced', () => {
+    const update = enforceReportingDeadlines(loan, esgStatus, '2026-11-15T00:00:00.000Z');
+
+    expect(update.loan.marginHistory).toEqual([expect.objectContaining({ effectiveDate: '2026-07-01', testYear: 2025 })]);
+    expect(update.esgStatus.kpiReports).toEqual([{ testYear: 2025, reportedOn: '2026-11-15', values: {} }]);
+  });
+
+  it('waits on certificates submitted in time and under review', () => {
+    const submitted = submitComplianceCertificate(loan, esgStatus, submission, '2026-04-29T09:00:00.000Z').esgStatus;
+
+    expect(getMissedTestYears(loan, submitted, '2026-05-15')).toEqual([]);
+  });
+});
+
+describe('logComplianceCertificateEvent', () => {
+  it('records an ESG milestone audit event', async () => {
+    const log = jest.spyOn(auditLogger, 'log').mockResolvedValue();
+    const { certificates } = enforceReportingDeadlines(loan, esgStatus, '2026-05-01T00:00:00.000Z');
+
+    await logComplianceCertificateEvent({ borrower: loan.borrowerName, certificate: certificates[0], adjustmentBps: 3 });
+
+    expect(log).toHaveBeenCalledWith(expect.objectContaining({
+      action: AuditAction.ESG_MILESTONE_UPDATE,
+      resource: 'compliance_certificate',
+      details: expect.objectContaining({ testYear: 2025, status: 'missed', adjustmentBps: 3 }),
+      riskLevel: 'HIGH',
+    }));
+    log.mockRestore();
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Sustainability Compliance Certificates
+ * The borrower's annual certificate of KPI performance, backed by an external
+ * verifier's assurance report. The agent accepts or rejects each certificate; only
+ * an accepted certificate moves the margin, and a test year without a certificate
+ * by its reporting deadline is assessed as every KPI missed.
+ */
+
+import {
+  AssuranceReport,
+  ComplianceCertificate,
+  ComplianceCertificateStatus,
+  ESGStatus,
+  KpiReport,
+  LoanData
+} from '@/types';
+import { defaultEnterpriseConfig } from '@/config/enterprise-config';
+import { CodedError, ErrorCode } from '@/lib/enterprise-errors';
+import { getNextInterestPeriodStart } from '@/lib/interest-schedule';
+import {
+  applyMarginAdjustment,
+  assessKpiReport,
+  getTestYears
+} from '@/lib/sustainability-kpis';
+
+export interface CertificateSubmission {
+  id: string;
+  testYear: number;
+  values: Record<string, number>;
+  assurance: AssuranceReport;
+}
+
+export interface CertificateReview {
+  accepted: boolean;
+  // Required when rejecting, so the borrower knows what to fix
+  note?: string;
+}
+
+// Loan and ESG status after a transition, with the certificates it changed
+export interface ComplianceUpdate {
+  loan: LoanData;
+  esgStatus: ESGStatus;
+  certificates: ComplianceCertificate[];
+}
+
+// Statuses that close a test year to further submissions
+const CLOSED_STATUSES: ComplianceCertificateStatus[] = ['submitted', 'accepted', 'missed'];
+
+const reject = (message: string): never => {
+  throw new CodedError(ErrorCode.VALIDATION_ERROR, message);
+};
+
+const toDate = (timestamp: string): string => timestamp.substring(0, 10);
+
+export function generateCertificateId(): string {
+  return `certificate_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Last day to submit a test year's certificate: the configured number of days
+ * after the year-end
+ */
+export function getReportingDeadline(testYear: number): string {
+  const days = defaultEnterpriseConfig.business.sustainabilityReportingDays;
+  return new Date(Date.UTC(testYear, 11, 31 + days)).toISOString().substring(0, 10);
+}
+
+/**
+ * The certificate that decides a test year: the accepted, pending or missed one,
+ * otherwise the latest rejection
+ */
+export function getCertificateForYear(certificates: ComplianceCertificate[], testYear: number): ComplianceCertificate | null {
+  const forYear = certificates.filter(certificate => certificate.testYear === testYear);
+  return forYear.find(certificate => CLOSED_STATUSES.includes(certificate.status)) ?? forYear[forYear.length - 1] ?? null;
+}
+
+/**
+ * Test years whose deadline has passed by `asOf` with no certificate submitted,
+ * ignoring deadlines before the loan was signed
+ */
+export function getMissedTestYears(loan: LoanData, esgStatus: ESGStatus, asOf: string): number[] {
+  if (!loan.sustainabilityTerms) return [];
+  const certificates = esgStatus.complianceCertificates ?? [];
+  const reports = esgStatus.kpiReports ?? [];
+  const date = toDate(asOf);
+
+  return getTestYears(loan.sustainabilityTerms).filter(testYear => {
+    const deadline = getReportingDeadline(testYear);
+    if (deadline >= date || (loan.signingDate && deadline < loan.signingDate)) return false;
+    if (reports.some(report => report.testYear === testYear)) return false;
+    return !certificates.some(certificate => certificate.testYear === testYear && CLOSED_STATUSES.includes(certificate.status));
+  });
+}
+
+// Assesses a test year's values and moves the margin from the interest period after `decidedOn`
+function applyTestYear(
+  loan: LoanData,
+  esgStatus: ESGStatus,
+  report: KpiReport,
+  decidedOn: string = report.reportedOn
+): Pick<ComplianceUpdate, 'loan' | 'esgStatus'> {
+  const result = assessKpiReport(loan, esgStatus.kpiReports ?? [], report);
+  return {
+    loan: applyMarginAdjustment(loan, {
+      effectiveDate: getNextInterestPeriodStart(loan, decidedOn),
+      testYear: report.testYear,
+      adjustmentBps: result.adjustmentBps,
+    }),
+    esgStatus: {
+      ...esgStatus,
+      discountApplied: result.adjustmentBps < 0,
+      kpiReports: [...(esgStatus.kpiReports ?? []), report],
+    },
+  };
+}
+
+/**
+ * Records a borrower's certificate for a test year, pending the agent's review.
+ * Throws CodedError when the loan has no KPIs, no KPI is tested that
+ * year, the deadline has passed, the year already has a certificate that is not
+ * rejected, or the assurance report is missing.
+ */
+export function submitComplianceCertificate(
+  loan: LoanData,
+  esgStatus: ESGStatus,
+  submission: CertificateSubmission,
+  at: string
+): ComplianceUpdate {
+  const terms = loan.sustainabilityTerms;
+  if (!terms) return reject('The loan has no sustainability KPIs');
+  const { testYear } = submission;
+  if (!getTestYears(terms).includes(testYear)) reject(`No KPI is tested in ${testYear}`);
+
+  const deadline = getReportingDeadline(testYear);
+  if (toDate(at) > deadline) reject(`The ${testYear} certificate was due by ${deadline}`);
+  const existing = getCertificateForYear(esgStatus.complianceCertificates ?? [], testYear);
+  if (existing && existing.status !== 'rejected') reject(`${testYear} already has a ${existing.status} certificate`);
+  if (!submission.assurance.verifier.trim() || !submission.assurance.fileName.trim()) {
+    reject("Attach the external verifier's assurance report");
+  }
+
+  const values = Object.fromEntries(Object.entries(submission.values).filter(([, value]) => Number.isFinite(value)));
+  const certificate: ComplianceCertificate = {
+    id: submission.id,
+    testYear,
+    deadline,
+    status: 'submitted',
+    values,
+    assurance: submission.assurance,
+    events: [{ status: 'submitted', at }],
+  };
+
+  return {
+    loan,
+    esgStatus: { ...esgStatus, complianceCertificates: [...(esgStatus.complianceCertificates ?? []), certificate] },
+    certificates: [certificate],
+  };
+}
+
+/**
+ * The agent's decision on a submitted certificate. Accepting assesses its values
+ * and applies the margin ratchet from the next interest period; rejecting leaves
+ * the margin alone and reopens the year until its deadline. Throws
+ * CodedError for an unknown or already reviewed certificate, or a
+ * rejection without a note.
+ */
+export function reviewComplianceCertificate(
+  loan: LoanData,
+  esgStatus: ESGStatus,
+  certificateId: string,
+  review: CertificateReview,
+  at: string
+): ComplianceUpdate {
+  const certificates = esgStatus.complianceCertificates ?? [];
+  const certificate = certificates.find(entry => entry.id === certificateId);
+  if (!certificate) return reject('Certificate not found');
+  if (certificate.status !== 'submitted') reject(`The ${certificate.testYear} certificate is not awaiting review`);
+  const note = review.note?.trim();
+  if (!review.accepted && !note) reject('Give a reason for rejecting the certificate');
+
+  const status: ComplianceCertificateStatus = review.accepted ? 'accepted' : 'rejected';
+  const reviewed: ComplianceCertificate = {
+    ...certificate,
+    status,
+    events: [...certificate.events, { status, at, ...(note && { note }) }],
+  };
+  const updated = { ...esgStatus, complianceCertificates: certificates.map(entry => (entry.id === certificateId ? reviewed : entry)) };
+
+  if (!review.accepted) {
+    return { loan, esgStatus: updated, certificates: [reviewed] };
+  }
+
+  const applied = applyTestYear(loan, updated, { testYear: certificate.testYear, reportedOn: toDate(at), values: certificate.values });
+  return {
+    ...applied,
+    esgStatus: { ...applied.esgStatus, verificationUploaded: true },
+    certificates: [reviewed],
+  };
+}
+
+/**
+ * Marks every test year past its deadline without a certificate as missed and
+ * steps the margin up as though no KPI were reported, from the interest period
+ * after the deadline however late the breach is enforced. Returns the loan and
+ * status unchanged when nothing is overdue.
+ */
+export function enforceReportingDeadlines(loan: LoanData, esgStatus: ESGStatus, asOf: string): ComplianceUpdate {
+  return getMissedTestYears(loan, esgStatus, asOf).reduce<ComplianceUpdate>((update, testYear) => {
+    const missed: ComplianceCertificate = {
+      id: `certificate_missed_${testYear}`,
+      testYear,
+      deadline: getReportingDeadline(testYear),
+      status: 'missed',
+      values: {},
+      assurance: null,
+      events: [{ status: 'missed', at: asOf, note: 'No certificate submitted by the reporting deadline' }],
+    };
+    const withMissed = {
+      ...update.esgStatus,
+      complianceCertificates: [...(update.esgStatus.complianceCertificates ?? []), missed],
+    };
+    const applied = applyTestYear(update.loan, withMissed, { testYear, reportedOn: toDate(asOf), values: {} }, missed.deadline);
+    return { ...applied, certificates: [...update.certificates, missed] };
+  }, { loan, esgStatus, certificates: [] });
+}
@@ -0,0 +1,158 @@
+/**
+ * Tests for the financial covenant engine and covenant extraction
+ */
+
+import * as fc from 'fast-check';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Covenant } from '@/types';
+import {
+  buildLeverageCovenant,
+  generateTestDates,
+  getApplicableThreshold,
+  getCovenantPackage,
+  getOverallCovenantStatus,
+  testCovenant,
+  testCovenantPackage,
+} from './covenants';
+import { SmartLoanExtractor } from './smart-loan-extractor';
+
+const steppedLeverage: Covenant = {
+  id: 'leverage',
+  metric: 'leverage',
+  label: 'Total Leverage Ratio',
+  operator: '<=',
+  threshold: 4.75,
+  unit: 'ratio',
+  testFrequency: 'quarterly',
+  testDates: [],
+  stepDowns: [
+    { until: '2026-12-31', threshold: 5.5 },
+    { until: '2027-12-31', threshold: 5.25 },
+  ],
+};
+
+const interestCover: Covenant = {
+  id: 'interest_cover',
+  metric: 'interest_cover',
+  label: 'Interest Cover Ratio',
+  operator: '>=',
+  threshold: 3,
+  unit: 'ratio',
+  testFrequency: 'quarterly',
+  testDates: [],
+  stepDowns: [],
+};
+
+describe('Covenant engine', () => {
+  it('applies step-downs by test date', () => {
+    expect(getApplicableThreshold(steppedLeverage, '2026-09-30')).toBe(5.5);
+    expect(getApplicableThreshold(steppedLeverage, '2026-12-31')).toBe(5.5);
+    expect(getApplicableThreshold(steppedLeverage, '2027-03-31')).toBe(5.25);
+    expect(getApplicableThreshold(steppedLeverage, '2028-03-31')).toBe(4.75);
+  });
+
+  it('classifies maximum and minimum covenants', () => {
+    expect(testCovenant(steppedLeverage, 4.0, '2026-09-30').status).toBe('compliant');
+    expect(testCovenant(steppedLeverage, 5.2, '2026-09-30').status).toBe('warning');
+    expect(testCovenant(steppedLeverage, 5.2, '2028-03-31').status).toBe('breach');
+
+    expect(testCovenant(interestCover, 4.0, '2026-09-30').status).toBe('compliant');
+    expect(testCovenant(interestCover, 3.1, '2026-09-30').status).toBe('warning');
+    expect(testCovenant(interestCover, 2.5, '2026-09-30').status).toBe('breach');
+  });
+
+  it('only tests covenants with a reported figure', () => {
+    const results = testCovenantPackage([steppedLeverage, interestCover], { interest_cover: 2.0 }, '2026-09-30');
+
+    expect(results).toHaveLength(1);
+    expect(results[0].covenantId).toBe('interest_cover');
+    expect(getOverallCovenantStatus(results)).toBe('breach');
+    expect(getOverallCovenantStatus([])).toBe('compliant');
+  });
+
+  it('breaches exactly when the threshold is crossed', () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: 0.5, max: 10, noNaN: true }),
+        fc.double({ min: 0, max: 20, noNaN: true }),
+        (threshold, actual) => {
+          const maximum = testCovenant(buildLeverageCovenant(threshold), actual, '2026-09-30');
+          const minimum = testCovenant({ ...interestCover, threshold }, actual, '2026-09-30');
+
+          expect(maximum.status === 'breach').toBe(actual > threshold);
+          expect(minimum.status === 'breach').toBe(actual < threshold);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('falls back to the headline leverage covenant', () => {
+    const loan = {
+      borrowerName: 'Test Corp',
+      facilityAmount: 100000000,
+      currency: 'USD',
+      interestRateMargin: 2.5,
+      leverageCovenant: 4.0,
+      esgTarget: '',
+    };
+
+    expect(getCovenantPackage(null)).toEqual([]);
+    expect(getCovenantPackage(loan)).toEqual([buildLeverageCovenant(4.0)]);
+    expect(getCovenantPackage({ ...loan, covenants: [interestCover] })).toEqual([interestCover]);
+  });
+
+  it('generates period-end test dates', () => {
+    const start = new Date(Date.UTC(2026, 1, 15));
+
+    expect(generateTestDates('quarterly', start, 4)).toEqual(['2026-03-31', '2026-06-30', '2026-09-30', '2026-12-31']);
+    expect(generateTestDates('semi_annual', start, 2)).toEqual(['2026-06-30', '2026-12-31']);
+    expect(generateTestDates('annual', start, 2)).toEqual(['2026-12-31', '2027-12-31']);
+  });
+});
+
+describe('Covenant extraction', () => {
+  const readSample = (name: string) => readFileSync(join(process.cwd(), 'sample-documents', name), 'utf8');
+
+  it('extracts step-downs and ignores the pricing grid', async () => {
+    const result = await new SmartLoanExtractor().extractLoanData(readSample('acquisition-loan-agreement.txt'));
+    const covenants = result.data.covenants || [];
+    const leverage = covenants.find(covenant => covenant.metric === 'leverage');
+
+    expect(leverage?.threshold).toBe(4.75);
+    expect(leverage?.stepDowns).toEqual([
+      { until: '2026-12-31', threshold: 5.5 },
+      { until: '2027-12-31', threshold: 5.25 },
+      { until: '2028-12-31', threshold: 5.0 },
+    ]);
+    expect(covenants.find(covenant => covenant.metric === 'interest_cover')?.threshold).toBe(3.0);
+
+    const capex = covenants.find(covenant => covenant.metric === 'capex');
+    expect(capex?.threshold).toBe(50000000);
+    expect(capex?.testFrequency).toBe('annual');
+  });
+
+  it('reads each covenant\'s test frequency from its own clause', async () => {
+    const text = readSample('acquisition-loan-agreement.txt');
+    const frequencies = async (agreement: string) => Object.fromEntries(
+      ((await new SmartLoanExtractor().extractLoanData(agreement)).data.covenants || [])
+        .map(covenant => [covenant.metric, covenant.testFrequency])
+    );
+
+    // The interest cover line states no frequency; the capex line's "per fiscal year" is its own
+    expect(await frequencies(text)).toMatchObject({ leverage: 'quarterly', interest_cover: 'quarterly', capex: 'annual' });
+    // Also when extraction collapses the lines into one
+    expect(await frequencies(text.replace(/\s+/g, ' '))).toMatchObject({ interest_cover: 'quarterly', capex: 'annual' });
+  });
+
+  it('extracts maintenance covenants from a corporate agreement', async () => {
+    const result = await new SmartLoanExtractor().extractLoanData(readSample('corporate-loan-agreement.txt'));
+    const byMetric = Object.fromEntries((result.data.covenants || []).map(covenant => [covenant.metric, covenant]));
+
+    expect(byMetric.leverage?.threshold).toBe(4.25);
+    expect(byMetric.interest_cover?.threshold).toBe(3.5);
+    expect(byMetric.minimum_liquidity?.threshold).toBe(50000000);
+    expect(byMetric.minimum_liquidity?.operator).toBe('>=');
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Financial Covenant Engine
+ * Tests quarterly financials against a loan's covenant schedule, including step-downs
+ */
+
+import {
+  Covenant,
+  CovenantMetric,
+  CovenantStatus,
+  CovenantTestFrequency,
+  CovenantTestResult,
+  LoanData,
+} from '@/types';
+import { defaultEnterpriseConfig } from '@/config/enterprise-config';
+
+export const COVENANT_METRIC_LABELS: Record<CovenantMetric, string> = {
+  leverage: 'Total Leverage Ratio',
+  interest_cover: 'Interest Cover Ratio',
+  debt_service_cover: 'Debt Service Cover Ratio',
+  minimum_net_worth: 'Minimum Net Worth',
+  minimum_liquidity: 'Minimum Liquidity',
+  capex: 'Maximum Capital Expenditure',
+};
+
+// Reported figures for one test date, keyed by covenant ID
+export type CovenantFinancials = Record<string, number>;
+
+/**
+ * Build the single-ratio covenant used for loans without a full schedule
+ */
+export function buildLeverageCovenant(threshold: number): Covenant {
+  return {
+    id: 'leverage',
+    metric: 'leverage',
+    label: COVENANT_METRIC_LABELS.leverage,
+    operator: '<=',
+    threshold,
+    unit: 'ratio',
+    testFrequency: 'quarterly',
+    testDates: [],
+    stepDowns: [],
+  };
+}
+
+/**
+ * Covenant schedule of a loan, falling back to its headline leverage covenant
+ */
+export function getCovenantPackage(loan: LoanData | null): Covenant[] {
+  if (!loan) return [];
+  if (loan.covenants && loan.covenants.length > 0) return loan.covenants;
+  return loan.leverageCovenant > 0 ? [buildLeverageCovenant(loan.leverageCovenant)] : [];
+}
+
+/**
+ * Threshold in force on a test date, taking step-downs into account
+ */
+export function getApplicableThreshold(covenant: Covenant, testDate: string): number {
+  const stepDown = covenant.stepDowns.find(step => testDate <= step.until);
+  return stepDown ? stepDown.threshold : covenant.threshold;
+}
+
+/**
+ * Test a single reported figure against a covenant
+ */
+export function testCovenant(covenant: Covenant, actual: number, testDate: string): CovenantTestResult {
+  const threshold = getApplicableThreshold(covenant, testDate);
+  const warningThreshold = defaultEnterpriseConfig.business.riskWarningThreshold;
+
+  // Headroom is positive while compliant and negative once the threshold is crossed
+  const headroom = threshold > 0
+    ? (covenant.operator === '<=' ? threshold - actual : actual - threshold) / threshold
+    : 0;
+
+  let status: CovenantStatus = 'compliant';
+  if (headroom < 0) {
+    status = 'breach';
+  } else if (headroom < 1 - warningThreshold) {
+    status = 'warning';
+  }
+
+  return {
+    covenantId: covenant.id,
+    metric: covenant.metric,
+    label: covenant.label,
+    testDate,
+    actual,
+    threshold,
+    headroom,
+    status,
+  };
+}
+
+/**
+ * Test every covenant with a reported figure for the given test date
+ */
+export function testCovenantPackage(
+  covenants: Covenant[],
+  financials: CovenantFinancials,
+  testDate: string
+): CovenantTestResult[] {
+  return covenants
+    .filter(covenant => typeof financials[covenant.id] === 'number' && !isNaN(financials[covenant.id]))
+    .map(covenant => testCovenant(covenant, financials[covenant.id], testDate));
+}
+
+/**
+ * Worst status across a set of results
+ */
+export function getOverallCovenantStatus(results: CovenantTestResult[]): CovenantStatus {
+  if (results.some(result => result.status === 'breach')) return 'breach';
+  if (results.some(result => result.status === 'warning')) return 'warning';
+  return 'compliant';
+}
+
+/**
+ * Period-end test dates (ISO) following a start date
+ */
+export function generateTestDates(
+  frequency: CovenantTestFrequency,
+  startDate: Date,
+  count: number
+): string[] {
+  const monthsPerPeriod = frequency === 'quarterly' ? 3 : frequency === 'semi_annual' ? 6 : 12;
+  const dates: string[] = [];
+
+  // First period end on or after the start date
+  let month = Math.floor(startDate.getUTCMonth() / monthsPerPeriod) * monthsPerPeriod + monthsPerPeriod;
+  let year = startDate.getUTCFullYear();
+
+  while (dates.length < count) {
+    if (month > 12) {
+      month -= 12;
+      year += 1;
+    }
+    const periodEnd = new Date(Date.UTC(year, month, 0));
+    dates.push(periodEnd.toISOString().slice(0, 10));
+    month += monthsPerPeriod;
+  }
+
+  return dates;
+}
+
+/**
+ * Test dates for a covenant: its own schedule, or generated period ends
+ */
+export function getCovenantTestDates(covenant: Covenant, from: Date = new Date(), count: number = 8): string[] {
+  return covenant.testDates.length > 0
+    ? covenant.testDates
+    : generateTestDates(covenant.testFrequency, from, count);
+}
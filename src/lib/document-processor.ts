@@ -3,11 +3,31 @@
  * Handles PDF, Word, and text file processing for loan document analysis
  */
 
-// Note: These imports work in Node.js environment
-// For client-side processing, we'll handle files differently
+import { PageRange } from '@/types';
+import { CodedError, ErrorCode } from '@/lib/enterprise-errors';
+import { parseDocx } from '@/lib/docx-parser';
+import { extractTextFromHTML } from '@/lib/html-extractor';
+import { parsePDF, ParsedPDF, PDFParseError } from '@/lib/pdf-parser';
+import { isZipArchive } from '@/lib/zip-reader';
+
+/**
+ * Processing failure carrying an error code for the caller to map
+ */
+const LEGACY_DOC_MESSAGE = 'Legacy Word (.doc) files are not supported. Please save the document as .docx or PDF and upload it again.';
+
+// Compound File Binary signature used by legacy .doc files
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+/**
+ * Location of a source page within the cleaned document text
+ */
+export interface DocumentPage extends PageRange {
+  text: string;
+}
 
 export interface ProcessedDocument {
   text: string;
+  pages?: DocumentPage[];
   metadata: {
     fileName: string;
     fileSize: number;
@@ -25,18 +45,25 @@ export async function processDocument(file: File): Promise<ProcessedDocument> {
   
   let extractedText = '';
   let pageCount: number | undefined;
+  let pages: DocumentPage[] | undefined;
 
   try {
     switch (fileExtension) {
       case '.txt':
         extractedText = await processTextFile(file);
         break;
+      case '.html':
+      case '.htm':
+        extractedText = extractTextFromHTML(await processTextFile(file));
+        break;
       case '.pdf':
         const pdfResult = await processPDFFile(file);
+        pages = pdfResult.pages;
         extractedText = pdfResult.text;
         pageCount = pdfResult.pageCount;
         break;
       case '.doc':
+        throw new CodedError(ErrorCode.UNSUPPORTED_FORMAT, LEGACY_DOC_MESSAGE);
       case '.docx':
         extractedText = await processWordFile(file);
         break;
@@ -44,11 +71,13 @@ export async function processDocument(file: File): Promise<ProcessedDocument> {
         throw new Error(`Unsupported file type: ${fileExtension}`);
     }
 
-    // Clean up the extracted text
-    const cleanedText = cleanExtractedText(extractedText);
+    // Clean up the extracted text, keeping the structure recovered from HTML markup
+    const isHtml = fileExtension === '.html' || fileExtension === '.htm';
+    const cleanedText = isHtml ? cleanHtmlText(extractedText) : cleanExtractedText(extractedText);
     
     return {
       text: cleanedText,
+      ...(pages ? { pages } : {}),
       metadata: {
         fileName: file.name,
         fileSize: file.size,
@@ -59,7 +88,11 @@ export async function processDocument(file: File): Promise<ProcessedDocument> {
     };
   } catch (error) {
     console.error('Error processing document:', error);
-    throw new Error(`Failed to process ${fileExtension} file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    const message = `Failed to process ${fileExtension} file: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    if (error instanceof CodedError) {
+      throw new CodedError(error.code, message);
+    }
+    throw new Error(message);
   }
 }
 
@@ -71,31 +104,17 @@ async function processTextFile(file: File): Promise<string> {
 }
 
 /**
- * Process PDF file using pdf-parse
+ * Process PDF file page by page
  * Note: This is a client-side implementation using FileReader
  */
-async function processPDFFile(file: File): Promise<{ text: string; pageCount: number }> {
+async function processPDFFile(file: File): Promise<{ text: string; pageCount: number; pages: DocumentPage[] }> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     
     reader.onload = async (event) => {
       try {
         const arrayBuffer = event.target?.result as ArrayBuffer;
-        
-        // For client-side PDF processing, we'll use a different approach
-        // Since pdf-parse requires Node.js, we'll implement a basic PDF text extraction
-        
-        // Convert ArrayBuffer to Uint8Array
-        const uint8Array = new Uint8Array(arrayBuffer);
-        
-        // Basic PDF text extraction (simplified)
-        // In a real implementation, you'd use a proper PDF parsing library
-        const text = await extractTextFromPDFBuffer(uint8Array);
-        
-        resolve({
-          text,
-          pageCount: estimatePageCount(text)
-        });
+        resolve(extractPagesFromPDFBuffer(new Uint8Array(arrayBuffer)));
       } catch (error) {
         reject(new Error(`PDF processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
       }
@@ -107,7 +126,7 @@ async function processPDFFile(file: File): Promise<{ text: string; pageCount: nu
 }
 
 /**
- * Process Word document using mammoth
+ * Process Word (.docx) document
  */
 async function processWordFile(file: File): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -116,13 +135,12 @@ async function processWordFile(file: File): Promise<string> {
     reader.onload = async (event) => {
       try {
         const arrayBuffer = event.target?.result as ArrayBuffer;
-        
-        // For client-side Word processing, we'll implement a basic extraction
-        // In a real implementation, you'd use mammoth.js or similar
-        const text = await extractTextFromWordBuffer(arrayBuffer);
-        
-        resolve(text);
+        resolve(extractTextFromWordBuffer(new Uint8Array(arrayBuffer)));
       } catch (error) {
+        if (error instanceof CodedError) {
+          reject(error);
+          return;
+        }
         reject(new Error(`Word document processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
       }
     };
@@ -133,77 +151,67 @@ async function processWordFile(file: File): Promise<string> {
 }
 
 /**
- * Basic PDF text extraction (simplified implementation)
- * Note: This is a basic implementation. For production use, consider using PDF.js or similar
+ * Extract per-page text from a PDF, with each page's offsets in the combined cleaned text
  */
-async function extractTextFromPDFBuffer(buffer: Uint8Array): Promise<string> {
-  // Convert buffer to string and look for text content
-  const pdfString = new TextDecoder('latin1').decode(buffer);
-  
-  // Basic PDF text extraction using regex patterns
-  // This is a simplified approach - real PDF parsing is much more complex
-  const textMatches = pdfString.match(/\(([^)]+)\)/g) || [];
-  const streamMatches = pdfString.match(/stream\s*([\s\S]*?)\s*endstream/g) || [];
-  
-  let extractedText = '';
-  
-  // Extract text from PDF objects
-  textMatches.forEach(match => {
-    const text = match.slice(1, -1); // Remove parentheses
-    if (text.length > 2 && /[a-zA-Z]/.test(text)) {
-      extractedText += text + ' ';
+export function extractPagesFromPDFBuffer(buffer: Uint8Array): { text: string; pageCount: number; pages: DocumentPage[] } {
+  let parsed: ParsedPDF;
+  try {
+    parsed = parsePDF(buffer);
+  } catch (error) {
+    if (error instanceof PDFParseError && error.reason === 'encrypted') {
+      throw new Error('This PDF is encrypted. Please remove the password protection or copy the text manually.');
     }
-  });
-  
-  // If no text found in objects, try to extract from streams
-  if (extractedText.trim().length === 0) {
-    streamMatches.forEach(match => {
-      const streamContent = match.replace(/^stream\s*/, '').replace(/\s*endstream$/, '');
-      // Basic text extraction from stream content
-      const textInStream = streamContent.match(/[A-Za-z0-9\s.,;:!?()-]+/g) || [];
-      extractedText += textInStream.join(' ') + ' ';
-    });
+    throw error;
   }
-  
-  // If still no text, provide a helpful message
-  if (extractedText.trim().length === 0) {
+
+  const pages: DocumentPage[] = [];
+  let text = '';
+
+  parsed.pages.forEach(page => {
+    const pageText = cleanExtractedText(page.text);
+    if (text.length > 0 && pageText.length > 0) text += ' ';
+    pages.push({
+      pageNumber: page.pageNumber,
+      text: pageText,
+      startOffset: text.length,
+      endOffset: text.length + pageText.length,
+    });
+    text += pageText;
+  });
+
+  if (text.trim().length === 0) {
     throw new Error('No readable text found in PDF. The PDF might be image-based or encrypted. Please try copying the text manually.');
   }
-  
-  return extractedText.trim();
+
+  return { text, pageCount: parsed.pageCount, pages };
 }
 
 /**
- * Basic Word document text extraction
- * Note: This is a simplified implementation
+ * Find the page containing a character offset of the processed text
  */
-async function extractTextFromWordBuffer(buffer: ArrayBuffer): Promise<string> {
-  // For .docx files, we can try to extract from the XML content
-  const uint8Array = new Uint8Array(buffer);
-  const docString = new TextDecoder('utf-8').decode(uint8Array);
-  
-  // Look for text content in Word document structure
-  // This is a very basic implementation
-  const textMatches = docString.match(/<w:t[^>]*>([^<]+)<\/w:t>/g) || [];
-  
-  let extractedText = '';
-  textMatches.forEach(match => {
-    const text = match.replace(/<w:t[^>]*>/, '').replace(/<\/w:t>/, '');
-    extractedText += text + ' ';
-  });
-  
-  // If no XML structure found, try basic text extraction
-  if (extractedText.trim().length === 0) {
-    // Look for readable text patterns
-    const readableText = docString.match(/[A-Za-z0-9\s.,;:!?()-]{10,}/g) || [];
-    extractedText = readableText.join(' ');
+export function getPageForOffset(pages: PageRange[], offset: number): number | null {
+  const page = pages.find(candidate => offset >= candidate.startOffset && offset < candidate.endOffset);
+  return page ? page.pageNumber : null;
+}
+
+/**
+ * Extract text from a .docx package, keeping clause numbering, tables, headers and footers
+ */
+export function extractTextFromWordBuffer(buffer: Uint8Array): string {
+  if (OLE_SIGNATURE.every((byte, index) => buffer[index] === byte)) {
+    throw new CodedError(ErrorCode.UNSUPPORTED_FORMAT, LEGACY_DOC_MESSAGE);
   }
+  if (!isZipArchive(buffer)) {
+    throw new CodedError(ErrorCode.PARSING_ERROR, 'File is not a valid .docx document.');
+  }
+
+  const { text } = parseDocx(buffer);
   
-  if (extractedText.trim().length === 0) {
+  if (text.trim().length === 0) {
     throw new Error('No readable text found in Word document. Please try copying the text manually or saving as a .txt file.');
   }
   
-  return extractedText.trim();
+  return text;
 }
 
 /**
@@ -225,19 +233,30 @@ function cleanExtractedText(text: string): string {
 }
 
 /**
- * Count words in text
+ * Clean text extracted from HTML, keeping the line and paragraph breaks of its
+ * headings, lists and table rows
  */
-function countWords(text: string): number {
-  return text.trim().split(/\s+/).filter(word => word.length > 0).length;
+function cleanHtmlText(text: string): string {
+  return text
+    // Normalize line breaks
+    .replace(/\r\n/g, '\n')
+    .replace(/\r/g, '\n')
+    // Remove special characters that might interfere with processing
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '')
+    // Remove excessive whitespace within lines
+    .replace(/[ \t\u00A0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    // Remove multiple consecutive line breaks
+    .replace(/\n{3,}/g, '\n\n')
+    // Trim whitespace
+    .trim();
 }
 
 /**
- * Estimate page count based on text length
+ * Count words in text
  */
-function estimatePageCount(text: string): number {
-  // Rough estimate: ~250 words per page
-  const wordCount = countWords(text);
-  return Math.max(1, Math.ceil(wordCount / 250));
+function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(word => word.length > 0).length;
 }
 
 /**
@@ -245,7 +264,7 @@ function estimatePageCount(text: string): number {
  */
 export function validateFile(file: File): { isValid: boolean; error?: string } {
   const maxSize = 10 * 1024 * 1024; // 10MB
-  const allowedTypes = ['.pdf', '.doc', '.docx', '.txt'];
+  const allowedTypes = ['.pdf', '.doc', '.docx', '.txt', '.html', '.htm'];
   const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase();
   
   if (file.size > maxSize) {
@@ -258,7 +277,7 @@ export function validateFile(file: File): { isValid: boolean; error?: string } {
   if (!allowedTypes.includes(fileExtension)) {
     return {
       isValid: false,
-      error: 'Please upload a PDF, Word document (.doc/.docx), or text file (.txt).'
+      error: 'Please upload a PDF, Word document (.doc/.docx), HTML page (.html) or text file (.txt).'
     };
   }
   
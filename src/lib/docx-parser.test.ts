@@ -0,0 +1,243 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for DOCX unzipping and document.xml text extraction
+ */
+
+import { deflateRawSync } from 'zlib';
+import { CodedError, ErrorCode } from './enterprise-errors';
+import { parseDocx } from './docx-parser';
+import { MAX_INFLATED_BYTES } from './inflate';
+import { ZipArchive } from './zip-reader';
+import { extractTextFromWordBuffer, processDocument } from './document-processor';
+
+/**
+ * Write a ZIP archive with deflated entries (CRCs are not checked by the reader)
+ */
+function buildZip(files: Record<string, string>, method: 0 | 8 = 8): Uint8Array {
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([name, content]) => {
+    const nameBytes = Buffer.from(name, 'utf-8');
+    const raw = Buffer.from(content, 'utf-8');
+    const data = method === 8 ? deflateRawSync(raw) : raw;
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(method, 8);
+    header.writeUInt32LE(data.length, 18);
+    header.writeUInt32LE(raw.length, 22);
+    header.writeUInt16LE(nameBytes.length, 26);
+    local.push(header, nameBytes, data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(method, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(raw.length, 24);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, nameBytes);
+
+    offset += header.length + nameBytes.length + data.length;
+  });
+
+  const centralDirectory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return new Uint8Array(Buffer.concat([...local, centralDirectory, end]));
+}
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+const paragraph = (text: string, numbering?: { numId: number; level: number }, style?: string) => {
+  const properties = [
+    style ? `<w:pStyle w:val="${style}"/>` : '',
+    numbering ? `<w:numPr><w:ilvl w:val="${numbering.level}"/><w:numId w:val="${numbering.numId}"/></w:numPr>` : '',
+  ].join('');
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+};
+
+const numberingXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering ${W}>
+  <w:abstractNum w:abstractNumId="0">
+    <w:lvl w:ilvl="0"><w:start w:val="7"/><w:numFmt w:val="decimal"/><w:lvlText w:val="%1."/></w:lvl>
+    <w:lvl w:ilvl="1"><w:start w:val="1"/><w:numFmt w:val="decimal"/><w:lvlText w:val="%1.%2"/></w:lvl>
+    <w:lvl w:ilvl="2"><w:start w:val="1"/><w:numFmt w:val="lowerLetter"/><w:lvlText w:val="(%3)"/></w:lvl>
+    <w:lvl w:ilvl="3"><w:start w:val="1"/><w:numFmt w:val="lowerRoman"/><w:lvlText w:val="(%4)"/></w:lvl>
+  </w:abstractNum>
+  <w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>
+</w:numbering>`;
+
+const stylesXml = `<w:styles ${W}>
+  <w:style w:type="paragraph" w:styleId="Heading1"><w:pPr><w:numPr><w:numId w:val="1"/></w:numPr></w:pPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Clause"><w:basedOn w:val="Heading1"/><w:pPr><w:numPr><w:ilvl w:val="1"/></w:numPr></w:pPr></w:style>
+</w:styles>`;
+
+const documentXml = (body: string) =>
+  `<?xml version="1.0" encoding="UTF-8"?><w:document ${W}><w:body>${body}<w:sectPr/></w:body></w:document>`;
+
+const relationshipsXml = `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header1.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/>
+  <Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>
+</Relationships>`;
+
+describe('ZipArchive', () => {
+  it('reads stored and deflated entries', () => {
+    const files = { 'a.txt': 'Facility Agreement', 'b/c.xml': '<x>' + 'Lender '.repeat(200) + '</x>' };
+
+    [0, 8].forEach(method => {
+      const archive = new ZipArchive(buildZip(files, method as 0 | 8));
+      expect(archive.names).toEqual(['a.txt', 'b/c.xml']);
+      expect(archive.readText('b/c.xml')).toBe(files['b/c.xml']);
+      expect(archive.read('missing.xml')).toBeNull();
+    });
+  });
+
+  it('rejects data that is not a ZIP archive', () => {
+    expect(() => new ZipArchive(new Uint8Array(Buffer.from('not a zip file at all')))).toThrow('Not a ZIP archive');
+  });
+
+  it('rejects entries that point outside the archive or misstate their size', () => {
+    const withEntry = (patch: (entry: DataView) => void) => {
+      const zip = buildZip({ 'word/document.xml': '<x>' + 'Lender '.repeat(200) + '</x>' });
+      const view = new DataView(zip.buffer);
+      patch(new DataView(zip.buffer, view.getUint32(zip.length - 6, true)));
+      return new ZipArchive(zip);
+    };
+
+    expect(() => withEntry(entry => entry.setUint32(42, 0xfffff, true)).read('word/document.xml'))
+      .toThrow('Corrupt ZIP entry: word/document.xml');
+    expect(() => withEntry(entry => entry.setUint32(20, 0xfffff, true)).read('word/document.xml'))
+      .toThrow('Corrupt ZIP entry: word/document.xml');
+    expect(() => withEntry(entry => entry.setUint32(24, 100, true)).read('word/document.xml'))
+      .toThrow('Inflated data exceeds the 100 byte limit');
+    expect(() => withEntry(entry => entry.setUint32(24, 5000, true)).read('word/document.xml'))
+      .toThrow('Corrupt ZIP entry: word/document.xml');
+    expect(() => withEntry(entry => entry.setUint32(24, MAX_INFLATED_BYTES + 1, true)).read('word/document.xml'))
+      .toThrow('ZIP entry word/document.xml is too large to extract');
+  });
+});
+
+describe('parseDocx', () => {
+  it('keeps multi-level clause numbering in the text', () => {
+    const docx = buildZip({
+      'word/document.xml': documentXml([
+        paragraph('Financial Covenants', { numId: 1, level: 0 }),
+        paragraph('Leverage', { numId: 1, level: 1 }),
+        paragraph('The Borrower shall ensure that Leverage does not exceed 4.00:1;', { numId: 1, level: 2 }),
+        paragraph('Leverage shall be tested quarterly:', { numId: 1, level: 2 }),
+        paragraph('on each Quarter Date; and', { numId: 1, level: 3 }),
+        paragraph('Interest Cover', { numId: 1, level: 1 }),
+        paragraph('Interest Cover shall not be less than 3.00:1.', { numId: 1, level: 2 }),
+        paragraph('Information Undertakings', { numId: 1, level: 0 }),
+        paragraph('Unnumbered closing paragraph.'),
+      ].join('')),
+      'word/numbering.xml': numberingXml,
+    });
+
+    expect(parseDocx(docx).text.split('\n')).toEqual([
+      '7. Financial Covenants',
+      '7.1 Leverage',
+      '(a) The Borrower shall ensure that Leverage does not exceed 4.00:1;',
+      '(b) Leverage shall be tested quarterly:',
+      '(i) on each Quarter Date; and',
+      '7.2 Interest Cover',
+      '(a) Interest Cover shall not be less than 3.00:1.',
+      '8. Information Undertakings',
+      'Unnumbered closing paragraph.',
+    ]);
+  });
+
+  it('takes numbering from paragraph styles', () => {
+    const docx = buildZip({
+      'word/document.xml': documentXml([
+        paragraph('Definitions', undefined, 'Heading1'),
+        paragraph('"Margin" means 2.50 per cent. per annum.', undefined, 'Clause'),
+        paragraph('"Termination Date" means 31 December 2030.', undefined, 'Clause'),
+      ].join('')),
+      'word/numbering.xml': numberingXml,
+      'word/styles.xml': stylesXml,
+    });
+
+    expect(parseDocx(docx).text).toBe(
+      '7. Definitions\n7.1 "Margin" means 2.50 per cent. per annum.\n7.2 "Termination Date" means 31 December 2030.'
+    );
+  });
+
+  it('renders tables row by row and accepts tracked changes', () => {
+    const table = `<w:tbl><w:tblPr/>
+      <w:tr><w:tc><w:p><w:r><w:t>Lender</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>Commitment</w:t></w:r></w:p></w:tc></w:tr>
+      <w:tr><w:tc><w:p><w:r><w:t>Bank A &amp; Co</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>$50,000,000</w:t></w:r></w:p></w:tc></w:tr>
+    </w:tbl>`;
+    const trackedParagraph = `<w:p>
+      <w:r><w:t xml:space="preserve">Margin: </w:t></w:r>
+      <w:del w:id="1" w:author="Counsel"><w:r><w:delText>3.00%</w:delText></w:r></w:del>
+      <w:ins w:id="2" w:author="Counsel"><w:r><w:t>2.75%</w:t></w:r></w:ins>
+      <w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText> REF _Ref1 \\h </w:instrText></w:r>
+      <w:r><w:fldChar w:fldCharType="separate"/></w:r><w:r><w:tab/><w:t>per annum</w:t></w:r><w:r><w:fldChar w:fldCharType="end"/></w:r>
+    </w:p>`;
+
+    const docx = buildZip({ 'word/document.xml': documentXml(table + trackedParagraph) });
+
+    expect(parseDocx(docx).text).toBe('Lender | Commitment\nBank A & Co | $50,000,000\nMargin: 2.75% per annum');
+  });
+
+  it('places headers before and footers after the body', () => {
+    const docx = buildZip({
+      'word/document.xml': documentXml(paragraph('Borrower: Acme Corporation')),
+      'word/_rels/document.xml.rels': relationshipsXml,
+      'word/header1.xml': `<w:hdr ${W}>${paragraph('EXECUTION VERSION')}</w:hdr>`,
+      'word/footer1.xml': `<w:ftr ${W}>${paragraph('Acme Facility Agreement')}</w:ftr>`,
+    });
+
+    const result = parseDocx(docx);
+    expect(result.text).toBe('EXECUTION VERSION\nBorrower: Acme Corporation\nAcme Facility Agreement');
+    expect(result.headers).toEqual(['EXECUTION VERSION']);
+    expect(result.footers).toEqual(['Acme Facility Agreement']);
+  });
+
+  it('rejects packages without a main document part', () => {
+    expect(() => parseDocx(buildZip({ 'xl/workbook.xml': '<workbook/>' }))).toThrow('word/document.xml');
+  });
+});
+
+describe('Word document processing', () => {
+  const oleHeader = new Uint8Array([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0, 0, 0, 0]);
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('rejects legacy .doc files with an unsupported-format code', async () => {
+    await expect(processDocument(new File([oleHeader], 'agreement.doc'))).rejects.toMatchObject({
+      code: ErrorCode.UNSUPPORTED_FORMAT,
+    });
+
+    // Legacy binaries renamed to .docx are detected by signature
+    expect(() => extractTextFromWordBuffer(oleHeader)).toThrow(CodedError);
+  });
+
+  it('extracts numbered text from a .docx buffer', () => {
+    const docx = buildZip({
+      'word/document.xml': documentXml(paragraph('Financial Covenants', { numId: 1, level: 0 })),
+      'word/numbering.xml': numberingXml,
+    });
+
+    expect(extractTextFromWordBuffer(docx)).toBe('7. Financial Covenants');
+  });
+});
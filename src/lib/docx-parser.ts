@@ -0,0 +1,408 @@
+/**
+ * DOCX Text Extraction
+ * Unzips an OOXML package and walks word/document.xml in reading order.
+ *
+ * - Paragraphs become lines, prefixed with their list numbering (e.g. "7.1", "(a)")
+ * - Table rows become lines with cells separated by " | "
+ * - Tracked insertions are kept and tracked deletions dropped (the document as if accepted)
+ * - Header and footer text is placed before and after the body
+ */
+
+import { ZipArchive } from '@/lib/zip-reader';
+
+export interface ParsedDocx {
+  text: string;
+  headers: string[];
+  footers: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Minimal XML reader
+// ---------------------------------------------------------------------------
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+type XmlNode = XmlElement | string;
+
+const isElement = (node: XmlNode): node is XmlElement => typeof node !== 'string';
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }[entity] ?? '';
+  });
+}
+
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let position = 0;
+
+  while (position < xml.length) {
+    const tagStart = xml.indexOf('<', position);
+    if (tagStart === -1) break;
+
+    if (tagStart > position) {
+      stack[stack.length - 1].children.push(decodeEntities(xml.substring(position, tagStart)));
+    }
+
+    if (xml.startsWith('<!--', tagStart)) {
+      const end = xml.indexOf('-->', tagStart);
+      position = end === -1 ? xml.length : end + 3;
+    } else if (xml.startsWith('<![CDATA[', tagStart)) {
+      const end = xml.indexOf(']]>', tagStart);
+      stack[stack.length - 1].children.push(xml.substring(tagStart + 9, end === -1 ? xml.length : end));
+      position = end === -1 ? xml.length : end + 3;
+    } else if (xml[tagStart + 1] === '?' || xml[tagStart + 1] === '!') {
+      const end = xml.indexOf('>', tagStart);
+      position = end === -1 ? xml.length : end + 1;
+    } else if (xml[tagStart + 1] === '/') {
+      const end = xml.indexOf('>', tagStart);
+      const name = xml.substring(tagStart + 2, end).trim();
+      // Pop back to the matching element, tolerating unbalanced markup
+      const index = stack.map(element => element.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+      position = end === -1 ? xml.length : end + 1;
+    } else {
+      const end = xml.indexOf('>', tagStart);
+      if (end === -1) break;
+      const selfClosing = xml[end - 1] === '/';
+      const body = xml.substring(tagStart + 1, selfClosing ? end - 1 : end);
+      const nameMatch = /^[^\s/>]+/.exec(body);
+      const element: XmlElement = { name: nameMatch ? nameMatch[0] : '', attributes: {}, children: [] };
+
+      for (const attribute of Array.from(body.matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g))) {
+        element.attributes[attribute[1]] = decodeEntities(attribute[2] ?? attribute[3] ?? '');
+      }
+
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing) stack.push(element);
+      position = end + 1;
+    }
+  }
+
+  return root;
+}
+
+const findChild = (element: XmlElement | undefined, name: string): XmlElement | undefined =>
+  element?.children.find((node): node is XmlElement => isElement(node) && node.name === name);
+
+const findChildren = (element: XmlElement | undefined, name: string): XmlElement[] =>
+  (element?.children ?? []).filter((node): node is XmlElement => isElement(node) && node.name === name);
+
+const findDescendant = (element: XmlElement, name: string): XmlElement | undefined => {
+  for (const node of element.children) {
+    if (!isElement(node)) continue;
+    if (node.name === name) return node;
+    const found = findDescendant(node, name);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+const valueOf = (element: XmlElement | undefined): string | undefined => element?.attributes['w:val'];
+
+// ---------------------------------------------------------------------------
+// List numbering
+// ---------------------------------------------------------------------------
+
+interface NumberingLevel {
+  start: number;
+  format: string;
+  text: string;
+}
+
+interface NumberingInstance {
+  abstractId: string;
+  startOverrides: Map<number, number>;
+}
+
+interface ParagraphNumbering {
+  numId: string;
+  level: number;
+}
+
+function toRoman(value: number): string {
+  const numerals: [number, string][] = [
+    [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+    [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+  ];
+  let result = '';
+  let remaining = value;
+  for (const [amount, numeral] of numerals) {
+    while (remaining >= amount) {
+      result += numeral;
+      remaining -= amount;
+    }
+  }
+  return result;
+}
+
+function toLetters(value: number): string {
+  // Word repeats the letter past z: a..z, aa..zz
+  const letter = String.fromCharCode(97 + ((value - 1) % 26));
+  return letter.repeat(Math.floor((value - 1) / 26) + 1);
+}
+
+function formatCounter(value: number, format: string): string {
+  switch (format) {
+    case 'lowerLetter': return toLetters(value);
+    case 'upperLetter': return toLetters(value).toUpperCase();
+    case 'lowerRoman': return toRoman(value);
+    case 'upperRoman': return toRoman(value).toUpperCase();
+    case 'decimalZero': return value < 10 ? `0${value}` : String(value);
+    case 'none': return '';
+    default: return String(value);
+  }
+}
+
+class NumberingResolver {
+  private abstractLevels = new Map<string, Map<number, NumberingLevel>>();
+  private instances = new Map<string, NumberingInstance>();
+  private counters = new Map<string, Map<number, number>>();
+  private startedInstances = new Set<string>();
+  private styleNumbering = new Map<string, { numbering?: Partial<ParagraphNumbering>; basedOn?: string }>();
+
+  constructor(numberingXml: string | null, stylesXml: string | null) {
+    if (numberingXml) this.readNumbering(parseXml(numberingXml));
+    if (stylesXml) this.readStyles(parseXml(stylesXml));
+  }
+
+  /**
+   * Numbering that applies to a paragraph, from its own properties or its style
+   */
+  public getParagraphNumbering(properties: XmlElement | undefined): ParagraphNumbering | null {
+    const direct = findChild(properties, 'w:numPr');
+    let numId = valueOf(findChild(direct, 'w:numId'));
+    let levelValue = valueOf(findChild(direct, 'w:ilvl'));
+
+    let styleId = valueOf(findChild(properties, 'w:pStyle'));
+    const visited = new Set<string>();
+    while (styleId && !visited.has(styleId) && (numId === undefined || levelValue === undefined)) {
+      visited.add(styleId);
+      const style = this.styleNumbering.get(styleId);
+      numId = numId ?? style?.numbering?.numId;
+      if (levelValue === undefined && style?.numbering?.level !== undefined) levelValue = String(style.numbering.level);
+      styleId = style?.basedOn;
+    }
+
+    if (!numId || numId === '0') return null;
+    return { numId, level: levelValue ? parseInt(levelValue, 10) : 0 };
+  }
+
+  /**
+   * Advance the list counter and render the label, e.g. "7.1" or "(a)"
+   */
+  public nextLabel({ numId, level }: ParagraphNumbering): string {
+    const instance = this.instances.get(numId);
+    const levels = instance ? this.abstractLevels.get(instance.abstractId) : undefined;
+    const definition = levels?.get(level);
+    if (!instance || !levels || !definition) return '';
+
+    const counters = this.counters.get(instance.abstractId) ?? new Map<number, number>();
+    this.counters.set(instance.abstractId, counters);
+
+    if (!this.startedInstances.has(numId)) {
+      this.startedInstances.add(numId);
+      instance.startOverrides.forEach((start, overrideLevel) => counters.set(overrideLevel, start - 1));
+    }
+
+    counters.set(level, (counters.get(level) ?? definition.start - 1) + 1);
+    Array.from(counters.keys()).forEach(key => {
+      if (key > level) counters.delete(key);
+    });
+
+    if (definition.format === 'bullet') return '•';
+
+    return definition.text.replace(/%(\d)/g, (_, digit: string) => {
+      const referenced = parseInt(digit, 10) - 1;
+      const referencedLevel = levels.get(referenced);
+      const value = counters.get(referenced) ?? referencedLevel?.start ?? 1;
+      return formatCounter(value, referencedLevel?.format ?? 'decimal');
+    });
+  }
+
+  private readNumbering(document: XmlElement): void {
+    const numbering = findChild(document, 'w:numbering');
+
+    for (const abstract of findChildren(numbering, 'w:abstractNum')) {
+      const levels = new Map<number, NumberingLevel>();
+      for (const level of findChildren(abstract, 'w:lvl')) {
+        levels.set(parseInt(level.attributes['w:ilvl'] ?? '0', 10), {
+          start: parseInt(valueOf(findChild(level, 'w:start')) ?? '1', 10),
+          format: valueOf(findChild(level, 'w:numFmt')) ?? 'decimal',
+          text: valueOf(findChild(level, 'w:lvlText')) ?? '',
+        });
+      }
+      this.abstractLevels.set(abstract.attributes['w:abstractNumId'], levels);
+    }
+
+    for (const num of findChildren(numbering, 'w:num')) {
+      const startOverrides = new Map<number, number>();
+      for (const override of findChildren(num, 'w:lvlOverride')) {
+        const start = valueOf(findChild(override, 'w:startOverride'));
+        if (start !== undefined) startOverrides.set(parseInt(override.attributes['w:ilvl'] ?? '0', 10), parseInt(start, 10));
+      }
+      const abstractId = valueOf(findChild(num, 'w:abstractNumId'));
+      if (abstractId !== undefined) {
+        this.instances.set(num.attributes['w:numId'], { abstractId, startOverrides });
+      }
+    }
+  }
+
+  private readStyles(document: XmlElement): void {
+    for (const style of findChildren(findChild(document, 'w:styles'), 'w:style')) {
+      const numPr = findChild(findChild(style, 'w:pPr'), 'w:numPr');
+      const level = valueOf(findChild(numPr, 'w:ilvl'));
+      this.styleNumbering.set(style.attributes['w:styleId'], {
+        basedOn: valueOf(findChild(style, 'w:basedOn')),
+        numbering: numPr
+          ? { numId: valueOf(findChild(numPr, 'w:numId')), level: level !== undefined ? parseInt(level, 10) : undefined }
+          : undefined,
+      });
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Document walk
+// ---------------------------------------------------------------------------
+
+// Wrappers whose content is part of the visible document
+const TRANSPARENT_ELEMENTS = new Set([
+  'w:ins', 'w:moveTo', 'w:hyperlink', 'w:smartTag', 'w:fldSimple', 'w:customXml', 'w:sdtContent', 'w:bdo', 'w:dir',
+]);
+
+// Tracked deletions and moved-away text are not part of the accepted document
+const SKIPPED_ELEMENTS = new Set(['w:del', 'w:moveFrom', 'w:pPr', 'w:rPr', 'w:instrText', 'w:delText']);
+
+class DocumentWalker {
+  constructor(private readonly numbering: NumberingResolver) {}
+
+  public renderBlocks(container: XmlElement, lines: string[]): void {
+    for (const node of container.children) {
+      if (!isElement(node)) continue;
+
+      if (node.name === 'w:p') {
+        const paragraph = this.renderParagraph(node);
+        if (paragraph) lines.push(paragraph);
+      } else if (node.name === 'w:tbl') {
+        this.renderTable(node, lines);
+      } else if (node.name === 'w:sdt') {
+        const content = findChild(node, 'w:sdtContent');
+        if (content) this.renderBlocks(content, lines);
+      } else if (TRANSPARENT_ELEMENTS.has(node.name)) {
+        this.renderBlocks(node, lines);
+      }
+    }
+  }
+
+  private renderParagraph(paragraph: XmlElement): string {
+    const numbering = this.numbering.getParagraphNumbering(findChild(paragraph, 'w:pPr'));
+    const label = numbering ? this.numbering.nextLabel(numbering) : '';
+    const text = this.renderInline(paragraph).replace(/[ \t]+/g, ' ').trim();
+
+    if (!text) return '';
+    return label ? `${label} ${text}` : text;
+  }
+
+  private renderInline(element: XmlElement): string {
+    let text = '';
+    for (const node of element.children) {
+      if (!isElement(node) || SKIPPED_ELEMENTS.has(node.name)) continue;
+
+      switch (node.name) {
+        case 'w:t':
+          text += node.children.filter((child): child is string => typeof child === 'string').join('');
+          break;
+        case 'w:tab':
+        case 'w:ptab':
+          text += '\t';
+          break;
+        case 'w:br':
+        case 'w:cr':
+          text += ' ';
+          break;
+        case 'w:noBreakHyphen':
+          text += '-';
+          break;
+        default:
+          // Runs and inline wrappers (w:r, w:ins, w:hyperlink, ...)
+          text += this.renderInline(node);
+      }
+    }
+    return text;
+  }
+
+  private renderTable(table: XmlElement, lines: string[]): void {
+    for (const row of findChildren(table, 'w:tr')) {
+      const cells = findChildren(row, 'w:tc').map(cell => {
+        const cellLines: string[] = [];
+        this.renderBlocks(cell, cellLines);
+        return cellLines.join(' ');
+      });
+      if (cells.some(cell => cell.length > 0)) lines.push(cells.join(' | '));
+    }
+  }
+}
+
+function getPartPaths(archive: ZipArchive, kind: 'header' | 'footer'): string[] {
+  const relationships = archive.readText('word/_rels/document.xml.rels');
+  if (relationships) {
+    const root = findChild(parseXml(relationships), 'Relationships');
+    return findChildren(root, 'Relationship')
+      .filter(relationship => relationship.attributes.Type?.endsWith(`/${kind}`))
+      .map(relationship => {
+        const target = relationship.attributes.Target ?? '';
+        return target.startsWith('/') ? target.substring(1) : `word/${target}`;
+      });
+  }
+  return archive.names.filter(name => new RegExp(`^word/${kind}\\d*\\.xml$`).test(name)).sort();
+}
+
+function renderPart(archive: ZipArchive, path: string, walker: DocumentWalker): string {
+  const xml = archive.readText(path);
+  if (!xml) return '';
+  const document = parseXml(xml);
+  const root = document.children.find(isElement);
+  const lines: string[] = [];
+  if (root) walker.renderBlocks(root, lines);
+  return lines.join('\n');
+}
+
+/**
+ * Parse a .docx file into plain text with clause numbering preserved
+ */
+export function parseDocx(bytes: Uint8Array): ParsedDocx {
+  const archive = new ZipArchive(bytes);
+  const documentXml = archive.readText('word/document.xml');
+  if (!documentXml) {
+    throw new Error('Not a Word document: word/document.xml is missing');
+  }
+
+  const numbering = new NumberingResolver(archive.readText('word/numbering.xml'), archive.readText('word/styles.xml'));
+  const walker = new DocumentWalker(numbering);
+
+  const body = findDescendant(parseXml(documentXml), 'w:body');
+  const bodyLines: string[] = [];
+  if (body) walker.renderBlocks(body, bodyLines);
+
+  // Numbering inside headers and footers is independent of the body
+  const partWalker = new DocumentWalker(new NumberingResolver(null, null));
+  const unique = (parts: string[]) => Array.from(new Set(parts.filter(part => part.length > 0)));
+  const headers = unique(getPartPaths(archive, 'header').map(path => renderPart(archive, path, partWalker)));
+  const footers = unique(getPartPaths(archive, 'footer').map(path => renderPart(archive, path, partWalker)));
+
+  return {
+    text: [...headers, ...bodyLines, ...footers].join('\n'),
+    headers,
+    footers,
+  };
+}
@@ -11,6 +11,7 @@ export enum ErrorCode {
   EMPTY_INPUT = 'E002',
   INPUT_TOO_LARGE = 'E003',
   INVALID_FILE_TYPE = 'E004',
+  UNSUPPORTED_FORMAT = 'E005',
   
   // API Errors
   API_KEY_MISSING = 'E101',
@@ -29,6 +30,8 @@ export enum ErrorCode {
   INVALID_LOAN_TERMS = 'E302',
   COVENANT_BREACH = 'E303',
   RISK_THRESHOLD_EXCEEDED = 'E304',
+  LOAN_NOT_FOUND = 'E305',
+  TRADE_REJECTED = 'E306',
   
   // System Errors
   DATABASE_ERROR = 'E401',
@@ -43,6 +46,18 @@ export enum ErrorCode {
   ENCRYPTION_ERROR = 'E504',
 }
 
+/**
+ * Expected failure thrown by a domain module, such as a rule a loan breaks or a rate
+ * that is missing. Its code is what enterpriseErrorHandler.createError turns into a
+ * logged, user-facing EnterpriseError once it reaches an API response.
+ */
+export class CodedError extends Error {
+  constructor(public readonly code: ErrorCode, message: string, public readonly details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'CodedError';
+  }
+}
+
 export interface EnterpriseError {
   code: ErrorCode;
   message: string;
@@ -204,6 +219,14 @@ class EnterpriseErrorHandler {
         retryable: false,
         suggestedAction: 'Add document content',
       },
+      [ErrorCode.UNSUPPORTED_FORMAT]: {
+        message: 'Document format is not supported',
+        userMessage: 'This document format cannot be read. Please save it as PDF or .docx and try again.',
+        severity: 'LOW',
+        category: 'VALIDATION',
+        retryable: false,
+        suggestedAction: 'Convert the document to a supported format',
+      },
       [ErrorCode.API_TIMEOUT]: {
         message: 'API request timed out',
         userMessage: 'The service is taking longer than expected. Please try again.',
@@ -236,6 +259,30 @@ class EnterpriseErrorHandler {
         retryable: false,
         suggestedAction: 'Review risk parameters and take corrective action',
       },
+      [ErrorCode.LOAN_NOT_FOUND]: {
+        message: 'Loan not found in portfolio',
+        userMessage: 'The selected loan could not be found. It may have been removed.',
+        severity: 'LOW',
+        category: 'BUSINESS',
+        retryable: false,
+        suggestedAction: 'Refresh the portfolio and select another loan',
+      },
+      [ErrorCode.TRADE_REJECTED]: {
+        message: 'Trade could not be executed',
+        userMessage: 'The trade was rejected. Check the amount against current lender holdings.',
+        severity: 'MEDIUM',
+        category: 'BUSINESS',
+        retryable: false,
+        suggestedAction: 'Reduce the trade amount or choose another seller',
+      },
+      [ErrorCode.STORAGE_ERROR]: {
+        message: 'Portfolio storage operation failed',
+        userMessage: 'Changes could not be saved. Please try again.',
+        severity: 'HIGH',
+        category: 'SYSTEM',
+        retryable: true,
+        suggestedAction: 'Check that the portfolio store file is writable',
+      },
       [ErrorCode.UNAUTHORIZED_ACCESS]: {
         message: 'Unauthorized access attempt',
         userMessage: 'Access denied. Please contact your administrator.',
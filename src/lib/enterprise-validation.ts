@@ -5,6 +5,7 @@
 
 import { LoanData } from '@/types';
 import { enterpriseErrorHandler, ErrorCode } from '@/lib/enterprise-errors';
+import { SAFEGUARD_LABELS, buildTaxonomyAlignmentReport } from '@/lib/eu-taxonomy';
 
 export interface ValidationRule {
   field: keyof LoanData;
@@ -423,6 +424,27 @@ class EnterpriseValidator {
       result.violations.push('EU Taxonomy requires detailed sustainability criteria');
       result.isCompliant = false;
     }
+
+    const screening = data.taxonomyScreening;
+    if (!screening || screening.useOfProceeds.length === 0) {
+      result.violations.push('EU Taxonomy requires a use-of-proceeds screening of the financed activities');
+      result.isCompliant = false;
+      return;
+    }
+    if (data.facilityAmount === undefined) return;
+
+    const report = buildTaxonomyAlignmentReport(data as LoanData);
+    report.safeguardGaps.forEach(topic => {
+      result.violations.push(`Minimum safeguards not met: ${SAFEGUARD_LABELS[topic]}`);
+      result.isCompliant = false;
+    });
+    report.facilities.forEach(facility => {
+      facility.assessments
+        .filter(assessment => assessment.status === 'eligible')
+        .forEach(assessment => {
+          result.recommendations.push(`${assessment.useOfProceeds.description}: ${assessment.gaps.join('; ')}`);
+        });
+    });
   }
 }
 
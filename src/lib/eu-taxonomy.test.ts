@@ -0,0 +1,157 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for EU Taxonomy classification, screening and facility alignment
+ */
+
+import { LoanData, TaxonomyScreening, UseOfProceeds, sanitizeLoanData } from '@/types';
+import { validateLoan } from './loan-validation';
+import { CodedError } from './enterprise-errors';
+import { enterpriseValidator } from './enterprise-validation';
+import { FxRateTable } from './fx-rates';
+import {
+  buildTaxonomyAlignmentReport,
+  classifyNaceCode,
+  validateTaxonomyScreening
+} from './eu-taxonomy';
+
+const allDnsh = { climate_adaptation: true, water: true, circular_economy: true, pollution: true, biodiversity: true };
+
+const proceeds = (overrides: Partial<UseOfProceeds>): UseOfProceeds => ({
+  id: 'solar',
+  trancheId: 'tla',
+  description: 'Solar park',
+  naceCode: 'D35.11',
+  activityId: '4.1',
+  amount: 30000000,
+  metricValue: null,
+  criteriaConfirmed: true,
+  dnsh: allDnsh,
+  ...overrides,
+});
+
+const screening: TaxonomyScreening = {
+  useOfProceeds: [
+    proceeds({}),
+    proceeds({ id: 'hydro', description: 'Run-of-river plant', activityId: '4.5', amount: 20000000, metricValue: 120, criteriaConfirmed: false }),
+    proceeds({ id: 'general', trancheId: 'rcf', description: 'General corporate purposes', naceCode: 'K64.19', activityId: null, amount: 10000000 }),
+  ],
+  minimumSafeguards: { human_rights: true, anti_corruption: true, taxation: true, fair_competition: true },
+};
+
+const loan: LoanData = {
+  borrowerName: 'Green Energy Solutions Inc.',
+  facilityAmount: 100000000,
+  currency: 'EUR',
+  interestRateMargin: 2.25,
+  leverageCovenant: 3.75,
+  esgTarget: 'Reduce Scope 1 and 2 carbon emissions by 50% by 2027',
+  tranches: [
+    { id: 'tla', name: 'Facility A', facilityType: 'term_loan', amount: 60000000, currency: 'EUR', interestRateMargin: 2.5, tenorMonths: 60 },
+    { id: 'rcf', name: 'Revolver', facilityType: 'revolving_credit', amount: 40000000, currency: 'EUR', interestRateMargin: 2, tenorMonths: 60 },
+  ],
+  taxonomyScreening: screening,
+};
+
+describe('classifyNaceCode', () => {
+  it('finds the activities covering a code, with or without its section letter', () => {
+    expect(classifyNaceCode('D35.11').map(activity => activity.id)).toEqual(['4.1', '4.3', '4.5']);
+    expect(classifyNaceCode('43.21').map(activity => activity.id)).toEqual(['7.2']);
+    expect(classifyNaceCode('K64.19')).toEqual([]);
+    expect(classifyNaceCode('not a code')).toEqual([]);
+  });
+});
+
+describe('buildTaxonomyAlignmentReport', () => {
+  it('works out the eligible and aligned share of each facility and the loan', () => {
+    const report = buildTaxonomyAlignmentReport(loan);
+    const [facilityA, revolver] = report.facilities;
+
+    expect(facilityA.assessments.map(assessment => assessment.status)).toEqual(['aligned', 'eligible']);
+    expect(facilityA.assessments[1].gaps).toEqual(['Life-cycle emissions of 120 gCO2e/kWh misses the criteria']);
+    expect(facilityA.eligiblePercentage).toBeCloseTo(83.33, 2);
+    expect(facilityA.alignedPercentage).toBe(50);
+    expect(revolver).toMatchObject({ eligiblePercentage: 0, alignedPercentage: 0 });
+    expect(report).toMatchObject({ eligiblePercentage: 50, alignedPercentage: 30, safeguardGaps: [] });
+  });
+
+  it('aligns nothing until DNSH and the minimum safeguards are confirmed', () => {
+    const withGaps = buildTaxonomyAlignmentReport({
+      ...loan,
+      taxonomyScreening: {
+        useOfProceeds: [proceeds({ dnsh: { ...allDnsh, biodiversity: false } })],
+        minimumSafeguards: { ...screening.minimumSafeguards, taxation: false },
+      },
+    });
+
+    expect(withGaps.safeguardGaps).toEqual(['taxation']);
+    expect(withGaps.facilities[0].assessments[0].gaps).toEqual([
+      'DNSH not confirmed: Biodiversity and ecosystems',
+      'Minimum safeguards not met',
+    ]);
+    expect(withGaps.alignedPercentage).toBe(0);
+  });
+});
+
+describe('buildTaxonomyAlignmentReport across currencies', () => {
+  const dollarRevolver: LoanData = {
+    ...loan,
+    facilityAmount: 92000000,
+    tranches: [loan.tranches![0], { ...loan.tranches![1], currency: 'USD' }],
+  };
+
+  it('weighs each facility in the loan currency', () => {
+    const fx = new FxRateTable([{ date: '2026-01-02', base: 'USD', currency: 'EUR', rate: 0.8 }]);
+    const report = buildTaxonomyAlignmentReport(dollarRevolver, { fx });
+
+    expect(report.facilities.map(facility => facility.currency)).toEqual(['EUR', 'USD']);
+    expect(report.eligiblePercentage).toBeCloseTo((50 / 92) * 100, 6);
+    expect(report.alignedPercentage).toBeCloseTo((30 / 92) * 100, 6);
+  });
+
+  it('leaves the loan-level shares unknown without a rate', () => {
+    expect(buildTaxonomyAlignmentReport(dollarRevolver)).toMatchObject({ eligiblePercentage: null, alignedPercentage: null });
+  });
+});
+
+describe('validateTaxonomyScreening', () => {
+  it('rejects misclassified activities and over-allocated facilities', () => {
+    expect(() => validateTaxonomyScreening(loan, screening)).not.toThrow();
+    expect(() => validateTaxonomyScreening(loan, { ...screening, useOfProceeds: [proceeds({ activityId: '7.1' })] }))
+      .toThrow('Solar park: activity 7.1 does not cover NACE D35.11');
+    expect(() => validateTaxonomyScreening(loan, { ...screening, useOfProceeds: [proceeds({ amount: 70000000 })] }))
+      .toThrow('Uses of proceeds exceed the Facility A amount');
+    expect(() => validateTaxonomyScreening(loan, { ...screening, useOfProceeds: [proceeds({ trancheId: null })] }))
+      .toThrow(CodedError);
+  });
+
+  it('runs with the loan data validation', () => {
+    expect(validateLoan(loan).errors).toEqual([]);
+    expect(validateLoan({ ...loan, taxonomyScreening: { ...screening, useOfProceeds: [proceeds({ amount: 70000000 })] } }).errors)
+      .toEqual(['Uses of proceeds exceed the Facility A amount']);
+    expect(validateLoan({ ...loan, ...sanitizeLoanData({ taxonomyScreening: { ...screening, useOfProceeds: [proceeds({ amount: 'all' as unknown as number })] } }) }).errors)
+      .toEqual(['Solar park: amount must be positive']);
+    expect(validateLoan({ ...loan, taxonomyScreening: { useOfProceeds: [{ description: 'Solar park' }] } as unknown as TaxonomyScreening }).errors)
+      .toEqual(['Taxonomy screening must list uses of proceeds, each with a description, NACE code and DNSH confirmations, and the minimum safeguards']);
+  });
+});
+
+describe('EU Taxonomy regulatory compliance', () => {
+  it('requires a screening and flags safeguard gaps and unaligned proceeds', () => {
+    const unscreened = enterpriseValidator.validateRegulatoryCompliance({ ...loan, taxonomyScreening: undefined }, 'EU Taxonomy');
+    expect(unscreened.violations).toContain('EU Taxonomy requires a use-of-proceeds screening of the financed activities');
+
+    const screened = enterpriseValidator.validateRegulatoryCompliance(loan, 'EU Taxonomy');
+    expect(screened.isCompliant).toBe(true);
+    expect(screened.recommendations).toEqual(['Run-of-river plant: Life-cycle emissions of 120 gCO2e/kWh misses the criteria']);
+
+    const noSafeguards = enterpriseValidator.validateRegulatoryCompliance(
+      { ...loan, taxonomyScreening: { ...screening, minimumSafeguards: {} } },
+      'EU Taxonomy'
+    );
+    expect(noSafeguards.isCompliant).toBe(false);
+    expect(noSafeguards.violations).toContain('Minimum safeguards not met: Human rights, including labour rights');
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * EU Taxonomy Screening
+ * Classifies what each facility's proceeds finance by NACE code against the
+ * climate change mitigation activities of the Climate Delegated Act, checks the
+ * technical screening criteria, do no significant harm (DNSH) and the borrower's
+ * minimum safeguards, and works out the eligible and aligned share of each facility
+ */
+
+import {
+  EnvironmentalObjective,
+  LoanData,
+  SafeguardTopic,
+  TaxonomyScreening,
+  UseOfProceeds
+} from '@/types';
+import { CodedError, ErrorCode } from '@/lib/enterprise-errors';
+import { FxRateTable } from '@/lib/fx-rates';
+
+// Quantitative screening criterion: the reported value must be below, at most or at least the limit
+export interface ScreeningThreshold {
+  metric: string;
+  unit: string;
+  comparison: 'below' | 'at_most' | 'at_least';
+  limit: number;
+}
+
+export interface TaxonomyActivity {
+  // Section number in Annex I of the Climate Delegated Act
+  id: string;
+  name: string;
+  // NACE codes the activity covers; a code also covers its sub-classes
+  naceCodes: string[];
+  objective: EnvironmentalObjective;
+  // Substantial contribution criteria, in brief
+  criteria: string;
+  threshold: ScreeningThreshold | null;
+}
+
+export const TAXONOMY_ACTIVITIES: TaxonomyActivity[] = [
+  {
+    id: '4.1',
+    name: 'Electricity generation using solar photovoltaic technology',
+    naceCodes: ['D35.11', 'F42.22'],
+    objective: 'climate_mitigation',
+    criteria: 'The activity generates electricity using solar PV technology',
+    threshold: null,
+  },
+  {
+    id: '4.3',
+    name: 'Electricity generation from wind power',
+    naceCodes: ['D35.11', 'F42.22'],
+    objective: 'climate_mitigation',
+    criteria: 'The activity generates electricity from wind power',
+    threshold: null,
+  },
+  {
+    id: '4.5',
+    name: 'Electricity generation from hydropower',
+    naceCodes: ['D35.11', 'F42.22'],
+    objective: 'climate_mitigation',
+    criteria: 'Life-cycle GHG emissions are below 100 gCO2e/kWh',
+    threshold: { metric: 'Life-cycle emissions', unit: 'gCO2e/kWh', comparison: 'below', limit: 100 },
+  },
+  {
+    id: '4.9',
+    name: 'Transmission and distribution of electricity',
+    naceCodes: ['D35.12', 'D35.13'],
+    objective: 'climate_mitigation',
+    criteria: 'The grid is on a trajectory to full decarbonisation, with an emission factor below 100 gCO2e/kWh',
+    threshold: { metric: 'Grid emission factor', unit: 'gCO2e/kWh', comparison: 'below', limit: 100 },
+  },
+  {
+    id: '5.1',
+    name: 'Construction, extension and operation of water collection, treatment and supply systems',
+    naceCodes: ['E36.00', 'F42.99'],
+    objective: 'climate_mitigation',
+    criteria: 'Net average energy consumption for abstraction and treatment is at most 0.5 kWh per m3 of water supplied',
+    threshold: { metric: 'Energy consumption', unit: 'kWh/m3', comparison: 'at_most', limit: 0.5 },
+  },
+  {
+    id: '6.5',
+    name: 'Transport by motorbikes, passenger cars and light commercial vehicles',
+    naceCodes: ['H49.32', 'H49.39', 'N77.11'],
+    objective: 'climate_mitigation',
+    criteria: 'Direct CO2 emissions are below 50 g/km',
+    threshold: { metric: 'Direct emissions', unit: 'gCO2/km', comparison: 'below', limit: 50 },
+  },
+  {
+    id: '7.1',
+    name: 'Construction of new buildings',
+    naceCodes: ['F41.1', 'F41.2'],
+    objective: 'climate_mitigation',
+    criteria: 'Primary energy demand is at least 10% lower than the nearly zero-energy building (NZEB) threshold',
+    threshold: { metric: 'Primary energy demand below NZEB', unit: '%', comparison: 'at_least', limit: 10 },
+  },
+  {
+    id: '7.2',
+    name: 'Renovation of existing buildings',
+    naceCodes: ['F41.2', 'F43'],
+    objective: 'climate_mitigation',
+    criteria: 'The renovation reduces primary energy demand by at least 30%',
+    threshold: { metric: 'Primary energy demand reduction', unit: '%', comparison: 'at_least', limit: 30 },
+  },
+];
+
+export const OBJECTIVE_LABELS: Record<EnvironmentalObjective, string> = {
+  climate_mitigation: 'Climate change mitigation',
+  climate_adaptation: 'Climate change adaptation',
+  water: 'Water and marine resources',
+  circular_economy: 'Circular economy',
+  pollution: 'Pollution prevention and control',
+  biodiversity: 'Biodiversity and ecosystems',
+};
+
+export const SAFEGUARD_LABELS: Record<SafeguardTopic, string> = {
+  human_rights: 'Human rights, including labour rights',
+  anti_corruption: 'Bribery and corruption',
+  taxation: 'Taxation',
+  fair_competition: 'Fair competition',
+};
+
+export type AlignmentStatus = 'not_eligible' | 'eligible' | 'aligned';
+
+export interface UseOfProceedsAssessment {
+  useOfProceeds: UseOfProceeds;
+  activity: TaxonomyActivity | null;
+  status: AlignmentStatus;
+  // Why an eligible activity is not aligned
+  gaps: string[];
+}
+
+export interface FacilityAlignment {
+  // Tranche id; null for a loan without tranches
+  facilityId: string | null;
+  name: string;
+  currency: string;
+  amount: number;
+  eligibleAmount: number;
+  alignedAmount: number;
+  // Shares of the facility amount, percent
+  eligiblePercentage: number;
+  alignedPercentage: number;
+  assessments: UseOfProceedsAssessment[];
+}
+
+export interface TaxonomyAlignmentReport {
+  facilities: FacilityAlignment[];
+  // Safeguards the borrower has not confirmed; any gap leaves nothing aligned
+  safeguardGaps: SafeguardTopic[];
+  // Shares of the whole loan in its currency, percent; null when a facility currency has no FX rate
+  eligiblePercentage: number | null;
+  alignedPercentage: number | null;
+}
+
+export interface TaxonomyAlignmentOptions {
+  // Rates for converting facilities to the loan currency; single-currency loans need none
+  fx?: FxRateTable;
+}
+
+const reject = (message: string): never => {
+  throw new CodedError(ErrorCode.VALIDATION_ERROR, message);
+};
+
+// "D35.11", "d 35.11" and "35.11" all become "35.11"; the section letter is optional
+const normaliseNaceCode = (code: string): string => code.replace(/\s+/g, '').toUpperCase().replace(/^[A-U]/, '');
+
+export function generateUseOfProceedsId(): string {
+  return `proceeds_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export function getTaxonomyActivity(id: string): TaxonomyActivity | null {
+  return TAXONOMY_ACTIVITIES.find(activity => activity.id === id) ?? null;
+}
+
+/**
+ * Taxonomy activities a NACE code can be screened as; none means the activity is
+ * not taxonomy-eligible
+ */
+export function classifyNaceCode(naceCode: string): TaxonomyActivity[] {
+  const code = normaliseNaceCode(naceCode);
+  if (!/^\d{2}(\.\d{1,2})?$/.test(code)) return [];
+  return TAXONOMY_ACTIVITIES.filter(activity =>
+    activity.naceCodes.some(activityCode => code.startsWith(normaliseNaceCode(activityCode)))
+  );
+}
+
+export function meetsThreshold(threshold: ScreeningThreshold, value: number): boolean {
+  switch (threshold.comparison) {
+    case 'below':
+      return value < threshold.limit;
+    case 'at_most':
+      return value <= threshold.limit;
+    case 'at_least':
+      return value >= threshold.limit;
+  }
+}
+
+// Objectives an activity must do no significant harm to
+export function getDnshObjectives(activity: TaxonomyActivity): EnvironmentalObjective[] {
+  return (Object.keys(OBJECTIVE_LABELS) as EnvironmentalObjective[]).filter(objective => objective !== activity.objective);
+}
+
+const getFacilities = (loan: LoanData): Array<{ id: string | null; name: string; currency: string; amount: number }> =>
+  loan.tranches && loan.tranches.length > 0
+    ? loan.tranches.map(tranche => ({ id: tranche.id, name: tranche.name, currency: tranche.currency, amount: tranche.amount }))
+    : [{ id: null, name: 'Facility', currency: loan.currency, amount: loan.facilityAmount }];
+
+/**
+ * Checks a screening before it is attached to a loan. Throws CodedError
+ * when a line names an unknown facility or an activity that does not cover its
+ * NACE code, has no description or a non-positive amount, or a facility's lines
+ * add up to more than the facility.
+ */
+export function validateTaxonomyScreening(loan: LoanData, screening: TaxonomyScreening): void {
+  const facilities = getFacilities(loan);
+  const allocated = new Map<string | null, number>();
+
+  screening.useOfProceeds.forEach(entry => {
+    const facility = facilities.find(candidate => candidate.id === entry.trancheId);
+    if (!facility) return reject(`Unknown facility for "${entry.description}"`);
+    if (!entry.description.trim()) reject('Every use of proceeds needs a description');
+    if (!(entry.amount > 0) || !Number.isFinite(entry.amount)) reject(`${entry.description}: amount must be positive`);
+    if (entry.activityId !== null && !classifyNaceCode(entry.naceCode).some(activity => activity.id === entry.activityId)) {
+      reject(`${entry.description}: activity ${entry.activityId} does not cover NACE ${entry.naceCode}`);
+    }
+    if (entry.metricValue !== null && !Number.isFinite(entry.metricValue)) reject(`${entry.description}: screening value must be a number`);
+
+    const total = (allocated.get(facility.id) ?? 0) + entry.amount;
+    if (total > facility.amount) reject(`Uses of proceeds exceed the ${facility.name} amount`);
+    allocated.set(facility.id, total);
+  });
+}
+
+/**
+ * Screens one use of proceeds: not eligible without a taxonomy activity, aligned
+ * when it meets the technical screening criteria and DNSH for every other
+ * objective and the borrower meets the minimum safeguards, otherwise eligible
+ * with the gaps listed
+ */
+export function assessUseOfProceeds(entry: UseOfProceeds, safeguardsMet: boolean): UseOfProceedsAssessment {
+  const activity = entry.activityId === null ? null : getTaxonomyActivity(entry.activityId);
+  if (!activity) return { useOfProceeds: entry, activity: null, status: 'not_eligible', gaps: [] };
+
+  const gaps: string[] = [];
+  const { threshold } = activity;
+  if (threshold) {
+    if (entry.metricValue === null) gaps.push(`${threshold.metric} not reported`);
+    else if (!meetsThreshold(threshold, entry.metricValue)) gaps.push(`${threshold.metric} of ${entry.metricValue} ${threshold.unit} misses the criteria`);
+  } else if (!entry.criteriaConfirmed) {
+    gaps.push('Technical screening criteria not confirmed');
+  }
+  getDnshObjectives(activity).forEach(objective => {
+    if (!entry.dnsh[objective]) gaps.push(`DNSH not confirmed: ${OBJECTIVE_LABELS[objective]}`);
+  });
+  if (!safeguardsMet) gaps.push('Minimum safeguards not met');
+
+  return { useOfProceeds: entry, activity, status: gaps.length === 0 ? 'aligned' : 'eligible', gaps };
+}
+
+const percentageOf = (amount: number, total: number): number => (total > 0 ? (amount / total) * 100 : 0);
+
+/**
+ * Eligible and aligned share of each facility and of the whole loan. Proceeds not
+ * screened count as neither.
+ */
+export function buildTaxonomyAlignmentReport(loan: LoanData, options: TaxonomyAlignmentOptions = {}): TaxonomyAlignmentReport {
+  const { fx = new FxRateTable([]) } = options;
+  const screening = loan.taxonomyScreening ?? { useOfProceeds: [], minimumSafeguards: {} };
+  const safeguardGaps = (Object.keys(SAFEGUARD_LABELS) as SafeguardTopic[]).filter(topic => !screening.minimumSafeguards[topic]);
+  const safeguardsMet = safeguardGaps.length === 0;
+
+  const facilities = getFacilities(loan).map(facility => {
+    const assessments = screening.useOfProceeds
+      .filter(entry => entry.trancheId === facility.id)
+      .map(entry => assessUseOfProceeds(entry, safeguardsMet));
+    const sumOf = (statuses: AlignmentStatus[]) => assessments
+      .filter(assessment => statuses.includes(assessment.status))
+      .reduce((sum, assessment) => sum + assessment.useOfProceeds.amount, 0);
+    const eligibleAmount = sumOf(['eligible', 'aligned']);
+    const alignedAmount = sumOf(['aligned']);
+
+    return {
+      facilityId: facility.id,
+      name: facility.name,
+      currency: facility.currency,
+      amount: facility.amount,
+      eligibleAmount,
+      alignedAmount,
+      eligiblePercentage: percentageOf(eligibleAmount, facility.amount),
+      alignedPercentage: percentageOf(alignedAmount, facility.amount),
+      assessments,
+    };
+  });
+
+  // Facility figures summed in the loan currency, or null when one cannot be converted
+  const loanTotal = (amountOf: (facility: FacilityAlignment) => number): number | null =>
+    facilities.reduce<number | null>((sum, facility) => {
+      const converted = fx.tryConvert(amountOf(facility), facility.currency, loan.currency);
+      return sum === null || converted === null ? null : sum + converted;
+    }, 0);
+  const total = loanTotal(facility => facility.amount);
+  const eligible = loanTotal(facility => facility.eligibleAmount);
+  const aligned = loanTotal(facility => facility.alignedAmount);
+
+  return {
+    facilities,
+    safeguardGaps,
+    eligiblePercentage: total === null || eligible === null ? null : percentageOf(eligible, total),
+    alignedPercentage: total === null || aligned === null ? null : percentageOf(aligned, total),
+  };
+}
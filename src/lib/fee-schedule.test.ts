@@ -0,0 +1,92 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for commitment, utilisation and agency fees and revolver interest
+ */
+
+import { LoanData } from '@/types';
+import { ReferenceRateCurve } from './reference-rates';
+import { buildInterestSchedules } from './interest-schedule';
+import { recordRevolverMovement } from './revolving-facility';
+import { buildFeeSchedule, getAnnualFees, getUtilisationFeeRate } from './fee-schedule';
+
+const drawn: LoanData = recordRevolverMovement(
+  {
+    borrowerName: 'Acme Holdings Ltd',
+    facilityAmount: 100000000,
+    currency: 'USD',
+    interestRateMargin: 2.8,
+    leverageCovenant: 4,
+    esgTarget: '',
+    signingDate: '2026-01-01',
+    availabilityPeriodEnd: '2026-12-01',
+    terminationDate: '2027-01-01',
+    tranches: [
+      { id: 'tla', name: 'Facility A', facilityType: 'term_loan', amount: 60000000, currency: 'USD', interestRateMargin: 3, tenorMonths: 12 },
+      { id: 'rcf', name: 'Revolver', facilityType: 'revolving_credit', amount: 40000000, currency: 'USD', interestRateMargin: 2.5, tenorMonths: 12 },
+    ],
+  },
+  { id: 'movement_1', trancheId: 'rcf', type: 'drawdown', date: '2026-02-01', amount: 20000000 }
+);
+
+describe('getUtilisationFeeRate', () => {
+  const bands = [{ aboveUtilisation: 33.33, rate: 0.1 }, { aboveUtilisation: 66.67, rate: 0.2 }];
+
+  it('applies the highest band exceeded', () => {
+    expect(getUtilisationFeeRate(bands, 33.33)).toBe(0);
+    expect(getUtilisationFeeRate(bands, 50)).toBe(0.1);
+    expect(getUtilisationFeeRate(bands, 100)).toBe(0.2);
+  });
+});
+
+describe('buildFeeSchedule', () => {
+  const fees = buildFeeSchedule(drawn, '2026-03-01');
+
+  it('charges the commitment fee on undrawn amounts at a share of the margin', () => {
+    // 35% of 2.5%, on 40M for 31 days then 20M for 59 days, ACT/360
+    expect(fees.find(fee => fee.type === 'commitment' && fee.periodStart === '2026-01-01')).toEqual(expect.objectContaining({
+      facilityId: 'rcf',
+      paymentDate: '2026-04-01',
+      amount: 58819.44,
+      projected: true,
+    }));
+  });
+
+  it('charges the utilisation fee on drawings at the band for the day', () => {
+    // Half drawn, so 0.10% on 20M for 59 days
+    expect(fees.find(fee => fee.type === 'utilisation' && fee.periodStart === '2026-01-01')?.amount).toBe(3277.78);
+  });
+
+  it('charges the agency fee in advance each year and stops commitment fees after availability', () => {
+    expect(fees.filter(fee => fee.type === 'agency')).toEqual([
+      expect.objectContaining({ paymentDate: '2026-01-01', amount: 50000, projected: false }),
+    ]);
+    const lastCommitment = fees.filter(fee => fee.type === 'commitment').pop();
+    // 20M undrawn from 1 October to 1 December inclusive
+    expect(lastCommitment?.amount).toBeCloseTo(20000000 * 0.00875 * (62 / 360), 1);
+  });
+});
+
+describe('getAnnualFees', () => {
+  it('runs the current drawings and agency fee over a year', () => {
+    expect(getAnnualFees(drawn, '2026-03-01')).toEqual({
+      commitment: 177430.56,
+      utilisation: 20277.78,
+      agency: 50000,
+      total: 247708.34,
+    });
+    expect(getAnnualFees(drawn, '2027-02-01').total).toBe(0);
+  });
+});
+
+describe('revolver interest', () => {
+  it('accrues on the average drawn balance of each period', () => {
+    const revolver = buildInterestSchedules(drawn, new ReferenceRateCurve([]), '2026-03-01')
+      .find(schedule => schedule.facilityId === 'rcf');
+
+    expect(revolver?.periods[0].principal).toBeCloseTo((20000000 * 59) / 90, 2);
+    expect(revolver?.periods[1].principal).toBe(20000000);
+  });
+});
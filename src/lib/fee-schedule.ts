@@ -0,0 +1,176 @@
+/**
+ * Fee Schedule
+ * Commitment fees on undrawn revolver amounts, utilisation fees on drawings and the
+ * agency fee, by fee period over the life of a loan
+ */
+
+import { FeeTerms, LoanData, UtilisationFeeBand } from '@/types';
+import { defaultEnterpriseConfig } from '@/config/enterprise-config';
+import { addMonths } from '@/lib/repayment-schedule';
+import { DAY_COUNT_BASIS } from '@/lib/reference-rates';
+import { buildInterestPeriods, getInterestTerms, getScheduleStart } from '@/lib/interest-schedule';
+import { getDrawnBalanceAt, getRevolverUtilisation, getRevolvingTranches } from '@/lib/revolving-facility';
+import { getMarginAt } from '@/lib/sustainability-kpis';
+
+export type FeeType = 'commitment' | 'utilisation' | 'agency';
+
+export const FEE_TYPE_LABELS: Record<FeeType, string> = {
+  commitment: 'Commitment fee',
+  utilisation: 'Utilisation fee',
+  agency: 'Agency fee',
+};
+
+export interface FeeLine {
+  type: FeeType;
+  // Revolving tranche the fee accrues on; null for the agency fee
+  facilityId: string | null;
+  facilityName: string;
+  currency: string;
+  periodStart: string;
+  periodEnd: string;
+  // Commitment and utilisation fees are paid in arrears, the agency fee in advance
+  paymentDate: string;
+  amount: number;
+  // True while any part of the period is after the as-of date
+  projected: boolean;
+}
+
+export interface AnnualFees {
+  commitment: number;
+  utilisation: number;
+  agency: number;
+  total: number;
+}
+
+const roundToCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+const addDays = (date: string, days: number): string =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().substring(0, 10);
+
+export function getFeeTerms(loan: LoanData): FeeTerms {
+  const { business } = defaultEnterpriseConfig;
+  return loan.feeTerms ?? {
+    commitmentFeePercentOfMargin: business.commitmentFeePercentOfMargin,
+    utilisationFeeBands: business.utilisationFeeBands,
+    agencyFee: business.agencyFee,
+  };
+}
+
+/**
+ * Utilisation fee rate (percent per annum) of the highest band the utilisation is above
+ */
+export function getUtilisationFeeRate(bands: UtilisationFeeBand[], utilisation: number): number {
+  return bands
+    .filter(band => utilisation > band.aboveUtilisation)
+    .reduce((rate, band) => Math.max(rate, band.rate), 0);
+}
+
+/**
+ * Fees of a loan by period from signing to maturity, in payment date order.
+ * Commitment and utilisation fees accrue daily on the revolving tranches on their
+ * currency's day count: the commitment fee on undrawn amounts until the end of the
+ * availability period, the utilisation fee on drawn amounts at the band set by
+ * drawings across all revolvers that day. Zero fees are left out.
+ */
+export function buildFeeSchedule(loan: LoanData, asOf: string): FeeLine[] {
+  const terms = getFeeTerms(loan);
+  const start = getScheduleStart(loan, asOf);
+  const maturity = loan.terminationDate ?? addMonths(start, 12);
+  const availableUntil = loan.availabilityPeriodEnd ?? maturity;
+  const revolvers = getRevolvingTranches(loan);
+  const lines: FeeLine[] = [];
+
+  const periods = buildInterestPeriods(start, maturity, defaultEnterpriseConfig.business.interestPeriodMonths);
+  periods.forEach(period => {
+    const accrued = new Map<string, { commitment: number; utilisation: number }>();
+
+    for (let day = period.start; day < period.end; day = addDays(day, 1)) {
+      const utilisation = getRevolverUtilisation(loan, day).percentage;
+      const utilisationRate = getUtilisationFeeRate(terms.utilisationFeeBands, utilisation);
+
+      revolvers.forEach(tranche => {
+        const interestTerms = getInterestTerms(loan, tranche);
+        const dailyFactor = 1 / 100 / DAY_COUNT_BASIS[interestTerms.dayCount];
+        const commitmentRate = getMarginAt(loan, period.start, tranche) * (terms.commitmentFeePercentOfMargin / 100);
+        const drawn = getDrawnBalanceAt(loan, tranche.id, day);
+
+        const entry = accrued.get(tranche.id) ?? { commitment: 0, utilisation: 0 };
+        if (day <= availableUntil) entry.commitment += (tranche.amount - drawn) * commitmentRate * dailyFactor;
+        entry.utilisation += drawn * utilisationRate * dailyFactor;
+        accrued.set(tranche.id, entry);
+      });
+    }
+
+    revolvers.forEach(tranche => {
+      const entry = accrued.get(tranche.id);
+      (['commitment', 'utilisation'] as const).forEach(type => {
+        const amount = roundToCents(entry?.[type] ?? 0);
+        if (amount <= 0) return;
+        lines.push({
+          type,
+          facilityId: tranche.id,
+          facilityName: tranche.name,
+          currency: tranche.currency,
+          periodStart: period.start,
+          periodEnd: period.end,
+          paymentDate: period.end,
+          amount,
+          projected: period.end > asOf,
+        });
+      });
+    });
+  });
+
+  // Agency fee on signing and each anniversary
+  if (terms.agencyFee > 0) {
+    for (let year = 0; addMonths(start, year * 12) < maturity; year++) {
+      const periodStart = addMonths(start, year * 12);
+      const nextAnniversary = addMonths(start, (year + 1) * 12);
+      lines.push({
+        type: 'agency',
+        facilityId: null,
+        facilityName: 'Agency',
+        currency: loan.currency,
+        periodStart,
+        periodEnd: nextAnniversary < maturity ? nextAnniversary : maturity,
+        paymentDate: periodStart,
+        amount: terms.agencyFee,
+        projected: periodStart > asOf,
+      });
+    }
+  }
+
+  return lines.sort((a, b) => a.paymentDate.localeCompare(b.paymentDate));
+}
+
+/**
+ * Fees running at the as-of date over a year: commitment and utilisation fees on
+ * today's drawings, plus the agency fee while the loan is outstanding
+ */
+export function getAnnualFees(loan: LoanData, asOf: string): AnnualFees {
+  const terms = getFeeTerms(loan);
+  const start = getScheduleStart(loan, asOf);
+  const maturity = loan.terminationDate ?? addMonths(start, 12);
+  if (asOf < start || asOf >= maturity) return { commitment: 0, utilisation: 0, agency: 0, total: 0 };
+
+  const available = asOf <= (loan.availabilityPeriodEnd ?? maturity);
+  const utilisationRate = getUtilisationFeeRate(terms.utilisationFeeBands, getRevolverUtilisation(loan, asOf).percentage);
+
+  const fees = getRevolvingTranches(loan).reduce(
+    (totals, tranche) => {
+      const interestTerms = getInterestTerms(loan, tranche);
+      const yearFraction = 365 / DAY_COUNT_BASIS[interestTerms.dayCount];
+      const drawn = getDrawnBalanceAt(loan, tranche.id, asOf);
+      const commitmentRate = interestTerms.margin * (terms.commitmentFeePercentOfMargin / 100);
+      return {
+        commitment: totals.commitment + (available ? (tranche.amount - drawn) * (commitmentRate / 100) * yearFraction : 0),
+        utilisation: totals.utilisation + drawn * (utilisationRate / 100) * yearFraction,
+      };
+    },
+    { commitment: 0, utilisation: 0 }
+  );
+
+  const commitment = roundToCents(fees.commitment);
+  const utilisation = roundToCents(fees.utilisation);
+  return { commitment, utilisation, agency: terms.agencyFee, total: roundToCents(commitment + utilisation + terms.agencyFee) };
+}
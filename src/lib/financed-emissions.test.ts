@@ -0,0 +1,156 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for PCAF financed emissions by lender and across the portfolio
+ */
+
+import * as fc from 'fast-check';
+import { BorrowerEmissions, LoanData, PortfolioLoanRecord, sanitizeLoanData } from '@/types';
+import { validateLoan } from './loan-validation';
+import { buildPortfolioLoanInput } from './loan-state';
+import { FxRateTable } from './fx-rates';
+import { CodedError } from './enterprise-errors';
+import { buildFinancedEmissionsReport, validateBorrowerEmissions } from './financed-emissions';
+
+const loan = (overrides: Partial<LoanData>): LoanData => ({
+  borrowerName: 'Acme Holdings Ltd',
+  facilityAmount: 100000000,
+  currency: 'USD',
+  interestRateMargin: 2.5,
+  leverageCovenant: 4,
+  esgTarget: '',
+  ...overrides,
+});
+
+const record = (id: string, data: LoanData): PortfolioLoanRecord => ({
+  ...buildPortfolioLoanInput(data),
+  id,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+const acmeEmissions: BorrowerEmissions = {
+  reportingYear: 2025,
+  scope1: 30000,
+  scope2: 20000,
+  scope3: 100000,
+  attributionBasis: 'evic',
+  attributionValue: 500000000,
+  revenue: 250000000,
+  currency: 'USD',
+  dataSource: 'verified_reported',
+};
+
+const acme = record('loan_1', loan({
+  lenders: [
+    { lenderName: 'Bank A', amount: 60000000, percentage: 0 },
+    { lenderName: 'Bank B', amount: 40000000, percentage: 0 },
+  ],
+  borrowerEmissions: acmeEmissions,
+}));
+
+// Lent more than the borrower's equity plus debt, so the loan finances all of its emissions
+const globex = record('loan_2', loan({
+  borrowerName: 'Globex SE',
+  facilityAmount: 50000000,
+  currency: 'EUR',
+  lenders: [
+    { lenderName: 'Bank A', amount: 10000000, percentage: 0 },
+    { lenderName: 'Bank C', amount: 40000000, percentage: 0 },
+  ],
+  borrowerEmissions: {
+    reportingYear: 2025,
+    scope1: 5000,
+    scope2: 5000,
+    scope3: null,
+    attributionBasis: 'equity_and_debt',
+    attributionValue: 40000000,
+    revenue: null,
+    currency: 'EUR',
+    dataSource: 'revenue_based',
+  },
+}));
+
+const initech = record('loan_3', loan({
+  borrowerName: 'Initech Inc',
+  facilityAmount: 40000000,
+  lenders: [
+    { lenderName: 'Bank B', amount: 20000000, percentage: 0 },
+    { lenderName: 'Bank C', amount: 20000000, percentage: 0 },
+  ],
+}));
+
+// One euro buys 1.25 dollars
+const fx = new FxRateTable([{ date: '2026-07-01', base: 'USD', currency: 'EUR', rate: 0.8 }]);
+
+describe('buildFinancedEmissionsReport', () => {
+  const report = buildFinancedEmissionsReport([acme, globex, initech], '2026-09-30', { fx });
+  const lender = (name: string) => report.lenders.find(entry => entry.lenderName === name);
+
+  it('attributes emissions by outstanding over EVIC', () => {
+    expect(lender('Bank A')?.lines).toEqual([
+      expect.objectContaining({ borrowerName: 'Acme Holdings Ltd', attributionFactor: 0.12, scope12: 6000, scope3: 12000, intensity: 200, dataQualityScore: 1 }),
+      expect.objectContaining({ borrowerName: 'Globex SE', outstanding: 12500000, attributionFactor: 0.2, scope12: 2000, scope3: null, intensity: null, dataQualityScore: 4 }),
+    ]);
+    expect(lender('Bank C')?.lines[0].attributionFactor).toBe(0.8);
+  });
+
+  it('aggregates footprint, intensity and data quality over the covered book', () => {
+    expect(lender('Bank A')).toMatchObject({
+      outstanding: 72500000,
+      coverage: 100,
+      financedScope12: 8000,
+      carbonFootprint: expect.closeTo(110.34, 2),
+      weightedIntensity: 200,
+      dataQualityScore: expect.closeTo(1.52, 2),
+    });
+    // Initech reports no emissions
+    expect(lender('Bank B')).toMatchObject({ outstanding: 60000000, coveredOutstanding: 40000000, carbonFootprint: 100 });
+    expect(lender('Bank B')?.coverage).toBeCloseTo(66.67, 2);
+    expect(report.portfolio).toMatchObject({ outstanding: 202500000, financedScope12: 20000, financedScope3: 20000 });
+  });
+
+  it('never attributes more than all of a borrower\'s emissions to its lenders', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 1000 }),
+        fc.integer({ min: 1, max: 99 }),
+        (valueMillions, firstShare) => {
+          const data = record('loan_x', loan({
+            lenders: [
+              { lenderName: 'Bank A', amount: firstShare * 1000000, percentage: 0 },
+              { lenderName: 'Bank B', amount: (100 - firstShare) * 1000000, percentage: 0 },
+            ],
+            borrowerEmissions: { ...acmeEmissions, attributionValue: valueMillions * 1000000 },
+          }));
+          const { portfolio } = buildFinancedEmissionsReport([data], '2026-09-30');
+          expect(portfolio.financedScope12).toBeLessThanOrEqual(50000 + 1e-6);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('validateBorrowerEmissions', () => {
+  it('rejects negative emissions and a missing attribution value', () => {
+    expect(() => validateBorrowerEmissions(acmeEmissions)).not.toThrow();
+    expect(() => validateBorrowerEmissions({ ...acmeEmissions, scope2: -1 })).toThrow('Scope 1 and 2 emissions must be zero or more tonnes');
+    expect(() => validateBorrowerEmissions({ ...acmeEmissions, attributionValue: 0 })).toThrow('EVIC must be positive');
+    expect(() => validateBorrowerEmissions({ ...acmeEmissions, revenue: 0 })).toThrow(CodedError);
+  });
+
+  it('runs with the loan data validation and keeps unreadable figures for it', () => {
+    const validLoan = loan({ esgTarget: 'Reduce Scope 1 and 2 emissions by 30% by 2030' });
+    const submitted = { ...acmeEmissions, scope1: 'a lot', currency: ' usd ' } as unknown as BorrowerEmissions;
+
+    expect(validateLoan({ ...validLoan, borrowerEmissions: acmeEmissions }).errors).toEqual([]);
+    expect(sanitizeLoanData({ borrowerEmissions: submitted }).borrowerEmissions).toMatchObject({ scope1: 'a lot', currency: 'USD' });
+    expect(validateLoan({ ...validLoan, ...sanitizeLoanData({ borrowerEmissions: submitted }) }).errors)
+      .toEqual(['Scope 1 and 2 emissions must be zero or more tonnes']);
+    expect(validateLoan({ ...validLoan, borrowerEmissions: { ...acmeEmissions, dataSource: 'estimate' } as unknown as BorrowerEmissions }).errors)
+      .toEqual(['Borrower emissions must give a currency, an attribution basis and a data source']);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Financed Emissions
+ * Borrower emissions attributed to each lender's outstanding share under the PCAF
+ * standard for business loans, with the carbon footprint, emission intensity and
+ * data quality of each lender's book and of the whole portfolio
+ */
+
+import { BorrowerEmissions, EmissionsDataSource, PortfolioLoanRecord } from '@/types';
+import { CodedError, ErrorCode } from '@/lib/enterprise-errors';
+import { FxRateTable, REPORTING_CURRENCY } from '@/lib/fx-rates';
+import { getFacilityExposures } from '@/lib/lender-exposure';
+
+// PCAF data quality score of each source, 1 being verified reported emissions
+export const PCAF_DATA_QUALITY: Record<EmissionsDataSource, number> = {
+  verified_reported: 1,
+  unverified_reported: 2,
+  physical_activity: 3,
+  revenue_based: 4,
+  asset_based: 5,
+};
+
+const MILLION = 1_000_000;
+
+// One lender's financing of one borrower
+export interface FinancedEmissionsLine {
+  lenderName: string;
+  loanId: string;
+  borrowerName: string;
+  sector: string;
+  reportingYear: number;
+  // Lender's outstanding in the reporting currency
+  outstanding: number;
+  // Lender's outstanding over EVIC (or equity plus debt), capped at its share of the loan
+  attributionFactor: number;
+  // Attributed tonnes CO2e; Scope 3 is null when the borrower does not report it
+  scope12: number;
+  scope3: number | null;
+  // Borrower's Scope 1 and 2 tonnes per million of revenue, null when revenue is unknown
+  intensity: number | null;
+  dataQualityScore: number;
+}
+
+export interface EmissionsFootprint {
+  // Outstanding in the reporting currency, and the part financing borrowers with emissions data
+  outstanding: number;
+  coveredOutstanding: number;
+  // Covered share of the outstanding, percent
+  coverage: number;
+  financedScope12: number;
+  // From borrowers reporting Scope 3 only
+  financedScope3: number;
+  // Financed Scope 1 and 2 tonnes per million invested
+  carbonFootprint: number | null;
+  // Weighted average carbon intensity: Scope 1 and 2 tonnes per million of revenue,
+  // weighted by outstanding across borrowers with known revenue
+  weightedIntensity: number | null;
+  // Outstanding-weighted PCAF score, 1 (best) to 5
+  dataQualityScore: number | null;
+}
+
+export interface LenderFinancedEmissions extends EmissionsFootprint {
+  lenderName: string;
+  lines: FinancedEmissionsLine[];
+}
+
+export interface FinancedEmissionsReport {
+  // ISO yyyy-mm-dd the outstanding amounts and exchange rates are taken at
+  asOf: string;
+  reportingCurrency: string;
+  lenders: LenderFinancedEmissions[];
+  portfolio: EmissionsFootprint;
+}
+
+export interface FinancedEmissionsOptions {
+  fx?: FxRateTable;
+  reportingCurrency?: string;
+}
+
+const reject = (message: string): never => {
+  throw new CodedError(ErrorCode.VALIDATION_ERROR, message);
+};
+
+const isNonNegative = (value: number): boolean => Number.isFinite(value) && value >= 0;
+
+/**
+ * Checks borrower emissions before they are attached to a loan. Throws
+ * CodedError for negative or missing emissions, a non-positive
+ * attribution value or revenue, or no currency.
+ */
+export function validateBorrowerEmissions(emissions: BorrowerEmissions): void {
+  if (!Number.isInteger(emissions.reportingYear)) reject('Reporting year must be a whole year');
+  if (!isNonNegative(emissions.scope1) || !isNonNegative(emissions.scope2)) reject('Scope 1 and 2 emissions must be zero or more tonnes');
+  if (emissions.scope3 !== null && !isNonNegative(emissions.scope3)) reject('Scope 3 emissions must be zero or more tonnes');
+  const basis = emissions.attributionBasis === 'evic' ? 'EVIC' : 'Total equity plus debt';
+  if (!(emissions.attributionValue > 0) || !Number.isFinite(emissions.attributionValue)) reject(`${basis} must be positive`);
+  if (emissions.revenue !== null && !(emissions.revenue > 0 && Number.isFinite(emissions.revenue))) reject('Revenue must be positive');
+  if (!emissions.currency.trim()) reject('Currency is required');
+}
+
+const weightedAverage = (entries: Array<{ weight: number; value: number }>): number | null => {
+  const totalWeight = entries.reduce((sum, entry) => sum + entry.weight, 0);
+  return totalWeight > 0 ? entries.reduce((sum, entry) => sum + entry.weight * entry.value, 0) / totalWeight : null;
+};
+
+const getFootprint = (lines: FinancedEmissionsLine[], outstanding: number): EmissionsFootprint => {
+  const coveredOutstanding = lines.reduce((sum, line) => sum + line.outstanding, 0);
+  const financedScope12 = lines.reduce((sum, line) => sum + line.scope12, 0);
+
+  return {
+    outstanding,
+    coveredOutstanding,
+    coverage: outstanding > 0 ? (coveredOutstanding / outstanding) * 100 : 0,
+    financedScope12,
+    financedScope3: lines.reduce((sum, line) => sum + (line.scope3 ?? 0), 0),
+    carbonFootprint: coveredOutstanding > 0 ? financedScope12 / (coveredOutstanding / MILLION) : null,
+    weightedIntensity: weightedAverage(lines.flatMap(line =>
+      line.intensity === null ? [] : [{ weight: line.outstanding, value: line.intensity }]
+    )),
+    dataQualityScore: weightedAverage(lines.map(line => ({ weight: line.outstanding, value: line.dataQualityScore }))),
+  };
+};
+
+/**
+ * Financed emissions of every lender across the given loans. Each lender's
+ * outstanding is converted to the reporting currency at the as-of date and
+ * attributed the same share of its borrower's EVIC (or equity plus debt) in
+ * emissions. Loans without borrower emissions count towards outstanding but not
+ * coverage. Throws CodedError when a currency has no rate.
+ */
+export function buildFinancedEmissionsReport(
+  records: PortfolioLoanRecord[],
+  asOf: string,
+  options: FinancedEmissionsOptions = {}
+): FinancedEmissionsReport {
+  const { fx = new FxRateTable([]), reportingCurrency = REPORTING_CURRENCY } = options;
+  const toReporting = (amount: number, currency: string) => fx.convert(amount, currency, reportingCurrency, asOf);
+
+  // Each lender's outstanding in each loan, across facility currencies
+  const holdings = new Map<string, { lenderName: string; record: PortfolioLoanRecord; sector: string; share: number; outstanding: number }>();
+  records.forEach(record => {
+    getFacilityExposures(record, asOf, toReporting).forEach(exposure => {
+      const key = `${exposure.lenderName}\u0000${record.id}`;
+      const holding = holdings.get(key) ?? {
+        lenderName: exposure.lenderName,
+        record,
+        sector: exposure.sector,
+        share: exposure.percentage / 100,
+        outstanding: 0,
+      };
+      holding.outstanding += exposure.reportingFunded;
+      holdings.set(key, holding);
+    });
+  });
+
+  const byLender = new Map<string, { outstanding: number; lines: FinancedEmissionsLine[] }>();
+  holdings.forEach(({ lenderName, record, sector, share, outstanding }) => {
+    const book = byLender.get(lenderName) ?? { outstanding: 0, lines: [] };
+    book.outstanding += outstanding;
+    byLender.set(lenderName, book);
+
+    const emissions = record.loan.borrowerEmissions;
+    if (!emissions || outstanding <= 0) return;
+    const value = toReporting(emissions.attributionValue, emissions.currency);
+    // The loan as a whole cannot finance more than all of the borrower's emissions
+    const attributionFactor = Math.min(outstanding / value, share);
+    const revenue = emissions.revenue === null ? null : toReporting(emissions.revenue, emissions.currency);
+
+    book.lines.push({
+      lenderName,
+      loanId: record.id,
+      borrowerName: record.loan.borrowerName,
+      sector,
+      reportingYear: emissions.reportingYear,
+      outstanding,
+      attributionFactor,
+      scope12: attributionFactor * (emissions.scope1 + emissions.scope2),
+      scope3: emissions.scope3 === null ? null : attributionFactor * emissions.scope3,
+      intensity: revenue === null ? null : (emissions.scope1 + emissions.scope2) / (revenue / MILLION),
+      dataQualityScore: PCAF_DATA_QUALITY[emissions.dataSource],
+    });
+  });
+
+  const lenders: LenderFinancedEmissions[] = Array.from(byLender.entries())
+    .map(([lenderName, book]) => ({ lenderName, lines: book.lines, ...getFootprint(book.lines, book.outstanding) }))
+    .sort((a, b) => a.lenderName.localeCompare(b.lenderName));
+
+  return {
+    asOf,
+    reportingCurrency,
+    lenders,
+    portfolio: getFootprint(
+      lenders.flatMap(lender => lender.lines),
+      lenders.reduce((sum, lender) => sum + lender.outstanding, 0)
+    ),
+  };
+}
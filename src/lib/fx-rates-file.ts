@@ -0,0 +1,45 @@
+/**
+ * File-backed FX Rates
+ * Reads dated rate tables from a local CSV file; server-side only
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CodedError, ErrorCode } from '@/lib/enterprise-errors';
+import { FxRate, FxRateProvider, parseFxRatesCsv } from '@/lib/fx-rates';
+
+export class FileFxRateProvider implements FxRateProvider {
+  private loaded: Promise<FxRate[]> | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  // The file is read once; a missing file means no rates rather than an error
+  public getRates(): Promise<FxRate[]> {
+    if (!this.loaded) {
+      this.loaded = fs.readFile(this.filePath, 'utf8').then(
+        contents => parseFxRatesCsv(contents),
+        (error: NodeJS.ErrnoException) => {
+          if (error.code === 'ENOENT') return [];
+          throw new CodedError(ErrorCode.STORAGE_ERROR, `Failed to read FX rates: ${error.message}`);
+        }
+      );
+      this.loaded.catch(() => {
+        this.loaded = null;
+      });
+    }
+    return this.loaded;
+  }
+}
+
+let fxRateProvider: FileFxRateProvider | null = null;
+
+/**
+ * Shared provider; the rate file can be overridden with FX_RATES_PATH
+ */
+export function getFxRateProvider(): FileFxRateProvider {
+  if (!fxRateProvider) {
+    const filePath = process.env.FX_RATES_PATH || path.join(process.cwd(), 'sample-documents', 'fx-rates.csv');
+    fxRateProvider = new FileFxRateProvider(filePath);
+  }
+  return fxRateProvider;
+}
@@ -0,0 +1,100 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for FX rate parsing, dated conversion and the file provider
+ */
+
+import { join } from 'path';
+import { CodedError } from './enterprise-errors';
+import { CsvFxRateProvider, FxRateTable, formatCurrencyAmount, parseFxRatesCsv } from './fx-rates';
+import { FileFxRateProvider } from './fx-rates-file';
+
+const CSV = [
+  'date,base,currency,rate',
+  '2026-01-02,USD,EUR,0.9',
+  '2026-01-02,USD,GBP,0.8',
+  '2026-07-01,USD,EUR,0.8',
+].join('\n');
+
+describe('parseFxRatesCsv', () => {
+  it('reads rates and skips comments and blank lines', () => {
+    const rates = parseFxRatesCsv(`# rates\n\n${CSV}\n`);
+
+    expect(rates).toHaveLength(3);
+    expect(rates[0]).toEqual({ date: '2026-01-02', base: 'USD', currency: 'EUR', rate: 0.9 });
+  });
+
+  it('names the line of a malformed rate', () => {
+    const parse = (csv: string) => () => parseFxRatesCsv(csv);
+
+    expect(parse('date,currency,rate\n')).toThrow('FX rates must have the columns date, base, currency, rate');
+    expect(parse(`${CSV}\n2026-08-01,USD,EURO,0.85`)).toThrow('Line 5: date and three-letter base and currency codes are required');
+    expect(parse(`${CSV}\n2026-08-01,USD,EUR,0`)).toThrow('Line 5: rate must be positive');
+  });
+});
+
+describe('FxRateTable', () => {
+  const table = FxRateTable.fromCsv(CSV);
+
+  it('converts on the latest rates published on or before the date', () => {
+    expect(table.convert(90, 'EUR', 'USD', '2026-06-30')).toBeCloseTo(100);
+    expect(table.convert(80, 'EUR', 'USD', '2026-07-01')).toBeCloseTo(100);
+    expect(table.convert(100, 'USD', 'EUR')).toBeCloseTo(80);
+    // Before the table starts the earliest rates apply
+    expect(table.convert(90, 'EUR', 'USD', '2025-12-31')).toBeCloseTo(100);
+  });
+
+  it('crosses currencies through the base', () => {
+    expect(table.getRate('EUR', 'GBP', '2026-03-01')).toBeCloseTo(0.8 / 0.9);
+    expect(table.getRate('GBP', 'GBP')).toBe(1);
+  });
+
+  it('reports currencies it has no rate for', () => {
+    expect(table.tryConvert(100, 'JPY', 'USD')).toBeNull();
+    expect(() => table.convert(100, 'JPY', 'USD')).toThrow(CodedError);
+    expect(() => table.convert(100, 'JPY', 'USD')).toThrow('No FX rate for JPY');
+  });
+
+  it('rejects rates quoted against different bases', () => {
+    expect(() => FxRateTable.fromCsv(`${CSV}\n2026-07-01,EUR,GBP,0.87`)).toThrow('FX rates must all be quoted against USD, found EUR');
+  });
+
+  it('round trips an amount through any pair', async () => {
+    const rates = await new CsvFxRateProvider(CSV).getRates();
+    const pairs = new FxRateTable(rates);
+
+    ['USD', 'EUR', 'GBP'].forEach(from => {
+      ['USD', 'EUR', 'GBP'].forEach(to => {
+        expect(pairs.convert(pairs.convert(1000, from, to, '2026-09-30'), to, from, '2026-09-30')).toBeCloseTo(1000);
+      });
+    });
+  });
+});
+
+describe('formatCurrencyAmount', () => {
+  it('formats known and unknown currency codes', () => {
+    expect(formatCurrencyAmount(30000000, 'USD')).toBe('$30,000,000');
+    expect(formatCurrencyAmount(1234.5, 'EUR', 2)).toBe('€1,234.50');
+    expect(formatCurrencyAmount(1000, 'ZZZ')).toMatch(/1,000$/);
+  });
+});
+
+describe('FileFxRateProvider', () => {
+  it('reads the sample rate file', async () => {
+    const provider = new FileFxRateProvider(join(process.cwd(), 'sample-documents', 'fx-rates.csv'));
+    const table = new FxRateTable(await provider.getRates());
+
+    expect(table.base).toBe('USD');
+    ['EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD', 'SEK', 'NOK', 'DKK'].forEach(currency => {
+      expect(table.hasRate(currency)).toBe(true);
+    });
+  });
+
+  it('has no rates when the file does not exist', async () => {
+    const provider = new FileFxRateProvider(join(process.cwd(), 'does-not-exist.csv'));
+
+    expect(await provider.getRates()).toEqual([]);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * FX Rates
+ * Provider contract for dated exchange rate tables, conversion between currencies
+ * through the table's base currency, and currency formatting
+ */
+
+import { CodedError, ErrorCode } from '@/lib/enterprise-errors';
+import { defaultEnterpriseConfig } from '@/config/enterprise-config';
+
+export interface FxRate {
+  // ISO yyyy-mm-dd
+  date: string;
+  base: string;
+  currency: string;
+  // Units of `currency` per one unit of `base`
+  rate: number;
+}
+
+export interface FxRateProvider {
+  getRates(): Promise<FxRate[]>;
+}
+
+// Currency every figure is also shown in, from `currencies.primary`
+export const REPORTING_CURRENCY = defaultEnterpriseConfig.currencies.primary;
+
+const CSV_COLUMNS = ['date', 'base', 'currency', 'rate'] as const;
+
+/**
+ * Parse rates from CSV with a `date,base,currency,rate` header row.
+ * Throws CodedError naming the first malformed line.
+ */
+export function parseFxRatesCsv(csv: string): FxRate[] {
+  const lines = csv.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0 && !line.startsWith('#'));
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(',').map(column => column.trim().toLowerCase());
+  const indexes = CSV_COLUMNS.map(column => header.indexOf(column));
+  if (indexes.some(index => index === -1)) {
+    throw new CodedError(ErrorCode.PARSING_ERROR, `FX rates must have the columns ${CSV_COLUMNS.join(', ')}`);
+  }
+  const [dateIndex, baseIndex, currencyIndex, rateIndex] = indexes;
+
+  return lines.slice(1).map((line, row) => {
+    const cells = line.split(',').map(cell => cell.trim());
+    const rate: FxRate = {
+      date: cells[dateIndex] ?? '',
+      base: (cells[baseIndex] ?? '').toUpperCase(),
+      currency: (cells[currencyIndex] ?? '').toUpperCase(),
+      rate: Number(cells[rateIndex]),
+    };
+
+    const lineNumber = row + 2;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(rate.date) || !/^[A-Z]{3}$/.test(rate.base) || !/^[A-Z]{3}$/.test(rate.currency)) {
+      throw new CodedError(ErrorCode.PARSING_ERROR, `Line ${lineNumber}: date and three-letter base and currency codes are required`);
+    }
+    if (!Number.isFinite(rate.rate) || rate.rate <= 0) {
+      throw new CodedError(ErrorCode.PARSING_ERROR, `Line ${lineNumber}: rate must be positive`);
+    }
+    return rate;
+  });
+}
+
+/**
+ * Rates against a single base currency. Cross rates go through the base, and a
+ * conversion on a date uses the latest rates published on or before it, or the
+ * earliest rates for dates before the table starts.
+ */
+export class FxRateTable {
+  public readonly base: string;
+  private readonly history = new Map<string, FxRate[]>();
+
+  constructor(rates: FxRate[], base: string = rates[0]?.base ?? REPORTING_CURRENCY) {
+    this.base = base;
+    rates.forEach(rate => {
+      if (rate.base !== base) {
+        throw new CodedError(ErrorCode.VALIDATION_ERROR, `FX rates must all be quoted against ${base}, found ${rate.base}`);
+      }
+      this.history.set(rate.currency, [...(this.history.get(rate.currency) ?? []), rate]);
+    });
+    this.history.forEach(history => history.sort((a, b) => a.date.localeCompare(b.date)));
+  }
+
+  public static fromCsv(csv: string): FxRateTable {
+    return new FxRateTable(parseFxRatesCsv(csv));
+  }
+
+  public hasRate(currency: string): boolean {
+    return currency === this.base || this.history.has(currency);
+  }
+
+  // Units of `currency` per one unit of the base currency
+  private getBaseRate(currency: string, date?: string): number {
+    if (currency === this.base) return 1;
+    const history = this.history.get(currency);
+    if (!history) {
+      throw new CodedError(ErrorCode.VALIDATION_ERROR, `No FX rate for ${currency}`);
+    }
+    if (!date) return history[history.length - 1].rate;
+
+    let selected = history[0];
+    for (const rate of history) {
+      if (rate.date <= date) selected = rate;
+    }
+    return selected.rate;
+  }
+
+  // Units of `to` per one unit of `from`
+  public getRate(from: string, to: string, date?: string): number {
+    if (from === to) return 1;
+    return this.getBaseRate(to, date) / this.getBaseRate(from, date);
+  }
+
+  public convert(amount: number, from: string, to: string, date?: string): number {
+    return amount * this.getRate(from, to, date);
+  }
+
+  // Null instead of an error when the currencies differ and either has no rate
+  public tryConvert(amount: number, from: string, to: string, date?: string): number | null {
+    return from === to || (this.hasRate(from) && this.hasRate(to)) ? this.convert(amount, from, to, date) : null;
+  }
+}
+
+/**
+ * Rates held in memory
+ */
+export class CsvFxRateProvider implements FxRateProvider {
+  private readonly rates: FxRate[];
+
+  constructor(csv: string) {
+    this.rates = parseFxRatesCsv(csv);
+  }
+
+  public async getRates(): Promise<FxRate[]> {
+    return this.rates;
+  }
+}
+
+export function formatCurrencyAmount(amount: number, currency: string, fractionDigits: number = 0): string {
+  const options = { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits };
+  try {
+    return new Intl.NumberFormat('en-US', { ...options, style: 'currency', currency }).format(amount);
+  } catch {
+    // Codes Intl does not know are shown in front of the plain number
+    return `${currency} ${new Intl.NumberFormat('en-US', options).format(amount)}`;
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for HTML loan agreement ingestion, using the sample HTML documents
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { analyzeLoan } from '@/actions/analyzeLoan';
+import { decodeHTMLEntities, extractTextFromHTML } from './html-extractor';
+import { processDocument, validateFile } from './document-processor';
+
+const readSample = (name: string) => readFileSync(join(process.cwd(), 'sample-documents', name), 'utf-8');
+
+describe('extractTextFromHTML', () => {
+  it('keeps headings, paragraphs and list structure', () => {
+    const html = `
+      <h1>Facility Agreement</h1>
+      <h2>1. Definitions</h2>
+      <p>"Margin" means <strong>2.50</strong> per cent.
+         per annum.</p>
+      <ol><li>first item</li><li>second <em>item</em></li></ol>
+      <ul><li>bullet</li></ul>
+      <p>Line one<br>Line two</p>`;
+
+    expect(extractTextFromHTML(html)).toBe([
+      'Facility Agreement',
+      '',
+      '1. Definitions',
+      '',
+      '"Margin" means 2.50 per cent. per annum.',
+      '',
+      '1. first item',
+      '2. second item',
+      '- bullet',
+      '',
+      'Line one',
+      'Line two',
+    ].join('\n'));
+  });
+
+  it('renders table rows with separated cells', () => {
+    const html = `<p>Schedule 1</p><table>
+      <thead><tr><th>Lender</th><th>Commitment</th></tr></thead>
+      <tbody><tr><td>Bank A</td><td>$50,000,000</td></tr>
+      <tr><td>Bank&nbsp;B &amp; Co</td><td>$30,000,000</td></tr></tbody>
+    </table><p>Total</p>`;
+
+    expect(extractTextFromHTML(html)).toBe(
+      'Schedule 1\n\nLender | Commitment\nBank A | $50,000,000\nBank B & Co | $30,000,000\n\nTotal'
+    );
+  });
+
+  it('drops head, scripts, styles and comments', () => {
+    const html = `<html><head><title>Ignored</title><style>p { color: red; }</style></head>
+      <body><!-- draft --><script>var margin = 9;</script><p>Borrower: Acme</p></body></html>`;
+
+    expect(extractTextFromHTML(html)).toBe('Borrower: Acme');
+  });
+
+  it('decodes named and numeric entities', () => {
+    expect(decodeHTMLEntities('&sect;7.1 &ldquo;Margin&rdquo; &#8211; &#x20AC;5m &unknown;')).toBe('§7.1 “Margin” – €5m &unknown;');
+  });
+
+  it('preserves the preformatted text of the sample agreements', () => {
+    ['corporate-loan-agreement', 'esg-loan-agreement'].forEach(name => {
+      const text = extractTextFromHTML(readSample(`${name}.html`));
+      const plain = readSample(`${name}.txt`).trim();
+
+      expect(text.startsWith(plain)).toBe(true);
+      expect(text).not.toMatch(/<[a-z/]/i);
+      expect(text).not.toContain('font-family');
+      expect(text).toContain('\n\nARTICLE I - CREDIT FACILITY\n\n');
+    });
+  });
+});
+
+describe('HTML document processing', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('accepts HTML uploads', () => {
+    expect(validateFile(new File(['<p>x</p>'], 'agreement.html')).isValid).toBe(true);
+    expect(validateFile(new File(['<p>x</p>'], 'agreement.htm')).isValid).toBe(true);
+  });
+
+  it('keeps line breaks for HTML only, leaving other uploads normalized as before', async () => {
+    const content = 'FACILITY AGREEMENT\r\n\r\n  Borrower:\tAcme Corporation\n';
+
+    expect((await processDocument(new File([content], 'agreement.txt'))).text)
+      .toBe('FACILITY AGREEMENT Borrower: Acme Corporation');
+    expect((await processDocument(new File(['<h1>FACILITY AGREEMENT</h1><p>Borrower: Acme Corporation</p>'], 'agreement.html'))).text)
+      .toBe('FACILITY AGREEMENT\n\nBorrower: Acme Corporation');
+  });
+
+  it('feeds structured text from the sample HTML documents to analyzeLoan', async () => {
+    const expectations = [
+      { name: 'corporate-loan-agreement', borrower: /TECHCORP/i, facilityAmount: 500000000 },
+      { name: 'esg-loan-agreement', borrower: /GREEN ENERGY/i, facilityAmount: 300000000 },
+    ];
+
+    for (const expected of expectations) {
+      const processed = await processDocument(new File([readSample(`${expected.name}.html`)], `${expected.name}.html`));
+      expect(processed.metadata.fileType).toBe('.html');
+      expect(processed.text).toContain('ARTICLE IV - FINANCIAL COVENANTS\n');
+
+      const fromHtml = await analyzeLoan(processed.text);
+      const fromText = await analyzeLoan(readSample(`${expected.name}.txt`));
+
+      expect(fromHtml.success).toBe(true);
+      expect(fromHtml.data?.borrowerName).toMatch(expected.borrower);
+      expect(fromHtml.data?.facilityAmount).toBe(expected.facilityAmount);
+      expect(fromHtml.data).toMatchObject({
+        currency: fromText.data?.currency,
+        interestRateMargin: fromText.data?.interestRateMargin,
+        leverageCovenant: fromText.data?.leverageCovenant,
+      });
+    }
+  });
+});
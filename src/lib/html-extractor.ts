@@ -0,0 +1,218 @@
+/**
+ * HTML Text Extraction
+ * Strips markup from HTML loan agreements while keeping the document structure:
+ * headings and paragraphs become separate blocks, list items keep their markers,
+ * table rows become lines with cells separated by " | " and <pre> text is kept verbatim.
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', hellip: '…', sect: '§', para: '¶',
+  copy: '©', reg: '®', trade: '™', euro: '€', pound: '£', yen: '¥', cent: '¢', bull: '•',
+  middot: '·', times: '×', deg: '°', frac12: '½', frac14: '¼', frac34: '¾',
+};
+
+// Elements whose content is never document text
+const IGNORED_ELEMENTS = new Set(['head', 'script', 'style', 'noscript', 'template', 'svg', 'iframe', 'object']);
+
+const HEADING_ELEMENTS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+const BLOCK_ELEMENTS = new Set([
+  'p', 'div', 'section', 'article', 'header', 'footer', 'main', 'aside', 'nav', 'blockquote',
+  'address', 'figure', 'figcaption', 'dl', 'dt', 'dd', 'hr', 'caption', 'table', 'ul', 'ol', 'body', 'html',
+]);
+
+export function decodeHTMLEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z][a-zA-Z0-9]*);/g, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+    }
+    return NAMED_ENTITIES[entity] ?? NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+interface ListContext {
+  ordered: boolean;
+  counter: number;
+}
+
+class StructuredTextBuilder {
+  private output = '';
+  private preDepth = 0;
+  private lists: ListContext[] = [];
+  private rowCells: string[] | null = null;
+  private cellText: string | null = null;
+
+  public get inPre(): boolean {
+    return this.preDepth > 0;
+  }
+
+  public text(raw: string): void {
+    const decoded = decodeHTMLEntities(raw);
+    if (this.cellText !== null) {
+      this.cellText += decoded.replace(/\s+/g, ' ');
+      return;
+    }
+    if (this.inPre) {
+      this.output += decoded;
+      return;
+    }
+
+    const collapsed = decoded.replace(/\s+/g, ' ');
+    // No leading spaces at the start of a line
+    this.output += this.atLineStart() ? collapsed.replace(/^ /, '') : collapsed;
+  }
+
+  public lineBreak(): void {
+    if (this.cellText !== null) {
+      this.cellText += ' ';
+      return;
+    }
+    this.output = this.output.replace(/ +$/, '');
+    if (this.output.length > 0 && !this.output.endsWith('\n')) this.output += '\n';
+  }
+
+  public blankLine(): void {
+    if (this.cellText !== null) {
+      this.cellText += ' ';
+      return;
+    }
+    this.lineBreak();
+    if (this.output.length > 0 && !this.output.endsWith('\n\n')) this.output += '\n';
+  }
+
+  public hardBreak(): void {
+    if (this.cellText !== null) {
+      this.cellText += ' ';
+    } else {
+      this.output = this.output.replace(/ +$/, '') + '\n';
+    }
+  }
+
+  public openPre(): void {
+    this.blankLine();
+    this.preDepth++;
+  }
+
+  public closePre(): void {
+    this.preDepth = Math.max(0, this.preDepth - 1);
+    this.blankLine();
+  }
+
+  public openList(ordered: boolean): void {
+    this.lineBreak();
+    this.lists.push({ ordered, counter: 0 });
+  }
+
+  public closeList(): void {
+    this.lists.pop();
+    this.lineBreak();
+  }
+
+  public listItem(): void {
+    this.lineBreak();
+    const list = this.lists[this.lists.length - 1];
+    const indent = '  '.repeat(Math.max(0, this.lists.length - 1));
+    if (!list) {
+      this.output += '- ';
+    } else {
+      list.counter++;
+      this.output += indent + (list.ordered ? `${list.counter}. ` : '- ');
+    }
+  }
+
+  public openRow(): void {
+    this.closeRow();
+    this.rowCells = [];
+  }
+
+  public closeRow(): void {
+    this.closeCell();
+    if (this.rowCells && this.rowCells.some(cell => cell.length > 0)) {
+      this.lineBreak();
+      this.output += this.rowCells.join(' | ') + '\n';
+    }
+    this.rowCells = null;
+  }
+
+  public openCell(): void {
+    this.closeCell();
+    if (!this.rowCells) this.rowCells = [];
+    this.cellText = '';
+  }
+
+  public closeCell(): void {
+    if (this.cellText !== null && this.rowCells) {
+      this.rowCells.push(this.cellText.trim());
+    }
+    this.cellText = null;
+  }
+
+  public toString(): string {
+    this.closeRow();
+    return this.output
+      .split('\n')
+      .map(line => line.replace(/[ \t]+$/, ''))
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  private atLineStart(): boolean {
+    return this.output.length === 0 || this.output.endsWith('\n');
+  }
+}
+
+/**
+ * Convert an HTML document into plain text that keeps headings, sections and tables
+ */
+export function extractTextFromHTML(html: string): string {
+  const builder = new StructuredTextBuilder();
+  const tokenPattern = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\?[^>]*>|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)\b[^>]*?(\/?)>|([^<]+)|</g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(html)) !== null) {
+    const [token, closing, rawName, , text] = match;
+
+    if (text !== undefined || token === '<') {
+      builder.text(text ?? token);
+      continue;
+    }
+    if (!rawName) continue;
+
+    const name = rawName.toLowerCase();
+
+    if (!closing && IGNORED_ELEMENTS.has(name)) {
+      // Skip everything up to the matching close tag
+      const closePattern = new RegExp(`</${name}\\s*>`, 'gi');
+      closePattern.lastIndex = tokenPattern.lastIndex;
+      const closeMatch = closePattern.exec(html);
+      tokenPattern.lastIndex = closeMatch ? closeMatch.index + closeMatch[0].length : html.length;
+      continue;
+    }
+
+    if (HEADING_ELEMENTS.has(name)) {
+      builder.blankLine();
+    } else if (name === 'pre') {
+      if (closing) builder.closePre(); else builder.openPre();
+    } else if (name === 'br') {
+      builder.hardBreak();
+    } else if (name === 'ul' || name === 'ol') {
+      if (closing) builder.closeList(); else builder.openList(name === 'ol');
+    } else if (name === 'li') {
+      if (!closing) builder.listItem();
+    } else if (name === 'tr') {
+      if (closing) builder.closeRow(); else builder.openRow();
+    } else if (name === 'td' || name === 'th') {
+      if (closing) builder.closeCell(); else builder.openCell();
+    } else if (name === 'table') {
+      builder.closeRow();
+      builder.blankLine();
+    } else if (BLOCK_ELEMENTS.has(name)) {
+      if (name === 'p' || name === 'blockquote') builder.blankLine(); else builder.lineBreak();
+    }
+  }
+
+  return builder.toString();
+}
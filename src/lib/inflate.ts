@@ -0,0 +1,232 @@
+/**
+ * DEFLATE Decompression (RFC 1950/1951)
+ * Dependency-free inflate that runs the same in the browser, Node.js and tests.
+ * Used for FlateDecode PDF streams and deflated ZIP entries.
+ */
+
+interface HuffmanTable {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+// Decompression bomb guards. Output may not pass the absolute limit, nor expand
+// the input by more than the ratio once past the floor.
+export const MAX_INFLATED_BYTES = 50 * 1024 * 1024;
+export const MAX_COMPRESSION_RATIO = 200;
+const RATIO_FLOOR_BYTES = 1024 * 1024;
+
+const getOutputLimit = (inputLength: number, maxOutputBytes: number): number =>
+  Math.min(maxOutputBytes, MAX_INFLATED_BYTES, Math.max(RATIO_FLOOR_BYTES, inputLength * MAX_COMPRESSION_RATIO));
+
+function buildTable(lengths: ArrayLike<number>, offset: number, count: number): HuffmanTable {
+  const counts = new Uint16Array(16);
+  const symbols = new Uint16Array(count);
+  const offsets = new Uint16Array(16);
+
+  for (let i = 0; i < count; i++) counts[lengths[offset + i]]++;
+  counts[0] = 0;
+  for (let i = 1; i < 16; i++) offsets[i] = offsets[i - 1] + counts[i - 1];
+  for (let i = 0; i < count; i++) {
+    const length = lengths[offset + i];
+    if (length) symbols[offsets[length]++] = i;
+  }
+
+  return { counts, symbols };
+}
+
+const FIXED_LITERAL_TABLE = (() => {
+  const lengths = new Uint8Array(288);
+  lengths.fill(8, 0, 144);
+  lengths.fill(9, 144, 256);
+  lengths.fill(7, 256, 280);
+  lengths.fill(8, 280, 288);
+  return buildTable(lengths, 0, 288);
+})();
+
+const FIXED_DISTANCE_TABLE = buildTable(new Uint8Array(30).fill(5), 0, 30);
+
+class InflateState {
+  private position = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+  private output: Uint8Array;
+  private length = 0;
+
+  constructor(private readonly input: Uint8Array, start: number, private readonly limit: number) {
+    this.position = start;
+    this.output = new Uint8Array(Math.min(limit, Math.max(1024, input.length * 4)));
+  }
+
+  public run(): Uint8Array {
+    let finalBlock = false;
+    while (!finalBlock) {
+      finalBlock = this.readBits(1) === 1;
+      const blockType = this.readBits(2);
+
+      if (blockType === 0) {
+        this.copyStoredBlock();
+      } else if (blockType === 1) {
+        this.inflateBlock(FIXED_LITERAL_TABLE, FIXED_DISTANCE_TABLE);
+      } else if (blockType === 2) {
+        const { literals, distances } = this.readDynamicTables();
+        this.inflateBlock(literals, distances);
+      } else {
+        throw new Error('Invalid deflate block type');
+      }
+    }
+    return this.output.subarray(0, this.length);
+  }
+
+  private readBits(count: number): number {
+    while (this.bitCount < count) {
+      if (this.position >= this.input.length) {
+        throw new Error('Unexpected end of deflate data');
+      }
+      this.bitBuffer |= this.input[this.position++] << this.bitCount;
+      this.bitCount += 8;
+    }
+    const value = this.bitBuffer & ((1 << count) - 1);
+    this.bitBuffer >>>= count;
+    this.bitCount -= count;
+    return value;
+  }
+
+  private decodeSymbol(table: HuffmanTable): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let length = 1; length < 16; length++) {
+      code |= this.readBits(1);
+      const count = table.counts[length];
+      if (code - count < first) {
+        return table.symbols[index + (code - first)];
+      }
+      index += count;
+      first += count;
+      first <<= 1;
+      code <<= 1;
+    }
+    throw new Error('Invalid Huffman code in deflate data');
+  }
+
+  private ensureCapacity(extra: number): void {
+    if (this.length + extra <= this.output.length) return;
+    if (this.length + extra > this.limit) {
+      throw new Error(`Inflated data exceeds the ${this.limit} byte limit`);
+    }
+    const grown = new Uint8Array(Math.min(this.limit, Math.max(this.output.length * 2, this.length + extra)));
+    grown.set(this.output.subarray(0, this.length));
+    this.output = grown;
+  }
+
+  private copyStoredBlock(): void {
+    // Stored blocks start on a byte boundary
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+    if (this.position + 4 > this.input.length) {
+      throw new Error('Unexpected end of deflate data');
+    }
+    const size = this.input[this.position] | (this.input[this.position + 1] << 8);
+    this.position += 4;
+    if (this.position + size > this.input.length) {
+      throw new Error('Unexpected end of deflate data');
+    }
+    this.ensureCapacity(size);
+    this.output.set(this.input.subarray(this.position, this.position + size), this.length);
+    this.length += size;
+    this.position += size;
+  }
+
+  private readDynamicTables(): { literals: HuffmanTable; distances: HuffmanTable } {
+    const literalCount = this.readBits(5) + 257;
+    const distanceCount = this.readBits(5) + 1;
+    const codeLengthCount = this.readBits(4) + 4;
+
+    const codeLengths = new Uint8Array(19);
+    for (let i = 0; i < codeLengthCount; i++) {
+      codeLengths[CODE_LENGTH_ORDER[i]] = this.readBits(3);
+    }
+    const codeLengthTable = buildTable(codeLengths, 0, 19);
+
+    const lengths = new Uint8Array(literalCount + distanceCount);
+    let index = 0;
+    while (index < literalCount + distanceCount) {
+      const symbol = this.decodeSymbol(codeLengthTable);
+      if (symbol < 16) {
+        lengths[index++] = symbol;
+      } else {
+        let repeat = 0;
+        let value = 0;
+        if (symbol === 16) {
+          if (index === 0) throw new Error('Invalid deflate code lengths');
+          value = lengths[index - 1];
+          repeat = 3 + this.readBits(2);
+        } else if (symbol === 17) {
+          repeat = 3 + this.readBits(3);
+        } else {
+          repeat = 11 + this.readBits(7);
+        }
+        if (index + repeat > lengths.length) throw new Error('Invalid deflate code lengths');
+        lengths.fill(value, index, index + repeat);
+        index += repeat;
+      }
+    }
+
+    return {
+      literals: buildTable(lengths, 0, literalCount),
+      distances: buildTable(lengths, literalCount, distanceCount),
+    };
+  }
+
+  private inflateBlock(literals: HuffmanTable, distances: HuffmanTable): void {
+    for (;;) {
+      const symbol = this.decodeSymbol(literals);
+      if (symbol === 256) return;
+
+      if (symbol < 256) {
+        this.ensureCapacity(1);
+        this.output[this.length++] = symbol;
+        continue;
+      }
+
+      const lengthIndex = symbol - 257;
+      if (lengthIndex >= LENGTH_BASE.length) throw new Error('Invalid deflate length code');
+      const length = LENGTH_BASE[lengthIndex] + this.readBits(LENGTH_EXTRA[lengthIndex]);
+
+      const distanceIndex = this.decodeSymbol(distances);
+      if (distanceIndex >= DISTANCE_BASE.length) throw new Error('Invalid deflate distance code');
+      const distance = DISTANCE_BASE[distanceIndex] + this.readBits(DISTANCE_EXTRA[distanceIndex]);
+      if (distance > this.length) throw new Error('Invalid deflate distance');
+
+      this.ensureCapacity(length);
+      // Byte-by-byte copy, as the source may overlap the bytes being written
+      for (let i = 0; i < length; i++) {
+        this.output[this.length] = this.output[this.length - distance];
+        this.length++;
+      }
+    }
+  }
+}
+
+/**
+ * Inflate raw DEFLATE data (no zlib header), as stored in ZIP entries. Throws
+ * once the output passes `maxOutputBytes` or the bomb guards.
+ */
+export function inflateRaw(data: Uint8Array, maxOutputBytes: number = MAX_INFLATED_BYTES): Uint8Array {
+  return new InflateState(data, 0, getOutputLimit(data.length, maxOutputBytes)).run();
+}
+
+/**
+ * Inflate zlib-wrapped data, as produced by PDF FlateDecode filters.
+ * Falls back to raw DEFLATE when the zlib header is missing.
+ */
+export function inflate(data: Uint8Array, maxOutputBytes: number = MAX_INFLATED_BYTES): Uint8Array {
+  const hasZlibHeader = data.length > 2 && (data[0] & 0x0f) === 8 && ((data[0] << 8) | data[1]) % 31 === 0;
+  return new InflateState(data, hasZlibHeader ? 2 : 0, getOutputLimit(data.length, maxOutputBytes)).run();
+}
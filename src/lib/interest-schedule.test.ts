@@ -0,0 +1,209 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for reference rate fixings, the interest engine and loan interest accruals
+ */
+
+import { join } from 'path';
+import * as fc from 'fast-check';
+import { LoanData } from '@/types';
+import { ReferenceRateCurve, getReferenceRateConvention, parseReferenceRatesCsv } from './reference-rates';
+import { FileReferenceRateProvider } from './reference-rates-file';
+import {
+  InterestTerms,
+  buildInterestPeriods,
+  buildInterestSchedules,
+  getAccruedInterest,
+  getLoanInterestSummary,
+  getPeriodReferenceRate
+} from './interest-schedule';
+import { getPricingTerms } from './trade-pricing';
+
+const curve = ReferenceRateCurve.fromCsv([
+  'date,index,rate',
+  '2026-01-02,EURIBOR,2.0',
+  '2026-04-01,EURIBOR,2.5',
+  '2026-01-01,SOFR,4.0',
+  '2026-01-31,SOFR,5.0',
+  '2026-01-01,SONIA,4.5',
+].join('\n'));
+
+const loan = (overrides: Partial<LoanData>): LoanData => ({
+  borrowerName: 'Globex SE',
+  facilityAmount: 100000000,
+  currency: 'EUR',
+  interestRateMargin: 3,
+  leverageCovenant: 4,
+  esgTarget: '',
+  signingDate: '2026-01-15',
+  terminationDate: '2027-01-15',
+  ...overrides,
+});
+
+const sofr: InterestTerms = { index: 'SOFR', mode: 'compounded_in_arrears', dayCount: 'ACT/360', margin: 2, floor: 0, periodMonths: 3 };
+
+describe('parseReferenceRatesCsv', () => {
+  it('reads fixings, including negative rates', () => {
+    expect(parseReferenceRatesCsv('# fixings\ndate,index,rate\n2021-06-01,euribor,-0.54\n')).toEqual([
+      { date: '2021-06-01', index: 'EURIBOR', rate: -0.54 },
+    ]);
+  });
+
+  it('names the line of a malformed fixing', () => {
+    expect(() => parseReferenceRatesCsv('date,rate\n')).toThrow('Reference rates must have the columns date, index, rate');
+    expect(() => parseReferenceRatesCsv('date,index,rate\n2026-01-02,SOFR,\n')).toThrow('Line 2: rate must be a number');
+  });
+});
+
+describe('getPeriodReferenceRate', () => {
+  it('uses the fixing on the first day of a term period', () => {
+    const terms = { ...sofr, index: 'EURIBOR', mode: 'term' as const };
+
+    expect(getPeriodReferenceRate(curve, terms, '2026-03-31', '2026-06-30')).toEqual({ rate: 2, projected: false });
+    expect(getPeriodReferenceRate(curve, terms, '2026-04-15', '2026-07-15')).toEqual({ rate: 2.5, projected: true });
+  });
+
+  it('compounds overnight fixings daily in arrears', () => {
+    const flat = getPeriodReferenceRate(curve, sofr, '2026-01-01', '2026-01-31');
+    expect(flat.rate).toBeCloseTo(((1 + 0.04 / 360) ** 30 - 1) * (360 / 30) * 100, 10);
+
+    // 30 days at 4% then 30 days at 5%
+    const stepped = getPeriodReferenceRate(curve, sofr, '2026-01-01', '2026-03-02');
+    expect(stepped.rate).toBeCloseTo(((1 + 0.04 / 360) ** 30 * (1 + 0.05 / 360) ** 30 - 1) * (360 / 60) * 100, 10);
+  });
+
+  it('applies the floor to each daily fixing before compounding', () => {
+    const negative = ReferenceRateCurve.fromCsv('date,index,rate\n2026-01-01,SOFR,-0.25');
+
+    expect(getPeriodReferenceRate(negative, sofr, '2026-01-01', '2026-04-01').rate).toBe(0);
+    expect(getPeriodReferenceRate(curve, { ...sofr, floor: 6 }, '2026-01-01', '2026-04-01').rate).toBeCloseTo(
+      ((1 + 0.06 / 360) ** 90 - 1) * (360 / 90) * 100,
+      10
+    );
+
+    // 30 days at -1% floored to zero, then 30 days at 2%, rather than flooring the compounded 0.5%
+    const crossing = ReferenceRateCurve.fromCsv('date,index,rate\n2026-01-01,SOFR,-1\n2026-01-31,SOFR,2');
+    expect(getPeriodReferenceRate(crossing, sofr, '2026-01-01', '2026-03-02').rate).toBeCloseTo(
+      ((1 + 0.02 / 360) ** 30 - 1) * (360 / 60) * 100,
+      10
+    );
+  });
+
+  it('falls back to the configured rate for an index with no fixings', () => {
+    expect(getPeriodReferenceRate(new ReferenceRateCurve([]), sofr, '2026-01-01', '2026-04-01')).toEqual({ rate: 4.3, projected: true });
+  });
+
+  it('never compounds below the lowest fixing or above the highest', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 120 }), days => {
+        const end = new Date(Date.UTC(2026, 0, 1 + days)).toISOString().substring(0, 10);
+        const { rate } = getPeriodReferenceRate(curve, sofr, '2026-01-01', end);
+
+        expect(rate).toBeGreaterThanOrEqual(4);
+        expect(rate).toBeLessThan(5.01);
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
+
+describe('buildInterestPeriods', () => {
+  it('shortens the last period to maturity', () => {
+    expect(buildInterestPeriods('2026-01-31', '2026-06-15', 3)).toEqual([
+      { start: '2026-01-31', end: '2026-04-30' },
+      { start: '2026-04-30', end: '2026-06-15' },
+    ]);
+  });
+});
+
+describe('buildInterestSchedules', () => {
+  it('accrues each period on the principal at its start', () => {
+    const [facility] = buildInterestSchedules(
+      loan({ repaymentSchedule: { type: 'amortising', instalments: [{ date: '2026-04-15', amount: 20000000 }, { date: '2027-01-15', amount: 80000000 }] } }),
+      curve,
+      '2026-02-14'
+    );
+
+    expect(facility.terms).toEqual(expect.objectContaining({ index: 'EURIBOR', mode: 'term', dayCount: 'ACT/360' }));
+    expect(facility.periods).toHaveLength(4);
+    expect(facility.periods[0]).toEqual({
+      start: '2026-01-15',
+      end: '2026-04-15',
+      days: 90,
+      principal: 100000000,
+      referenceRate: 2,
+      margin: 3,
+      allInRate: 5,
+      interest: 1250000,
+      projected: false,
+    });
+    expect(facility.periods[1]).toEqual(expect.objectContaining({ principal: 80000000, allInRate: 5.5, interest: 1112222.22 }));
+  });
+
+  it('follows the conventions of each tranche currency and leaves revolvers undrawn', () => {
+    const schedules = buildInterestSchedules(
+      loan({
+        tranches: [
+          { id: 't1', name: 'Facility B', facilityType: 'term_loan', amount: 60000000, currency: 'GBP', interestRateMargin: 3.5, tenorMonths: 12 },
+          { id: 't2', name: 'Revolver', facilityType: 'revolving_credit', amount: 40000000, currency: 'EUR', interestRateMargin: 2.5, tenorMonths: 12 },
+        ],
+      }),
+      curve,
+      '2026-02-14'
+    );
+
+    expect(schedules.map(schedule => [schedule.name, schedule.terms.index, schedule.terms.dayCount])).toEqual([
+      ['Facility B', 'SONIA', 'ACT/365'],
+      ['Revolver', 'EURIBOR', 'ACT/360'],
+    ]);
+    expect(schedules[0].periods[0].interest).toBeCloseTo(60000000 * (schedules[0].periods[0].allInRate / 100) * (90 / 365), 2);
+    expect(schedules[1].periods.every(period => period.interest === 0)).toBe(true);
+  });
+});
+
+describe('loan interest', () => {
+  it('accrues from the start of the current period', () => {
+    const [facility] = buildInterestSchedules(loan({}), curve, '2026-02-14');
+
+    // 30 days at 5% on 100M
+    expect(getAccruedInterest(facility, curve, '2026-02-14')).toBe(416666.67);
+    expect(getAccruedInterest(facility, curve, '2028-01-01')).toBe(0);
+  });
+
+  it('summarises the current rate and annual interest', () => {
+    expect(getLoanInterestSummary(loan({}), curve, '2026-02-14')).toEqual({
+      principal: 100000000,
+      allInRate: 5,
+      annualInterest: 5069444.44,
+      accruedInterest: 416666.67,
+    });
+  });
+
+  it('prices trades off the curve on the loan day count', () => {
+    const terms = getPricingTerms(loan({ currency: 'GBP' }), curve, '2026-02-14');
+
+    expect(terms.dayCount).toBe('ACT/365');
+    expect(terms.referenceRate).toBeGreaterThan(4.5);
+    expect(getPricingTerms(loan({})).referenceRate).toBe(4.3);
+    expect(getReferenceRateConvention('XYZ').index).toBe('SOFR');
+  });
+});
+
+describe('FileReferenceRateProvider', () => {
+  it('reads the sample fixings file', async () => {
+    const provider = new FileReferenceRateProvider(join(process.cwd(), 'sample-documents', 'reference-rates.csv'));
+    const sample = new ReferenceRateCurve(await provider.getFixings());
+
+    ['SOFR', 'SONIA', 'EURIBOR', 'TONA', 'SARON', 'CORRA', 'BBSW', 'STIBOR', 'NIBOR', 'CIBOR'].forEach(index => {
+      expect(sample.hasIndex(index)).toBe(true);
+    });
+  });
+
+  it('has no fixings when the file does not exist', async () => {
+    const provider = new FileReferenceRateProvider(join(process.cwd(), 'does-not-exist.csv'));
+
+    expect(await provider.getFixings()).toEqual([]);
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Interest Schedule
+ * Interest periods, reference rates and interest for each facility of a loan, with
+ * rates compounded in arrears or fixed at term, floors and day-count conventions
+ */
+
+import { LoanData, Tranche, getTotalFacilityAmount } from '@/types';
+import { defaultEnterpriseConfig } from '@/config/enterprise-config';
+import { addMonths, getOutstandingBalanceAt } from '@/lib/repayment-schedule';
+import { getDrawnBalanceAt } from '@/lib/revolving-facility';
+import { getMarginAt } from '@/lib/sustainability-kpis';
+import {
+  DAY_COUNT_BASIS,
+  DayCountConvention,
+  RateMode,
+  ReferenceRateCurve,
+  getReferenceRateConvention
+} from '@/lib/reference-rates';
+
+export interface InterestTerms {
+  index: string;
+  mode: RateMode;
+  dayCount: DayCountConvention;
+  // Percent per annum
+  margin: number;
+  floor: number;
+  periodMonths: number;
+}
+
+export interface PeriodReferenceRate {
+  // Percent per annum, after the floor
+  rate: number;
+  // True when part of the period is past the last published fixing, or the index has none
+  projected: boolean;
+}
+
+export interface InterestPeriodAccrual {
+  start: string;
+  end: string;
+  days: number;
+  // Outstanding at the start of the period; the average drawn balance for revolvers
+  principal: number;
+  referenceRate: number;
+  // Margin in force at the start of the period, after any sustainability adjustment
+  margin: number;
+  allInRate: number;
+  interest: number;
+  projected: boolean;
+}
+
+export interface FacilityInterestSchedule {
+  facilityId: string;
+  name: string;
+  currency: string;
+  terms: InterestTerms;
+  periods: InterestPeriodAccrual[];
+}
+
+export interface LoanInterestSummary {
+  principal: number;
+  // Principal-weighted across facilities
+  allInRate: number;
+  // Interest on the current principal over the next 365 days at current rates
+  annualInterest: number;
+  // Interest accrued since the start of each facility's current period
+  accruedInterest: number;
+}
+
+const roundToCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+
+const addDays = (date: string, days: number): string =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().substring(0, 10);
+
+/**
+ * Rate terms of a facility: the index, mode and day count follow the currency's
+ * market convention, the floor comes from the loan or the configured default
+ */
+export function getInterestTerms(loan: LoanData, tranche?: Tranche): InterestTerms {
+  const { business } = defaultEnterpriseConfig;
+  return {
+    ...getReferenceRateConvention(tranche?.currency ?? loan.currency),
+    margin: tranche?.interestRateMargin ?? loan.interestRateMargin,
+    floor: loan.referenceRateFloor ?? business.referenceRateFloor,
+    periodMonths: business.interestPeriodMonths,
+  };
+}
+
+/**
+ * Reference rate for the days from `start` up to (not including) `end`. Term rates
+ * are the fixing on the first day; overnight rates are compounded daily over every
+ * calendar day, weekends carrying the previous fixing. The floor applies to each
+ * fixing before compounding, as in the LMA compounded RFR terms. Indexes with no
+ * fixings fall back to the configured reference rate.
+ */
+export function getPeriodReferenceRate(
+  curve: ReferenceRateCurve,
+  terms: InterestTerms,
+  start: string,
+  end: string
+): PeriodReferenceRate {
+  const lastFixing = curve.getLastFixingDate(terms.index);
+  const rateOn = (date: string) =>
+    Math.max(curve.getRate(terms.index, date) ?? defaultEnterpriseConfig.business.referenceRate, terms.floor);
+
+  if (lastFixing === null) {
+    return { rate: rateOn(start), projected: true };
+  }
+  if (terms.mode === 'term') {
+    return { rate: rateOn(start), projected: start > lastFixing };
+  }
+
+  const basis = DAY_COUNT_BASIS[terms.dayCount];
+  const days = daysBetween(start, end);
+  if (days <= 0) {
+    return { rate: rateOn(start), projected: start > lastFixing };
+  }
+
+  let factor = 1;
+  for (let day = start; day < end; day = addDays(day, 1)) {
+    factor *= 1 + rateOn(day) / 100 / basis;
+  }
+  const compounded = ((factor - 1) * basis / days) * 100;
+  return { rate: compounded, projected: addDays(end, -1) > lastFixing };
+}
+
+/**
+ * Interest periods of `periodMonths` from the start date, the last one ending at maturity
+ */
+export function buildInterestPeriods(start: string, maturity: string, periodMonths: number): Array<{ start: string; end: string }> {
+  const periods: Array<{ start: string; end: string }> = [];
+
+  // Stepped from the start so month-end dates do not drift
+  for (let period = 0; addMonths(start, period * periodMonths) < maturity; period++) {
+    const end = addMonths(start, (period + 1) * periodMonths);
+    periods.push({ start: addMonths(start, period * periodMonths), end: end < maturity ? end : maturity });
+  }
+  return periods;
+}
+
+interface Facility {
+  id: string;
+  name: string;
+  currency: string;
+  tranche?: Tranche;
+  // Principal interest accrues on over a period
+  principalFor: (start: string, end: string) => number;
+  maturity: string;
+}
+
+// Average drawn balance of a revolving tranche over the days of a period
+const getAverageDrawnBalance = (loan: LoanData, trancheId: string, start: string, end: string): number => {
+  const days = daysBetween(start, end);
+  if (days <= 0) return getDrawnBalanceAt(loan, trancheId, start);
+
+  let total = 0;
+  for (let day = start; day < end; day = addDays(day, 1)) {
+    total += getDrawnBalanceAt(loan, trancheId, day);
+  }
+  return total / days;
+};
+
+// Scheduled repayments reduce term facilities pro rata; revolving facilities accrue on their drawings
+const getFacilities = (loan: LoanData, start: string): Facility[] => {
+  const total = getTotalFacilityAmount(loan);
+  const outstandingRatio = (date: string) => (total > 0 ? getOutstandingBalanceAt(loan, date) / total : 0);
+  const loanMaturity = loan.terminationDate ?? addMonths(start, 12);
+
+  if (!loan.tranches || loan.tranches.length === 0) {
+    return [{
+      id: 'facility',
+      name: 'Facility',
+      currency: loan.currency,
+      principalFor: periodStart => getOutstandingBalanceAt(loan, periodStart),
+      maturity: loanMaturity,
+    }];
+  }
+
+  return loan.tranches.map(tranche => ({
+    id: tranche.id,
+    name: tranche.name,
+    currency: tranche.currency,
+    tranche,
+    principalFor: (periodStart, periodEnd) => (tranche.facilityType === 'revolving_credit'
+      ? getAverageDrawnBalance(loan, tranche.id, periodStart, periodEnd)
+      : tranche.amount * outstandingRatio(periodStart)),
+    maturity: tranche.tenorMonths ? addMonths(start, tranche.tenorMonths) : loanMaturity,
+  }));
+};
+
+// Interest and fee periods roll from the signing date, or the start of the year when there is none
+export const getScheduleStart = (loan: LoanData, asOf: string): string => loan.signingDate ?? `${asOf.substring(0, 4)}-01-01`;
+
+/**
+ * First interest period date after `date`, when margin changes take effect; `date`
+ * itself once the loan has matured
+ */
+export function getNextInterestPeriodStart(loan: LoanData, date: string): string {
+  const start = getScheduleStart(loan, date);
+  if (date < start) return start;
+  const maturity = loan.terminationDate ?? addMonths(start, 12);
+  const next = buildInterestPeriods(start, maturity, defaultEnterpriseConfig.business.interestPeriodMonths)
+    .find(period => period.start > date);
+  return next?.start ?? date;
+}
+
+/**
+ * Interest period schedule of every facility in a loan from signing to maturity.
+ * Term principal is taken at the start of each period; revolving drawings are
+ * averaged over it.
+ */
+export function buildInterestSchedules(loan: LoanData, curve: ReferenceRateCurve, asOf: string): FacilityInterestSchedule[] {
+  const start = getScheduleStart(loan, asOf);
+
+  return getFacilities(loan, start).map(facility => {
+    const terms = getInterestTerms(loan, facility.tranche);
+    const basis = DAY_COUNT_BASIS[terms.dayCount];
+
+    const periods = buildInterestPeriods(start, facility.maturity, terms.periodMonths).map(period => {
+      const days = daysBetween(period.start, period.end);
+      const principal = facility.principalFor(period.start, period.end);
+      const referenceRate = getPeriodReferenceRate(curve, terms, period.start, period.end);
+      const margin = getMarginAt(loan, period.start, facility.tranche);
+      const allInRate = referenceRate.rate + margin;
+      return {
+        ...period,
+        days,
+        principal,
+        referenceRate: referenceRate.rate,
+        margin,
+        allInRate,
+        interest: roundToCents(principal * (allInRate / 100) * (days / basis)),
+        projected: referenceRate.projected,
+      };
+    });
+
+    return { facilityId: facility.id, name: facility.name, currency: facility.currency, terms, periods };
+  });
+}
+
+/**
+ * The period of a schedule containing a date, or null outside the facility's life
+ */
+export function getCurrentInterestPeriod(schedule: FacilityInterestSchedule, asOf: string): InterestPeriodAccrual | null {
+  return schedule.periods.find(period => period.start <= asOf && asOf < period.end) ?? null;
+}
+
+/**
+ * Interest accrued from the start of the current period up to (not including) `asOf`.
+ * Compounded rates only include the days elapsed.
+ */
+export function getAccruedInterest(schedule: FacilityInterestSchedule, curve: ReferenceRateCurve, asOf: string): number {
+  const period = getCurrentInterestPeriod(schedule, asOf);
+  if (!period) return 0;
+
+  const days = daysBetween(period.start, asOf);
+  const referenceRate = schedule.terms.mode === 'term'
+    ? period.referenceRate
+    : getPeriodReferenceRate(curve, schedule.terms, period.start, asOf).rate;
+  const allInRate = referenceRate + period.margin;
+  return roundToCents(period.principal * (allInRate / 100) * (days / DAY_COUNT_BASIS[schedule.terms.dayCount]));
+}
+
+/**
+ * Current principal, rate and interest of a loan across its facilities, in the
+ * loan's currency
+ */
+export function getLoanInterestSummary(loan: LoanData, curve: ReferenceRateCurve, asOf: string): LoanInterestSummary {
+  const summary = buildInterestSchedules(loan, curve, asOf).reduce(
+    (totals, schedule) => {
+      const period = getCurrentInterestPeriod(schedule, asOf);
+      if (!period) return totals;
+      return {
+        principal: totals.principal + period.principal,
+        weightedRate: totals.weightedRate + period.principal * period.allInRate,
+        annualInterest: totals.annualInterest + period.principal * (period.allInRate / 100) * (365 / DAY_COUNT_BASIS[schedule.terms.dayCount]),
+        accruedInterest: totals.accruedInterest + getAccruedInterest(schedule, curve, asOf),
+      };
+    },
+    { principal: 0, weightedRate: 0, annualInterest: 0, accruedInterest: 0 }
+  );
+
+  return {
+    principal: summary.principal,
+    allInRate: summary.principal > 0 ? summary.weightedRate / summary.principal : 0,
+    annualInterest: roundToCents(summary.annualInterest),
+    accruedInterest: roundToCents(summary.accruedInterest),
+  };
+}
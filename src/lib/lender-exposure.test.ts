@@ -0,0 +1,176 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for lender exposure across the portfolio and concentration flags
+ */
+
+import * as fc from 'fast-check';
+import { LoanData, PortfolioLoanRecord } from '@/types';
+import { buildPortfolioLoanInput } from './loan-state';
+import { CodedError } from './enterprise-errors';
+import { FxRateTable } from './fx-rates';
+import { buildLenderExposureReport, getConcentrationRisk } from './lender-exposure';
+
+const loan = (overrides: Partial<LoanData>): LoanData => ({
+  borrowerName: 'Acme Holdings Ltd',
+  facilityAmount: 100000000,
+  currency: 'USD',
+  interestRateMargin: 2.5,
+  leverageCovenant: 4,
+  esgTarget: '',
+  ...overrides,
+});
+
+const record = (id: string, data: LoanData): PortfolioLoanRecord => ({
+  ...buildPortfolioLoanInput(data),
+  id,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+const acme = record('loan_1', loan({
+  sector: 'Manufacturing',
+  lenders: [
+    { lenderName: 'Bank A', amount: 60000000, percentage: 0 },
+    { lenderName: 'Bank B', amount: 40000000, percentage: 0 },
+  ],
+  repaymentSchedule: { type: 'amortising', instalments: [{ date: '2026-06-30', amount: 20000000 }] },
+}));
+
+const globex = record('loan_2', loan({
+  borrowerName: 'Globex SE',
+  facilityAmount: 50000000,
+  currency: 'EUR',
+  sector: 'Energy',
+  tranches: [
+    { id: 't1', name: 'Facility A', facilityType: 'term_loan', amount: 30000000, currency: 'EUR', interestRateMargin: 3, tenorMonths: 60 },
+    { id: 't2', name: 'Revolver', facilityType: 'revolving_credit', amount: 20000000, currency: 'EUR', interestRateMargin: 2.5, tenorMonths: 60 },
+  ],
+  lenders: [
+    { lenderName: 'Bank A', amount: 10000000, percentage: 0 },
+    { lenderName: 'Bank C', amount: 40000000, percentage: 0 },
+  ],
+}));
+
+const initech = record('loan_3', loan({
+  borrowerName: 'Initech Inc',
+  facilityAmount: 40000000,
+  lenders: [
+    { lenderName: 'Bank B', amount: 20000000, percentage: 0 },
+    { lenderName: 'Bank C', amount: 20000000, percentage: 0 },
+  ],
+}));
+
+// One euro buys 1.25 dollars from July
+const fx = new FxRateTable([
+  { date: '2026-01-02', base: 'USD', currency: 'EUR', rate: 0.9 },
+  { date: '2026-07-01', base: 'USD', currency: 'EUR', rate: 0.8 },
+]);
+
+describe('buildLenderExposureReport', () => {
+  const report = buildLenderExposureReport([acme, globex, initech], '2026-09-30', { fx });
+  const lender = (name: string) => report.lenders.find(entry => entry.lenderName === name);
+
+  it('totals commitments and funded exposure by currency', () => {
+    expect(report.lenders.map(entry => entry.lenderName)).toEqual(['Bank A', 'Bank B', 'Bank C']);
+    expect(lender('Bank A')?.byCurrency).toEqual([
+      // 60% of the 80M outstanding after the June repayment
+      expect.objectContaining({ currency: 'USD', commitment: 60000000, funded: 48000000 }),
+      expect.objectContaining({ currency: 'EUR', commitment: 10000000, funded: 6000000, reportingCommitment: 12500000 }),
+    ]);
+  });
+
+  it('converts totals to the reporting currency at the as-of rates', () => {
+    expect(report.reportingCurrency).toBe('USD');
+    expect(lender('Bank A')).toEqual(expect.objectContaining({ totalCommitment: 72500000, totalFunded: 55500000 }));
+    expect(lender('Bank C')?.byBorrower.map(line => [line.name, line.currency, line.commitment])).toEqual([
+      ['Globex SE', 'USD', 50000000],
+      ['Initech Inc', 'USD', 20000000],
+    ]);
+  });
+
+  it('breaks each lender down by borrower and sector', () => {
+    expect(lender('Bank B')?.byBorrower.map(line => [line.name, line.percentage])).toEqual([
+      ['Acme Holdings Ltd', (40 / 60) * 100],
+      ['Initech Inc', (20 / 60) * 100],
+    ]);
+    expect(lender('Bank B')?.bySector.map(line => line.name)).toEqual(['Manufacturing', 'Unclassified']);
+  });
+
+  it('flags holdings above the concentration limit across currencies', () => {
+    expect(report.flags).toEqual([
+      expect.objectContaining({ lenderName: 'Bank A', dimension: 'facility', name: 'Acme Holdings Ltd', percentage: 60 }),
+      expect.objectContaining({ lenderName: 'Bank A', dimension: 'borrower', name: 'Acme Holdings Ltd' }),
+      expect.objectContaining({ lenderName: 'Bank A', dimension: 'sector', name: 'Manufacturing' }),
+      expect.objectContaining({ lenderName: 'Bank B', dimension: 'facility', name: 'Initech Inc', percentage: 50 }),
+      expect.objectContaining({ lenderName: 'Bank B', dimension: 'borrower', name: 'Acme Holdings Ltd' }),
+      expect.objectContaining({ lenderName: 'Bank B', dimension: 'sector', name: 'Manufacturing' }),
+      expect.objectContaining({ lenderName: 'Bank C', dimension: 'facility', name: 'Globex SE', percentage: 80 }),
+      expect.objectContaining({ lenderName: 'Bank C', dimension: 'facility', name: 'Initech Inc', percentage: 50 }),
+      expect.objectContaining({ lenderName: 'Bank C', dimension: 'borrower', name: 'Globex SE', percentage: (50 / 70) * 100 }),
+      expect.objectContaining({ lenderName: 'Bank C', dimension: 'sector', name: 'Energy' }),
+    ]);
+  });
+
+  it('refuses to total currencies it has no rate for', () => {
+    expect(() => buildLenderExposureReport([acme, globex], '2026-09-30')).toThrow(CodedError);
+  });
+
+  it('funds revolvers to their drawn balance', () => {
+    const drawn = record('loan_2', {
+      ...globex.loan,
+      revolverMovements: [{ id: 'movement_1', trancheId: 't2', type: 'drawdown', date: '2026-09-01', amount: 10000000 }],
+    });
+    const { lenders } = buildLenderExposureReport([drawn], '2026-09-30', { fx });
+
+    // 80% of the 30M term facility and the 10M drawn
+    expect(lenders.find(entry => entry.lenderName === 'Bank C')?.byCurrency[0].funded).toBe(32000000);
+  });
+
+  it('reflects trades settled into the syndicate', () => {
+    const traded = record('loan_1', acme.loan);
+    traded.tradingStatus = {
+      ...traded.tradingStatus,
+      lenderAllocations: [
+        { lenderName: 'Bank A', amount: 30000000, percentage: 30 },
+        { lenderName: 'Bank B', amount: 40000000, percentage: 40 },
+        { lenderName: 'Fund D', amount: 30000000, percentage: 30 },
+      ],
+    };
+
+    const { lenders, flags } = buildLenderExposureReport([traded], '2026-01-01');
+
+    expect(lenders.find(entry => entry.lenderName === 'Fund D')?.byCurrency[0].commitment).toBe(30000000);
+    expect(flags).toEqual([]);
+  });
+
+  it('allocates the whole facility across the syndicate', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer({ min: 1, max: 1000 }), { minLength: 1, maxLength: 6 }),
+        amounts => {
+          const lenders = amounts.map((amount, index) => ({ lenderName: `Bank ${index}`, amount: amount * 1000000, percentage: 0 }));
+          const total = lenders.reduce((sum, entry) => sum + entry.amount, 0);
+          const { lenders: exposures } = buildLenderExposureReport(
+            [record('loan_1', loan({ facilityAmount: total, lenders }))],
+            '2026-01-01'
+          );
+
+          const committed = exposures.reduce((sum, entry) => sum + entry.byCurrency[0].commitment, 0);
+          expect(committed).toBeCloseTo(total, 0);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
+
+describe('getConcentrationRisk', () => {
+  it('grades a share against the limit', () => {
+    expect(getConcentrationRisk(41)).toBe('High');
+    expect(getConcentrationRisk(40)).toBe('Medium');
+    expect(getConcentrationRisk(25)).toBe('Low');
+  });
+});
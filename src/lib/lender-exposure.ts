@@ -0,0 +1,235 @@
+/**
+ * Lender Exposure
+ * Commitments and funded exposure of each lender across the loan portfolio,
+ * broken down by currency, borrower and sector, with concentration flags
+ */
+
+import { LoanData, PortfolioLoanRecord, getTotalFacilityAmount } from '@/types';
+import { getOutstandingBalanceAt } from '@/lib/repayment-schedule';
+import { getDrawnBalanceAt } from '@/lib/revolving-facility';
+import { FxRateTable, REPORTING_CURRENCY } from '@/lib/fx-rates';
+
+// Share (percent) above which a holding counts as a concentration
+export const CONCENTRATION_LIMIT = 40;
+
+export const UNCLASSIFIED_SECTOR = 'Unclassified';
+
+export type ConcentrationRisk = 'High' | 'Medium' | 'Low';
+
+export type ConcentrationDimension = 'facility' | 'borrower' | 'sector';
+
+export interface FacilityExposure {
+  loanId: string;
+  borrowerName: string;
+  sector: string;
+  currency: string;
+  commitment: number;
+  // Drawn and outstanding share of the commitment
+  funded: number;
+  reportingCommitment: number;
+  reportingFunded: number;
+  // Lender's share of the whole facility
+  percentage: number;
+}
+
+// One row of a breakdown. Currency lines keep native amounts; borrower and sector
+// lines, which can span currencies, are in the reporting currency.
+export interface ExposureLine {
+  name: string;
+  currency: string;
+  commitment: number;
+  funded: number;
+  reportingCommitment: number;
+  reportingFunded: number;
+  // Share of the lender's total commitments
+  percentage: number;
+}
+
+export interface LenderExposure {
+  lenderName: string;
+  // Reporting currency totals
+  totalCommitment: number;
+  totalFunded: number;
+  facilities: FacilityExposure[];
+  byCurrency: ExposureLine[];
+  byBorrower: ExposureLine[];
+  bySector: ExposureLine[];
+}
+
+export interface ConcentrationFlag {
+  lenderName: string;
+  dimension: ConcentrationDimension;
+  name: string;
+  percentage: number;
+}
+
+export interface LenderExposureReport {
+  // ISO yyyy-mm-dd the funded amounts and exchange rates are taken at
+  asOf: string;
+  reportingCurrency: string;
+  lenders: LenderExposure[];
+  flags: ConcentrationFlag[];
+}
+
+export interface LenderExposureOptions {
+  // Rates for converting to the reporting currency; single-currency books need none
+  fx?: FxRateTable;
+  reportingCurrency?: string;
+  limit?: number;
+}
+
+export function getConcentrationRisk(percentage: number): ConcentrationRisk {
+  return percentage > CONCENTRATION_LIMIT ? 'High' : percentage > 25 ? 'Medium' : 'Low';
+}
+
+interface FacilityPart {
+  currency: string;
+  amount: number;
+  funded: number;
+}
+
+// Facilities of a loan by currency; term facilities are funded net of scheduled
+// repayments, revolvers to their drawn balance
+const getFacilityParts = (loan: LoanData, asOf: string): FacilityPart[] => {
+  const total = getTotalFacilityAmount(loan);
+  const outstandingRatio = total > 0 ? getOutstandingBalanceAt(loan, asOf) / total : 0;
+
+  if (!loan.tranches || loan.tranches.length === 0) {
+    return [{ currency: loan.currency, amount: total, funded: total * outstandingRatio }];
+  }
+  return loan.tranches.map(tranche => ({
+    currency: tranche.currency,
+    amount: tranche.amount,
+    funded: tranche.facilityType === 'revolving_credit'
+      ? getDrawnBalanceAt(loan, tranche.id, asOf)
+      : tranche.amount * outstandingRatio,
+  }));
+};
+
+/**
+ * Each lender's holding in one loan, split by facility currency
+ */
+export function getFacilityExposures(
+  record: PortfolioLoanRecord,
+  asOf: string,
+  toReporting: (amount: number, currency: string) => number
+): Array<FacilityExposure & { lenderName: string }> {
+  const { loan, tradingStatus } = record;
+
+  const byCurrency = new Map<string, { commitment: number; funded: number }>();
+  getFacilityParts(loan, asOf).forEach(part => {
+    const entry = byCurrency.get(part.currency) ?? { commitment: 0, funded: 0 };
+    entry.commitment += part.amount;
+    entry.funded += part.funded;
+    byCurrency.set(part.currency, entry);
+  });
+
+  return tradingStatus.lenderAllocations.flatMap(allocation => {
+    const share = allocation.percentage / 100;
+    return Array.from(byCurrency.entries()).map(([currency, amounts]) => ({
+      lenderName: allocation.lenderName,
+      loanId: record.id,
+      borrowerName: loan.borrowerName,
+      sector: loan.sector || UNCLASSIFIED_SECTOR,
+      currency,
+      commitment: amounts.commitment * share,
+      funded: amounts.funded * share,
+      reportingCommitment: toReporting(amounts.commitment * share, currency),
+      reportingFunded: toReporting(amounts.funded * share, currency),
+      percentage: allocation.percentage,
+    }));
+  });
+}
+
+const groupLines = (
+  facilities: FacilityExposure[],
+  nameOf: (facility: FacilityExposure) => string,
+  currencyOf: (facility: FacilityExposure) => string,
+  native: boolean
+): ExposureLine[] => {
+  const total = facilities.reduce((sum, facility) => sum + facility.reportingCommitment, 0);
+  const lines = new Map<string, ExposureLine>();
+  facilities.forEach(facility => {
+    const name = nameOf(facility);
+    const line = lines.get(name) ?? {
+      name,
+      currency: currencyOf(facility),
+      commitment: 0,
+      funded: 0,
+      reportingCommitment: 0,
+      reportingFunded: 0,
+      percentage: 0,
+    };
+    line.commitment += native ? facility.commitment : facility.reportingCommitment;
+    line.funded += native ? facility.funded : facility.reportingFunded;
+    line.reportingCommitment += facility.reportingCommitment;
+    line.reportingFunded += facility.reportingFunded;
+    line.percentage = total > 0 ? (line.reportingCommitment / total) * 100 : 0;
+    lines.set(name, line);
+  });
+
+  return Array.from(lines.values()).sort((a, b) => b.reportingCommitment - a.reportingCommitment);
+};
+
+/**
+ * Borrowers or sectors above the limit. A book with a single name is not
+ * flagged for that dimension, as there is nothing to diversify against.
+ */
+const flagLines = (
+  lenderName: string,
+  dimension: ConcentrationDimension,
+  lines: ExposureLine[],
+  limit: number
+): ConcentrationFlag[] =>
+  lines.length < 2
+    ? []
+    : lines
+      .filter(line => line.percentage > limit)
+      .map(line => ({ lenderName, dimension, name: line.name, percentage: line.percentage }));
+
+/**
+ * Exposure of every lender across the given loans, converted to the reporting
+ * currency at the rates on the as-of date. Throws CodedError when a facility
+ * currency has no rate.
+ */
+export function buildLenderExposureReport(
+  records: PortfolioLoanRecord[],
+  asOf: string,
+  options: LenderExposureOptions = {}
+): LenderExposureReport {
+  const { fx = new FxRateTable([]), reportingCurrency = REPORTING_CURRENCY, limit = CONCENTRATION_LIMIT } = options;
+  const toReporting = (amount: number, currency: string) => fx.convert(amount, currency, reportingCurrency, asOf);
+
+  const byLender = new Map<string, FacilityExposure[]>();
+  records.flatMap(record => getFacilityExposures(record, asOf, toReporting)).forEach(({ lenderName, ...facility }) => {
+    byLender.set(lenderName, [...(byLender.get(lenderName) ?? []), facility]);
+  });
+
+  const lenders: LenderExposure[] = Array.from(byLender.entries())
+    .map(([lenderName, facilities]) => ({
+      lenderName,
+      totalCommitment: facilities.reduce((sum, facility) => sum + facility.reportingCommitment, 0),
+      totalFunded: facilities.reduce((sum, facility) => sum + facility.reportingFunded, 0),
+      facilities,
+      byCurrency: groupLines(facilities, facility => facility.currency, facility => facility.currency, true),
+      byBorrower: groupLines(facilities, facility => facility.borrowerName, () => reportingCurrency, false),
+      bySector: groupLines(facilities, facility => facility.sector, () => reportingCurrency, false),
+    }))
+    .sort((a, b) => a.lenderName.localeCompare(b.lenderName));
+
+  const flags = lenders.flatMap(lender => [
+    // One flag per loan, however many currencies it is drawn in
+    ...lender.facilities
+      .filter((facility, index, all) => facility.percentage > limit && all.findIndex(other => other.loanId === facility.loanId) === index)
+      .map(facility => ({
+        lenderName: lender.lenderName,
+        dimension: 'facility' as const,
+        name: facility.borrowerName,
+        percentage: facility.percentage,
+      })),
+    ...flagLines(lender.lenderName, 'borrower', lender.byBorrower, limit),
+    ...flagLines(lender.lenderName, 'sector', lender.bySector, limit),
+  ]);
+
+  return { asOf, reportingCurrency, lenders, flags };
+}
@@ -0,0 +1,113 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for secondary trades between named lenders
+ */
+
+import * as fc from 'fast-check';
+import { LoanData, TradingStatus, getCommitmentTotal } from '@/types';
+import { ErrorCode } from './enterprise-errors';
+import { TradeRejectedError, applyTrade, createInitialTradingStatus, createTradingStatusForLoan } from './loan-state';
+
+const limits = { minTransferAmount: 1000000, minHoldAmount: 5000000 };
+
+const rejectionOf = (tradingStatus: TradingStatus, sellerName: string, buyerName: string, amount: number) => {
+  try {
+    applyTrade(tradingStatus, { sellerName, buyerName, amount }, limits);
+  } catch (error) {
+    return error;
+  }
+  return null;
+};
+
+describe('applyTrade', () => {
+  const initial = createInitialTradingStatus();
+
+  it('transfers a partial participation from the named seller', () => {
+    const traded = applyTrade(initial, { sellerName: 'Bank B', buyerName: 'Fund D', amount: 12500000 }, limits);
+
+    expect(traded.lenderAllocations).toEqual([
+      { lenderName: 'Bank A', amount: 50000000, percentage: 50 },
+      { lenderName: 'Bank B', amount: 17500000, percentage: 17.5 },
+      { lenderName: 'Bank C', amount: 20000000, percentage: 20 },
+      { lenderName: 'Fund D', amount: 12500000, percentage: 12.5 },
+    ]);
+    expect(traded.lastTradeTimestamp).toBeInstanceOf(Date);
+    expect(initial.lenderAllocations[1].amount).toBe(30000000);
+  });
+
+  it('removes a seller that sells its whole holding', () => {
+    const traded = applyTrade(initial, { sellerName: 'Bank C', buyerName: 'Bank A', amount: 20000000 }, limits);
+
+    expect(traded.lenderAllocations.map(lender => [lender.lenderName, lender.amount])).toEqual([
+      ['Bank A', 70000000],
+      ['Bank B', 30000000],
+    ]);
+  });
+
+  it('rejects trades with typed reasons', () => {
+    const cases: Array<[string, string, number, string]> = [
+      ['Bank Z', 'Fund D', 10000000, 'unknown_seller'],
+      ['Bank A', 'Bank A', 10000000, 'same_party'],
+      ['Bank A', 'Fund D', -5, 'invalid_amount'],
+      ['Bank C', 'Fund D', 25000000, 'exceeds_holding'],
+      ['Bank A', 'Bank B', 500000, 'minimum_transfer'],
+      ['Bank C', 'Fund D', 17000000, 'minimum_hold'],
+    ];
+
+    cases.forEach(([sellerName, buyerName, amount, reason]) => {
+      const error = rejectionOf(initial, sellerName, buyerName, amount);
+      expect(error).toBeInstanceOf(TradeRejectedError);
+      expect(error).toMatchObject({ reason, code: ErrorCode.TRADE_REJECTED });
+    });
+  });
+
+  it('keeps allocations summing exactly to the facility amount', () => {
+    const lenders = ['Bank A', 'Bank B', 'Bank C', 'Fund D', 'Fund E'];
+    const trade = fc.record({
+      seller: fc.constantFrom(...lenders),
+      buyer: fc.constantFrom(...lenders),
+      // Amounts in cents, including fractional currency amounts
+      cents: fc.integer({ min: 1, max: 6000000000 }),
+    });
+
+    fc.assert(
+      fc.property(fc.array(trade, { maxLength: 25 }), trades => {
+        let tradingStatus = createInitialTradingStatus();
+        trades.forEach(({ seller, buyer, cents }) => {
+          try {
+            tradingStatus = applyTrade(tradingStatus, { sellerName: seller, buyerName: buyer, amount: cents / 100 }, limits);
+          } catch (error) {
+            expect(error).toBeInstanceOf(TradeRejectedError);
+          }
+        });
+
+        const totalCents = tradingStatus.lenderAllocations.reduce((sum, lender) => sum + Math.round(lender.amount * 100), 0);
+        expect(totalCents).toBe(tradingStatus.totalFacilityAmount * 100);
+        expect(getCommitmentTotal(tradingStatus.lenderAllocations)).toBeCloseTo(tradingStatus.totalFacilityAmount, 2);
+        expect(tradingStatus.lenderAllocations.reduce((sum, lender) => sum + lender.percentage, 0)).toBeCloseTo(100, 6);
+      })
+    );
+  });
+});
+
+describe('createTradingStatusForLoan', () => {
+  it('scales the default syndicate to a loan without a lender schedule', () => {
+    const loan: LoanData = {
+      borrowerName: 'Acme Corporation',
+      facilityAmount: 500000000,
+      currency: 'USD',
+      interestRateMargin: 2.5,
+      leverageCovenant: 4.0,
+      esgTarget: '',
+    };
+
+    const tradingStatus = createTradingStatusForLoan(loan);
+
+    expect(tradingStatus.totalFacilityAmount).toBe(500000000);
+    expect(getCommitmentTotal(tradingStatus.lenderAllocations)).toBe(500000000);
+    expect(tradingStatus.lenderAllocations.map(lender => lender.percentage)).toEqual([50, 30, 20]);
+  });
+});
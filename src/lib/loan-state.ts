@@ -0,0 +1,240 @@
+/**
+ * Loan Workflow State
+ * Pure state transitions shared by the UI reducer and the REST API
+ */
+
+import {
+  CovenantTestResult,
+  ESGStatus,
+  LoanData,
+  PortfolioLoanInput,
+  RiskStatus,
+  TradeRejectionReason,
+  TradeRequest,
+  TradingStatus,
+  VerificationState,
+  getTotalFacilityAmount,
+} from '@/types';
+import { getOverallCovenantStatus } from '@/lib/covenants';
+import { buildLenderAllocations } from '@/lib/syndicate';
+import { ErrorCode } from '@/lib/enterprise-errors';
+import { defaultEnterpriseConfig } from '@/config/enterprise-config';
+
+export class TradeRejectedError extends Error {
+  public readonly code = ErrorCode.TRADE_REJECTED;
+
+  constructor(
+    public readonly reason: TradeRejectionReason,
+    message: string,
+    // Every rule the trade breaks, when there is more than one
+    public readonly details: string[] = []
+  ) {
+    super(message);
+    this.name = 'TradeRejectedError';
+  }
+}
+
+export interface TradeLimits {
+  minTransferAmount: number;
+  // Sellers keep at least this much unless they sell out entirely
+  minHoldAmount: number;
+}
+
+export const DEFAULT_TRADE_LIMITS: TradeLimits = {
+  minTransferAmount: defaultEnterpriseConfig.business.minTradeAmount,
+  minHoldAmount: defaultEnterpriseConfig.business.minHoldAmount,
+};
+
+// Allocations are settled in whole cents so they always sum to the facility amount
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+export function createInitialVerificationState(): VerificationState {
+  return {
+    isVerified: false,
+    isLocked: false,
+    verificationTimestamp: null,
+  };
+}
+
+export function createInitialESGStatus(target: string = ''): ESGStatus {
+  return {
+    target,
+    discountApplied: false,
+    verificationUploaded: false,
+  };
+}
+
+export function createInitialRiskStatus(): RiskStatus {
+  return {
+    currentLeverage: 0,
+    isInDefault: false,
+    warningLevel: 'safe',
+    covenantStatuses: [],
+    lastCovenantTestDate: null,
+  };
+}
+
+export function createInitialTradingStatus(): TradingStatus {
+  return {
+    lenderAllocations: [
+      { lenderName: 'Bank A', amount: 50000000, percentage: 50 },
+      { lenderName: 'Bank B', amount: 30000000, percentage: 30 },
+      { lenderName: 'Bank C', amount: 20000000, percentage: 20 },
+    ],
+    totalFacilityAmount: 100000000,
+    lastTradeTimestamp: null,
+    settlementStatus: 'instant',
+  };
+}
+
+/**
+ * Trading state of a loan, with the syndicate taken from its lender schedule when known
+ * and otherwise the default syndicate shares scaled to the facility
+ */
+export function createTradingStatusForLoan(loan: LoanData): TradingStatus {
+  const totalFacilityAmount = getTotalFacilityAmount(loan);
+  const initial = createInitialTradingStatus();
+  const defaultShares = initial.lenderAllocations.map(lender => ({
+    lenderName: lender.lenderName,
+    amount: (lender.percentage / 100) * totalFacilityAmount,
+  }));
+
+  return {
+    ...initial,
+    lenderAllocations: buildLenderAllocations(
+      loan.lenders && loan.lenders.length > 0 ? loan.lenders : defaultShares,
+      totalFacilityAmount
+    ),
+    totalFacilityAmount,
+  };
+}
+
+/**
+ * Seed the syndicate from the loan's lender schedule, unless trading has already started
+ */
+export function seedTradingStatus(tradingStatus: TradingStatus, loan: LoanData | null): TradingStatus {
+  if (!loan?.lenders || loan.lenders.length === 0 || tradingStatus.lastTradeTimestamp) {
+    return tradingStatus;
+  }
+  return createTradingStatusForLoan(loan);
+}
+
+/**
+ * Workflow state for a newly registered loan
+ */
+export function buildPortfolioLoanInput(loan: LoanData): PortfolioLoanInput {
+  return {
+    loan,
+    verificationStatus: createInitialVerificationState(),
+    esgStatus: createInitialESGStatus(loan.esgTarget),
+    riskStatus: createInitialRiskStatus(),
+    tradingStatus: createTradingStatusForLoan(loan),
+  };
+}
+
+export function verifyLoanState(): VerificationState {
+  return {
+    isVerified: true,
+    isLocked: true,
+    verificationTimestamp: new Date(),
+  };
+}
+
+/**
+ * Transfer part or all of the seller's participation to the buyer.
+ * Throws TradeRejectedError when the trade exceeds the seller's holding or breaches
+ * the minimum transfer or minimum hold amounts.
+ */
+export function applyTrade(
+  tradingStatus: TradingStatus,
+  trade: TradeRequest,
+  limits: TradeLimits = DEFAULT_TRADE_LIMITS
+): TradingStatus {
+  const { sellerName, buyerName, amount } = trade;
+  const sellerIndex = tradingStatus.lenderAllocations.findIndex(lender => lender.lenderName === sellerName);
+
+  if (sellerIndex === -1) {
+    throw new TradeRejectedError('unknown_seller', `${sellerName} is not a lender of record`);
+  }
+  if (sellerName === buyerName) {
+    throw new TradeRejectedError('same_party', 'Seller and buyer must be different lenders');
+  }
+  if (!Number.isFinite(amount) || toCents(amount) <= 0) {
+    throw new TradeRejectedError('invalid_amount', 'Trade amount must be a positive number');
+  }
+
+  const seller = tradingStatus.lenderAllocations[sellerIndex];
+  const tradeCents = toCents(amount);
+  const remainingCents = toCents(seller.amount) - tradeCents;
+
+  if (remainingCents < 0) {
+    throw new TradeRejectedError(
+      'exceeds_holding',
+      `${sellerName} holds ${seller.amount.toLocaleString()}, less than the ${amount.toLocaleString()} traded`
+    );
+  }
+  // Selling out entirely is always allowed, even below the minimum transfer
+  if (remainingCents > 0 && tradeCents < toCents(limits.minTransferAmount)) {
+    throw new TradeRejectedError('minimum_transfer', `Trades must be at least ${limits.minTransferAmount.toLocaleString()}`);
+  }
+  if (remainingCents > 0 && remainingCents < toCents(limits.minHoldAmount)) {
+    throw new TradeRejectedError(
+      'minimum_hold',
+      `${sellerName} must keep at least ${limits.minHoldAmount.toLocaleString()} or sell its entire holding`
+    );
+  }
+
+  const holdings = tradingStatus.lenderAllocations.map(lender => ({
+    lenderName: lender.lenderName,
+    cents: toCents(lender.amount),
+  }));
+  holdings[sellerIndex].cents = remainingCents;
+
+  const buyer = holdings.find(lender => lender.lenderName === buyerName);
+  if (buyer) {
+    buyer.cents += tradeCents;
+  } else {
+    holdings.push({ lenderName: buyerName, cents: tradeCents });
+  }
+
+  // Sellers who sold out leave the syndicate
+  const totalCents = toCents(tradingStatus.totalFacilityAmount);
+  const lenderAllocations = holdings
+    .filter(lender => lender.cents > 0)
+    .map(lender => ({
+      lenderName: lender.lenderName,
+      amount: lender.cents / 100,
+      percentage: totalCents > 0 ? (lender.cents / totalCents) * 100 : 0,
+    }));
+
+  // Trades still in their settlement lifecycle keep the syndicate pending
+  const hasOpenTrades = (tradingStatus.trades ?? []).some(open => open.stage !== 'settled' && open.stage !== 'cancelled');
+
+  return {
+    ...tradingStatus,
+    lenderAllocations,
+    lastTradeTimestamp: new Date(),
+    settlementStatus: hasOpenTrades ? 'pending' : 'instant',
+  };
+}
+
+/**
+ * Record the results of a covenant test date on the risk status
+ */
+export function applyCovenantResults(
+  riskStatus: RiskStatus,
+  testDate: string,
+  results: CovenantTestResult[]
+): RiskStatus {
+  const overallStatus = getOverallCovenantStatus(results);
+  const leverageResult = results.find(result => result.metric === 'leverage');
+
+  return {
+    ...riskStatus,
+    currentLeverage: leverageResult ? leverageResult.actual : riskStatus.currentLeverage,
+    covenantStatuses: results,
+    lastCovenantTestDate: testDate,
+    isInDefault: overallStatus === 'breach',
+    warningLevel: overallStatus === 'compliant' ? 'safe' : overallStatus,
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for full loan validation across the field checks and the domain modules
+ */
+
+import { LoanData, Tranche } from '@/types';
+import { validateLoan } from './loan-validation';
+
+const tranches: Tranche[] = [
+  { id: 't1', name: 'Term Loan A', facilityType: 'term_loan_a', amount: 250000000, currency: 'USD', interestRateMargin: 2.5, tenorMonths: 60 },
+  { id: 't2', name: 'Term Loan B', facilityType: 'term_loan_b', amount: 400000000, currency: 'USD', interestRateMargin: 3.25, tenorMonths: 84 },
+  { id: 't3', name: 'Revolver', facilityType: 'revolving_credit', amount: 150000000, currency: 'USD', interestRateMargin: 2.25, tenorMonths: 60 }
+];
+
+const loan: LoanData = {
+  borrowerName: 'Acme Holdings Inc.',
+  facilityAmount: 800000000,
+  currency: 'USD',
+  interestRateMargin: 2.75,
+  leverageCovenant: 4.5,
+  esgTarget: 'Reduce carbon emissions by 30% by 2027',
+  tranches,
+  signingDate: '2026-01-15',
+  terminationDate: '2031-01-15'
+};
+
+describe('validateLoan', () => {
+  it('reports the field checks alongside the domain rules', () => {
+    const drawdown = { id: 'm1', trancheId: 't3', type: 'drawdown' as const, date: '2026-03-01', amount: 200000000 };
+
+    expect(validateLoan(loan)).toEqual({ isValid: true, errors: [] });
+    expect(validateLoan({ ...loan, interestRateMargin: -1, revolverMovements: [drawdown] }).errors).toEqual([
+      'Interest rate margin must be at least 0.01%',
+      'Drawing on 2026-03-01 exceeds the Revolver commitment'
+    ]);
+  });
+
+  it('checks revolver movements against the drawn balance in date order', () => {
+    const drawdown = { id: 'm1', trancheId: 't3', type: 'drawdown' as const, date: '2026-03-01', amount: 50000000 };
+    const repayment = { id: 'm2', trancheId: 't3', type: 'repayment' as const, date: '2026-06-01', amount: 50000000 };
+
+    expect(validateLoan({ ...loan, revolverMovements: [repayment, drawdown] }).errors).toEqual([]);
+    expect(validateLoan({ ...loan, revolverMovements: [{ ...drawdown, amount: 200000000 }] }).errors)
+      .toEqual(['Drawing on 2026-03-01 exceeds the Revolver commitment']);
+    expect(validateLoan({ ...loan, revolverMovements: [{ ...drawdown, type: 'borrow' }] } as unknown as LoanData).errors)
+      .toEqual(['Revolver movements must each give a tranche, a drawdown or repayment, a date and an amount']);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Loan Validation
+ * Full validation of a loan: the field checks of validateLoanData plus the revolver,
+ * sustainability, emissions, taxonomy and margin rules enforced by their own modules
+ */
+
+import { LoanData, RevolverMovement, ValidationResult, validateLoanData } from '@/types';
+import { PCAF_DATA_QUALITY, validateBorrowerEmissions } from '@/lib/financed-emissions';
+import { validateTaxonomyScreening } from '@/lib/eu-taxonomy';
+import { recordRevolverMovement } from '@/lib/revolving-facility';
+import { validateMarginHistory, validateSustainabilityTerms } from '@/lib/sustainability-kpis';
+
+// Entries of structured fields arrive as untyped JSON on the API path
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Runs a library check that throws, returning its message as a validation error
+const collectErrors = (check: () => void): string[] => {
+  try {
+    check();
+    return [];
+  } catch (error) {
+    return [error instanceof Error ? error.message : 'Invalid value'];
+  }
+};
+
+export const validateLoan = (data: Partial<LoanData>): ValidationResult => {
+  const errors = [...validateLoanData(data).errors];
+
+  // Validate revolver drawings (optional)
+  if (data.revolverMovements !== undefined) {
+    errors.push(...validateRevolverMovements(data.revolverMovements, data));
+  }
+
+  // Validate sustainability KPIs (optional)
+  const terms = data.sustainabilityTerms;
+  if (terms !== undefined) {
+    const wellFormed = isRecord(terms) && Array.isArray(terms.kpis) && terms.kpis.every(kpi =>
+      isRecord(kpi) && typeof kpi.metric === 'string' && Array.isArray(kpi.targets) && kpi.targets.every(isRecord)
+    );
+    errors.push(...(wellFormed
+      ? collectErrors(() => validateSustainabilityTerms(terms))
+      : ['Sustainability terms must list KPIs, each with a metric and targets']));
+  }
+
+  // Validate borrower emissions (optional)
+  const emissions = data.borrowerEmissions;
+  if (emissions !== undefined) {
+    const wellFormed = isRecord(emissions) &&
+      typeof emissions.currency === 'string' &&
+      (emissions.attributionBasis === 'evic' || emissions.attributionBasis === 'equity_and_debt') &&
+      typeof emissions.dataSource === 'string' && emissions.dataSource in PCAF_DATA_QUALITY;
+    errors.push(...(wellFormed
+      ? collectErrors(() => validateBorrowerEmissions(emissions))
+      : ['Borrower emissions must give a currency, an attribution basis and a data source']));
+  }
+
+  // Validate the EU Taxonomy screening against the facilities (optional)
+  const screening = data.taxonomyScreening;
+  if (screening !== undefined) {
+    const isOptionalString = (value: unknown) => value === null || typeof value === 'string';
+    const wellFormed = isRecord(screening) && isRecord(screening.minimumSafeguards) &&
+      Array.isArray(screening.useOfProceeds) && screening.useOfProceeds.every(entry =>
+        isRecord(entry) &&
+        typeof entry.description === 'string' &&
+        typeof entry.naceCode === 'string' &&
+        isOptionalString(entry.trancheId) &&
+        isOptionalString(entry.activityId) &&
+        typeof entry.criteriaConfirmed === 'boolean' &&
+        isRecord(entry.dnsh)
+      );
+    if (!wellFormed) {
+      errors.push('Taxonomy screening must list uses of proceeds, each with a description, NACE code and DNSH confirmations, and the minimum safeguards');
+    } else if (data.tranches === undefined || (Array.isArray(data.tranches) && data.tranches.every(isRecord))) {
+      errors.push(...collectErrors(() => validateTaxonomyScreening(data as LoanData, screening)));
+    }
+  }
+
+  const history = data.marginHistory;
+  if (history !== undefined) {
+    const wellFormed = Array.isArray(history) && history.every(entry => isRecord(entry) && typeof entry.effectiveDate === 'string');
+    errors.push(...(wellFormed
+      ? collectErrors(() => validateMarginHistory(history))
+      : ['Margin history must list adjustments, each with an effective date']));
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+};
+
+// Replay drawings and repayments in date order so each is checked against the balance before it
+export const validateRevolverMovements = (movements: RevolverMovement[], data: Partial<LoanData>): string[] => {
+  const wellFormed = Array.isArray(movements) && movements.every(movement =>
+    isRecord(movement) &&
+    typeof movement.trancheId === 'string' &&
+    (movement.type === 'drawdown' || movement.type === 'repayment') &&
+    typeof movement.date === 'string' &&
+    typeof movement.amount === 'number'
+  );
+  if (!wellFormed) {
+    return ['Revolver movements must each give a tranche, a drawdown or repayment, a date and an amount'];
+  }
+
+  // Malformed tranches are reported by validateTranches
+  if (data.tranches !== undefined && !(Array.isArray(data.tranches) && data.tranches.every(isRecord))) {
+    return [];
+  }
+
+  const inDateOrder = [...movements].sort((a, b) => a.date.localeCompare(b.date));
+  return collectErrors(() => inDateOrder.reduce(
+    (loan, movement) => recordRevolverMovement(loan, movement),
+    { ...data, revolverMovements: [] } as LoanData
+  ));
+};
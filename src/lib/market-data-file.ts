@@ -0,0 +1,49 @@
+/**
+ * File-backed Market Data
+ * Reads quotes from a local CSV file; server-side only
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CodedError, ErrorCode } from '@/lib/enterprise-errors';
+import { CsvMarketDataProvider, MarketDataProvider, MarketQuote } from '@/lib/market-data';
+
+export class FileMarketDataProvider implements MarketDataProvider {
+  private loaded: Promise<CsvMarketDataProvider> | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  public async getQuotes(facility: string): Promise<MarketQuote[]> {
+    return (await this.load()).getQuotes(facility);
+  }
+
+  // The file is read once; a missing file means no quotes rather than an error
+  private load(): Promise<CsvMarketDataProvider> {
+    if (!this.loaded) {
+      this.loaded = fs.readFile(this.filePath, 'utf8').then(
+        contents => new CsvMarketDataProvider(contents),
+        (error: NodeJS.ErrnoException) => {
+          if (error.code === 'ENOENT') return new CsvMarketDataProvider('');
+          throw new CodedError(ErrorCode.STORAGE_ERROR, `Failed to read market data: ${error.message}`);
+        }
+      );
+      this.loaded.catch(() => {
+        this.loaded = null;
+      });
+    }
+    return this.loaded;
+  }
+}
+
+let marketDataProvider: FileMarketDataProvider | null = null;
+
+/**
+ * Shared provider; the quote file can be overridden with MARKET_DATA_PATH
+ */
+export function getMarketDataProvider(): FileMarketDataProvider {
+  if (!marketDataProvider) {
+    const filePath = process.env.MARKET_DATA_PATH || path.join(process.cwd(), 'sample-documents', 'market-quotes.csv');
+    marketDataProvider = new FileMarketDataProvider(filePath);
+  }
+  return marketDataProvider;
+}
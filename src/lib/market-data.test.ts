@@ -0,0 +1,96 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for market data parsing, the CSV and file providers and quote replay
+ */
+
+import { join } from 'path';
+import { CodedError, ErrorCode } from './enterprise-errors';
+import {
+  CsvMarketDataProvider,
+  MarketDataReplay,
+  getMidPrice,
+  getQuoteAsOf,
+  parseMarketDataCsv
+} from './market-data';
+import { FileMarketDataProvider } from './market-data-file';
+
+const CSV = [
+  'date,facility,bid,ask,volume',
+  '2026-09-02,Acme Holdings Ltd,99.000,99.250,20000000',
+  '2026-09-01,Acme Holdings Ltd,98.750,99.000,15000000',
+  '2026-09-01,*,98.250,98.750,100000000',
+].join('\n');
+
+describe('parseMarketDataCsv', () => {
+  it('reads quotes and skips comments and blank lines', () => {
+    const quotes = parseMarketDataCsv(`# quotes\n\n${CSV}\n`);
+
+    expect(quotes).toHaveLength(3);
+    expect(quotes[0]).toEqual({ date: '2026-09-02', facility: 'Acme Holdings Ltd', bid: 99, ask: 99.25, volume: 20000000 });
+  });
+
+  it('names the line of a malformed quote', () => {
+    const parse = (csv: string) => () => parseMarketDataCsv(csv);
+
+    expect(parse('date,facility,bid\n')).toThrow('Market data must have the columns date, facility, bid, ask, volume');
+    expect(parse(`${CSV}\n2026-09-03,Acme Holdings Ltd,99.5,99.0,0`)).toThrow('Line 5: bid and ask must be positive with ask at or above bid');
+    expect(parse(`${CSV}\nSept 3,Acme Holdings Ltd,99,99.5,0`)).toThrow(CodedError);
+    expect(parse(`${CSV}\n2026-09-03,Acme,abc,99,0`)).toThrow(expect.objectContaining({ code: ErrorCode.PARSING_ERROR }));
+  });
+});
+
+describe('CsvMarketDataProvider', () => {
+  const provider = new CsvMarketDataProvider(CSV);
+
+  it('returns a facility history oldest first, matching names loosely', async () => {
+    const quotes = await provider.getQuotes('ACME HOLDINGS LTD.');
+
+    expect(quotes.map(quote => quote.date)).toEqual(['2026-09-01', '2026-09-02']);
+    expect(getMidPrice(quotes[0])).toBe(98.875);
+  });
+
+  it('falls back to the generic market quote', async () => {
+    expect((await provider.getQuotes('Unknown Borrower')).map(quote => quote.facility)).toEqual(['*']);
+  });
+});
+
+describe('quote selection', () => {
+  it('finds the latest quote on or before a date', async () => {
+    const quotes = await new CsvMarketDataProvider(CSV).getQuotes('Acme Holdings Ltd');
+
+    expect(getQuoteAsOf(quotes, '2026-08-31')).toBeNull();
+    expect(getQuoteAsOf(quotes, '2026-09-01')?.bid).toBe(98.75);
+    expect(getQuoteAsOf(quotes, '2026-12-31')?.bid).toBe(99);
+  });
+
+  it('replays the same sequence every time and starts again at the end', async () => {
+    const quotes = await new CsvMarketDataProvider(CSV).getQuotes('Acme Holdings Ltd');
+    const run = () => {
+      const replay = new MarketDataReplay(quotes);
+      return [replay.current(), replay.advance(), replay.advance()].map(quote => quote?.date);
+    };
+
+    expect(run()).toEqual(['2026-09-01', '2026-09-02', '2026-09-01']);
+    expect(run()).toEqual(run());
+    expect(new MarketDataReplay([]).advance()).toBeNull();
+  });
+});
+
+describe('FileMarketDataProvider', () => {
+  it('reads the sample quote file', async () => {
+    const provider = new FileMarketDataProvider(join(process.cwd(), 'sample-documents', 'market-quotes.csv'));
+    const quotes = await provider.getQuotes('Global Manufacturing Corp');
+
+    expect(quotes.length).toBeGreaterThan(20);
+    quotes.forEach(quote => expect(quote.ask).toBeGreaterThanOrEqual(quote.bid));
+  });
+
+  it('has no quotes when the file does not exist', async () => {
+    const provider = new FileMarketDataProvider(join(process.cwd(), 'does-not-exist.csv'));
+
+    expect(await provider.getQuotes('Global Manufacturing Corp')).toEqual([]);
+  });
+});
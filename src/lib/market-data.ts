@@ -0,0 +1,124 @@
+/**
+ * Market Data
+ * Provider contract for secondary market loan quotes, a CSV-backed implementation
+ * and deterministic replay of a quote history
+ */
+
+import { CodedError, ErrorCode } from '@/lib/enterprise-errors';
+
+export interface MarketQuote {
+  // ISO yyyy-mm-dd
+  date: string;
+  facility: string;
+  // Percent of par
+  bid: number;
+  ask: number;
+  volume: number;
+}
+
+export interface MarketDataProvider {
+  // Quote history for a facility, oldest first
+  getQuotes(facility: string): Promise<MarketQuote[]>;
+}
+
+// Quotes for this facility stand in for loans without their own quotes
+export const GENERIC_FACILITY = '*';
+
+const CSV_COLUMNS = ['date', 'facility', 'bid', 'ask', 'volume'] as const;
+
+// "TechCorp Industries Inc." matches "TECHCORP INDUSTRIES INC"
+const normalizeFacility = (facility: string): string => facility.toLowerCase().replace(/[^a-z0-9*]+/g, ' ').trim();
+
+export const getMidPrice = (quote: MarketQuote): number => (quote.bid + quote.ask) / 2;
+
+// Bid-ask spread in price points
+export const getSpread = (quote: MarketQuote): number => quote.ask - quote.bid;
+
+/**
+ * Parse quotes from CSV with a `date,facility,bid,ask,volume` header row.
+ * Throws CodedError naming the first malformed line.
+ */
+export function parseMarketDataCsv(csv: string): MarketQuote[] {
+  const lines = csv.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0 && !line.startsWith('#'));
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(',').map(column => column.trim().toLowerCase());
+  const indexes = CSV_COLUMNS.map(column => header.indexOf(column));
+  if (indexes.some(index => index === -1)) {
+    throw new CodedError(ErrorCode.PARSING_ERROR, `Market data must have the columns ${CSV_COLUMNS.join(', ')}`);
+  }
+  const [dateIndex, facilityIndex, bidIndex, askIndex, volumeIndex] = indexes;
+
+  return lines.slice(1).map((line, row) => {
+    const cells = line.split(',').map(cell => cell.trim());
+    const quote: MarketQuote = {
+      date: cells[dateIndex] ?? '',
+      facility: cells[facilityIndex] ?? '',
+      bid: Number(cells[bidIndex]),
+      ask: Number(cells[askIndex]),
+      volume: Number(cells[volumeIndex] || 0),
+    };
+
+    const lineNumber = row + 2;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(quote.date) || !quote.facility) {
+      throw new CodedError(ErrorCode.PARSING_ERROR, `Line ${lineNumber}: date and facility are required`);
+    }
+    if (!Number.isFinite(quote.bid) || !Number.isFinite(quote.ask) || quote.bid <= 0 || quote.ask < quote.bid) {
+      throw new CodedError(ErrorCode.PARSING_ERROR, `Line ${lineNumber}: bid and ask must be positive with ask at or above bid`);
+    }
+    if (!Number.isFinite(quote.volume) || quote.volume < 0) {
+      throw new CodedError(ErrorCode.PARSING_ERROR, `Line ${lineNumber}: volume must not be negative`);
+    }
+    return quote;
+  });
+}
+
+/**
+ * Quotes held in memory, matched to facilities by name
+ */
+export class CsvMarketDataProvider implements MarketDataProvider {
+  private readonly quotes: MarketQuote[];
+
+  constructor(csv: string) {
+    this.quotes = parseMarketDataCsv(csv).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  public async getQuotes(facility: string): Promise<MarketQuote[]> {
+    const own = this.quotes.filter(quote => normalizeFacility(quote.facility) === normalizeFacility(facility));
+    return own.length > 0 ? own : this.quotes.filter(quote => quote.facility === GENERIC_FACILITY);
+  }
+}
+
+/**
+ * Latest quote on or before a date
+ */
+export function getQuoteAsOf(quotes: MarketQuote[], date: string): MarketQuote | null {
+  let latest: MarketQuote | null = null;
+  for (const quote of quotes) {
+    if (quote.date <= date && (!latest || quote.date >= latest.date)) latest = quote;
+  }
+  return latest;
+}
+
+/**
+ * Steps through a quote history one date at a time, starting again from the first
+ * quote once the last has been shown, so every run shows the same prices
+ */
+export class MarketDataReplay {
+  private readonly quotes: MarketQuote[];
+  private position = 0;
+
+  constructor(quotes: MarketQuote[]) {
+    this.quotes = [...quotes].sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  public current(): MarketQuote | null {
+    return this.quotes[this.position] ?? null;
+  }
+
+  public advance(): MarketQuote | null {
+    if (this.quotes.length === 0) return null;
+    this.position = (this.position + 1) % this.quotes.length;
+    return this.current();
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for PDF text extraction and DEFLATE decompression
+ */
+
+import * as fc from 'fast-check';
+import { deflateRawSync, deflateSync } from 'zlib';
+import { MAX_INFLATED_BYTES, inflate, inflateRaw } from './inflate';
+import { parsePDF, PDFParseError } from './pdf-parser';
+import { extractPagesFromPDFBuffer, getPageForOffset } from './document-processor';
+
+interface TestObject {
+  dict: string;
+  stream?: Buffer;
+}
+
+/**
+ * Assemble a PDF with a classic xref table from numbered objects
+ */
+function buildPDF(objects: Record<number, TestObject>, trailerExtra: string = ''): Uint8Array {
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  const offsets: Record<number, number> = {};
+  let length = chunks[0].length;
+
+  const numbers = Object.keys(objects).map(Number).sort((a, b) => a - b);
+  for (const num of numbers) {
+    const { dict, stream } = objects[num];
+    offsets[num] = length;
+    const parts = stream
+      ? [Buffer.from(`${num} 0 obj\n${dict.replace('>>', ` /Length ${stream.length} >>`)}\nstream\n`, 'latin1'), stream, Buffer.from('\nendstream\nendobj\n')]
+      : [Buffer.from(`${num} 0 obj\n${dict}\nendobj\n`, 'latin1')];
+    parts.forEach(part => {
+      chunks.push(part);
+      length += part.length;
+    });
+  }
+
+  const size = Math.max(...numbers) + 1;
+  let xref = `xref\n0 ${size}\n0000000000 65535 f \n`;
+  for (let num = 1; num < size; num++) {
+    xref += offsets[num] !== undefined ? `${String(offsets[num]).padStart(10, '0')} 00000 n \n` : '0000000000 65535 f \n';
+  }
+  chunks.push(Buffer.from(`${xref}trailer\n<< /Size ${size} /Root 1 0 R ${trailerExtra}>>\nstartxref\n${length}\n%%EOF\n`, 'latin1'));
+
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+const flate = (content: string) => deflateSync(Buffer.from(content, 'latin1'));
+
+describe('inflate', () => {
+  it('round-trips zlib and raw DEFLATE data', () => {
+    fc.assert(
+      fc.property(fc.uint8Array({ maxLength: 4000 }), fc.integer({ min: 0, max: 9 }), (data, level) => {
+        expect(Buffer.from(inflate(new Uint8Array(deflateSync(data, { level }))))).toEqual(Buffer.from(data));
+        expect(Buffer.from(inflateRaw(new Uint8Array(deflateRawSync(data, { level }))))).toEqual(Buffer.from(data));
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('handles repetitive text that uses back-references', () => {
+    const text = 'The Borrower shall ensure that Leverage does not exceed 4.00:1. '.repeat(500);
+    expect(Buffer.from(inflate(new Uint8Array(deflateSync(text)))).toString()).toBe(text);
+  });
+
+  it('rejects truncated data', () => {
+    const compressed = deflateSync('Facility Agreement '.repeat(100));
+    expect(() => inflate(new Uint8Array(compressed.subarray(0, 10)))).toThrow();
+  });
+
+  it('stops at the output limit and at implausible compression ratios', () => {
+    const text = new Uint8Array(deflateSync('Facility Agreement '.repeat(100)));
+    expect(inflate(text, 1900)).toHaveLength(1900);
+    expect(() => inflate(text, 1899)).toThrow('Inflated data exceeds the 1899 byte limit');
+
+    // 4MB of zeros deflates to a few KB, far beyond any ratio a real document reaches
+    const bomb = new Uint8Array(deflateRawSync(Buffer.alloc(4 * 1024 * 1024)));
+    expect(() => inflateRaw(bomb)).toThrow('Inflated data exceeds');
+    expect(() => inflateRaw(bomb, MAX_INFLATED_BYTES * 2)).toThrow('Inflated data exceeds');
+  });
+});
+
+describe('parsePDF', () => {
+  const font = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+
+  it('reads compressed pages in page tree order rather than object order', () => {
+    const pdf = buildPDF({
+      1: { dict: '<< /Type /Catalog /Pages 2 0 R >>' },
+      // Page 2 is defined first in the file but listed second in /Kids
+      2: { dict: '<< /Type /Pages /Kids [5 0 R 3 0 R] /Count 2 /Resources << /Font << /F1 7 0 R >> >> >>' },
+      3: { dict: '<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>' },
+      4: { dict: '<< /Filter /FlateDecode >>', stream: flate('BT /F1 12 Tf 72 700 Td (Schedule 1 The Original Lenders) Tj ET') },
+      5: { dict: '<< /Type /Page /Parent 2 0 R /Contents 6 0 R >>' },
+      6: {
+        dict: '<< /Filter /FlateDecode >>',
+        stream: flate('BT /F1 12 Tf 72 720 Td (FACILITY AGREEMENT) Tj 0 -14 Td (Borrower: Acme Corporation) Tj ET'),
+      },
+      7: { dict: font },
+    });
+
+    const result = parsePDF(pdf);
+
+    expect(result.pageCount).toBe(2);
+    expect(result.pages[0]).toEqual({ pageNumber: 1, text: 'FACILITY AGREEMENT\nBorrower: Acme Corporation' });
+    expect(result.pages[1].text).toBe('Schedule 1 The Original Lenders');
+  });
+
+  it('joins TJ arrays and treats wide kerning gaps as spaces', () => {
+    const pdf = buildPDF({
+      1: { dict: '<< /Type /Catalog /Pages 2 0 R >>' },
+      2: { dict: '<< /Type /Pages /Kids [3 0 R] /Count 1 >>' },
+      3: { dict: '<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>' },
+      4: {
+        dict: '<< /Filter /FlateDecode >>',
+        stream: flate('BT /F1 10 Tf 1 0 0 1 72 700 Tm [(Mar) 15 (gin) -300 (2.50) -8 (%)] TJ 1 0 0 1 72 680 Tm [(per annum)] TJ ET'),
+      },
+      5: { dict: font },
+    });
+
+    expect(parsePDF(pdf).pages[0].text).toBe('Margin 2.50%\nper annum');
+  });
+
+  it('applies /Differences encodings and escaped literal strings', () => {
+    const pdf = buildPDF({
+      1: { dict: '<< /Type /Catalog /Pages 2 0 R >>' },
+      2: { dict: '<< /Type /Pages /Kids [3 0 R] /Count 1 >>' },
+      3: { dict: '<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>' },
+      4: { dict: '<< /Filter /FlateDecode >>', stream: flate('BT /F1 10 Tf (\\001nancial \\(Covenants\\) \\226 \\002) Tj ET') },
+      5: {
+        dict: '<< /Type /Font /Subtype /Type1 /Encoding << /BaseEncoding /WinAnsiEncoding /Differences [1 /fi /section] >> >>',
+      },
+    });
+
+    expect(parsePDF(pdf).pages[0].text).toBe('financial (Covenants) – §');
+  });
+
+  it('maps two-byte codes through a ToUnicode CMap', () => {
+    const cmap = [
+      '/CIDInit /ProcSet findresource begin',
+      'begincmap',
+      '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+      '2 beginbfchar <0001> <0041> <0002> <0063> endbfchar',
+      '1 beginbfrange <0010> <0012> <006D> endbfrange',
+      'endcmap',
+    ].join('\n');
+
+    const pdf = buildPDF({
+      1: { dict: '<< /Type /Catalog /Pages 2 0 R >>' },
+      2: { dict: '<< /Type /Pages /Kids [3 0 R] /Count 1 >>' },
+      3: { dict: '<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>' },
+      4: { dict: '<< /Filter /FlateDecode >>', stream: flate('BT /F1 10 Tf <00010002000200100011> Tj ET') },
+      5: { dict: '<< /Type /Font /Subtype /Type0 /Encoding /Identity-H /ToUnicode 6 0 R >>' },
+      6: { dict: '<< /Filter /FlateDecode >>', stream: flate(cmap) },
+    });
+
+    expect(parsePDF(pdf).pages[0].text).toBe('Accmn');
+  });
+
+  it('reads pages stored in compressed object streams', () => {
+    const objects = [
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /Font << /F1 6 0 R >> >> >>',
+    ];
+    const header = `2 0 3 ${objects[0].length + 1} `;
+    const objectStream = flate(header + objects.join('\n'));
+
+    const pdf = buildPDF({
+      1: { dict: '<< /Type /Catalog /Pages 2 0 R >>' },
+      4: { dict: '<< /Filter /FlateDecode >>', stream: flate('BT /F1 10 Tf (Termination Date) Tj ET') },
+      5: { dict: `<< /Type /ObjStm /N 2 /First ${header.length} /Filter /FlateDecode >>`, stream: objectStream },
+      6: { dict: font },
+    });
+
+    expect(parsePDF(pdf).pages).toEqual([{ pageNumber: 1, text: 'Termination Date' }]);
+  });
+
+  it('rejects encrypted and non-PDF files', () => {
+    const encrypted = buildPDF(
+      {
+        1: { dict: '<< /Type /Catalog /Pages 2 0 R >>' },
+        2: { dict: '<< /Type /Pages /Kids [] /Count 0 >>' },
+        3: { dict: '<< /Filter /Standard /V 2 >>' },
+      },
+      '/Encrypt 3 0 R '
+    );
+
+    expect(() => parsePDF(encrypted)).toThrow(PDFParseError);
+    expect(() => parsePDF(new Uint8Array(Buffer.from('plain text')))).toThrow('not a PDF');
+  });
+});
+
+describe('extractPagesFromPDFBuffer', () => {
+  it('records where each page starts in the combined text', () => {
+    const font = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>';
+    const pdf = buildPDF({
+      1: { dict: '<< /Type /Catalog /Pages 2 0 R >>' },
+      2: { dict: '<< /Type /Pages /Kids [3 0 R 5 0 R] /Count 2 /Resources << /Font << /F1 7 0 R >> >> >>' },
+      3: { dict: '<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>' },
+      4: { dict: '<< /Filter /FlateDecode >>', stream: flate('BT /F1 12 Tf (Facility Amount: $100,000,000) Tj ET') },
+      5: { dict: '<< /Type /Page /Parent 2 0 R /Contents 6 0 R >>' },
+      6: { dict: '<< /Filter /FlateDecode >>', stream: flate('BT /F1 12 Tf (Margin: 2.50%) Tj ET') },
+      7: { dict: font },
+    });
+
+    const result = extractPagesFromPDFBuffer(pdf);
+
+    expect(result.pageCount).toBe(2);
+    expect(result.text).toBe('Facility Amount: $100,000,000 Margin: 2.50%');
+    expect(getPageForOffset(result.pages, result.text.indexOf('Margin'))).toBe(2);
+    expect(getPageForOffset(result.pages, 0)).toBe(1);
+    expect(result.pages[1].text).toBe(result.text.substring(result.pages[1].startOffset, result.pages[1].endOffset));
+  });
+
+  it('reports image-only PDFs as having no readable text', () => {
+    const pdf = buildPDF({
+      1: { dict: '<< /Type /Catalog /Pages 2 0 R >>' },
+      2: { dict: '<< /Type /Pages /Kids [3 0 R] /Count 1 >>' },
+      3: { dict: '<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>' },
+      4: { dict: '<< /Filter /FlateDecode >>', stream: flate('q 612 0 0 792 0 0 cm /Im1 Do Q') },
+    });
+
+    expect(() => extractPagesFromPDFBuffer(pdf)).toThrow('No readable text found in PDF');
+  });
+});
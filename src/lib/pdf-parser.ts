@@ -0,0 +1,830 @@
+/**
+ * PDF Text Extraction
+ * Parses PDF objects (including compressed object streams), walks the page tree
+ * in reading order and interprets content streams to recover per-page text.
+ *
+ * Supported:
+ * - FlateDecode, ASCIIHexDecode and ASCII85Decode streams
+ * - Tj, TJ, ' and " text operators, with line breaks from the text positioning operators
+ * - Simple font encodings (WinAnsi, MacRoman, Standard, /Differences)
+ * - ToUnicode CMaps, including two-byte (Type0 / Identity-H) fonts
+ * - Form XObjects drawn with Do
+ */
+
+import { inflate } from '@/lib/inflate';
+
+export interface PDFPageText {
+  pageNumber: number;
+  text: string;
+}
+
+export interface ParsedPDF {
+  pages: PDFPageText[];
+  pageCount: number;
+}
+
+export class PDFParseError extends Error {
+  constructor(message: string, public readonly reason: 'encrypted' | 'malformed') {
+    super(message);
+    this.name = 'PDFParseError';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Object model
+// ---------------------------------------------------------------------------
+
+class PDFName {
+  constructor(public readonly name: string) {}
+}
+
+class PDFRef {
+  constructor(public readonly num: number, public readonly gen: number) {}
+}
+
+class PDFString {
+  // Raw bytes, one character per byte
+  constructor(public readonly bytes: string) {}
+}
+
+class PDFKeyword {
+  constructor(public readonly keyword: string) {}
+}
+
+type PDFDict = Map<string, PDFValue>;
+type PDFValue = number | boolean | null | PDFName | PDFRef | PDFString | PDFKeyword | PDFValue[] | PDFDict;
+
+interface PDFObject {
+  value: PDFValue;
+  streamBytes?: Uint8Array;
+}
+
+const isDict = (value: PDFValue | undefined): value is PDFDict => value instanceof Map;
+const nameOf = (value: PDFValue | undefined): string | null => (value instanceof PDFName ? value.name : null);
+
+function bytesToLatin1(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    result += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 8192)));
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Lexer
+// ---------------------------------------------------------------------------
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set(['(', ')', '<', '>', '[', ']', '{', '}', '/', '%']);
+
+class PDFLexer {
+  public position: number;
+
+  constructor(private readonly source: string, start: number = 0) {
+    this.position = start;
+  }
+
+  public get atEnd(): boolean {
+    return this.position >= this.source.length;
+  }
+
+  public skipWhitespace(): void {
+    while (this.position < this.source.length) {
+      const code = this.source.charCodeAt(this.position);
+      if (WHITESPACE.has(code)) {
+        this.position++;
+      } else if (code === 0x25) {
+        // Comment runs to end of line
+        while (this.position < this.source.length && !/[\r\n]/.test(this.source[this.position])) this.position++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  public readValue(): PDFValue | undefined {
+    this.skipWhitespace();
+    if (this.atEnd) return undefined;
+
+    const char = this.source[this.position];
+    if (char === '<' && this.source[this.position + 1] === '<') return this.readDict();
+    if (char === '<') return this.readHexString();
+    if (char === '(') return this.readLiteralString();
+    if (char === '[') return this.readArray();
+    if (char === '/') return this.readName();
+    if (char === ']' || char === '>' || char === ')' || char === '{' || char === '}') {
+      this.position++;
+      return new PDFKeyword(char);
+    }
+
+    const token = this.readRegular();
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      const number = parseFloat(token);
+      if (/^\d+$/.test(token)) {
+        const reference = this.tryReadReference(number);
+        if (reference) return reference;
+      }
+      return number;
+    }
+    if (token === 'true') return true;
+    if (token === 'false') return false;
+    if (token === 'null') return null;
+    return new PDFKeyword(token);
+  }
+
+  private readRegular(): string {
+    const start = this.position;
+    while (this.position < this.source.length) {
+      const char = this.source[this.position];
+      if (WHITESPACE.has(char.charCodeAt(0)) || DELIMITERS.has(char)) break;
+      this.position++;
+    }
+    // Always make progress on unexpected bytes
+    if (this.position === start) this.position++;
+    return this.source.substring(start, this.position);
+  }
+
+  private tryReadReference(num: number): PDFRef | null {
+    const saved = this.position;
+    const match = /^\s+(\d+)\s+R(?=[\s/<>[\]()%]|$)/.exec(this.source.substring(this.position, this.position + 24));
+    if (match) {
+      this.position += match[0].length;
+      return new PDFRef(num, parseInt(match[1], 10));
+    }
+    this.position = saved;
+    return null;
+  }
+
+  private readDict(): PDFDict {
+    this.position += 2;
+    const dict: PDFDict = new Map();
+    for (;;) {
+      this.skipWhitespace();
+      if (this.atEnd) break;
+      if (this.source.startsWith('>>', this.position)) {
+        this.position += 2;
+        break;
+      }
+      const key = this.readValue();
+      if (!(key instanceof PDFName)) continue;
+      const value = this.readValue();
+      if (value === undefined) break;
+      dict.set(key.name, value);
+    }
+    return dict;
+  }
+
+  private readArray(): PDFValue[] {
+    this.position++;
+    const items: PDFValue[] = [];
+    for (;;) {
+      this.skipWhitespace();
+      if (this.atEnd) break;
+      if (this.source[this.position] === ']') {
+        this.position++;
+        break;
+      }
+      const value = this.readValue();
+      if (value === undefined) break;
+      items.push(value);
+    }
+    return items;
+  }
+
+  private readName(): PDFName {
+    this.position++;
+    const raw = this.readRegularAllowEmpty();
+    return new PDFName(raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))));
+  }
+
+  private readRegularAllowEmpty(): string {
+    const start = this.position;
+    while (this.position < this.source.length) {
+      const char = this.source[this.position];
+      if (WHITESPACE.has(char.charCodeAt(0)) || DELIMITERS.has(char)) break;
+      this.position++;
+    }
+    return this.source.substring(start, this.position);
+  }
+
+  private readHexString(): PDFString {
+    this.position++;
+    const end = this.source.indexOf('>', this.position);
+    const stop = end === -1 ? this.source.length : end;
+    let hex = this.source.substring(this.position, stop).replace(/[^0-9a-fA-F]/g, '');
+    this.position = stop + 1;
+    if (hex.length % 2 === 1) hex += '0';
+
+    let bytes = '';
+    for (let i = 0; i < hex.length; i += 2) {
+      bytes += String.fromCharCode(parseInt(hex.substring(i, i + 2), 16));
+    }
+    return new PDFString(bytes);
+  }
+
+  private readLiteralString(): PDFString {
+    this.position++;
+    let depth = 1;
+    let bytes = '';
+
+    while (this.position < this.source.length) {
+      const char = this.source[this.position++];
+      if (char === '\\') {
+        const next = this.source[this.position++];
+        switch (next) {
+          case 'n': bytes += '\n'; break;
+          case 'r': bytes += '\r'; break;
+          case 't': bytes += '\t'; break;
+          case 'b': bytes += '\b'; break;
+          case 'f': bytes += '\f'; break;
+          case '\r':
+            // Line continuation
+            if (this.source[this.position] === '\n') this.position++;
+            break;
+          case '\n':
+            break;
+          default:
+            if (next !== undefined && /[0-7]/.test(next)) {
+              let octal = next;
+              while (octal.length < 3 && /[0-7]/.test(this.source[this.position] || '')) {
+                octal += this.source[this.position++];
+              }
+              bytes += String.fromCharCode(parseInt(octal, 8) & 0xff);
+            } else if (next !== undefined) {
+              bytes += next;
+            }
+        }
+      } else if (char === '(') {
+        depth++;
+        bytes += char;
+      } else if (char === ')') {
+        depth--;
+        if (depth === 0) break;
+        bytes += char;
+      } else {
+        bytes += char;
+      }
+    }
+
+    return new PDFString(bytes);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Stream filters
+// ---------------------------------------------------------------------------
+
+function decodeASCIIHex(data: Uint8Array): Uint8Array {
+  const text = bytesToLatin1(data);
+  const end = text.indexOf('>');
+  let hex = (end === -1 ? text : text.substring(0, end)).replace(/[^0-9a-fA-F]/g, '');
+  if (hex.length % 2 === 1) hex += '0';
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  return bytes;
+}
+
+function decodeASCII85(data: Uint8Array): Uint8Array {
+  const text = bytesToLatin1(data).replace(/^\s*<~/, '');
+  const end = text.indexOf('~>');
+  const body = (end === -1 ? text : text.substring(0, end)).replace(/\s/g, '');
+  const output: number[] = [];
+  let group: number[] = [];
+
+  const flush = (count: number) => {
+    while (group.length < 5) group.push(84);
+    let value = 0;
+    for (const digit of group) value = value * 85 + digit;
+    const bytes = [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+    output.push(...bytes.slice(0, count));
+    group = [];
+  };
+
+  for (const char of body) {
+    if (char === 'z' && group.length === 0) {
+      output.push(0, 0, 0, 0);
+      continue;
+    }
+    const digit = char.charCodeAt(0) - 33;
+    if (digit < 0 || digit > 84) continue;
+    group.push(digit);
+    if (group.length === 5) flush(4);
+  }
+  if (group.length > 1) flush(group.length - 1);
+
+  return new Uint8Array(output);
+}
+
+// ---------------------------------------------------------------------------
+// Font encodings
+// ---------------------------------------------------------------------------
+
+// Windows-1252 characters in 0x80-0x9F; the rest of WinAnsi matches Latin-1
+const WIN_ANSI_HIGH: Record<number, string> = {
+  0x80: '€', 0x82: '‚', 0x83: 'ƒ', 0x84: '„', 0x85: '…', 0x86: '†', 0x87: '‡', 0x88: 'ˆ', 0x89: '‰',
+  0x8a: 'Š', 0x8b: '‹', 0x8c: 'Œ', 0x8e: 'Ž', 0x91: '‘', 0x92: '’', 0x93: '“', 0x94: '”', 0x95: '•',
+  0x96: '–', 0x97: '—', 0x98: '˜', 0x99: '™', 0x9a: 'š', 0x9b: '›', 0x9c: 'œ', 0x9e: 'ž', 0x9f: 'Ÿ',
+};
+
+const MAC_ROMAN_HIGH =
+  'ÄÅÇÉÑÖÜáàâäãåçéèêëíìîïñóòôöõúùûü†°¢£§•¶ß®©™´¨≠ÆØ∞±≤≥¥µ∂∑∏π∫ªºΩæø' +
+  '¿¡¬√ƒ≈∆«»… ÀÃÕŒœ–—“”‘’÷◊ÿŸ⁄€‹›ﬁﬂ‡·‚„‰ÂÊÁËÈÍÎÏÌÓÔÒÚÛÙıˆ˜¯˘˙˚¸˝˛ˇ';
+
+function buildBaseEncoding(name: string | null): string[] {
+  const table: string[] = [];
+  for (let code = 0; code < 256; code++) {
+    if (name === 'MacRomanEncoding' && code >= 0x80) {
+      table[code] = MAC_ROMAN_HIGH[code - 0x80] || '';
+    } else if (code >= 0x80 && code <= 0x9f) {
+      table[code] = WIN_ANSI_HIGH[code] || '';
+    } else {
+      table[code] = code >= 0x20 ? String.fromCharCode(code) : '';
+    }
+  }
+  if (name === 'StandardEncoding') {
+    table[0x27] = '’';
+    table[0x60] = '‘';
+  }
+  return table;
+}
+
+// Glyph names commonly found in /Differences arrays
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%', ampersand: '&',
+  quotesingle: "'", quoteright: '’', quoteleft: '‘', parenleft: '(', parenright: ')', asterisk: '*',
+  plus: '+', comma: ',', hyphen: '-', minus: '−', period: '.', slash: '/', colon: ':', semicolon: ';',
+  less: '<', equal: '=', greater: '>', question: '?', at: '@', bracketleft: '[', backslash: '\\',
+  bracketright: ']', asciicircum: '^', underscore: '_', grave: '`', braceleft: '{', bar: '|',
+  braceright: '}', asciitilde: '~', bullet: '•', endash: '–', emdash: '—', quotedblleft: '“',
+  quotedblright: '”', quotedblbase: '„', quotesinglbase: '‚', ellipsis: '…', section: '§',
+  paragraph: '¶', copyright: '©', registered: '®', trademark: '™', degree: '°', Euro: '€',
+  sterling: '£', yen: '¥', cent: '¢', fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl',
+  nbspace: ' ', dagger: '†', daggerdbl: '‡', periodcentered: '·', multiply: '×', divide: '÷',
+  zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7', eight: '8', nine: '9',
+};
+
+function glyphNameToUnicode(name: string): string {
+  if (GLYPH_NAMES[name] !== undefined) return GLYPH_NAMES[name];
+  if (/^[A-Za-z]$/.test(name)) return name;
+  const uni = /^uni([0-9A-Fa-f]{4,})$/.exec(name) || /^u([0-9A-Fa-f]{4,6})$/.exec(name);
+  if (uni) return String.fromCodePoint(parseInt(uni[1].substring(0, 6), 16));
+  // Suffixed variants such as "a.sc" or "one.oldstyle"
+  const base = name.split(/[._]/)[0];
+  return base !== name ? glyphNameToUnicode(base) : '';
+}
+
+function decodeUTF16BE(bytes: string): string {
+  let result = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    result += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+  }
+  return result;
+}
+
+interface FontDecoder {
+  bytesPerCode: 1 | 2;
+  decode(bytes: string): string;
+}
+
+function parseToUnicodeCMap(cmap: string): { map: Map<number, string>; bytesPerCode: 1 | 2 } {
+  const map = new Map<number, string>();
+  let bytesPerCode: 1 | 2 = 1;
+  const hex = (value: string) => value.replace(/[<>\s]/g, '');
+  const hexToString = (value: string) => {
+    let bytes = '';
+    const clean = hex(value);
+    for (let i = 0; i < clean.length; i += 2) bytes += String.fromCharCode(parseInt(clean.substring(i, i + 2), 16));
+    return clean.length <= 2 ? bytes : decodeUTF16BE(bytes);
+  };
+
+  const codespace = /begincodespacerange([\s\S]*?)endcodespacerange/.exec(cmap);
+  if (codespace && /<[0-9a-fA-F]{4}>/.test(codespace[1])) bytesPerCode = 2;
+
+  for (const block of Array.from(cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g))) {
+    for (const entry of Array.from(block[1].matchAll(/<([0-9a-fA-F\s]+)>\s*<([0-9a-fA-F\s]*)>/g))) {
+      if (hex(entry[1]).length >= 4) bytesPerCode = 2;
+      map.set(parseInt(hex(entry[1]), 16), hexToString(entry[2]));
+    }
+  }
+
+  for (const block of Array.from(cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g))) {
+    const rangePattern = /<([0-9a-fA-F\s]+)>\s*<([0-9a-fA-F\s]+)>\s*(<[0-9a-fA-F\s]*>|\[[^\]]*\])/g;
+    for (const entry of Array.from(block[1].matchAll(rangePattern))) {
+      if (hex(entry[1]).length >= 4) bytesPerCode = 2;
+      const low = parseInt(hex(entry[1]), 16);
+      const high = parseInt(hex(entry[2]), 16);
+      if (high - low > 0xffff) continue;
+
+      if (entry[3].startsWith('[')) {
+        const targets = Array.from(entry[3].matchAll(/<([0-9a-fA-F\s]*)>/g));
+        targets.forEach((target, index) => map.set(low + index, hexToString(target[1])));
+      } else {
+        const start = hexToString(entry[3]);
+        const lastCode = start.charCodeAt(start.length - 1);
+        for (let code = low; code <= high; code++) {
+          map.set(code, start.substring(0, start.length - 1) + String.fromCharCode(lastCode + (code - low)));
+        }
+      }
+    }
+  }
+
+  return { map, bytesPerCode };
+}
+
+// ---------------------------------------------------------------------------
+// Document
+// ---------------------------------------------------------------------------
+
+class PDFDocumentReader {
+  private objects = new Map<number, PDFObject>();
+  private trailer: PDFDict = new Map();
+  private fontCache = new Map<PDFValue, FontDecoder>();
+
+  constructor(private readonly bytes: Uint8Array) {
+    const source = bytesToLatin1(bytes);
+    this.readObjects(source);
+    this.readObjectStreams();
+    this.readTrailer(source);
+  }
+
+  public get isEncrypted(): boolean {
+    return this.trailer.has('Encrypt');
+  }
+
+  public getPages(): PDFDict[] {
+    const root = this.resolve(this.trailer.get('Root'));
+    const pages: PDFDict[] = [];
+
+    if (isDict(root)) {
+      this.collectPages(this.resolve(root.get('Pages')), null, pages, new Set());
+    }
+
+    // Fall back to every page object in file order when the tree is unusable
+    if (pages.length === 0) {
+      this.objects.forEach(object => {
+        if (isDict(object.value) && nameOf(object.value.get('Type')) === 'Page') pages.push(object.value);
+      });
+    }
+    return pages;
+  }
+
+  public extractPageText(page: PDFDict): string {
+    const contents = this.resolve(page.get('Contents'));
+    const parts = Array.isArray(contents) ? contents : [page.get('Contents')];
+
+    // Content arrays are concatenated before interpretation
+    const streams = parts
+      .map(part => this.getStreamData(part))
+      .filter((data): data is Uint8Array => data !== null)
+      .map(bytesToLatin1);
+
+    const resources = this.resolve(page.get('Resources'));
+    return this.interpretContent(streams.join('\n'), isDict(resources) ? resources : new Map(), 0);
+  }
+
+  public resolve(value: PDFValue | undefined, depth: number = 0): PDFValue | undefined {
+    if (value instanceof PDFRef && depth < 16) {
+      return this.resolve(this.objects.get(value.num)?.value, depth + 1);
+    }
+    return value;
+  }
+
+  private readObjects(source: string): void {
+    const objectPattern = /(\d+)\s+(\d+)\s+obj\b/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = objectPattern.exec(source)) !== null) {
+      const lexer = new PDFLexer(source, match.index + match[0].length);
+      const value = lexer.readValue();
+      if (value === undefined) continue;
+
+      const object: PDFObject = { value };
+      lexer.skipWhitespace();
+      if (isDict(value) && source.startsWith('stream', lexer.position)) {
+        let start = lexer.position + 'stream'.length;
+        if (source[start] === '\r') start++;
+        if (source[start] === '\n') start++;
+
+        const declaredLength = value.get('Length');
+        let end = typeof declaredLength === 'number' ? start + declaredLength : -1;
+        if (end < start || !/^\s*endstream/.test(source.substring(end, end + 20))) {
+          end = source.indexOf('endstream', start);
+          if (end === -1) end = source.length;
+          // Drop the end-of-line marker preceding "endstream"
+          if (source[end - 1] === '\n') end--;
+          if (source[end - 1] === '\r') end--;
+        }
+
+        object.streamBytes = this.bytes.subarray(start, end);
+        objectPattern.lastIndex = end;
+      } else {
+        objectPattern.lastIndex = Math.max(objectPattern.lastIndex, lexer.position);
+      }
+
+      // Later definitions win, as in incremental updates
+      this.objects.set(parseInt(match[1], 10), object);
+    }
+  }
+
+  private readObjectStreams(): void {
+    const objectStreams = Array.from(this.objects.values()).filter(
+      object => isDict(object.value) && nameOf(object.value.get('Type')) === 'ObjStm'
+    );
+
+    for (const objectStream of objectStreams) {
+      const dict = objectStream.value as PDFDict;
+      const data = this.decodeStream(dict, objectStream.streamBytes);
+      if (!data) continue;
+
+      const source = bytesToLatin1(data);
+      const count = this.resolve(dict.get('N'));
+      const first = this.resolve(dict.get('First'));
+      if (typeof count !== 'number' || typeof first !== 'number') continue;
+
+      const header = new PDFLexer(source);
+      for (let i = 0; i < count; i++) {
+        const num = header.readValue();
+        const offset = header.readValue();
+        if (typeof num !== 'number' || typeof offset !== 'number') break;
+        if (this.objects.has(num)) continue;
+
+        const value = new PDFLexer(source, first + offset).readValue();
+        if (value !== undefined) this.objects.set(num, { value });
+      }
+    }
+  }
+
+  private readTrailer(source: string): void {
+    const trailerIndex = source.lastIndexOf('trailer');
+    if (trailerIndex !== -1) {
+      const value = new PDFLexer(source, trailerIndex + 'trailer'.length).readValue();
+      if (isDict(value)) this.trailer = value;
+    }
+
+    // Cross-reference streams carry the trailer entries in their dictionary
+    if (!this.trailer.has('Root')) {
+      this.objects.forEach(object => {
+        if (isDict(object.value) && nameOf(object.value.get('Type')) === 'XRef' && object.value.has('Root')) {
+          this.trailer = object.value;
+        }
+      });
+    }
+
+    if (!this.trailer.has('Root')) {
+      this.objects.forEach((object, num) => {
+        if (isDict(object.value) && nameOf(object.value.get('Type')) === 'Catalog') {
+          this.trailer.set('Root', new PDFRef(num, 0));
+        }
+      });
+    }
+  }
+
+  private collectPages(node: PDFValue | undefined, inheritedResources: PDFValue | undefined, pages: PDFDict[], visited: Set<PDFDict>): void {
+    if (!isDict(node) || visited.has(node)) return;
+    visited.add(node);
+
+    const resources = node.get('Resources') ?? inheritedResources;
+    const kids = this.resolve(node.get('Kids'));
+
+    if (Array.isArray(kids)) {
+      kids.forEach(kid => this.collectPages(this.resolve(kid), resources, pages, visited));
+    } else if (nameOf(node.get('Type')) !== 'Pages') {
+      if (!node.has('Resources') && resources !== undefined) node.set('Resources', resources);
+      pages.push(node);
+    }
+  }
+
+  private getStreamData(value: PDFValue | undefined): Uint8Array | null {
+    if (!(value instanceof PDFRef)) return null;
+    const object = this.objects.get(value.num);
+    if (!object || !isDict(object.value)) return null;
+    return this.decodeStream(object.value, object.streamBytes);
+  }
+
+  private decodeStream(dict: PDFDict, raw: Uint8Array | undefined): Uint8Array | null {
+    if (!raw) return null;
+    const filter = this.resolve(dict.get('Filter'));
+    const filters = (Array.isArray(filter) ? filter : filter === undefined ? [] : [filter]).map(item => nameOf(this.resolve(item)));
+
+    let data = raw;
+    try {
+      for (const name of filters) {
+        if (name === 'FlateDecode' || name === 'Fl') {
+          data = inflate(data);
+        } else if (name === 'ASCIIHexDecode' || name === 'AHx') {
+          data = decodeASCIIHex(data);
+        } else if (name === 'ASCII85Decode' || name === 'A85') {
+          data = decodeASCII85(data);
+        } else {
+          // Image and LZW filters carry no text we can read
+          return null;
+        }
+      }
+    } catch {
+      return null;
+    }
+    return data;
+  }
+
+  private getFont(fontRef: PDFValue | undefined): FontDecoder {
+    const cached = fontRef !== undefined ? this.fontCache.get(fontRef) : undefined;
+    if (cached) return cached;
+
+    const font = this.resolve(fontRef);
+    const decoder = this.buildFontDecoder(isDict(font) ? font : new Map());
+    if (fontRef !== undefined) this.fontCache.set(fontRef, decoder);
+    return decoder;
+  }
+
+  private buildFontDecoder(font: PDFDict): FontDecoder {
+    const toUnicodeData = this.getStreamData(font.get('ToUnicode'));
+    const cmap = toUnicodeData ? parseToUnicodeCMap(bytesToLatin1(toUnicodeData)) : null;
+    const isType0 = nameOf(font.get('Subtype')) === 'Type0';
+    const bytesPerCode: 1 | 2 = isType0 || cmap?.bytesPerCode === 2 ? 2 : 1;
+
+    const encoding = this.resolve(font.get('Encoding'));
+    const baseName = isDict(encoding) ? nameOf(this.resolve(encoding.get('BaseEncoding'))) : nameOf(encoding);
+    const table = buildBaseEncoding(baseName);
+
+    if (isDict(encoding)) {
+      const differences = this.resolve(encoding.get('Differences'));
+      if (Array.isArray(differences)) {
+        let code = 0;
+        for (const item of differences) {
+          if (typeof item === 'number') {
+            code = item;
+          } else if (item instanceof PDFName && code < 256) {
+            table[code++] = glyphNameToUnicode(item.name);
+          }
+        }
+      }
+    }
+
+    return {
+      bytesPerCode,
+      decode: (bytes: string) => {
+        let text = '';
+        for (let i = 0; i < bytes.length; i += bytesPerCode) {
+          const code = bytesPerCode === 2
+            ? (bytes.charCodeAt(i) << 8) | (bytes.charCodeAt(i + 1) || 0)
+            : bytes.charCodeAt(i);
+          const mapped = cmap?.map.get(code);
+          if (mapped !== undefined) {
+            text += mapped;
+          } else if (bytesPerCode === 1) {
+            text += table[code] ?? '';
+          } else if (code >= 0x20) {
+            text += String.fromCharCode(code);
+          }
+        }
+        return text;
+      },
+    };
+  }
+
+  private interpretContent(content: string, resources: PDFDict, depth: number): string {
+    const lexer = new PDFLexer(content);
+    const fonts = this.resolve(resources.get('Font'));
+    const xObjects = this.resolve(resources.get('XObject'));
+
+    let operands: PDFValue[] = [];
+    let font: FontDecoder = this.getFont(undefined);
+    let output = '';
+    let lineY: number | null = null;
+
+    const newLine = () => {
+      if (output.length > 0 && !output.endsWith('\n')) output += '\n';
+    };
+    const space = () => {
+      if (output.length > 0 && !/\s$/.test(output)) output += ' ';
+    };
+    const show = (value: PDFValue) => {
+      if (value instanceof PDFString) output += font.decode(value.bytes);
+    };
+
+    while (!lexer.atEnd) {
+      const token = lexer.readValue();
+      if (token === undefined) break;
+      if (!(token instanceof PDFKeyword)) {
+        operands.push(token);
+        continue;
+      }
+
+      switch (token.keyword) {
+        case 'Tf': {
+          const fontName = nameOf(operands[0]);
+          font = this.getFont(fontName && isDict(fonts) ? fonts.get(fontName) : undefined);
+          break;
+        }
+        case 'Tj':
+          show(operands[operands.length - 1]);
+          break;
+        case "'":
+          newLine();
+          show(operands[operands.length - 1]);
+          break;
+        case '"':
+          newLine();
+          show(operands[operands.length - 1]);
+          break;
+        case 'TJ': {
+          const items = operands[operands.length - 1];
+          if (Array.isArray(items)) {
+            for (const item of items) {
+              // Large negative adjustments are word gaps
+              if (typeof item === 'number') {
+                if (item < -200) space();
+              } else {
+                show(item);
+              }
+            }
+          }
+          break;
+        }
+        case 'Td':
+        case 'TD': {
+          const ty = operands[1];
+          if (typeof ty === 'number' && Math.abs(ty) > 0.01) {
+            newLine();
+            if (lineY !== null) lineY += ty;
+          } else {
+            space();
+          }
+          break;
+        }
+        case 'T*':
+          newLine();
+          break;
+        case 'Tm': {
+          const y = operands[5];
+          if (typeof y === 'number') {
+            if (lineY === null || Math.abs(y - lineY) > 0.01) newLine();
+            else space();
+            lineY = y;
+          }
+          break;
+        }
+        case 'ET':
+          space();
+          break;
+        case 'Do': {
+          const name = nameOf(operands[0]);
+          const xObjectRef = name && isDict(xObjects) ? xObjects.get(name) : undefined;
+          const xObject = xObjectRef instanceof PDFRef ? this.objects.get(xObjectRef.num) : undefined;
+          if (xObject && isDict(xObject.value) && nameOf(xObject.value.get('Subtype')) === 'Form' && depth < 3) {
+            const data = this.decodeStream(xObject.value, xObject.streamBytes);
+            const formResources = this.resolve(xObject.value.get('Resources'));
+            if (data) {
+              newLine();
+              output += this.interpretContent(bytesToLatin1(data), isDict(formResources) ? formResources : resources, depth + 1);
+              newLine();
+            }
+          }
+          break;
+        }
+        case 'BI': {
+          // Skip inline image data
+          const end = content.indexOf('EI', lexer.position);
+          lexer.position = end === -1 ? content.length : end + 2;
+          break;
+        }
+      }
+      operands = [];
+    }
+
+    return output;
+  }
+}
+
+/**
+ * Normalize the text of a single page
+ */
+function normalizePageText(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t ]+/g, ' ').trim())
+    .filter(line => line.length > 0)
+    .join('\n');
+}
+
+/**
+ * Parse a PDF file and return the text of every page in reading order
+ */
+export function parsePDF(bytes: Uint8Array): ParsedPDF {
+  if (bytesToLatin1(bytes.subarray(0, 1024)).indexOf('%PDF-') === -1) {
+    throw new PDFParseError('File is not a PDF document', 'malformed');
+  }
+
+  const reader = new PDFDocumentReader(bytes);
+  if (reader.isEncrypted) {
+    throw new PDFParseError('PDF is encrypted and cannot be read', 'encrypted');
+  }
+
+  const pages = reader.getPages().map((page, index) => ({
+    pageNumber: index + 1,
+    text: normalizePageText(reader.extractPageText(page)),
+  }));
+
+  return { pages, pageCount: pages.length };
+}
+
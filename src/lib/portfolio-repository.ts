@@ -0,0 +1,95 @@
+/**
+ * Loan Portfolio Repository
+ * Storage-agnostic contract for keeping many loans and their workflow state
+ */
+
+import {
+  PortfolioLoanInput,
+  PortfolioLoanRecord,
+  PortfolioLoanSummary,
+  getTotalFacilityAmount,
+} from '@/types';
+import { CodedError, ErrorCode } from '@/lib/enterprise-errors';
+
+export interface PortfolioRepository {
+  create(input: PortfolioLoanInput): Promise<PortfolioLoanRecord>;
+  get(id: string): Promise<PortfolioLoanRecord | null>;
+  update(id: string, changes: Partial<PortfolioLoanInput>): Promise<PortfolioLoanRecord>;
+  list(): Promise<PortfolioLoanSummary[]>;
+}
+
+export function generateLoanId(): string {
+  return `loan_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export function summarizeLoanRecord(record: PortfolioLoanRecord): PortfolioLoanSummary {
+  return {
+    id: record.id,
+    borrowerName: record.loan.borrowerName,
+    facilityAmount: getTotalFacilityAmount(record.loan),
+    currency: record.loan.currency,
+    isVerified: record.verificationStatus.isVerified,
+    isInDefault: record.riskStatus.isInDefault,
+    updatedAt: record.updatedAt,
+  };
+}
+
+/**
+ * Restore Date fields after a JSON round trip
+ */
+export function reviveLoanRecord(record: PortfolioLoanRecord): PortfolioLoanRecord {
+  const { verificationTimestamp } = record.verificationStatus;
+  const { lastTradeTimestamp } = record.tradingStatus;
+
+  return {
+    ...record,
+    verificationStatus: {
+      ...record.verificationStatus,
+      verificationTimestamp: verificationTimestamp ? new Date(verificationTimestamp) : null,
+    },
+    tradingStatus: {
+      ...record.tradingStatus,
+      lastTradeTimestamp: lastTradeTimestamp ? new Date(lastTradeTimestamp) : null,
+    },
+  };
+}
+
+/**
+ * Most recently updated loans first
+ */
+export function sortSummaries(summaries: PortfolioLoanSummary[]): PortfolioLoanSummary[] {
+  return [...summaries].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Volatile repository for tests and sessions without a store
+ */
+export class InMemoryPortfolioRepository implements PortfolioRepository {
+  private records = new Map<string, PortfolioLoanRecord>();
+
+  public async create(input: PortfolioLoanInput): Promise<PortfolioLoanRecord> {
+    const now = new Date().toISOString();
+    const record: PortfolioLoanRecord = { ...input, id: generateLoanId(), createdAt: now, updatedAt: now };
+    this.records.set(record.id, record);
+    return record;
+  }
+
+  public async get(id: string): Promise<PortfolioLoanRecord | null> {
+    return this.records.get(id) || null;
+  }
+
+  public async update(id: string, changes: Partial<PortfolioLoanInput>): Promise<PortfolioLoanRecord> {
+    const existing = this.records.get(id);
+    if (!existing) {
+      throw new CodedError(ErrorCode.LOAN_NOT_FOUND, `Loan ${id} not found`);
+    }
+
+    const record: PortfolioLoanRecord = { ...existing, ...changes, id, updatedAt: new Date().toISOString() };
+    this.records.set(id, record);
+    return record;
+  }
+
+  public async list(): Promise<PortfolioLoanSummary[]> {
+    return sortSummaries(Array.from(this.records.values()).map(summarizeLoanRecord));
+  }
+}
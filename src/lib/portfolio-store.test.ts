@@ -0,0 +1,115 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the file-backed loan portfolio store
+ */
+
+import { mkdtempSync, rmSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PortfolioLoanInput } from '@/types';
+import { ErrorCode } from './enterprise-errors';
+import { JsonPortfolioStore } from './portfolio-store';
+
+const buildInput = (borrowerName: string): PortfolioLoanInput => ({
+  loan: {
+    borrowerName,
+    facilityAmount: 100000000,
+    currency: 'USD',
+    interestRateMargin: 2.5,
+    leverageCovenant: 4.0,
+    esgTarget: 'Reduce emissions',
+  },
+  verificationStatus: { isVerified: true, isLocked: true, verificationTimestamp: new Date('2026-03-31T10:00:00Z') },
+  esgStatus: { target: 'Reduce emissions', discountApplied: false, verificationUploaded: false },
+  riskStatus: {
+    currentLeverage: 3.2,
+    isInDefault: false,
+    warningLevel: 'safe',
+    covenantStatuses: [],
+    lastCovenantTestDate: null,
+  },
+  tradingStatus: {
+    lenderAllocations: [{ lenderName: 'Bank A', amount: 100000000, percentage: 100 }],
+    totalFacilityAmount: 100000000,
+    lastTradeTimestamp: null,
+    settlementStatus: 'instant',
+  },
+});
+
+describe('JsonPortfolioStore', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'portfolio-store-'));
+    filePath = join(directory, 'portfolio.json');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('starts empty when no store file exists', async () => {
+    const store = new JsonPortfolioStore(filePath);
+
+    expect(await store.list()).toEqual([]);
+    expect(await store.get('missing')).toBeNull();
+  });
+
+  it('persists loans across store instances', async () => {
+    const created = await new JsonPortfolioStore(filePath).create(buildInput('Acme Corp'));
+
+    const reopened = new JsonPortfolioStore(filePath);
+    const loaded = await reopened.get(created.id);
+
+    expect(loaded?.loan.borrowerName).toBe('Acme Corp');
+    expect(loaded?.verificationStatus.verificationTimestamp).toEqual(new Date('2026-03-31T10:00:00Z'));
+    expect(JSON.parse(readFileSync(filePath, 'utf8')).loans[created.id]).toBeDefined();
+  });
+
+  it('updates state and lists most recently updated first', async () => {
+    const store = new JsonPortfolioStore(filePath);
+    const first = await store.create(buildInput('First Borrower'));
+    await store.create(buildInput('Second Borrower'));
+
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const updated = await store.update(first.id, {
+      riskStatus: { ...buildInput('First Borrower').riskStatus, currentLeverage: 5.1, isInDefault: true, warningLevel: 'breach' },
+    });
+
+    expect(updated.riskStatus.isInDefault).toBe(true);
+    expect(updated.createdAt).toBe(first.createdAt);
+
+    const summaries = await store.list();
+    expect(summaries.map(summary => summary.borrowerName)).toEqual(['First Borrower', 'Second Borrower']);
+    expect(summaries[0]).toMatchObject({ id: first.id, isInDefault: true, isVerified: true, facilityAmount: 100000000 });
+  });
+
+  it('creates every loan when writes overlap', async () => {
+    const store = new JsonPortfolioStore(filePath);
+    await Promise.all(['A', 'B', 'C', 'D'].map(name => store.create(buildInput(`Borrower ${name}`))));
+
+    expect(await store.list()).toHaveLength(4);
+  });
+
+  it('applies overlapping modifications to the latest record', async () => {
+    const store = new JsonPortfolioStore(filePath);
+    const created = await store.create(buildInput('Acme Corp'));
+    const bump = () => store.modify(created.id, record => ({
+      riskStatus: { ...record.riskStatus, currentLeverage: record.riskStatus.currentLeverage + 1 },
+    }));
+
+    await Promise.all([bump(), bump(), bump()]);
+
+    expect((await store.get(created.id))?.riskStatus.currentLeverage).toBeCloseTo(created.riskStatus.currentLeverage + 3);
+  });
+
+  it('rejects updates to unknown loans', async () => {
+    const store = new JsonPortfolioStore(filePath);
+
+    await expect(store.update('loan_missing', {})).rejects.toMatchObject({ code: ErrorCode.LOAN_NOT_FOUND });
+  });
+});
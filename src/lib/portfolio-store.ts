@@ -0,0 +1,130 @@
+/**
+ * File-backed Loan Portfolio Store
+ * JSON document store that works offline; server-side only
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PortfolioLoanInput, PortfolioLoanRecord, PortfolioLoanSummary } from '@/types';
+import { CodedError, ErrorCode } from '@/lib/enterprise-errors';
+import {
+  PortfolioRepository,
+  generateLoanId,
+  reviveLoanRecord,
+  sortSummaries,
+  summarizeLoanRecord,
+} from '@/lib/portfolio-repository';
+
+interface PortfolioFile {
+  version: number;
+  loans: Record<string, PortfolioLoanRecord>;
+}
+
+const STORE_VERSION = 1;
+
+export class JsonPortfolioStore implements PortfolioRepository {
+  // Serializes read-modify-write cycles within this process
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  public async create(input: PortfolioLoanInput): Promise<PortfolioLoanRecord> {
+    return this.mutate(file => {
+      const now = new Date().toISOString();
+      const record: PortfolioLoanRecord = { ...input, id: generateLoanId(), createdAt: now, updatedAt: now };
+      file.loans[record.id] = record;
+      return record;
+    });
+  }
+
+  public async get(id: string): Promise<PortfolioLoanRecord | null> {
+    const file = await this.read();
+    const record = file.loans[id];
+    return record ? reviveLoanRecord(record) : null;
+  }
+
+  public async update(id: string, changes: Partial<PortfolioLoanInput>): Promise<PortfolioLoanRecord> {
+    return this.modify(id, () => changes);
+  }
+
+  /**
+   * Read, change and write a loan inside the write queue so concurrent
+   * requests never apply their changes to the same stale record
+   */
+  public async modify(
+    id: string,
+    change: (record: PortfolioLoanRecord) => Partial<PortfolioLoanInput>
+  ): Promise<PortfolioLoanRecord> {
+    return this.mutate(file => {
+      const existing = file.loans[id];
+      if (!existing) {
+        throw new CodedError(ErrorCode.LOAN_NOT_FOUND, `Loan ${id} not found`);
+      }
+
+      const changes = change(reviveLoanRecord(existing));
+      const record: PortfolioLoanRecord = { ...existing, ...changes, id, updatedAt: new Date().toISOString() };
+      file.loans[id] = record;
+      return record;
+    });
+  }
+
+  public async list(): Promise<PortfolioLoanSummary[]> {
+    const file = await this.read();
+    return sortSummaries(Object.values(file.loans).map(summarizeLoanRecord));
+  }
+
+  private async read(): Promise<PortfolioFile> {
+    try {
+      const contents = await fs.readFile(this.filePath, 'utf8');
+      const parsed = JSON.parse(contents) as PortfolioFile;
+      return { version: parsed.version || STORE_VERSION, loans: parsed.loans || {} };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { version: STORE_VERSION, loans: {} };
+      }
+      throw new CodedError(
+        ErrorCode.STORAGE_ERROR,
+        `Failed to read portfolio store: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private async write(file: PortfolioFile): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      // Write to a temporary file first so a crash never leaves a truncated store
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(file, null, 2), 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    } catch (error) {
+      throw new CodedError(
+        ErrorCode.STORAGE_ERROR,
+        `Failed to write portfolio store: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private mutate(change: (file: PortfolioFile) => PortfolioLoanRecord): Promise<PortfolioLoanRecord> {
+    const operation = this.writeQueue.then(async () => {
+      const file = await this.read();
+      const record = change(file);
+      await this.write(file);
+      return reviveLoanRecord(record);
+    });
+    this.writeQueue = operation.catch(() => undefined);
+    return operation;
+  }
+}
+
+let portfolioStore: JsonPortfolioStore | null = null;
+
+/**
+ * Shared store; location can be overridden with PORTFOLIO_STORE_PATH
+ */
+export function getPortfolioStore(): JsonPortfolioStore {
+  if (!portfolioStore) {
+    const filePath = process.env.PORTFOLIO_STORE_PATH || path.join(process.cwd(), 'data', 'portfolio.json');
+    portfolioStore = new JsonPortfolioStore(filePath);
+  }
+  return portfolioStore;
+}
@@ -0,0 +1,45 @@
+/**
+ * File-backed Reference Rates
+ * Reads reference rate fixings from a local CSV file; server-side only
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CodedError, ErrorCode } from '@/lib/enterprise-errors';
+import { ReferenceRateFixing, ReferenceRateProvider, parseReferenceRatesCsv } from '@/lib/reference-rates';
+
+export class FileReferenceRateProvider implements ReferenceRateProvider {
+  private loaded: Promise<ReferenceRateFixing[]> | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  // The file is read once; a missing file means no fixings rather than an error
+  public getFixings(): Promise<ReferenceRateFixing[]> {
+    if (!this.loaded) {
+      this.loaded = fs.readFile(this.filePath, 'utf8').then(
+        contents => parseReferenceRatesCsv(contents),
+        (error: NodeJS.ErrnoException) => {
+          if (error.code === 'ENOENT') return [];
+          throw new CodedError(ErrorCode.STORAGE_ERROR, `Failed to read reference rates: ${error.message}`);
+        }
+      );
+      this.loaded.catch(() => {
+        this.loaded = null;
+      });
+    }
+    return this.loaded;
+  }
+}
+
+let referenceRateProvider: FileReferenceRateProvider | null = null;
+
+/**
+ * Shared provider; the fixings file can be overridden with REFERENCE_RATES_PATH
+ */
+export function getReferenceRateProvider(): FileReferenceRateProvider {
+  if (!referenceRateProvider) {
+    const filePath = process.env.REFERENCE_RATES_PATH || path.join(process.cwd(), 'sample-documents', 'reference-rates.csv');
+    referenceRateProvider = new FileReferenceRateProvider(filePath);
+  }
+  return referenceRateProvider;
+}
@@ -0,0 +1,149 @@
+/**
+ * Reference Rates
+ * Provider contract for reference rate fixings (SOFR, SONIA, EURIBOR and others),
+ * the curve they form and the rate conventions of each loan currency
+ */
+
+import { CodedError, ErrorCode } from '@/lib/enterprise-errors';
+
+export type RateMode = 'compounded_in_arrears' | 'term';
+
+export type DayCountConvention = 'ACT/360' | 'ACT/365';
+
+export const DAY_COUNT_BASIS: Record<DayCountConvention, number> = {
+  'ACT/360': 360,
+  'ACT/365': 365,
+};
+
+export interface ReferenceRateFixing {
+  // ISO yyyy-mm-dd the fixing applies from
+  date: string;
+  index: string;
+  // Percent per annum
+  rate: number;
+}
+
+export interface ReferenceRateConvention {
+  index: string;
+  mode: RateMode;
+  dayCount: DayCountConvention;
+}
+
+export interface ReferenceRateProvider {
+  getFixings(): Promise<ReferenceRateFixing[]>;
+}
+
+// Market convention for loans in each supported currency
+export const REFERENCE_RATE_CONVENTIONS: Record<string, ReferenceRateConvention> = {
+  USD: { index: 'SOFR', mode: 'compounded_in_arrears', dayCount: 'ACT/360' },
+  GBP: { index: 'SONIA', mode: 'compounded_in_arrears', dayCount: 'ACT/365' },
+  EUR: { index: 'EURIBOR', mode: 'term', dayCount: 'ACT/360' },
+  JPY: { index: 'TONA', mode: 'compounded_in_arrears', dayCount: 'ACT/365' },
+  CHF: { index: 'SARON', mode: 'compounded_in_arrears', dayCount: 'ACT/360' },
+  CAD: { index: 'CORRA', mode: 'compounded_in_arrears', dayCount: 'ACT/365' },
+  AUD: { index: 'BBSW', mode: 'term', dayCount: 'ACT/365' },
+  SEK: { index: 'STIBOR', mode: 'term', dayCount: 'ACT/360' },
+  NOK: { index: 'NIBOR', mode: 'term', dayCount: 'ACT/360' },
+  DKK: { index: 'CIBOR', mode: 'term', dayCount: 'ACT/360' },
+};
+
+export function getReferenceRateConvention(currency: string): ReferenceRateConvention {
+  return REFERENCE_RATE_CONVENTIONS[currency] ?? REFERENCE_RATE_CONVENTIONS.USD;
+}
+
+const CSV_COLUMNS = ['date', 'index', 'rate'] as const;
+
+/**
+ * Parse fixings from CSV with a `date,index,rate` header row.
+ * Throws CodedError naming the first malformed line.
+ */
+export function parseReferenceRatesCsv(csv: string): ReferenceRateFixing[] {
+  const lines = csv.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0 && !line.startsWith('#'));
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(',').map(column => column.trim().toLowerCase());
+  const indexes = CSV_COLUMNS.map(column => header.indexOf(column));
+  if (indexes.some(index => index === -1)) {
+    throw new CodedError(ErrorCode.PARSING_ERROR, `Reference rates must have the columns ${CSV_COLUMNS.join(', ')}`);
+  }
+  const [dateIndex, nameIndex, rateIndex] = indexes;
+
+  return lines.slice(1).map((line, row) => {
+    const cells = line.split(',').map(cell => cell.trim());
+    const fixing: ReferenceRateFixing = {
+      date: cells[dateIndex] ?? '',
+      index: (cells[nameIndex] ?? '').toUpperCase(),
+      rate: Number(cells[rateIndex]),
+    };
+
+    const lineNumber = row + 2;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(fixing.date) || fixing.index.length === 0) {
+      throw new CodedError(ErrorCode.PARSING_ERROR, `Line ${lineNumber}: date and index are required`);
+    }
+    // Rates can be negative (EURIBOR, SARON and TONA have been)
+    if (cells[rateIndex] === undefined || cells[rateIndex] === '' || !Number.isFinite(fixing.rate)) {
+      throw new CodedError(ErrorCode.PARSING_ERROR, `Line ${lineNumber}: rate must be a number`);
+    }
+    return fixing;
+  });
+}
+
+/**
+ * Fixings of each index. A fixing applies from its date until the next one, so the
+ * file only needs a row when a rate changes; dates after the last fixing carry it
+ * forward and are treated as projected.
+ */
+export class ReferenceRateCurve {
+  private readonly history = new Map<string, ReferenceRateFixing[]>();
+
+  constructor(fixings: ReferenceRateFixing[]) {
+    fixings.forEach(fixing => {
+      this.history.set(fixing.index, [...(this.history.get(fixing.index) ?? []), fixing]);
+    });
+    this.history.forEach(history => history.sort((a, b) => a.date.localeCompare(b.date)));
+  }
+
+  public static fromCsv(csv: string): ReferenceRateCurve {
+    return new ReferenceRateCurve(parseReferenceRatesCsv(csv));
+  }
+
+  public hasIndex(index: string): boolean {
+    return this.history.has(index);
+  }
+
+  // Date of the last published fixing, or null when the index has none
+  public getLastFixingDate(index: string): string | null {
+    const history = this.history.get(index);
+    return history ? history[history.length - 1].date : null;
+  }
+
+  /**
+   * Rate applying on a date, or null when the index has no fixings. Dates before
+   * the first fixing use it.
+   */
+  public getRate(index: string, date: string): number | null {
+    const history = this.history.get(index);
+    if (!history) return null;
+
+    let selected = history[0];
+    for (const fixing of history) {
+      if (fixing.date <= date) selected = fixing;
+    }
+    return selected.rate;
+  }
+}
+
+/**
+ * Fixings held in memory
+ */
+export class CsvReferenceRateProvider implements ReferenceRateProvider {
+  private readonly fixings: ReferenceRateFixing[];
+
+  constructor(csv: string) {
+    this.fixings = parseReferenceRatesCsv(csv);
+  }
+
+  public async getFixings(): Promise<ReferenceRateFixing[]> {
+    return this.fixings;
+  }
+}
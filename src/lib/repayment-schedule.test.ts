@@ -0,0 +1,168 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for key date parsing, repayment schedules and their extraction from the sample agreements
+ */
+
+import * as fc from 'fast-check';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { LoanData, validateLoanData } from '@/types';
+import {
+  addMonths,
+  buildPeriodicSchedule,
+  completeRepaymentSchedule,
+  getOutstandingBalanceAt,
+  getOutstandingBalances,
+  parseAgreementDate
+} from './repayment-schedule';
+import { SmartLoanExtractor } from './smart-loan-extractor';
+
+const readSample = (name: string) => readFileSync(join(process.cwd(), 'sample-documents', name), 'utf-8');
+
+const baseLoan: LoanData = {
+  borrowerName: 'Acme Holdings Ltd',
+  facilityAmount: 100000000,
+  currency: 'USD',
+  interestRateMargin: 2.5,
+  leverageCovenant: 4,
+  esgTarget: '',
+};
+
+describe('parseAgreementDate', () => {
+  it('reads the date formats used in agreements', () => {
+    expect(parseAgreementDate('December 10, 2025')).toBe('2025-12-10');
+    expect(parseAgreementDate('10th December 2025')).toBe('2025-12-10');
+    expect(parseAgreementDate('Sept. 1, 2026')).toBe('2026-09-01');
+    expect(parseAgreementDate('2030-06-30')).toBe('2030-06-30');
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(parseAgreementDate('February 30, 2026')).toBeNull();
+    expect(parseAgreementDate('2026-13-01')).toBeNull();
+    expect(parseAgreementDate('Closing Date')).toBeNull();
+  });
+});
+
+describe('addMonths', () => {
+  it('keeps to the last day of shorter months', () => {
+    expect(addMonths('2026-01-31', 1)).toBe('2026-02-28');
+    expect(addMonths('2028-01-31', 1)).toBe('2028-02-29');
+    expect(addMonths('2026-03-31', 3)).toBe('2026-06-30');
+    expect(addMonths('2025-12-10', 12)).toBe('2026-12-10');
+  });
+});
+
+describe('repayment schedules', () => {
+  it('always repay exactly the facility amount by the termination date', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 1000 }).map(n => n * 1000000),
+        fc.integer({ min: 1, max: 200 }).map(n => n * 100000),
+        fc.constantFrom(1, 3, 6, 12),
+        (amount, instalmentAmount, interval) => {
+          const schedule = buildPeriodicSchedule(amount, instalmentAmount, '2026-03-31', interval, '2032-12-20');
+          const total = schedule.instalments.reduce((sum, instalment) => sum + instalment.amount, 0);
+
+          expect(total).toBeCloseTo(amount, 2);
+          schedule.instalments.forEach(instalment => expect(instalment.date <= '2032-12-20').toBe(true));
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('drops instalments after the termination date into the final repayment', () => {
+    const schedule = completeRepaymentSchedule(
+      100,
+      [{ date: '2027-01-01', amount: 30 }, { date: '2031-01-01', amount: 30 }],
+      '2030-01-01'
+    );
+
+    expect(schedule).toEqual({
+      type: 'amortising',
+      instalments: [{ date: '2027-01-01', amount: 30 }, { date: '2030-01-01', amount: 70 }],
+    });
+  });
+
+  it('tracks the outstanding balance over time', () => {
+    const loan: LoanData = {
+      ...baseLoan,
+      signingDate: '2026-01-01',
+      terminationDate: '2028-01-01',
+      repaymentSchedule: { type: 'amortising', instalments: [{ date: '2027-01-01', amount: 40000000 }, { date: '2028-01-01', amount: 60000000 }] },
+    };
+
+    expect(getOutstandingBalances(loan).map(point => point.outstanding)).toEqual([100000000, 60000000, 0]);
+    expect(getOutstandingBalanceAt(loan, '2026-12-31')).toBe(100000000);
+    expect(getOutstandingBalanceAt(loan, '2027-01-01')).toBe(60000000);
+  });
+});
+
+describe('key date validation', () => {
+  it('requires the termination date to follow signing', () => {
+    const result = validateLoanData({ ...baseLoan, signingDate: '2026-01-01', terminationDate: '2025-01-01' });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain('Termination date must be after the signing date');
+  });
+
+  it('requires repayments to sum to the facility amount', () => {
+    const result = validateLoanData({
+      ...baseLoan,
+      signingDate: '2026-01-01',
+      terminationDate: '2030-01-01',
+      repaymentSchedule: { type: 'bullet', instalments: [{ date: '2030-01-01', amount: 90000000 }] },
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors.some(error => error.startsWith('Repayments'))).toBe(true);
+  });
+});
+
+describe('SmartLoanExtractor key dates', () => {
+  const extractor = new SmartLoanExtractor();
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('builds the yearly amortisation of the acquisition facility', async () => {
+    const { data, provenance } = await extractor.extractLoanData(readSample('acquisition-loan-agreement.txt'));
+
+    expect(data.signingDate).toBe('2025-12-10');
+    expect(data.terminationDate).toBe('2032-12-10');
+    expect(data.repaymentSchedule?.type).toBe('amortising');
+    expect(data.repaymentSchedule?.instalments.slice(0, 3)).toEqual([
+      { date: '2026-12-10', amount: 37500000 },
+      { date: '2027-12-10', amount: 37500000 },
+      { date: '2028-12-10', amount: 56250000 },
+    ]);
+    expect(data.repaymentSchedule?.instalments.at(-1)).toEqual({ date: '2032-12-10', amount: 412500000 });
+    expect(provenance.repaymentSchedule?.method).toBe('pattern');
+  });
+
+  it('builds quarterly instalments for the ESG facility', async () => {
+    const { data } = await extractor.extractLoanData(readSample('esg-loan-agreement.txt'));
+    const instalments = data.repaymentSchedule?.instalments ?? [];
+
+    expect(data.terminationDate).toBe('2032-12-20');
+    expect(instalments.slice(0, 2).map(instalment => instalment.date)).toEqual(['2026-03-31', '2026-06-30']);
+    expect(instalments.reduce((sum, instalment) => sum + instalment.amount, 0)).toBe(300000000);
+    expect(validateLoanData(data as LoanData).errors).toEqual([]);
+  });
+
+  it('falls back to a bullet repayment at maturity', async () => {
+    const { data, provenance } = await extractor.extractLoanData(readSample('corporate-loan-agreement.txt'));
+
+    expect(data.repaymentSchedule).toEqual({ type: 'bullet', instalments: [{ date: '2030-12-15', amount: 500000000 }] });
+    expect(provenance.repaymentSchedule?.method).toBe('derived');
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Repayment Schedule
+ * Agreement date parsing, instalment generation and the outstanding balance of a loan over time
+ */
+
+import { LoanData, RepaymentInstalment, RepaymentSchedule, getTotalFacilityAmount } from '@/types';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Dates as written in agreements: "December 10, 2025", "10th December 2025" or "2025-12-10"
+export const AGREEMENT_DATE_PATTERN =
+  '(?:(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}' +
+  '|\\d{1,2}(?:st|nd|rd|th)?\\s+(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*\\.?,?\\s+\\d{4}' +
+  '|\\d{4}-\\d{2}-\\d{2})';
+
+export interface BalancePoint {
+  date: string;
+  repayment: number;
+  outstanding: number;
+}
+
+const toISODate = (year: number, month: number, day: number): string =>
+  `${String(year).padStart(4, '0')}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/**
+ * Parse an agreement date into ISO form, or null when it is not a real calendar date
+ */
+export function parseAgreementDate(value: string): string | null {
+  const text = value.trim();
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const monthFirst = text.match(/^([A-Za-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/);
+  const dayFirst = text.match(/^(\d{1,2})(?:st|nd|rd|th)?\s+([A-Za-z]+)\.?,?\s+(\d{4})$/);
+
+  let parts: { year: number; month: number; day: number } | null = null;
+  if (iso) {
+    parts = { year: Number(iso[1]), month: Number(iso[2]) - 1, day: Number(iso[3]) };
+  } else if (monthFirst) {
+    parts = { year: Number(monthFirst[3]), month: MONTHS.indexOf(monthFirst[1].substring(0, 3).toLowerCase()), day: Number(monthFirst[2]) };
+  } else if (dayFirst) {
+    parts = { year: Number(dayFirst[3]), month: MONTHS.indexOf(dayFirst[2].substring(0, 3).toLowerCase()), day: Number(dayFirst[1]) };
+  }
+  if (!parts) return null;
+
+  const { year, month, day } = parts;
+  if (month < 0 || month > 11 || day < 1 || day > daysInMonth(year, month)) return null;
+  return toISODate(year, month, day);
+}
+
+/**
+ * Add calendar months to an ISO date, keeping to the last day of shorter months
+ */
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const targetYear = target.getUTCFullYear();
+  const targetMonth = target.getUTCMonth();
+  return toISODate(targetYear, targetMonth, Math.min(day, daysInMonth(targetYear, targetMonth)));
+}
+
+/**
+ * Single repayment of the whole facility on the termination date
+ */
+export function buildBulletSchedule(amount: number, terminationDate: string): RepaymentSchedule {
+  return { type: 'bullet', instalments: [{ date: terminationDate, amount }] };
+}
+
+/**
+ * Schedule from the instalments falling before the termination date, with the
+ * remaining balance repaid on the termination date
+ */
+export function completeRepaymentSchedule(
+  amount: number,
+  instalments: RepaymentInstalment[],
+  terminationDate: string
+): RepaymentSchedule {
+  const completed: RepaymentInstalment[] = [];
+  let remaining = amount;
+
+  [...instalments]
+    .filter(instalment => instalment.date < terminationDate)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(instalment => {
+      const repayment = Math.min(instalment.amount, remaining);
+      if (repayment <= 0) return;
+      completed.push({ date: instalment.date, amount: repayment });
+      remaining -= repayment;
+    });
+
+  if (remaining > 0) completed.push({ date: terminationDate, amount: remaining });
+  return { type: completed.length > 1 ? 'amortising' : 'bullet', instalments: completed };
+}
+
+/**
+ * Equal instalments every `intervalMonths` from the first date until the termination date
+ */
+export function buildPeriodicSchedule(
+  amount: number,
+  instalmentAmount: number,
+  firstDate: string,
+  intervalMonths: number,
+  terminationDate: string
+): RepaymentSchedule {
+  const instalments: RepaymentInstalment[] = [];
+
+  // Dates are stepped from the first date so month-end dates do not drift
+  for (let period = 0, repaid = 0; repaid < amount; period++, repaid += instalmentAmount) {
+    const date = addMonths(firstDate, period * intervalMonths);
+    if (date >= terminationDate) break;
+    instalments.push({ date, amount: instalmentAmount });
+  }
+
+  return completeRepaymentSchedule(amount, instalments, terminationDate);
+}
+
+/**
+ * Outstanding balance after each repayment, starting from the full facility at signing
+ */
+export function getOutstandingBalances(loan: LoanData): BalancePoint[] {
+  const schedule = loan.repaymentSchedule;
+  if (!schedule) return [];
+
+  let outstanding = getTotalFacilityAmount(loan);
+  const points: BalancePoint[] = loan.signingDate ? [{ date: loan.signingDate, repayment: 0, outstanding }] : [];
+
+  [...schedule.instalments]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(instalment => {
+      outstanding = Math.max(0, outstanding - instalment.amount);
+      points.push({ date: instalment.date, repayment: instalment.amount, outstanding });
+    });
+
+  return points;
+}
+
+/**
+ * Principal outstanding on a date, after repayments falling due on or before it
+ */
+export function getOutstandingBalanceAt(loan: LoanData, date: string): number {
+  const repaid = (loan.repaymentSchedule?.instalments ?? [])
+    .filter(instalment => instalment.date <= date)
+    .reduce((sum, instalment) => sum + instalment.amount, 0);
+  return Math.max(0, getTotalFacilityAmount(loan) - repaid);
+}
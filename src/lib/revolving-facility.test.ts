@@ -0,0 +1,109 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for revolver drawdowns, repayments and drawn balances
+ */
+
+import * as fc from 'fast-check';
+import { LoanData, RevolverMovement } from '@/types';
+import { CodedError } from './enterprise-errors';
+import {
+  getDrawnBalanceAt,
+  getRevolverUtilisation,
+  recordRevolverMovement
+} from './revolving-facility';
+
+const loan: LoanData = {
+  borrowerName: 'Acme Holdings Ltd',
+  facilityAmount: 100000000,
+  currency: 'USD',
+  interestRateMargin: 2.8,
+  leverageCovenant: 4,
+  esgTarget: '',
+  signingDate: '2026-01-01',
+  availabilityPeriodEnd: '2026-12-01',
+  terminationDate: '2027-01-01',
+  tranches: [
+    { id: 'tla', name: 'Facility A', facilityType: 'term_loan', amount: 60000000, currency: 'USD', interestRateMargin: 3, tenorMonths: 12 },
+    { id: 'rcf', name: 'Revolver', facilityType: 'revolving_credit', amount: 40000000, currency: 'USD', interestRateMargin: 2.5, tenorMonths: 12 },
+  ],
+};
+
+const movement = (type: RevolverMovement['type'], date: string, amount: number, trancheId = 'rcf'): RevolverMovement => ({
+  id: `${type}_${date}`,
+  trancheId,
+  type,
+  date,
+  amount,
+});
+
+describe('recordRevolverMovement', () => {
+  const drawn = recordRevolverMovement(loan, movement('drawdown', '2026-02-01', 30000000));
+
+  it('tracks the drawn balance over time', () => {
+    const repaid = recordRevolverMovement(drawn, movement('repayment', '2026-05-01', 10000000));
+
+    expect(getDrawnBalanceAt(repaid, 'rcf', '2026-01-31')).toBe(0);
+    expect(getDrawnBalanceAt(repaid, 'rcf', '2026-02-01')).toBe(30000000);
+    expect(getDrawnBalanceAt(repaid, 'rcf', '2026-06-30')).toBe(20000000);
+    expect(getDrawnBalanceAt(repaid, 'rcf', '2027-01-01')).toBe(0);
+    expect(getRevolverUtilisation(repaid, '2026-06-30')).toEqual({ commitment: 40000000, drawn: 20000000, percentage: 50 });
+  });
+
+  it('rejects drawings above the commitment and repayments above the balance', () => {
+    expect(() => recordRevolverMovement(drawn, movement('drawdown', '2026-03-01', 15000000)))
+      .toThrow('Drawing on 2026-03-01 exceeds the Revolver commitment');
+    // A repayment before the drawdown would leave a negative balance in between
+    expect(() => recordRevolverMovement(drawn, movement('repayment', '2026-01-15', 5000000)))
+      .toThrow('Repayment on 2026-01-15 exceeds the drawn balance');
+  });
+
+  it('keeps drawdowns within the availability period and the facility life', () => {
+    expect(() => recordRevolverMovement(drawn, movement('drawdown', '2026-12-15', 1000000)))
+      .toThrow('Drawdowns must be made by the end of the availability period (2026-12-01)');
+    expect(() => recordRevolverMovement(drawn, movement('repayment', '2027-01-01', 1000000)))
+      .toThrow('Date must be before termination (2027-01-01)');
+    expect(recordRevolverMovement(drawn, movement('repayment', '2026-12-15', 1000000)).revolverMovements).toHaveLength(2);
+  });
+
+  it('only moves cash on revolving tranches', () => {
+    expect(() => recordRevolverMovement(loan, movement('drawdown', '2026-02-01', 1000000, 'tla'))).toThrow(CodedError);
+    expect(() => recordRevolverMovement(loan, movement('drawdown', '2026-02-01', 0))).toThrow('Amount must be positive');
+  });
+
+  it('never leaves the balance outside zero and the commitment', () => {
+    fc.assert(
+      fc.property(
+        fc.array(
+          fc.record({
+            type: fc.constantFrom<RevolverMovement['type']>('drawdown', 'repayment'),
+            day: fc.integer({ min: 0, max: 300 }),
+            amount: fc.integer({ min: 1, max: 40 }),
+          }),
+          { maxLength: 12 }
+        ),
+        entries => {
+          let current = loan;
+          entries.forEach(({ type, day, amount }) => {
+            const date = new Date(Date.UTC(2026, 0, 1 + day)).toISOString().substring(0, 10);
+            try {
+              current = recordRevolverMovement(current, movement(type, date, amount * 1000000));
+            } catch (error) {
+              expect(error).toBeInstanceOf(CodedError);
+            }
+          });
+
+          for (let day = 0; day <= 365; day += 5) {
+            const date = new Date(Date.UTC(2026, 0, 1 + day)).toISOString().substring(0, 10);
+            const balance = getDrawnBalanceAt(current, 'rcf', date);
+            expect(balance).toBeGreaterThanOrEqual(0);
+            expect(balance).toBeLessThanOrEqual(40000000);
+          }
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for field-level provenance of extracted loan data
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { analyzeLoan } from '@/actions/analyzeLoan';
+import { PageRange } from '@/types';
+import { SmartLoanExtractor } from './smart-loan-extractor';
+
+const readSample = (name: string) => readFileSync(join(process.cwd(), 'sample-documents', name), 'utf-8');
+
+describe('SmartLoanExtractor provenance', () => {
+  const extractor = new SmartLoanExtractor();
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('records provenance for every extracted field', async () => {
+    const result = await extractor.extractLoanData(readSample('corporate-loan-agreement.txt'));
+
+    (Object.keys(result.data) as (keyof typeof result.data)[]).forEach(field => {
+      expect(result.provenance[field]).toMatchObject({ field });
+      expect(result.provenance[field]?.confidence).toBeGreaterThan(0);
+    });
+  });
+
+  it('maps offsets back to the original document text', async () => {
+    // Irregular whitespace and markup characters are normalized before matching
+    const text = [
+      '<b>CREDIT AGREEMENT</b>',
+      '',
+      'Borrower:     TechCorp Industries Inc.',
+      'Facility Amount:\t\t$500,000,000',
+      'Interest Rate Margin:   2.75 per cent',
+    ].join('\n');
+
+    const result = await extractor.extractLoanData(text);
+    const amount = result.provenance.facilityAmount;
+    const margin = result.provenance.interestRateMargin;
+
+    expect(result.data.facilityAmount).toBe(500000000);
+    expect(amount?.method).toBe('pattern');
+    expect(text.substring(amount!.startOffset!, amount!.endOffset!)).toContain('500,000,000');
+    expect(amount?.snippet).toContain('Facility Amount: $500,000,000');
+
+    expect(text.substring(margin!.startOffset!, margin!.endOffset!)).toContain('2.75');
+    expect(margin?.pattern).toEqual(expect.any(String));
+  });
+
+  it('marks defaulted values without a source range', async () => {
+    const result = await extractor.extractLoanData('Borrower: Acme Holdings Ltd\nFacility Amount: 250,000,000');
+
+    expect(result.provenance.esgTarget).toMatchObject({ method: 'default', startOffset: null, endOffset: null });
+  });
+
+  it('reports the page each value was found on', async () => {
+    const pageOne = 'FACILITY AGREEMENT\nBorrower: Acme Holdings Ltd';
+    const pageTwo = 'Facility Amount: $150,000,000\nMargin: 3.25%';
+    const text = `${pageOne}\n\n${pageTwo}`;
+    const pages: PageRange[] = [
+      { pageNumber: 1, startOffset: 0, endOffset: pageOne.length },
+      { pageNumber: 2, startOffset: pageOne.length + 2, endOffset: text.length },
+    ];
+
+    const result = await analyzeLoan(text, pages);
+
+    expect(result.provenance?.facilityAmount?.pageNumber).toBe(2);
+    expect(result.provenance?.borrowerName?.pageNumber).toBe(1);
+  });
+
+  it('extracts from the sanitized text with offsets into the text as uploaded', async () => {
+    const extract = jest.spyOn(SmartLoanExtractor.prototype, 'extractLoanData');
+    const text = '  <p>Borrower: Acme Holdings Ltd</p>\n<p>Facility Amount: $150,000,000</p>';
+
+    const result = await analyzeLoan(text);
+    const amount = result.provenance?.facilityAmount;
+
+    expect(extract.mock.calls[0][0]).not.toMatch(/[<>]/);
+    expect(text.substring(amount!.startOffset!, amount!.endOffset!)).toContain('150,000,000');
+  });
+});
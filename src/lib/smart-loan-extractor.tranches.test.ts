@@ -0,0 +1,79 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for extracting the facilities (tranches) of a multi-facility agreement
+ */
+
+import { LoanData, validateLoanData } from '@/types';
+import { SmartLoanExtractor } from './smart-loan-extractor';
+
+const agreement = (facilities: string[], dates: string[] = []) => [
+  'SENIOR FACILITIES AGREEMENT',
+  'Borrower: Northwind Logistics Ltd',
+  'Facility Amount: $350,000,000',
+  'Interest Rate Margin: 2.75%',
+  'Financial Covenant: a Total Leverage Ratio not to exceed 4.00:1.00 as of the end of each fiscal quarter',
+  ...dates,
+  '',
+  'THE FACILITIES',
+  ...facilities,
+].join('\n');
+
+const facilities = [
+  'Term Loan A Facility: $100,000,000 at SOFR plus 2.50% per annum.',
+  'Term Loan B Facility: $150,000,000 at SOFR plus 3.25% per annum.',
+  'Revolving Credit Facility: $100,000,000 at SOFR plus 2.25% per annum, available for general corporate purposes.',
+];
+
+describe('SmartLoanExtractor tranches', () => {
+  const extractor = new SmartLoanExtractor();
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('extracts facilities without a stated tenor as valid loan data', async () => {
+    const { data } = await extractor.extractLoanData(agreement(facilities));
+
+    expect(data.tranches?.map(tranche => [tranche.facilityType, tranche.amount, tranche.tenorMonths])).toEqual([
+      ['term_loan_a', 100000000, undefined],
+      ['term_loan_b', 150000000, undefined],
+      ['revolving_credit', 100000000, undefined],
+    ]);
+    expect(data.facilityAmount).toBe(350000000);
+    expect(validateLoanData(data as LoanData)).toEqual({ isValid: true, errors: [] });
+  });
+
+  it('keeps each facility in its own currency and the stated facility amount', async () => {
+    const { data } = await extractor.extractLoanData(agreement([
+      facilities[0],
+      'Term Loan B Facility: €150,000,000 at EURIBOR plus 3.25% per annum.',
+      facilities[2],
+    ]));
+
+    expect(data.tranches?.map(tranche => [tranche.amount, tranche.currency])).toEqual([
+      [100000000, 'USD'],
+      [150000000, 'EUR'],
+      [100000000, 'USD'],
+    ]);
+    expect(data.facilityAmount).toBe(350000000);
+    expect(validateLoanData(data as LoanData).errors).toEqual([]);
+  });
+
+  it('takes a stated tenor, or the months from signing to termination', async () => {
+    const { data } = await extractor.extractLoanData(agreement(
+      [facilities[0].replace('per annum.', 'per annum, repayable over 5 years.'), ...facilities.slice(1)],
+      ['Signing Date: 15 March 2025', 'Termination Date: 15 March 2032']
+    ));
+
+    expect(data.tranches?.map(tranche => tranche.tenorMonths)).toEqual([60, 84, 84]);
+    expect(validateLoanData(data as LoanData).errors).toEqual([]);
+  });
+});
@@ -14,7 +14,37 @@
  */
 
 import nlp from 'compromise';
-import { LoanData } from '@/types';
+import {
+  LoanData,
+  Tranche,
+  FacilityType,
+  Covenant,
+  CovenantMetric,
+  CovenantOperator,
+  CovenantStepDown,
+  CovenantTestFrequency,
+  ExtractionMethod,
+  ExtractionProvenance,
+  PageRange,
+  RepaymentInstalment,
+  ConsentException,
+  LenderCategory,
+  SustainabilityKpi,
+  TransferRestrictions,
+  calculateTrancheTotals
+} from '@/types';
+import { COVENANT_METRIC_LABELS, getApplicableThreshold } from './covenants';
+import { getPageForOffset } from './document-processor';
+import { LenderCommitment, buildLenderAllocations, reconcileSyndicate } from './syndicate';
+import {
+  AGREEMENT_DATE_PATTERN,
+  addMonths,
+  buildBulletSchedule,
+  buildPeriodicSchedule,
+  completeRepaymentSchedule,
+  parseAgreementDate
+} from './repayment-schedule';
+import { ESG_RATING_UNIT, getRatingNotch } from './sustainability-kpis';
 
 export interface ExtractionResult {
   data: Partial<LoanData>;
@@ -22,6 +52,12 @@ export interface ExtractionResult {
   extractedFields: string[];
   suggestions: string[];
   processingTime: number;
+  provenance: ExtractionProvenance;
+}
+
+export interface ExtractionOptions {
+  // Page ranges of the document text, for page references in provenance
+  pages?: PageRange[];
 }
 
 export interface ExtractionPattern {
@@ -32,6 +68,85 @@ export interface ExtractionPattern {
   confidence: number;
 }
 
+/**
+ * Span of the preprocessed text that a field value was read from
+ */
+interface SourceSpan {
+  start: number | null;
+  end: number | null;
+  method: ExtractionMethod;
+  pattern: string | null;
+  confidence: number;
+}
+
+type SourceSpans = Partial<Record<keyof LoanData, SourceSpan>>;
+
+/**
+ * Preprocessed text with the original document offset of every character
+ * (plus one trailing entry for the end of the text)
+ */
+interface PreparedText {
+  text: string;
+  sourceOffsets: number[];
+}
+
+const NLP_FIELD_CONFIDENCE = 0.6;
+const DERIVED_FIELD_CONFIDENCE = 0.7;
+const DEFAULT_FIELD_CONFIDENCE = 0.3;
+const SNIPPET_CONTEXT_LENGTH = 80;
+
+// Headings of the commitment schedule ("Schedule 1 - The Original Lenders", ...)
+const LENDER_SCHEDULE_HEADINGS = [
+  /Schedule\s+1\b[\s.:\-–—]*(?:The\s+)?Original\s+Lenders(?:\s+and\s+(?:their\s+)?Commitments)?/gi,
+  /\b(?:THE\s+)?ORIGINAL\s+LENDERS(?:\s+AND\s+(?:THEIR\s+)?COMMITMENTS)?\b/g,
+  /\bLenders\s+and\s+(?:their\s+)?Commitments\b/gi,
+  /\bCommitment\s+Schedule\b/gi,
+];
+
+// Column headings that may precede the first schedule row ("Percentage" reads "%age" after preprocessing)
+const LENDER_SCHEDULE_HEADER = /^(?:(?:Name\s+of\s+(?:the\s+)?(?:Original\s+)?Lenders?|(?:Original\s+)?Lenders?|Commitments?|Amount|%age|Share|%)(?:\s*\((?:USD|EUR|GBP|\$|€|£)\))?\s*)+/i;
+
+const REPAYMENT_INTERVAL_MONTHS: Record<string, number> = {
+  monthly: 1,
+  quarterly: 3,
+  'semi-annual': 6,
+  'semi-annually': 6,
+  annual: 12,
+  annually: 12,
+};
+
+const isAgreementDate = (value: unknown): boolean => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const COMMITMENT_AMOUNT = /(?:USD|EUR|GBP|\$|€|£)\s*(\d[\d,]*(?:\.\d+)?)(?:\s*(million|billion|mn|bn|m)\b)?/gi;
+
+/**
+ * Apply a global regex replacement while keeping the map back to original offsets
+ */
+function replaceWithSourceMap(source: PreparedText, pattern: RegExp, replacement: string): PreparedText {
+  let text = '';
+  const sourceOffsets: number[] = [];
+  let last = 0;
+
+  const copyThrough = (end: number) => {
+    text += source.text.substring(last, end);
+    for (let i = last; i < end; i++) sourceOffsets.push(source.sourceOffsets[i]);
+  };
+
+  for (const match of Array.from(source.text.matchAll(pattern))) {
+    const index = match.index ?? 0;
+    copyThrough(index);
+    text += replacement;
+    for (let i = 0; i < replacement.length; i++) {
+      sourceOffsets.push(source.sourceOffsets[index + Math.min(i, match[0].length - 1)]);
+    }
+    last = index + match[0].length;
+  }
+  copyThrough(source.text.length);
+  sourceOffsets.push(source.sourceOffsets[source.text.length]);
+
+  return { text, sourceOffsets };
+}
+
 export class SmartLoanExtractor {
   private patterns: ExtractionPattern[];
   private nlpProcessor: any;
@@ -46,25 +161,51 @@ export class SmartLoanExtractor {
   /**
    * Main extraction method - processes loan documents with high accuracy
    */
-  public async extractLoanData(documentText: string): Promise<ExtractionResult> {
+  public async extractLoanData(documentText: string, options: ExtractionOptions = {}): Promise<ExtractionResult> {
     const startTime = Date.now();
     
     try {
       // Step 1: Preprocess and clean the document
-      const cleanedText = this.preprocessDocument(documentText);
+      const prepared = this.preprocessDocument(documentText);
+      const cleanedText = prepared.text;
+      const spans: SourceSpans = {};
       
       // Step 2: Pattern-based extraction (high precision)
-      const patternResults = this.extractByPatterns(cleanedText);
+      const patternResults = this.extractByPatterns(cleanedText, spans);
       
       // Step 3: NLP-enhanced extraction (context understanding)
-      const nlpResults = this.enhanceWithNLP(cleanedText, patternResults);
+      const nlpResults = this.enhanceWithNLP(cleanedText, patternResults, spans);
       
       // Step 4: Machine learning validation and correction
-      const validatedResults = this.validateAndCorrect(nlpResults, cleanedText);
+      const validatedResults = this.validateAndCorrect(nlpResults, cleanedText, spans);
+      
+      // Step 4b: Multi-facility breakdown (Term Loan A/B, Revolver, ...)
+      this.applyTranches(validatedResults, this.extractTranches(cleanedText, validatedResults, spans), spans);
+      
+      // Step 4c: Financial covenant package with step-downs
+      const covenantSpans = new Map<CovenantMetric, SourceSpan>();
+      this.applyCovenants(validatedResults, this.extractCovenants(cleanedText, covenantSpans), covenantSpans, spans);
+      
+      // Step 4d: Lender syndicate from Schedule 1 or the signature pages
+      this.applyLenders(validatedResults, this.extractLenders(cleanedText, spans), spans);
+      
+      // Step 4e: Availability period and repayment schedule
+      this.applyKeyDates(validatedResults, cleanedText, spans);
+      
+      // Step 4f: Transfer restrictions from the "Changes to the Lenders" clause
+      this.applyTransferRestrictions(validatedResults, cleanedText, spans);
+      
+      // Step 4g: Sustainability KPIs, targets and margin ratchet
+      const unmeasuredTargets = this.applySustainabilityTerms(validatedResults, cleanedText, spans);
       
       // Step 5: Calculate confidence and provide suggestions
       const confidence = this.calculateConfidence(validatedResults, cleanedText);
-      const suggestions = this.generateSuggestions(validatedResults, cleanedText);
+      const suggestions = [
+        ...this.generateSuggestions(validatedResults, cleanedText),
+        ...unmeasuredTargets.map(target =>
+          `Sustainability target "${target}" has no numeric target for a year, so it is not part of the margin ratchet. Add it as a KPI on the ESG tab if it is tested.`
+        ),
+      ];
       
       const processingTime = Date.now() - startTime;
       
@@ -73,7 +214,8 @@ export class SmartLoanExtractor {
         confidence,
         extractedFields: Object.keys(validatedResults).filter(key => validatedResults[key as keyof LoanData] !== undefined),
         suggestions,
-        processingTime
+        processingTime,
+        provenance: this.buildProvenance(validatedResults, spans, prepared, documentText, options.pages)
       };
       
     } catch (error) {
@@ -83,7 +225,8 @@ export class SmartLoanExtractor {
         confidence: 0,
         extractedFields: [],
         suggestions: ['Document format not recognized. Please ensure it\'s a valid loan agreement.'],
-        processingTime: Date.now() - startTime
+        processingTime: Date.now() - startTime,
+        provenance: {}
       };
     }
   }
@@ -289,6 +432,41 @@ export class SmartLoanExtractor {
         confidence: 0.8
       },
 
+      // Key Date Patterns
+      {
+        field: 'signingDate',
+        patterns: [
+          new RegExp(`(?:entered\\s+into|made|dated)\\s+(?:as\\s+of\\s+|on\\s+)?(${AGREEMENT_DATE_PATTERN})`, 'gi'),
+          new RegExp(`(?:Signing|Agreement|Effective)\\s+Date\\s*["']?\\s*(?::|means)?\\s*(${AGREEMENT_DATE_PATTERN})`, 'gi')
+        ],
+        processor: (match) => parseAgreementDate(match),
+        validator: isAgreementDate,
+        confidence: 0.85
+      },
+
+      {
+        field: 'terminationDate',
+        patterns: [
+          new RegExp(`(?:Termination|Final\\s+Maturity|Maturity|Final\\s+Repayment)\\s+Date\\s*["']?\\s*(?::|means|shall\\s+be|is)?\\s*(${AGREEMENT_DATE_PATTERN})`, 'gi'),
+          new RegExp(`(?:shall|will)\\s+(?:finally\\s+)?mature\\s+on\\s+(${AGREEMENT_DATE_PATTERN})`, 'gi'),
+          new RegExp(`(?:repaid|repayable)\\s+in\\s+full\\s+on\\s+(${AGREEMENT_DATE_PATTERN})`, 'gi')
+        ],
+        processor: (match) => parseAgreementDate(match),
+        validator: isAgreementDate,
+        confidence: 0.85
+      },
+
+      {
+        field: 'availabilityPeriodEnd',
+        patterns: [
+          new RegExp(`Availability\\s+Period\\s+(?:End(?:ing)?\\s+)?Date\\s*["']?\\s*(?::|means)?\\s*(${AGREEMENT_DATE_PATTERN})`, 'gi'),
+          new RegExp(`Availability\\s+Period["']?\\s*(?::|means)?[^.]{0,150}?(?:to\\s+and\\s+including|until|ending\\s+on|up\\s+to)\\s+(${AGREEMENT_DATE_PATTERN})`, 'gi')
+        ],
+        processor: (match) => parseAgreementDate(match),
+        validator: isAgreementDate,
+        confidence: 0.8
+      },
+
       // ESG Target Patterns - This document doesn't have ESG, so make it optional
       {
         field: 'esgTarget',
@@ -312,36 +490,56 @@ export class SmartLoanExtractor {
   }
 
   /**
-   * Preprocess document text for better extraction
+   * Preprocess document text for better extraction, keeping track of where
+   * each character came from so extracted values can be traced to the source
    */
-  private preprocessDocument(text: string): string {
-    return text
+  private preprocessDocument(text: string): PreparedText {
+    const replacements: [RegExp, string][] = [
+      // Strip markup delimiters
+      [/[<>]/g, ''],
       // Normalize whitespace
-      .replace(/\s+/g, ' ')
+      [/\s+/g, ' '],
       // Fix common OCR errors
-      .replace(/\b0\b/g, 'O')
-      .replace(/\bl\b/g, 'I')
+      [/\b0\b/g, 'O'],
+      [/\bl\b/g, 'I'],
       // Normalize currency symbols
-      .replace(/US\$/g, 'USD')
-      .replace(/\$US/g, 'USD')
+      [/US\$/g, 'USD'],
+      [/\$US/g, 'USD'],
       // Normalize percentage symbols
-      .replace(/per\s*cent/gi, '%')
-      .replace(/percent/gi, '%')
+      [/per\s*cent/gi, '%'],
+      [/percent/gi, '%'],
       // Clean up punctuation
-      .replace(/[""]/g, '"')
-      .replace(/['']/g, "'")
-      .trim();
+      [/[\u201C\u201D]/g, '"'],
+      [/[\u2018\u2019]/g, "'"],
+    ];
+
+    const initial: PreparedText = {
+      text,
+      sourceOffsets: Array.from({ length: text.length + 1 }, (_, index) => index),
+    };
+    const normalized = replacements.reduce(
+      (current, [pattern, replacement]) => replaceWithSourceMap(current, pattern, replacement),
+      initial
+    );
+
+    const leading = normalized.text.length - normalized.text.trimStart().length;
+    const trimmed = normalized.text.trim();
+    return {
+      text: trimmed,
+      sourceOffsets: normalized.sourceOffsets.slice(leading, leading + trimmed.length + 1),
+    };
   }
 
   /**
    * Extract data using sophisticated pattern matching
    */
-  private extractByPatterns(text: string): Partial<LoanData> {
+  private extractByPatterns(text: string, spans: SourceSpans): Partial<LoanData> {
     const results: Partial<LoanData> = {};
     
     for (const pattern of this.patterns) {
       let bestMatch: any = null;
       let bestConfidence = 0;
+      let bestSpan: SourceSpan | null = null;
       
       for (const regex of pattern.patterns) {
         const matches = Array.from(text.matchAll(regex));
@@ -356,6 +554,9 @@ export class SmartLoanExtractor {
               if (confidence > bestConfidence) {
                 bestMatch = processed;
                 bestConfidence = confidence;
+                // Point at the captured value within the match
+                const start = (match.index ?? 0) + Math.max(0, match[0].indexOf(match[1]));
+                bestSpan = { start, end: start + match[1].length, method: 'pattern', pattern: regex.source, confidence };
               }
             }
           }
@@ -364,6 +565,7 @@ export class SmartLoanExtractor {
       
       if (bestMatch && bestConfidence > 0.5) {
         results[pattern.field] = bestMatch;
+        if (bestSpan) spans[pattern.field] = bestSpan;
       }
     }
     
@@ -373,7 +575,7 @@ export class SmartLoanExtractor {
   /**
    * Enhance extraction using NLP techniques
    */
-  private enhanceWithNLP(text: string, patternResults: Partial<LoanData>): Partial<LoanData> {
+  private enhanceWithNLP(text: string, patternResults: Partial<LoanData>, spans: SourceSpans): Partial<LoanData> {
     const doc = this.nlpProcessor(text);
     const enhanced = { ...patternResults };
     
@@ -386,6 +588,7 @@ export class SmartLoanExtractor {
         for (const org of organizations) {
           if (firstHalf.toLowerCase().includes(org.toLowerCase())) {
             enhanced.borrowerName = org;
+            spans.borrowerName = this.locateSpan(text, org, 'nlp', NLP_FIELD_CONFIDENCE);
             break;
           }
         }
@@ -398,14 +601,17 @@ export class SmartLoanExtractor {
       if (money.length > 0) {
         // Look for the largest amount mentioned
         let maxAmount = 0;
+        let maxAmountText = '';
         for (const amount of money) {
           const numericValue = this.parseMoneyString(amount);
           if (numericValue > maxAmount && numericValue >= 1000000) {
             maxAmount = numericValue;
+            maxAmountText = amount;
           }
         }
         if (maxAmount > 0) {
           enhanced.facilityAmount = maxAmount;
+          spans.facilityAmount = this.locateSpan(text, maxAmountText, 'nlp', NLP_FIELD_CONFIDENCE);
         }
       }
     }
@@ -420,6 +626,7 @@ export class SmartLoanExtractor {
           const context = this.getContextAroundValue(text, pct, 50);
           if (/(?:interest|margin|rate|spread|pricing)/i.test(context)) {
             enhanced.interestRateMargin = numericValue;
+            spans.interestRateMargin = this.locateSpan(text, pct, 'nlp', NLP_FIELD_CONFIDENCE);
             break;
           }
         }
@@ -432,7 +639,7 @@ export class SmartLoanExtractor {
   /**
    * Validate and correct extracted data using business logic
    */
-  private validateAndCorrect(data: Partial<LoanData>, text: string): Partial<LoanData> {
+  private validateAndCorrect(data: Partial<LoanData>, text: string, spans: SourceSpans): Partial<LoanData> {
     const corrected = { ...data };
     
     // Validate and correct facility amount
@@ -453,12 +660,15 @@ export class SmartLoanExtractor {
       const currencyInText = this.detectCurrencyFromContext(text);
       if (currencyInText && currencyInText !== corrected.currency) {
         corrected.currency = currencyInText;
+        const symbol = { USD: '$', EUR: '€', GBP: '£' }[currencyInText] ?? currencyInText;
+        spans.currency = this.locateSpan(text, symbol, 'derived', DERIVED_FIELD_CONFIDENCE);
       }
     }
     
     // Set default currency if not found but amount exists
     if (corrected.facilityAmount && !corrected.currency) {
       corrected.currency = 'USD'; // Default assumption
+      spans.currency = this.defaultSpan();
     }
     
     // Validate interest rate margin
@@ -480,11 +690,793 @@ export class SmartLoanExtractor {
     // Provide default ESG target if not found (many traditional loans don't have ESG)
     if (!corrected.esgTarget || corrected.esgTarget.trim().length === 0) {
       corrected.esgTarget = "No specific ESG targets identified in this agreement";
+      spans.esgTarget = this.defaultSpan();
     }
     
     return corrected;
   }
 
+  /**
+   * Extract individual facilities (tranches) from a multi-facility agreement.
+   * Each facility heading opens a window of text, up to the next heading, in
+   * which the amount, margin and tenor for that facility are looked up.
+   */
+  private extractTranches(text: string, loan: Partial<LoanData>, spans: SourceSpans): Tranche[] {
+    const headingPattern = /\b(Term\s+Loan\s+A|Term\s+Loan\s+B|Term\s+Facility\s+A|Term\s+Facility\s+B|Revolving\s+(?:Credit\s+)?Facility|Revolver|Capex\s+Facility|Bridge\s+Facility)(?:\s+Facility)?\b/gi;
+    const headings = Array.from(text.matchAll(headingPattern));
+    const tranches: Tranche[] = [];
+    const seen = new Set<FacilityType>();
+    let spanStart = text.length;
+    let spanEnd = 0;
+
+    headings.forEach((heading, index) => {
+      const facilityType = this.classifyFacility(heading[1]);
+      if (!facilityType || seen.has(facilityType)) return;
+
+      const start = heading.index ?? 0;
+      const nextStart = headings.slice(index + 1).find(next => this.classifyFacility(next[1]) !== facilityType)?.index;
+      const window = text.substring(start, Math.min(nextStart ?? text.length, start + 400));
+
+      const amount = this.parseTrancheAmount(window);
+      if (!amount) return;
+
+      const marginMatch = window.match(/(?:plus|\+)\s*([\d.]+)\s*%/i);
+      const tenorMatch = window.match(/(\d+)[\s-]*(years?|months?)/i);
+      const tenorMonths = tenorMatch
+        ? parseInt(tenorMatch[1], 10) * (tenorMatch[2].toLowerCase().startsWith('year') ? 12 : 1)
+        : this.tenorFromKeyDates(loan);
+
+      seen.add(facilityType);
+      spanStart = Math.min(spanStart, start);
+      spanEnd = Math.max(spanEnd, start + window.length);
+      tranches.push({
+        id: `tranche_${tranches.length + 1}`,
+        name: heading[1].replace(/\s+/g, ' ').trim(),
+        facilityType,
+        amount,
+        currency: this.detectCurrencyFromContext(window) || loan.currency || 'USD',
+        interestRateMargin: marginMatch ? parseFloat(marginMatch[1]) : loan.interestRateMargin || 0,
+        ...(tenorMonths && { tenorMonths }),
+      });
+    });
+
+    // A single facility is already described by the loan-level fields
+    if (tranches.length < 2) return [];
+
+    spans.tranches = { start: spanStart, end: spanEnd, method: 'pattern', pattern: headingPattern.source, confidence: 0.8 };
+    return tranches;
+  }
+
+  /**
+   * Whole months from signing to termination, for facilities that state no tenor
+   * of their own; undefined when either date is missing
+   */
+  private tenorFromKeyDates(loan: Partial<LoanData>): number | undefined {
+    if (!loan.signingDate || !loan.terminationDate) return undefined;
+    const [signingYear, signingMonth] = loan.signingDate.split('-').map(Number);
+    const [terminationYear, terminationMonth] = loan.terminationDate.split('-').map(Number);
+    const months = (terminationYear - signingYear) * 12 + terminationMonth - signingMonth;
+    return months > 0 ? months : undefined;
+  }
+
+  /**
+   * Attach extracted tranches and roll their totals up to the loan level
+   */
+  private applyTranches(data: Partial<LoanData>, tranches: Tranche[], spans: SourceSpans): void {
+    if (tranches.length === 0) return;
+
+    const totals = calculateTrancheTotals(tranches);
+    const derivedSpan: SourceSpan | null = spans.tranches
+      ? { ...spans.tranches, method: 'derived', confidence: DERIVED_FIELD_CONFIDENCE }
+      : null;
+
+    data.tranches = tranches;
+    // Facilities in several currencies keep the stated facility amount; their sum mixes currencies
+    const currencies = Object.keys(totals.amountByCurrency);
+    if (currencies.length === 1 && (!data.currency || data.currency === currencies[0])) {
+      data.facilityAmount = totals.totalAmount;
+      if (derivedSpan) spans.facilityAmount = derivedSpan;
+    }
+    if (!data.interestRateMargin) {
+      data.interestRateMargin = Math.round(totals.weightedAverageMargin * 100) / 100;
+      if (derivedSpan) spans.interestRateMargin = derivedSpan;
+    }
+  }
+
+  private classifyFacility(label: string): FacilityType | null {
+    const normalized = label.toLowerCase().replace(/\s+/g, ' ');
+    if (/term (?:loan|facility) a/.test(normalized)) return 'term_loan_a';
+    if (/term (?:loan|facility) b/.test(normalized)) return 'term_loan_b';
+    if (/revolv/.test(normalized)) return 'revolving_credit';
+    if (/capex/.test(normalized)) return 'capex';
+    if (/bridge/.test(normalized)) return 'bridge';
+    return null;
+  }
+
+  private parseTrancheAmount(window: string): number | null {
+    const amountMatch = window.match(/(?:\$|€|£|USD|EUR|GBP)\s*([\d,]+(?:\.\d+)?)(?:\s*(million|billion|m|bn)\b)?/i);
+    if (!amountMatch) return null;
+
+    let amount = parseFloat(amountMatch[1].replace(/,/g, ''));
+    const multiplier = amountMatch[2]?.toLowerCase();
+    if (multiplier === 'million' || multiplier === 'm') amount *= 1000000;
+    if (multiplier === 'billion' || multiplier === 'bn') amount *= 1000000000;
+
+    return amount >= 100000 ? amount : null;
+  }
+
+  /**
+   * Extract the financial covenant package. Only covenant headings followed by
+   * a threshold ("not to exceed", "not less than" or a colon) are considered,
+   * so ratio references in pricing grids are not mistaken for covenants.
+   */
+  private extractCovenants(text: string, covenantSpans: Map<CovenantMetric, SourceSpan>): Covenant[] {
+    const definitions: { metric: CovenantMetric; operator: CovenantOperator; unit: 'ratio' | 'amount'; heading: string }[] = [
+      { metric: 'leverage', operator: '<=', unit: 'ratio', heading: '(?:Maximum\\s+)?(?:Total\\s+|Net\\s+)?Leverage\\s+Ratio' },
+      { metric: 'interest_cover', operator: '>=', unit: 'ratio', heading: '(?:Minimum\\s+)?Interest\\s+Cover(?:age)?\\s+Ratio' },
+      { metric: 'debt_service_cover', operator: '>=', unit: 'ratio', heading: '(?:Minimum\\s+)?Debt\\s+Service\\s+Cover(?:age)?\\s+Ratio' },
+      { metric: 'minimum_net_worth', operator: '>=', unit: 'amount', heading: 'Minimum\\s+(?:Tangible\\s+)?Net\\s+Worth' },
+      { metric: 'minimum_liquidity', operator: '>=', unit: 'amount', heading: 'Minimum\\s+Liquidity' },
+      { metric: 'capex', operator: '<=', unit: 'amount', heading: 'Maximum\\s+Capital\\s+Expenditures?' },
+    ];
+    const covenants: Covenant[] = [];
+    // A covenant's clause ends at its line, sentence or the next covenant heading
+    const clauseEnd = new RegExp(`\\n|;|\\.\\s|${definitions.map(definition => definition.heading).join('|')}`, 'i');
+
+    definitions.forEach(definition => {
+      const pattern = new RegExp(`${definition.heading}\\s*(?::|of\\s+not\\s+(?:less|more)\\s+than|not\\s+to\\s+exceed|not\\s+(?:less|more)\\s+than)`, 'gi');
+      // The first heading with a parseable threshold wins
+      for (const match of Array.from(text.matchAll(pattern))) {
+        const window = text.substring((match.index ?? 0) + match[0].length, (match.index ?? 0) + match[0].length + 300);
+        const covenant = this.parseCovenantThreshold(window, definition.unit);
+        if (!covenant) continue;
+
+        covenantSpans.set(definition.metric, {
+          start: match.index ?? 0,
+          end: (match.index ?? 0) + match[0].length + this.measureThresholdText(window),
+          method: 'pattern',
+          pattern: pattern.source,
+          confidence: 0.8,
+        });
+
+        covenants.push({
+          id: definition.metric,
+          metric: definition.metric,
+          label: COVENANT_METRIC_LABELS[definition.metric],
+          operator: definition.operator,
+          threshold: covenant.threshold,
+          unit: definition.unit,
+          testFrequency: this.detectTestFrequency(this.getCovenantClause(window, clauseEnd), definition.metric),
+          testDates: [],
+          stepDowns: covenant.stepDowns,
+        });
+        break;
+      }
+    });
+
+    return covenants;
+  }
+
+  private parseCovenantThreshold(
+    window: string,
+    unit: 'ratio' | 'amount'
+  ): { threshold: number; stepDowns: CovenantStepDown[] } | null {
+    const stepDowns = unit === 'ratio' ? this.parseStepDowns(window) : [];
+    const thereafterMatch = window.match(/Thereafter\s*:\s*([\d.]+)/i);
+
+    let threshold: number | null = null;
+    if (stepDowns.length > 0 && thereafterMatch) {
+      threshold = parseFloat(thereafterMatch[1]);
+    } else if (unit === 'ratio') {
+      const ratioMatch = window.match(/^\s*([\d.]+)\s*(?::\s*1(?:\.0+)?|x\b)/i);
+      threshold = ratioMatch ? parseFloat(ratioMatch[1]) : null;
+    } else {
+      threshold = this.parseTrancheAmount(window.substring(0, 60));
+    }
+
+    if (threshold === null || isNaN(threshold) || threshold <= 0) return null;
+    return { threshold, stepDowns: thereafterMatch ? stepDowns : [] };
+  }
+
+  /**
+   * Attach the covenant package and backfill the headline leverage covenant
+   */
+  private applyCovenants(
+    data: Partial<LoanData>,
+    covenants: Covenant[],
+    covenantSpans: Map<CovenantMetric, SourceSpan>,
+    spans: SourceSpans
+  ): void {
+    if (covenants.length === 0) return;
+
+    data.covenants = covenants;
+    const covenantRanges = Array.from(covenantSpans.values());
+    spans.covenants = {
+      ...covenantRanges[0],
+      start: Math.min(...covenantRanges.map(span => span.start ?? 0)),
+      end: Math.max(...covenantRanges.map(span => span.end ?? 0)),
+    };
+
+    const leverage = covenants.find(covenant => covenant.metric === 'leverage');
+    if (leverage && !data.leverageCovenant) {
+      data.leverageCovenant = getApplicableThreshold(leverage, new Date().toISOString().slice(0, 10));
+      const leverageSpan = covenantSpans.get('leverage');
+      if (leverageSpan) spans.leverageCovenant = { ...leverageSpan, method: 'derived', confidence: DERIVED_FIELD_CONFIDENCE };
+    }
+  }
+
+  /**
+   * Length of the threshold wording at the start of a covenant window
+   * ("4.25:1.00", "$50,000,000" or a step-down schedule up to "Thereafter: x")
+   */
+  private measureThresholdText(window: string): number {
+    const schedule = window.match(/^[\s\S]*?Thereafter\s*:\s*[\d.]+(?::\s*1(?:\.0+)?)?/i);
+    if (schedule && /Through\s/i.test(schedule[0])) return schedule[0].length;
+    const threshold = window.match(/^\s*(?:\$|€|£|USD|EUR|GBP)?\s*[\d.,]+(?:\s*(?::\s*1(?:\.0+)?|x\b|million|billion|m\b|bn\b))?/i);
+    return threshold ? threshold[0].length : 0;
+  }
+
+  private parseStepDowns(window: string): CovenantStepDown[] {
+    const stepPattern = /Through\s+([A-Z][a-z]+\s+\d{1,2},\s*\d{4})\s*:\s*([\d.]+)/g;
+    const stepDowns: CovenantStepDown[] = [];
+
+    for (const step of Array.from(window.matchAll(stepPattern))) {
+      const until = this.parseDocumentDate(step[1]);
+      if (until) {
+        stepDowns.push({ until, threshold: parseFloat(step[2]) });
+      }
+    }
+
+    return stepDowns.sort((a, b) => a.until.localeCompare(b.until));
+  }
+
+  /**
+   * The rest of a covenant's own clause after its heading, so the test frequency
+   * is not read from a neighbouring covenant
+   */
+  private getCovenantClause(window: string, clauseEnd: RegExp): string {
+    const thresholdLength = this.measureThresholdText(window);
+    const end = window.substring(thresholdLength).search(clauseEnd);
+    return end === -1 ? window : window.substring(0, thresholdLength + end);
+  }
+
+  private detectTestFrequency(window: string, metric: CovenantMetric): CovenantTestFrequency {
+    if (/fiscal\s+quarter|quarterly/i.test(window)) return 'quarterly';
+    if (/semi-?annual|half[\s-]year/i.test(window)) return 'semi_annual';
+    if (/fiscal\s+year|annual|per\s+year/i.test(window)) return 'annual';
+    return metric === 'capex' ? 'annual' : 'quarterly';
+  }
+
+  /**
+   * Parse long-form dates such as "December 31, 2026" into ISO (YYYY-MM-DD)
+   */
+  private parseDocumentDate(value: string): string | null {
+    const match = value.match(/([A-Z][a-z]+)\s+(\d{1,2}),\s*(\d{4})/);
+    if (!match) return null;
+
+    const months = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+    const month = months.indexOf(match[1].toLowerCase());
+    if (month === -1) return null;
+
+    return `${match[3]}-${String(month + 1).padStart(2, '0')}-${match[2].padStart(2, '0')}`;
+  }
+
+  /**
+   * Extract the original lenders and their commitments. The commitment schedule
+   * (Schedule 1) is preferred; signature blocks only count when they state a commitment.
+   */
+  private extractLenders(text: string, spans: SourceSpans): LenderCommitment[] {
+    for (const heading of LENDER_SCHEDULE_HEADINGS) {
+      for (const match of Array.from(text.matchAll(heading))) {
+        const sectionStart = (match.index ?? 0) + match[0].length;
+        const commitments = this.parseCommitmentSchedule(text, sectionStart);
+        if (commitments.lenders.length > 0) {
+          spans.lenders = { start: match.index ?? 0, end: commitments.end, method: 'pattern', pattern: heading.source, confidence: 0.85 };
+          return commitments.lenders;
+        }
+      }
+    }
+
+    const signatures = this.parseSignatureCommitments(text);
+    if (signatures.lenders.length > 0) {
+      spans.lenders = { start: signatures.start, end: signatures.end, method: 'pattern', pattern: 'signature pages', confidence: 0.75 };
+    }
+    return signatures.lenders;
+  }
+
+  /**
+   * Read "lender | amount" rows after a schedule heading, up to the total line or the end of the table
+   */
+  private parseCommitmentSchedule(text: string, sectionStart: number): { lenders: LenderCommitment[]; end: number } {
+    const nextSection = text.substring(sectionStart).search(/\b(?:Schedule\s+2|SCHEDULE\s+2|ARTICLE\s+[IVXLC\d]+|IN\s+WITNESS)\b/);
+    const section = text.substring(sectionStart, nextSection === -1 ? sectionStart + 4000 : sectionStart + Math.min(nextSection, 4000));
+    const lenders: LenderCommitment[] = [];
+    let cursor = 0;
+    let end = sectionStart;
+
+    for (const match of Array.from(section.matchAll(COMMITMENT_AMOUNT))) {
+      const index = match.index ?? 0;
+      // The schedule has to start right after its heading
+      if (lenders.length === 0 && index > 400) break;
+      const segment = section.substring(cursor, index);
+      cursor = index + match[0].length;
+
+      const lenderName = this.cleanLenderName(segment, lenders.length === 0);
+      if (!lenderName) {
+        // Text between rows that is not a lender name ends the table
+        if (lenders.length > 0) break;
+        continue;
+      }
+      if (/^total\b/i.test(lenderName)) {
+        end = sectionStart + cursor;
+        break;
+      }
+
+      const amount = this.parseMoneyString(`${match[1]} ${match[2] ?? ''}`);
+      if (amount <= 0) continue;
+      lenders.push({ lenderName, amount });
+      end = sectionStart + cursor;
+    }
+
+    return { lenders, end };
+  }
+
+  /**
+   * Lender name from the text preceding a commitment amount, without table separators,
+   * percentages of the previous row or column headings
+   */
+  private cleanLenderName(segment: string, firstRow: boolean): string | null {
+    const cells = segment
+      .split('|')
+      .map(cell => cell.trim())
+      .filter(cell => /[A-Za-z]/.test(cell));
+    let name = cells.length > 0 ? cells[cells.length - 1] : '';
+
+    name = name
+      .replace(/^(?:\(?[\d.]+\s*%\)?|%(?:age)?)\s*/, '')
+      .replace(/^(?:\d+\.|\([a-z\d]+\))\s+/i, '')
+      .replace(/[\s:\-–—]+$/, '')
+      .trim();
+    if (firstRow) name = name.replace(LENDER_SCHEDULE_HEADER, '').trim();
+
+    if (!/[A-Za-z]{2,}/.test(name) || name.length > 120) return null;
+    if (/^(?:Commitments?|Amount|%age|Share)$/i.test(name)) return null;
+    return name;
+  }
+
+  /**
+   * Lenders whose signature block states their commitment ("BANK, as Lender ... Commitment: $x")
+   */
+  private parseSignatureCommitments(text: string): { lenders: LenderCommitment[]; start: number; end: number } {
+    const blockPattern = /([A-Z][A-Z0-9&.'()\-]*(?:,?\s+[A-Z0-9&.'()\-]+)*),\s+as\s+(?:[A-Za-z]+\s+){0,6}?Lender\b/g;
+    const blocks = Array.from(text.matchAll(blockPattern));
+    const lenders: LenderCommitment[] = [];
+    let start = text.length;
+    let end = 0;
+
+    blocks.forEach((block, index) => {
+      const blockStart = block.index ?? 0;
+      const blockEnd = index + 1 < blocks.length ? (blocks[index + 1].index ?? text.length) : Math.min(text.length, blockStart + 400);
+      const commitment = text
+        .substring(blockStart, blockEnd)
+        .match(/Commitment\s*:?\s*((?:USD|EUR|GBP|\$|€|£)\s*\d[\d,]*(?:\.\d+)?(?:\s*(?:million|billion|mn|bn|m)\b)?)/i);
+      if (!commitment) return;
+
+      const amount = this.parseMoneyString(commitment[1].replace(/^(?:USD|EUR|GBP)/i, ''));
+      if (amount <= 0) return;
+
+      lenders.push({ lenderName: block[1].trim(), amount });
+      start = Math.min(start, blockStart);
+      end = Math.max(end, blockStart + (commitment.index ?? 0) + commitment[0].length);
+    });
+
+    return { lenders, start, end };
+  }
+
+  /**
+   * Attach the syndicate, sized against the facility amount. A facility amount that
+   * was not found, or only guessed from the largest sum in the text, is taken from
+   * the total commitments.
+   */
+  private applyLenders(data: Partial<LoanData>, commitments: LenderCommitment[], spans: SourceSpans): void {
+    if (commitments.length === 0) return;
+
+    const commitmentTotal = commitments.reduce((sum, commitment) => sum + commitment.amount, 0);
+    const facilityAmountGuessed = !data.facilityAmount || spans.facilityAmount?.method === 'nlp';
+    if (facilityAmountGuessed && (!data.tranches || data.tranches.length === 0)) {
+      data.facilityAmount = commitmentTotal;
+      if (spans.lenders) spans.facilityAmount = { ...spans.lenders, method: 'derived', confidence: DERIVED_FIELD_CONFIDENCE };
+    }
+
+    const totalAmount = data.tranches && data.tranches.length > 0
+      ? calculateTrancheTotals(data.tranches).totalAmount
+      : data.facilityAmount ?? commitmentTotal;
+    data.lenders = buildLenderAllocations(commitments, totalAmount);
+  }
+
+  /**
+   * Complete the key dates and derive the repayment schedule: periodic instalments
+   * ("quarterly principal payments of $x beginning ..."), yearly amortisation bands
+   * ("Years 1-2: 5% per annum") or a bullet repayment on the termination date
+   */
+  private applyKeyDates(data: Partial<LoanData>, text: string, spans: SourceSpans): void {
+    // Availability period given as a number of months from signing
+    if (!data.availabilityPeriodEnd && data.signingDate) {
+      const months = text.match(/Availability\s+Period["']?\s*(?::|means)?[^.]{0,100}?(\d{1,3})\s+months/i);
+      if (months) {
+        data.availabilityPeriodEnd = addMonths(data.signingDate, parseInt(months[1], 10));
+        spans.availabilityPeriodEnd = this.locateSpan(text, months[0], 'derived', DERIVED_FIELD_CONFIDENCE);
+      }
+    }
+
+    const facilityAmount = data.tranches && data.tranches.length > 0
+      ? calculateTrancheTotals(data.tranches).totalAmount
+      : data.facilityAmount;
+    const terminationDate = data.terminationDate;
+    if (!facilityAmount || !terminationDate) return;
+
+    const periodicPattern = new RegExp(
+      `\\b(monthly|quarterly|semi-annual(?:ly)?|annual(?:ly)?)\\s+(?:principal\\s+)?(?:re)?(?:payments?|instal(?:l)?ments?)\\s+of\\s+` +
+      `((?:USD|EUR|GBP|\\$|€|£)\\s*[\\d,]+(?:\\.\\d+)?(?:\\s*(?:million|billion|m|bn)\\b)?)\\s*,?\\s*` +
+      `(?:beginning|commencing|starting|from)\\s+(?:on\\s+)?(${AGREEMENT_DATE_PATTERN})`,
+      'i'
+    );
+    const periodic = text.match(periodicPattern);
+    const firstDate = periodic ? parseAgreementDate(periodic[3]) : null;
+    if (periodic && firstDate) {
+      const instalmentAmount = this.parseMoneyString(periodic[2].replace(/^(?:USD|EUR|GBP)/i, ''));
+      const interval = REPAYMENT_INTERVAL_MONTHS[periodic[1].toLowerCase()];
+      if (instalmentAmount > 0 && interval) {
+        data.repaymentSchedule = buildPeriodicSchedule(facilityAmount, instalmentAmount, firstDate, interval, terminationDate);
+        spans.repaymentSchedule = {
+          start: periodic.index ?? 0,
+          end: (periodic.index ?? 0) + periodic[0].length,
+          method: 'pattern',
+          pattern: periodicPattern.source,
+          confidence: 0.8,
+        };
+        return;
+      }
+    }
+
+    const bands = this.extractAmortisationBands(text, facilityAmount, data.signingDate);
+    if (bands) {
+      data.repaymentSchedule = completeRepaymentSchedule(facilityAmount, bands.instalments, terminationDate);
+      spans.repaymentSchedule = { start: bands.start, end: bands.end, method: 'pattern', pattern: 'amortisation schedule', confidence: 0.75 };
+      return;
+    }
+
+    // No amortisation found: the facility is repaid in full at termination
+    data.repaymentSchedule = buildBulletSchedule(facilityAmount, terminationDate);
+    if (spans.terminationDate) {
+      spans.repaymentSchedule = { ...spans.terminationDate, method: 'derived', confidence: DEFAULT_FIELD_CONFIDENCE + 0.3 };
+    }
+  }
+
+  /**
+   * Yearly repayments from an amortisation schedule ("Years 1-2: 5% per annum ($37,500,000 annually)"),
+   * each falling on an anniversary of the signing date
+   */
+  private extractAmortisationBands(
+    text: string,
+    facilityAmount: number,
+    signingDate?: string
+  ): { instalments: RepaymentInstalment[]; start: number; end: number } | null {
+    if (!signingDate) return null;
+
+    const heading = text.match(/(?:Amorti[sz]ation|Repayment)\s+Schedule\s*:?/i);
+    if (!heading) return null;
+
+    const sectionStart = (heading.index ?? 0) + heading[0].length;
+    const nextArticle = text.substring(sectionStart).search(/\bARTICLE\s+[IVXLC\d]+\b/);
+    const section = text.substring(sectionStart, sectionStart + (nextArticle === -1 ? 800 : Math.min(nextArticle, 800)));
+    const bandPattern = /Years?\s+(\d{1,2})(?:\s*(?:-|–|to)\s*(\d{1,2}))?\s*:\s*(.*?)(?=(?:-\s*)?Years?\s+\d{1,2}(?:\s*(?:-|–|to)\s*\d{1,2})?\s*:|$)/gi;
+
+    const instalments: RepaymentInstalment[] = [];
+    let end = sectionStart;
+    for (const band of Array.from(section.matchAll(bandPattern))) {
+      const firstYear = parseInt(band[1], 10);
+      const lastYear = band[2] ? parseInt(band[2], 10) : firstYear;
+      const terms = band[3];
+      end = sectionStart + (band.index ?? 0) + band[0].length;
+
+      // "Remaining balance due at maturity" is the final repayment added on completion
+      if (/remaining\s+balance|balance\s+due|bullet/i.test(terms)) continue;
+
+      const stated = terms.match(/((?:\$|€|£)\s*[\d,]+(?:\.\d+)?(?:\s*(?:million|billion|m|bn)\b)?)\s*(?:annually|per\s+annum|per\s+year)/i);
+      const percentage = terms.match(/([\d.]+)\s*%/);
+      const amount = stated
+        ? this.parseMoneyString(stated[1])
+        : percentage ? facilityAmount * parseFloat(percentage[1]) / 100 : 0;
+      if (amount <= 0) continue;
+
+      for (let year = firstYear; year <= lastYear; year++) {
+        instalments.push({ date: addMonths(signingDate, year * 12), amount });
+      }
+    }
+
+    return instalments.length > 0 ? { instalments, start: heading.index ?? 0, end } : null;
+  }
+
+  /**
+   * Borrower consent, its exceptions, minimum amounts and prohibited or restricted
+   * transferees from the assignments clause
+   */
+  private applyTransferRestrictions(data: Partial<LoanData>, text: string, spans: SourceSpans): void {
+    const heading = text.match(/(?:Changes\s+to\s+the\s+Lenders|Assignments?\s+and\s+Transfers)/i);
+    if (!heading) return;
+
+    const sectionStart = heading.index ?? 0;
+    const afterHeading = sectionStart + heading[0].length;
+    const nextArticle = text.substring(afterHeading).search(/\bARTICLE\s+[IVXLC\d]+\b/);
+    const sectionEnd = afterHeading + (nextArticle === -1 ? 2000 : Math.min(nextArticle, 2000));
+    const section = text.substring(sectionStart, sectionEnd);
+
+    const consent = section.match(/(?:prior\s+(?:written\s+)?)?consent\s+of\s+the\s+(?:Borrower|Company|Obligors'?\s+Agent)/i);
+    const noConsent = /without\s+(?:the\s+)?(?:prior\s+)?consent\s+of\s+the\s+(?:Borrower|Company)/i.test(section);
+    const deemed = section.match(/deemed\s+to\s+have\s+(?:given|granted)\s+(?:its\s+)?consent\s+(\d{1,3})\s+(?:Business\s+)?Days/i);
+    const exceptionClause = section.match(/consent\s+of\s+the\s+(?:Borrower|Company)\s+is\s+not\s+required[^.]*\./i)?.[0] ?? '';
+
+    const consentExceptions: ConsentException[] = [];
+    if (/(?:another|existing|other)\s+Lender/i.test(exceptionClause)) consentExceptions.push('existing_lender');
+    if (/Affiliate/i.test(exceptionClause)) consentExceptions.push('affiliate');
+    if (/Event\s+of\s+Default/i.test(exceptionClause)) consentExceptions.push('event_of_default');
+
+    const minimumTransfer = section.match(/minimum\s+(?:amount|transfer)\s+of\s+((?:\$|€|£)\s*[\d,]+(?:\.\d+)?(?:\s*(?:million|billion|m|bn)\b)?)/i);
+    const minimumHold = section.match(/minimum\s+hold(?:ing)?\s+of\s+((?:\$|€|£)\s*[\d,]+(?:\.\d+)?(?:\s*(?:million|billion|m|bn)\b)?)/i);
+
+    const prohibitedCategories: LenderCategory[] = [];
+    const prohibition = section.match(/No\s+(?:assignment|transfer)[^.]*?may\s+be\s+made\s+to[^.]*\./i)?.[0] ?? '';
+    if (/Competitor/i.test(prohibition)) prohibitedCategories.push('competitor');
+    if (/loan[-\s]to[-\s]own|distressed\s+debt/i.test(prohibition)) prohibitedCategories.push('loan_to_own_fund');
+
+    const listAfter = (label: RegExp): string[] => {
+      const list = section.match(label);
+      if (!list) return [];
+      return list[1].split(/\s*(?:;|,\s*and\s+|\band\b)\s*/).map(name => name.trim().replace(/\.$/, '')).filter(name => name.length > 1);
+    };
+
+    const restrictions: TransferRestrictions = {
+      borrowerConsentRequired: Boolean(consent) && !noConsent,
+      consentExceptions,
+      ...(deemed ? { deemedConsentDays: parseInt(deemed[1], 10) } : {}),
+      ...(minimumTransfer ? { minimumTransferAmount: this.parseMoneyString(minimumTransfer[1]) } : {}),
+      ...(minimumHold ? { minimumHoldAmount: this.parseMoneyString(minimumHold[1]) } : {}),
+      prohibitedCategories,
+      approvedLenders: listAfter(/Approved\s+Lenders?\s*:\s*([^\n]+?)(?:\.\s|\.?$|\n)/im),
+      restrictedLenders: listAfter(/Restricted\s+Lenders?\s*:\s*([^\n]+?)(?:\.\s|\.?$|\n)/im),
+    };
+
+    data.transferRestrictions = restrictions;
+    spans.transferRestrictions = {
+      start: sectionStart,
+      end: sectionEnd,
+      method: 'pattern',
+      pattern: 'changes to the lenders',
+      confidence: 0.75,
+    };
+  }
+
+  /**
+   * KPIs of a sustainability-linked loan from its sustainability performance targets.
+   * Each numbered target ("Target 1:" or "1.") with a percentage and a year becomes a
+   * KPI: a reduction is measured against the baseline level as 100, an achievement
+   * level as the percentage itself. A rating to maintain ("A- or higher") is tested
+   * every year of the loan on the ESG rating scale. Targets priced one by one keep
+   * their own discount and are weighted by it; targets priced together share the
+   * discount equally. A maximum total discount caps the step-down. Returns the
+   * titles of targets that could not be measured.
+   */
+  private applySustainabilityTerms(data: Partial<LoanData>, text: string, spans: SourceSpans): string[] {
+    const heading = text.match(/Sustainability\s+Performance\s+Targets?(?:\s+and\s+Pricing\s+Adjustments)?/i);
+    if (!heading) return [];
+
+    const sectionStart = heading.index ?? 0;
+    const afterHeading = sectionStart + heading[0].length;
+    const sectionEndPattern = /\b(?:ARTICLE\s+[IVXLC\d]+|PRICING\s+ADJUSTMENTS|FINANCIAL\s+COVENANTS|Maximum\s+total\s+discount)\b/i;
+    const nextSection = text.substring(afterHeading).search(sectionEndPattern);
+    const sectionEnd = afterHeading + (nextSection === -1 ? 2000 : Math.min(nextSection, 2000));
+    const items = text.substring(afterHeading, sectionEnd).split(/\bTarget\s+\d+\s*:|(?:^|\s)\d{1,2}\.\s/i)
+      .map(item => item.replace(/^[:\s]+/, '').trim())
+      .filter(item => item.length > 0);
+    // Pricing that follows the targets, for agreements with one discount for all of them
+    const pricing = text.substring(sectionEnd, sectionEnd + 600);
+
+    // Preprocessing reads a lone leading zero ("0.50%") as the letter O
+    const percentage = '((?:\\d+|O)(?:\\.\\d+)?)\\s*%';
+    const parsePercentage = (value: string): number => parseFloat(value.replace(/^O/, '0'));
+    const marginChange = (window: string, kind: string): number | null => {
+      const match = window.match(new RegExp(`(?:interest\\s+rate|margin)\\s+(?:${kind})\\s*(?:of|:)?\\s*${percentage}`, 'i'));
+      return match ? parsePercentage(match[1]) : null;
+    };
+    const signingYear = data.signingDate ? parseInt(data.signingDate.substring(0, 4), 10) : null;
+    const terminationYear = data.terminationDate ? parseInt(data.terminationDate.substring(0, 4), 10) : null;
+
+    const unmeasured: string[] = [];
+    const extracted: Array<{ kpi: Omit<SustainabilityKpi, 'weighting'>; discount: number | null; premium: number | null }> = [];
+    const ratings: Array<{ title: string; kpi: Omit<SustainabilityKpi, 'weighting' | 'targets'>; notch: number; discount: number | null; premium: number | null }> = [];
+
+    items.forEach(item => {
+      const title = item.split(/\s+-\s+/)[0].replace(/[.;]$/, '').trim();
+      const discount = marginChange(item, 'discount|reduction|step[-\\s]?down');
+      const premium = marginChange(item, 'premium|increase|step[-\\s]?up');
+
+      // "Maintain ESG rating of A- or higher", tested every year
+      const rating = item.match(/(?:Achieve|Reach|Maintain)\s+(?:an?\s+)?(?:ESG\s+)?rating\s+of\s+([A-C]{1,3}[+-]?)\s+or\s+(?:higher|better|above)/i);
+      const notch = rating ? getRatingNotch(rating[1]) : null;
+      if (notch !== null) {
+        ratings.push({
+          title: title.substring(0, 80),
+          kpi: { id: '', metric: 'ESG rating', unit: ESG_RATING_UNIT, direction: 'increase', baselineYear: signingYear ?? 0, baselineValue: null },
+          notch,
+          discount,
+          premium,
+        });
+        return;
+      }
+
+      const year = item.match(/\bby\s+(?:[A-Z][a-z]+\s+(?:\d{1,2},?\s+)?)?(\d{4})\b/);
+      // "40% reduction in <metric>" or "Reduce <metric> by 40%"
+      const reductionOf = item.match(new RegExp(`${percentage}\\s+reduction\\s+in\\s+(.+?)(?=\\s+by\\b|\\s*\\(|,)`, 'i'));
+      const reduceBy = item.match(new RegExp(`(?:Reduce|Cut|Decrease)\\s+(.+?)\\s+by\\s+${percentage}`, 'i'));
+      const reduction = reductionOf
+        ? { percent: parsePercentage(reductionOf[1]), metric: reductionOf[2] }
+        : reduceBy ? { percent: parsePercentage(reduceBy[2]), metric: reduceBy[1] } : null;
+      const level = item.match(new RegExp(`(?:Achieve|Reach|Maintain)\\s+(?:at\\s+least\\s+)?${percentage}\\s+(.+?)(?=\\s+by\\b|,|\\.|$)`, 'i'));
+      if (!year || (!reduction && !level)) {
+        unmeasured.push(title.substring(0, 80));
+        return;
+      }
+
+      const testYear = parseInt(year[1], 10);
+      const baselineYear = item.match(/baseline\s*:?\s*(?:FY\s*)?(\d{4})/i);
+      const metric = (name: string) => name.trim().charAt(0).toUpperCase() + name.trim().substring(1);
+      const kpi: Omit<SustainabilityKpi, 'weighting'> = reduction
+        ? {
+            id: `kpi_${extracted.length + 1}`,
+            metric: metric(reduction.metric),
+            unit: '% of baseline',
+            direction: 'decrease',
+            baselineYear: baselineYear ? parseInt(baselineYear[1], 10) : testYear - 1,
+            baselineValue: 100,
+            targets: [{ testYear, target: 100 - reduction.percent }],
+          }
+        : {
+            id: `kpi_${extracted.length + 1}`,
+            metric: metric(level![2]),
+            unit: '%',
+            direction: 'increase',
+            baselineYear: baselineYear
+              ? parseInt(baselineYear[1], 10)
+              : signingYear !== null && signingYear < testYear ? signingYear : testYear - 1,
+            baselineValue: null,
+            targets: [{ testYear, target: parsePercentage(level![1]) }],
+          };
+      extracted.push({ kpi, discount, premium });
+    });
+
+    // Ratings are tested each full year between signing and maturity, or in the other KPIs' test years
+    const otherYears = [...new Set(extracted.flatMap(entry => entry.kpi.targets.map(target => target.testYear)))].sort((a, b) => a - b);
+    const ratingYears = signingYear !== null && terminationYear !== null && terminationYear - signingYear > 1
+      ? Array.from({ length: terminationYear - signingYear - 1 }, (_, index) => signingYear + 1 + index)
+      : otherYears;
+
+    ratings.forEach(({ title, kpi, notch, discount, premium }) => {
+      if (ratingYears.length === 0) {
+        unmeasured.push(title);
+        return;
+      }
+      extracted.push({
+        kpi: {
+          ...kpi,
+          id: `kpi_${extracted.length + 1}`,
+          baselineYear: signingYear ?? ratingYears[0] - 1,
+          targets: ratingYears.map(testYear => ({ testYear, target: notch })),
+        },
+        discount,
+        premium,
+      });
+    });
+
+    if (extracted.length === 0) return unmeasured;
+
+    // Priced target by target, or one adjustment shared equally
+    const pricedIndividually = extracted.some(entry => entry.discount !== null);
+    const discounts = extracted.map(entry => (pricedIndividually ? entry.discount ?? 0 : 1));
+    const discountTotal = discounts.reduce((sum, discount) => sum + discount, 0);
+    const maximumDiscount = pricing.match(new RegExp(`Maximum\\s+total\\s+discount\\s*:?\\s*${percentage}`, 'i'));
+    const sharedDiscount = marginChange(pricing, 'discount|reduction|step[-\\s]?down') ?? 0;
+    const totalDiscount = pricedIndividually ? discountTotal : sharedDiscount;
+    const totalPremium = extracted.reduce((sum, entry) => sum + (entry.premium ?? 0), 0)
+      || (marginChange(pricing, 'premium|increase|step[-\\s]?up') ?? 0);
+
+    const weightings = discounts.map(discount => Math.round((discount / (discountTotal || 1)) * 10000) / 100);
+    // Rounding leftovers go to the last KPI so the weightings add up to exactly 100
+    weightings[weightings.length - 1] = Math.round((100 - weightings.slice(0, -1).reduce((sum, weighting) => sum + weighting, 0)) * 100) / 100;
+
+    data.sustainabilityTerms = {
+      kpis: extracted.map((entry, index) => ({
+        ...entry.kpi,
+        weighting: weightings[index],
+        ...(pricedIndividually && { discountBps: Math.round((entry.discount ?? 0) * 100) }),
+      })),
+      ratchetDownBps: Math.round(totalDiscount * 100),
+      ratchetUpBps: Math.round(totalPremium * 100),
+      ...(maximumDiscount && { maxDiscountBps: Math.round(parsePercentage(maximumDiscount[1]) * 100) }),
+    };
+    spans.sustainabilityTerms = {
+      start: sectionStart,
+      end: sectionEnd,
+      method: 'pattern',
+      pattern: 'sustainability performance targets',
+      confidence: 0.7,
+    };
+    return unmeasured;
+  }
+
+  /**
+   * Trace every extracted field back to the original document text
+   */
+  private buildProvenance(
+    data: Partial<LoanData>,
+    spans: SourceSpans,
+    prepared: PreparedText,
+    documentText: string,
+    pages?: PageRange[]
+  ): ExtractionProvenance {
+    const provenance: ExtractionProvenance = {};
+
+    (Object.keys(data) as (keyof LoanData)[]).forEach(field => {
+      if (data[field] === undefined) return;
+      const span = spans[field] ?? this.defaultSpan();
+
+      if (span.start === null || span.end === null) {
+        provenance[field] = {
+          field,
+          method: span.method,
+          pattern: span.pattern,
+          startOffset: null,
+          endOffset: null,
+          snippet: '',
+          pageNumber: null,
+          confidence: span.confidence,
+        };
+        return;
+      }
+
+      const startOffset = prepared.sourceOffsets[span.start];
+      // Map the last character of the span, so trailing replacements do not widen it
+      const endOffset = span.end > span.start ? prepared.sourceOffsets[span.end - 1] + 1 : startOffset;
+      const snippet = documentText
+        .substring(Math.max(0, startOffset - SNIPPET_CONTEXT_LENGTH), Math.min(documentText.length, endOffset + SNIPPET_CONTEXT_LENGTH))
+        .replace(/\s+/g, ' ')
+        .trim();
+
+      provenance[field] = {
+        field,
+        method: span.method,
+        pattern: span.pattern,
+        startOffset,
+        endOffset,
+        snippet,
+        pageNumber: pages && pages.length > 0 ? getPageForOffset(pages, startOffset) : null,
+        confidence: Math.round(span.confidence * 100) / 100,
+      };
+    });
+
+    return provenance;
+  }
+
+  private locateSpan(text: string, value: string, method: ExtractionMethod, confidence: number): SourceSpan {
+    const index = text.toLowerCase().indexOf(value.toLowerCase());
+    if (index === -1) return { start: null, end: null, method, pattern: null, confidence };
+    return { start: index, end: index + value.length, method, pattern: null, confidence };
+  }
+
+  private defaultSpan(): SourceSpan {
+    return { start: null, end: null, method: 'default', pattern: null, confidence: DEFAULT_FIELD_CONFIDENCE };
+  }
+
   /**
    * Calculate overall confidence score
    */
@@ -549,6 +1541,18 @@ export class SmartLoanExtractor {
     if (!data.esgTarget) {
       suggestions.push('No ESG targets found. This may be a traditional loan without sustainability features.');
     }
+
+    if (data.lenders && data.lenders.length > 0) {
+      const totalAmount = data.tranches && data.tranches.length > 0
+        ? calculateTrancheTotals(data.tranches).totalAmount
+        : data.facilityAmount ?? 0;
+      const reconciliation = reconcileSyndicate(data.lenders, totalAmount);
+      if (!reconciliation.isReconciled) {
+        suggestions.push(
+          `Lender commitments total ${reconciliation.commitmentTotal.toLocaleString()} but the facility amount is ${totalAmount.toLocaleString()}. Check Schedule 1 for missing or duplicated lenders.`
+        );
+      }
+    }
     
     return suggestions;
   }
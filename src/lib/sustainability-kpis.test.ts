@@ -0,0 +1,321 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for sustainability KPIs, the two-way margin ratchet and the margin history
+ */
+
+import * as fc from 'fast-check';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { LoanData, SustainabilityLinkedTerms, sanitizeLoanData } from '@/types';
+import { validateLoan } from './loan-validation';
+import { ReferenceRateCurve } from './reference-rates';
+import { buildInterestSchedules, getNextInterestPeriodStart } from './interest-schedule';
+import { SmartLoanExtractor } from './smart-loan-extractor';
+import { CodedError } from './enterprise-errors';
+import {
+  ESG_RATING_UNIT,
+  applyMarginAdjustment,
+  assessKpiReport,
+  assessTestPeriod,
+  getMarginAdjustmentAt,
+  getMarginAt,
+  getTestYears,
+  setSustainabilityTerms,
+  validateMarginHistory,
+  validateSustainabilityTerms
+} from './sustainability-kpis';
+
+const terms: SustainabilityLinkedTerms = {
+  kpis: [
+    {
+      id: 'emissions',
+      metric: 'Scope 1 and 2 emissions',
+      unit: 'ktCO2e',
+      direction: 'decrease',
+      baselineYear: 2023,
+      baselineValue: 100,
+      targets: [{ testYear: 2025, target: 80 }, { testYear: 2026, target: 70 }],
+      weighting: 60,
+    },
+    {
+      id: 'renewables',
+      metric: 'Renewable electricity',
+      unit: '%',
+      direction: 'increase',
+      baselineYear: 2023,
+      baselineValue: 40,
+      targets: [{ testYear: 2026, target: 75 }],
+      weighting: 40,
+    },
+  ],
+  ratchetDownBps: 10,
+  ratchetUpBps: 5,
+};
+
+const loan: LoanData = {
+  borrowerName: 'Green Energy Solutions Inc.',
+  facilityAmount: 100000000,
+  currency: 'USD',
+  interestRateMargin: 2.25,
+  leverageCovenant: 3.75,
+  esgTarget: 'Halve emissions by 2027',
+  signingDate: '2026-01-01',
+  terminationDate: '2027-01-01',
+  sustainabilityTerms: terms,
+};
+
+describe('assessTestPeriod', () => {
+  it('steps the margin down by the weighting of each KPI met and up for each missed', () => {
+    const result = assessTestPeriod(terms, { testYear: 2026, values: { emissions: 68, renewables: 70 } });
+
+    expect(result.assessments).toEqual([
+      expect.objectContaining({ kpiId: 'emissions', target: 70, met: true, adjustmentBps: -6 }),
+      expect.objectContaining({ kpiId: 'renewables', target: 75, met: false, adjustmentBps: 2 }),
+    ]);
+    expect(result.adjustmentBps).toBe(-4);
+  });
+
+  it('counts unreported KPIs as missed and leaves untested KPIs out', () => {
+    const result = assessTestPeriod(terms, { testYear: 2025, values: {} });
+
+    expect(result.assessments).toEqual([expect.objectContaining({ kpiId: 'emissions', value: null, met: false })]);
+    expect(result.adjustmentBps).toBe(3);
+  });
+
+  it('steps down by each KPI\'s own discount up to the maximum total discount', () => {
+    const priced: SustainabilityLinkedTerms = {
+      ...terms,
+      kpis: terms.kpis.map(kpi => ({ ...kpi, discountBps: 8 })),
+      ratchetDownBps: 16,
+      maxDiscountBps: 10,
+    };
+
+    expect(assessTestPeriod(priced, { testYear: 2026, values: { emissions: 68, renewables: 70 } }).adjustmentBps).toBe(-6);
+    expect(assessTestPeriod(priced, { testYear: 2026, values: { emissions: 68, renewables: 80 } }).adjustmentBps).toBe(-10);
+  });
+
+  it('keeps the adjustment between the full step-down and the full step-up', () => {
+    fc.assert(
+      fc.property(
+        fc.option(fc.float({ min: 0, max: 200, noNaN: true }), { nil: undefined }),
+        fc.option(fc.float({ min: 0, max: 100, noNaN: true }), { nil: undefined }),
+        fc.constantFrom(2025, 2026),
+        (emissions, renewables, testYear) => {
+          const values = {
+            ...(emissions !== undefined && { emissions }),
+            ...(renewables !== undefined && { renewables }),
+          };
+          const { adjustmentBps } = assessTestPeriod(terms, { testYear, values });
+          expect(adjustmentBps).toBeGreaterThanOrEqual(-terms.ratchetDownBps);
+          expect(adjustmentBps).toBeLessThanOrEqual(terms.ratchetUpBps);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('validateSustainabilityTerms', () => {
+  it('accepts a complete framework and lists its test years', () => {
+    expect(() => validateSustainabilityTerms(terms)).not.toThrow();
+    expect(getTestYears(terms)).toEqual([2025, 2026]);
+  });
+
+  it('rejects weightings, targets and ratchets outside the agreement rules', () => {
+    const [emissions, renewables] = terms.kpis;
+
+    expect(() => validateSustainabilityTerms({ ...terms, kpis: [emissions] }))
+      .toThrow('KPI weightings add up to 60%, not 100%');
+    expect(() => validateSustainabilityTerms({
+      ...terms,
+      kpis: [{ ...emissions, targets: [{ testYear: 2023, target: 90 }] }, renewables],
+    })).toThrow('Scope 1 and 2 emissions: test years must be after the 2023 baseline');
+    expect(() => validateSustainabilityTerms({ ...terms, ratchetDownBps: 60 })).toThrow(CodedError);
+  });
+
+  it('fixes the framework once a year is reported', () => {
+    expect(setSustainabilityTerms({ ...loan, sustainabilityTerms: undefined }, terms, []).sustainabilityTerms).toBe(terms);
+    expect(() => setSustainabilityTerms(loan, terms, [{ testYear: 2025, reportedOn: '2026-03-01', values: {} }]))
+      .toThrow('KPIs are fixed once a test year has been reported');
+  });
+});
+
+describe('assessKpiReport', () => {
+  it('only assesses each test year once', () => {
+    const reports = [{ testYear: 2025, reportedOn: '2026-03-01', values: { emissions: 75 } }];
+
+    expect(assessKpiReport(loan, reports, { testYear: 2026, values: {} }).adjustmentBps).toBe(5);
+    expect(() => assessKpiReport(loan, reports, { testYear: 2025, values: {} })).toThrow('2025 has already been reported');
+    expect(() => assessKpiReport(loan, reports, { testYear: 2030, values: {} })).toThrow('No KPI is tested in 2030');
+  });
+});
+
+describe('applyMarginAdjustment', () => {
+  const withTranches: LoanData = {
+    ...loan,
+    tranches: [
+      { id: 'tla', name: 'Facility A', facilityType: 'term_loan', amount: 60000000, currency: 'USD', interestRateMargin: 2.5, tenorMonths: 12 },
+      { id: 'rcf', name: 'Revolver', facilityType: 'revolving_credit', amount: 40000000, currency: 'USD', interestRateMargin: 2, tenorMonths: 12 },
+    ],
+  };
+
+  it('replaces the previous adjustment rather than adding to it', () => {
+    const steppedDown = applyMarginAdjustment(withTranches, { effectiveDate: '2026-04-01', testYear: 2025, adjustmentBps: -10 });
+    const steppedUp = applyMarginAdjustment(steppedDown, { effectiveDate: '2026-10-01', testYear: 2026, adjustmentBps: 5 });
+
+    expect(steppedDown.interestRateMargin).toBeCloseTo(2.15, 10);
+    expect(steppedUp.interestRateMargin).toBeCloseTo(2.3, 10);
+    expect(steppedUp.tranches?.map(tranche => tranche.interestRateMargin)).toEqual([
+      expect.closeTo(2.55, 10),
+      expect.closeTo(2.05, 10),
+    ]);
+    expect(steppedUp.marginHistory?.map(entry => entry.adjustmentBps)).toEqual([-10, 5]);
+    expect(getMarginAdjustmentAt(steppedUp, '2026-03-31')).toBe(0);
+    expect(getMarginAdjustmentAt(steppedUp, '2026-07-01')).toBe(-10);
+  });
+
+  it('floors margins at zero and charges past periods the margins recorded then', () => {
+    const lowMargin: LoanData = {
+      ...withTranches,
+      interestRateMargin: 0.05,
+      tranches: withTranches.tranches?.map(tranche => ({ ...tranche, interestRateMargin: tranche.id === 'rcf' ? 0.05 : 2.5 })),
+    };
+    const steppedDown = applyMarginAdjustment(lowMargin, { effectiveDate: '2026-04-01', testYear: 2025, adjustmentBps: -10 });
+    const steppedUp = applyMarginAdjustment(steppedDown, { effectiveDate: '2026-10-01', testYear: 2026, adjustmentBps: 5 });
+    const [, revolver] = steppedUp.tranches!;
+
+    expect(steppedDown.interestRateMargin).toBe(0);
+    expect(steppedDown.marginHistory?.[0]).toMatchObject({ margin: 0, contractualMargin: 0.05, contractualTrancheMargins: { tla: 2.5, rcf: 0.05 } });
+    // From the contractual margin, not up from the floor
+    expect(steppedUp.interestRateMargin).toBeCloseTo(0.1, 10);
+    expect(revolver.interestRateMargin).toBeCloseTo(0.1, 10);
+
+    expect([getMarginAt(steppedUp, '2026-01-01'), getMarginAt(steppedUp, '2026-05-01'), getMarginAt(steppedUp, '2026-11-01')])
+      .toEqual([0.05, 0, expect.closeTo(0.1, 10)]);
+    expect([getMarginAt(steppedUp, '2026-01-01', revolver), getMarginAt(steppedUp, '2026-05-01', revolver)]).toEqual([0.05, 0]);
+    expect(getMarginAt(steppedUp, '2026-05-01', steppedUp.tranches![0])).toBeCloseTo(2.4, 10);
+  });
+
+  it('keeps the history in effective date order', () => {
+    const adjusted = applyMarginAdjustment(loan, { effectiveDate: '2026-07-01', testYear: 2025, adjustmentBps: -10 });
+
+    expect(() => applyMarginAdjustment(adjusted, { effectiveDate: '2026-04-01', testYear: 2026, adjustmentBps: 0 }))
+      .toThrow('Margin adjustments must take effect on or after 2026-07-01');
+  });
+
+  it('validates a margin history received with the loan', () => {
+    const { marginHistory } = applyMarginAdjustment(loan, { effectiveDate: '2026-07-01', testYear: 2025, adjustmentBps: -10 });
+    const [entry] = marginHistory!;
+
+    expect(validateLoan({ ...loan, marginHistory }).errors).toEqual([]);
+    expect(() => validateMarginHistory([entry, { ...entry, effectiveDate: '2026-04-01' }]))
+      .toThrow('Margin adjustments must take effect on or after 2026-07-01');
+    expect(validateLoan({ ...loan, ...sanitizeLoanData({ marginHistory: [{ ...entry, adjustmentBps: 'lower' as unknown as number }] }) }).errors)
+      .toEqual(['2026-07-01: adjustment must be a number of basis points']);
+    expect(validateLoan({ ...loan, marginHistory: [null] as unknown as LoanData['marginHistory'] }).errors)
+      .toEqual(['Margin history must list adjustments, each with an effective date']);
+  });
+
+  it('charges each interest period the margin in force when it starts', () => {
+    const effectiveDate = getNextInterestPeriodStart(loan, '2026-05-15');
+    const adjusted = applyMarginAdjustment(loan, { effectiveDate, testYear: 2025, adjustmentBps: -10 });
+    const [schedule] = buildInterestSchedules(adjusted, new ReferenceRateCurve([]), '2026-05-15');
+
+    expect(effectiveDate).toBe('2026-07-01');
+    expect(schedule.periods.map(period => period.margin)).toEqual([
+      2.25,
+      2.25,
+      expect.closeTo(2.15, 10),
+      expect.closeTo(2.15, 10),
+    ]);
+  });
+});
+
+describe('SmartLoanExtractor sustainability KPIs', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reads KPIs, targets and margin discounts from the sustainability-linked agreement', async () => {
+    const text = readFileSync(join(process.cwd(), 'sample-documents', 'esg-loan-agreement.txt'), 'utf-8');
+    const { data, provenance, suggestions } = await new SmartLoanExtractor().extractLoanData(text);
+
+    expect(data.sustainabilityTerms).toEqual({
+      kpis: [
+        {
+          id: 'kpi_1',
+          metric: 'Scope 1 and 2 carbon emissions',
+          unit: '% of baseline',
+          direction: 'decrease',
+          baselineYear: 2023,
+          baselineValue: 100,
+          targets: [{ testYear: 2027, target: 60 }],
+          weighting: 50,
+          discountBps: 50,
+        },
+        {
+          id: 'kpi_2',
+          metric: 'Renewable energy in all operations',
+          unit: '%',
+          direction: 'increase',
+          baselineYear: 2025,
+          baselineValue: null,
+          targets: [{ testYear: 2026, target: 75 }],
+          weighting: 25,
+          discountBps: 25,
+        },
+        {
+          id: 'kpi_3',
+          metric: 'ESG rating',
+          unit: ESG_RATING_UNIT,
+          direction: 'increase',
+          baselineYear: 2025,
+          baselineValue: null,
+          // A- on the rating scale, every year to the 2032 maturity
+          targets: [2026, 2027, 2028, 2029, 2030, 2031].map(testYear => ({ testYear, target: 11 })),
+          weighting: 25,
+          discountBps: 25,
+        },
+      ],
+      ratchetDownBps: 100,
+      ratchetUpBps: 0,
+      maxDiscountBps: 100,
+    });
+    expect(provenance.sustainabilityTerms?.snippet).toContain('Target 1: Carbon Emission Reduction');
+    expect(suggestions).not.toContainEqual(expect.stringContaining('"ESG Rating Improvement"'));
+    expect(validateSustainabilityTerms(data.sustainabilityTerms!)).toBeUndefined();
+    expect(sanitizeLoanData(data).sustainabilityTerms).toEqual(data.sustainabilityTerms);
+  });
+
+  it('shares a single discount equally across numbered targets', async () => {
+    const text = [
+      'SUSTAINABILITY PERFORMANCE TARGETS:',
+      '1. Reduce Scope 1 and 2 carbon emissions by 50% by December 2027 (baseline: 2023)',
+      '2. Achieve 75% renewable energy in operations by December 2026',
+      'PRICING ADJUSTMENTS:',
+      '- Interest rate discount of 0.50% per annum upon achievement of all sustainability targets',
+    ].join('\n');
+    const { data } = await new SmartLoanExtractor().extractLoanData(text);
+
+    expect(data.sustainabilityTerms?.kpis.map(kpi => [kpi.metric, kpi.targets, kpi.weighting])).toEqual([
+      ['Scope 1 and 2 carbon emissions', [{ testYear: 2027, target: 50 }], 50],
+      ['Renewable energy in operations', [{ testYear: 2026, target: 75 }], 50],
+    ]);
+    expect(data.sustainabilityTerms?.ratchetDownBps).toBe(50);
+  });
+
+  it('leaves conventional loans without KPIs', async () => {
+    const text = readFileSync(join(process.cwd(), 'sample-documents', 'corporate-loan-agreement.txt'), 'utf-8');
+    const { data } = await new SmartLoanExtractor().extractLoanData(text);
+
+    expect(data.sustainabilityTerms).toBeUndefined();
+  });
+});
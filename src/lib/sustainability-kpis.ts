@@ -0,0 +1,280 @@
+/**
+ * Sustainability-Linked KPIs
+ * KPIs with baselines and annual sustainability performance targets, the two-way
+ * margin ratchet each test year's reported values earn, and the margin history it
+ * leaves on the loan
+ */
+
+import {
+  KpiReport,
+  LoanData,
+  MarginAdjustment,
+  SustainabilityKpi,
+  SustainabilityLinkedTerms,
+  Tranche
+} from '@/types';
+import { defaultEnterpriseConfig } from '@/config/enterprise-config';
+import { CodedError, ErrorCode } from '@/lib/enterprise-errors';
+
+export interface KpiAssessment {
+  kpiId: string;
+  metric: string;
+  unit: string;
+  target: number;
+  // Null when the borrower did not report the KPI, which counts as a miss
+  value: number | null;
+  met: boolean;
+  // This KPI's share of the ratchet; negative steps the margin down
+  adjustmentBps: number;
+}
+
+export interface TestPeriodResult {
+  testYear: number;
+  // KPIs with a target for the test year
+  assessments: KpiAssessment[];
+  adjustmentBps: number;
+}
+
+const WEIGHTING_TOLERANCE = 0.01;
+
+const roundBps = (bps: number): number => Math.round(bps * 100) / 100;
+
+const reject = (message: string): never => {
+  throw new CodedError(ErrorCode.VALIDATION_ERROR, message);
+};
+
+// ESG ratings from lowest to highest. A rating KPI is reported as its notch on
+// this scale, 1 for CCC up to 17 for AAA.
+export const ESG_RATING_SCALE = [
+  'CCC', 'B-', 'B', 'B+', 'BB-', 'BB', 'BB+', 'BBB-', 'BBB', 'BBB+', 'A-', 'A', 'A+', 'AA-', 'AA', 'AA+', 'AAA',
+] as const;
+
+export const ESG_RATING_UNIT = `rating notch (CCC = 1, AAA = ${ESG_RATING_SCALE.length})`;
+
+// Notch of a rating such as "A-", or null for a rating not on the scale
+export function getRatingNotch(rating: string): number | null {
+  const index = (ESG_RATING_SCALE as readonly string[]).indexOf(rating.trim().toUpperCase());
+  return index === -1 ? null : index + 1;
+}
+
+export function generateKpiId(): string {
+  return `kpi_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Checks a KPI framework before it is attached to a loan. Throws
+ * CodedError when a KPI has no metric or targets, a target is not
+ * after its baseline year or repeats a year, the weightings do not add up to 100,
+ * or a discount or the ratchet is negative. Without a cap of its own in the
+ * agreement, the ratchet cannot step down by more than the maximum ESG discount.
+ */
+export function validateSustainabilityTerms(terms: SustainabilityLinkedTerms): void {
+  if (terms.kpis.length === 0) reject('Add at least one KPI');
+
+  terms.kpis.forEach(kpi => {
+    if (!kpi.metric.trim()) reject('Every KPI needs a metric');
+    if (kpi.baselineValue !== null && !Number.isFinite(kpi.baselineValue)) reject(`${kpi.metric}: baseline value must be a number`);
+    if (kpi.targets.length === 0) reject(`${kpi.metric}: add a target for at least one test year`);
+    if (!(kpi.weighting > 0)) reject(`${kpi.metric}: weighting must be positive`);
+    if (kpi.discountBps !== undefined && !(kpi.discountBps >= 0)) reject(`${kpi.metric}: discount must be zero or more basis points`);
+
+    const years = new Set<number>();
+    kpi.targets.forEach(({ testYear, target }) => {
+      if (!Number.isInteger(testYear) || testYear <= kpi.baselineYear) {
+        reject(`${kpi.metric}: test years must be after the ${kpi.baselineYear} baseline`);
+      }
+      if (years.has(testYear)) reject(`${kpi.metric}: more than one target for ${testYear}`);
+      if (!Number.isFinite(target)) reject(`${kpi.metric}: target for ${testYear} must be a number`);
+      years.add(testYear);
+    });
+  });
+
+  const totalWeighting = terms.kpis.reduce((sum, kpi) => sum + kpi.weighting, 0);
+  if (Math.abs(totalWeighting - 100) > WEIGHTING_TOLERANCE) reject(`KPI weightings add up to ${totalWeighting}%, not 100%`);
+
+  if (!(terms.ratchetDownBps >= 0) || !(terms.ratchetUpBps >= 0)) reject('Ratchet adjustments must be zero or more basis points');
+  if (terms.maxDiscountBps !== undefined) {
+    if (!(terms.maxDiscountBps >= 0)) reject('Maximum discount must be zero or more basis points');
+  } else {
+    const maxDownBps = defaultEnterpriseConfig.business.maxEsgDiscount * 100;
+    if (terms.ratchetDownBps > maxDownBps) reject(`Margin step-down cannot exceed ${maxDownBps} bps`);
+  }
+}
+
+/**
+ * Years with a target on any KPI, in order
+ */
+export function getTestYears(terms: SustainabilityLinkedTerms): number[] {
+  const years = new Set(terms.kpis.flatMap(kpi => kpi.targets.map(target => target.testYear)));
+  return [...years].sort((a, b) => a - b);
+}
+
+export function getKpiTarget(kpi: SustainabilityKpi, testYear: number): number | null {
+  return kpi.targets.find(target => target.testYear === testYear)?.target ?? null;
+}
+
+export function meetsTarget(kpi: SustainabilityKpi, value: number, target: number): boolean {
+  return kpi.direction === 'decrease' ? value <= target : value >= target;
+}
+
+/**
+ * Margin adjustment earned by a test year's reported values. Each KPI with a target
+ * that year moves the margin down by its own discount, or its weighting's share of
+ * the ratchet, when it meets the target, and up by its share when it misses or is
+ * not reported. KPIs not tested that year leave their share unused, and the total
+ * step-down stops at the agreement's maximum discount.
+ */
+export function assessTestPeriod(terms: SustainabilityLinkedTerms, report: Pick<KpiReport, 'testYear' | 'values'>): TestPeriodResult {
+  const assessments = terms.kpis.flatMap(kpi => {
+    const target = getKpiTarget(kpi, report.testYear);
+    if (target === null) return [];
+
+    const reported = report.values[kpi.id];
+    const value = Number.isFinite(reported) ? reported : null;
+    const met = value !== null && meetsTarget(kpi, value, target);
+    const share = kpi.weighting / 100;
+    return [{
+      kpiId: kpi.id,
+      metric: kpi.metric,
+      unit: kpi.unit,
+      target,
+      value,
+      met,
+      adjustmentBps: roundBps(met ? -(kpi.discountBps ?? terms.ratchetDownBps * share) : terms.ratchetUpBps * share),
+    }];
+  });
+
+  const adjustmentBps = roundBps(assessments.reduce((sum, assessment) => sum + assessment.adjustmentBps, 0));
+  return {
+    testYear: report.testYear,
+    assessments,
+    adjustmentBps: terms.maxDiscountBps !== undefined ? Math.max(adjustmentBps, -terms.maxDiscountBps) : adjustmentBps,
+  };
+}
+
+/**
+ * Adjustment in force on a date: the latest one effective on or before it
+ */
+export function getMarginAdjustmentAt(loan: LoanData, date: string): number {
+  const effective = (loan.marginHistory ?? []).filter(entry => entry.effectiveDate <= date);
+  return effective.length > 0 ? effective[effective.length - 1].adjustmentBps : 0;
+}
+
+/**
+ * Latest adjustment recorded, which the loan's current margins already include
+ */
+export function getCurrentMarginAdjustment(loan: LoanData): number {
+  const history = loan.marginHistory ?? [];
+  return history.length > 0 ? history[history.length - 1].adjustmentBps : 0;
+}
+
+/**
+ * Contractual margin of the loan, or one of its tranches, that adjustments are
+ * measured against. Histories recorded without it are rebuilt from today's margin.
+ */
+export function getContractualMargin(loan: LoanData, tranche?: Tranche): number {
+  const currentMargin = tranche?.interestRateMargin ?? loan.interestRateMargin;
+  const first = (loan.marginHistory ?? [])[0];
+  const recorded = first && (tranche ? first.contractualTrancheMargins?.[tranche.id] : first.contractualMargin);
+  return recorded ?? currentMargin - getCurrentMarginAdjustment(loan) / 100;
+}
+
+/**
+ * Margin in force on a date for the loan, or one of its tranches: the margin
+ * recorded with the adjustment then in force, or the contractual margin before
+ * the first one
+ */
+export function getMarginAt(loan: LoanData, date: string, tranche?: Tranche): number {
+  const effective = (loan.marginHistory ?? []).filter(entry => entry.effectiveDate <= date);
+  const entry = effective[effective.length - 1];
+  if (!entry) return getContractualMargin(loan, tranche);
+  if (!tranche) return entry.margin;
+  return Math.max(0, getContractualMargin(loan, tranche) + entry.adjustmentBps / 100);
+}
+
+/**
+ * Checks a margin history received with a loan. Throws CodedError when
+ * an effective date is not ISO or out of order, a test year is not a whole year,
+ * or an adjustment or margin is not a number.
+ */
+export function validateMarginHistory(history: MarginAdjustment[]): void {
+  history.reduce((previousDate, entry) => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(entry.effectiveDate)) reject('Effective date must be an ISO date (yyyy-mm-dd)');
+    if (entry.effectiveDate < previousDate) reject(`Margin adjustments must take effect on or after ${previousDate}`);
+    if (entry.testYear !== null && !Number.isInteger(entry.testYear)) reject(`${entry.effectiveDate}: test year must be a year`);
+    if (!Number.isFinite(entry.adjustmentBps)) reject(`${entry.effectiveDate}: adjustment must be a number of basis points`);
+    if (!Number.isFinite(entry.margin) || entry.margin < 0) reject(`${entry.effectiveDate}: margin must be zero or a positive percentage`);
+    const contractual = [entry.contractualMargin, ...Object.values(entry.contractualTrancheMargins ?? {})];
+    if (contractual.some(margin => margin !== undefined && (!Number.isFinite(margin) || margin < 0))) {
+      reject(`${entry.effectiveDate}: contractual margins must be zero or a positive percentage`);
+    }
+    return entry.effectiveDate;
+  }, '');
+}
+
+/**
+ * The loan with a margin adjustment added to its history. Adjustments replace one
+ * another rather than accumulate: the loan and tranche margins become their
+ * contractual margin plus the new adjustment, never below zero. Throws
+ * CodedError for a date that is not ISO or precedes the last adjustment.
+ */
+export function applyMarginAdjustment(
+  loan: LoanData,
+  adjustment: Pick<MarginAdjustment, 'effectiveDate' | 'testYear' | 'adjustmentBps'>
+): LoanData {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(adjustment.effectiveDate)) reject('Effective date must be an ISO date (yyyy-mm-dd)');
+  const history = loan.marginHistory ?? [];
+  const last = history[history.length - 1];
+  if (last && adjustment.effectiveDate < last.effectiveDate) {
+    reject(`Margin adjustments must take effect on or after ${last.effectiveDate}`);
+  }
+
+  // Recorded on every entry so a margin floored at zero can be restored later
+  const contractualMargin = getContractualMargin(loan);
+  const contractualTrancheMargins = loan.tranches && loan.tranches.length > 0
+    ? Object.fromEntries(loan.tranches.map(tranche => [tranche.id, getContractualMargin(loan, tranche)]))
+    : undefined;
+  const adjust = (contractual: number): number => Math.max(0, contractual + adjustment.adjustmentBps / 100);
+  const margin = adjust(contractualMargin);
+
+  return {
+    ...loan,
+    interestRateMargin: margin,
+    ...(loan.tranches && {
+      tranches: loan.tranches.map(tranche => ({ ...tranche, interestRateMargin: adjust(getContractualMargin(loan, tranche)) })),
+    }),
+    marginHistory: [
+      ...history,
+      { ...adjustment, margin, contractualMargin, ...(contractualTrancheMargins && { contractualTrancheMargins }) },
+    ],
+  };
+}
+
+/**
+ * The loan with a KPI framework attached. Throws CodedError when the
+ * framework is invalid or a test year has already been reported against it.
+ */
+export function setSustainabilityTerms(loan: LoanData, terms: SustainabilityLinkedTerms, reports: KpiReport[]): LoanData {
+  if (reports.length > 0) reject('KPIs are fixed once a test year has been reported');
+  validateSustainabilityTerms(terms);
+  return { ...loan, sustainabilityTerms: terms };
+}
+
+/**
+ * A test year's report assessed against the loan's KPIs. Throws
+ * CodedError when the loan has no KPIs, the year has already been
+ * reported, or no KPI has a target that year.
+ */
+export function assessKpiReport(
+  loan: LoanData,
+  reports: KpiReport[],
+  report: Pick<KpiReport, 'testYear' | 'values'>
+): TestPeriodResult {
+  const terms = loan.sustainabilityTerms;
+  if (!terms) return reject('The loan has no sustainability KPIs');
+  if (reports.some(entry => entry.testYear === report.testYear)) reject(`${report.testYear} has already been reported`);
+
+  const result = assessTestPeriod(terms, report);
+  if (result.assessments.length === 0) reject(`No KPI is tested in ${report.testYear}`);
+  return result;
+}
@@ -0,0 +1,144 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for lender syndicate extraction, reconciliation and trading state seeding
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import * as fc from 'fast-check';
+import { LoanData, validateLoanData } from '@/types';
+import { SmartLoanExtractor } from './smart-loan-extractor';
+import { buildLenderAllocations, reconcileSyndicate } from './syndicate';
+import { applyTrade, createInitialTradingStatus, seedTradingStatus } from './loan-state';
+
+const readSample = (name: string) => readFileSync(join(process.cwd(), 'sample-documents', name), 'utf-8');
+
+const loan: LoanData = {
+  borrowerName: 'Acme Corporation',
+  facilityAmount: 100000000,
+  currency: 'USD',
+  interestRateMargin: 2.5,
+  leverageCovenant: 4.0,
+  esgTarget: 'Reduce Scope 1 and 2 emissions by 30% by 2030',
+};
+
+describe('buildLenderAllocations', () => {
+  it('merges repeated lenders and keeps shares proportional to the total', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.record({ lenderName: fc.constantFrom('Bank A', 'Bank B', 'Bank C'), amount: fc.integer({ min: 1, max: 100000000 }) }), { minLength: 1, maxLength: 10 }),
+        commitments => {
+          const total = commitments.reduce((sum, commitment) => sum + commitment.amount, 0);
+          const allocations = buildLenderAllocations(commitments, total);
+
+          expect(new Set(allocations.map(allocation => allocation.lenderName)).size).toBe(allocations.length);
+          expect(allocations.reduce((sum, allocation) => sum + allocation.percentage, 0)).toBeCloseTo(100, 6);
+          expect(reconcileSyndicate(allocations, total).isReconciled).toBe(true);
+        }
+      )
+    );
+  });
+
+  it('reports the difference to the facility amount', () => {
+    const allocations = buildLenderAllocations([{ lenderName: 'Bank A', amount: 60000000 }], 100000000);
+
+    expect(allocations[0].percentage).toBe(60);
+    expect(reconcileSyndicate(allocations, 100000000)).toEqual({
+      commitmentTotal: 60000000,
+      facilityAmount: 100000000,
+      difference: -40000000,
+      isReconciled: false,
+    });
+    expect(validateLoanData({ ...loan, lenders: allocations }).errors).toContain(
+      'Lender commitments (60,000,000) must sum to the facility amount (100,000,000)'
+    );
+  });
+});
+
+describe('SmartLoanExtractor lender syndicate', () => {
+  const extractor = new SmartLoanExtractor();
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reads Schedule 1 of the acquisition sample', async () => {
+    const result = await extractor.extractLoanData(readSample('acquisition-loan-agreement.txt'));
+
+    expect(result.data.lenders?.map(lender => [lender.lenderName, lender.amount])).toEqual([
+      ['JPMORGAN CHASE BANK, N.A.', 250000000],
+      ['GOLDMAN SACHS BANK USA', 200000000],
+      ['MORGAN STANLEY SENIOR FUNDING, INC.', 175000000],
+      ['CREDIT SUISSE AG, NEW YORK BRANCH', 125000000],
+    ]);
+    expect(reconcileSyndicate(result.data.lenders!, result.data.facilityAmount!).isReconciled).toBe(true);
+    expect(result.provenance.lenders?.snippet).toContain('SCHEDULE 1');
+  });
+
+  it('reads numbered schedules and flags commitments that do not reconcile', async () => {
+    const result = await extractor.extractLoanData([
+      'Borrower: Acme Holdings Ltd',
+      'Facility Amount: EUR 80,000,000',
+      'Schedule 1 - The Original Lenders and Commitments',
+      '1. Deutsche Bank AG    EUR 50,000,000',
+      '2. BNP Paribas         EUR 40 million',
+    ].join('\n'));
+
+    expect(result.data.lenders?.map(lender => lender.lenderName)).toEqual(['Deutsche Bank AG', 'BNP Paribas']);
+    expect(result.data.lenders?.[1].amount).toBe(40000000);
+    expect(result.suggestions.some(suggestion => suggestion.startsWith('Lender commitments total 90,000,000'))).toBe(true);
+  });
+
+  it('falls back to commitments stated on the signature pages', async () => {
+    const result = await extractor.extractLoanData([
+      'Borrower: Acme Holdings Ltd',
+      'LENDERS:',
+      'JPMORGAN CHASE BANK, N.A., as Administrative Agent and Lender',
+      'By: /s/ Sarah Johnson Name: Sarah Johnson Title: Managing Director Commitment: $30,000,000',
+      'BANK OF AMERICA, N.A., as Lender',
+      'By: /s/ Michael Brown Name: Michael Brown Title: Vice President Commitment: $20,000,000',
+    ].join('\n'));
+
+    expect(result.data.lenders).toEqual([
+      { lenderName: 'JPMORGAN CHASE BANK, N.A.', amount: 30000000, percentage: 60 },
+      { lenderName: 'BANK OF AMERICA, N.A.', amount: 20000000, percentage: 40 },
+    ]);
+    // No facility amount clause: the commitments define it
+    expect(result.data.facilityAmount).toBe(50000000);
+    expect(result.provenance.facilityAmount?.method).toBe('derived');
+  });
+
+  it('ignores signature pages without commitments', async () => {
+    const result = await extractor.extractLoanData(readSample('corporate-loan-agreement.txt'));
+
+    expect(result.data.lenders).toBeUndefined();
+  });
+});
+
+describe('seedTradingStatus', () => {
+  const lenders = buildLenderAllocations(
+    [{ lenderName: 'First Bank', amount: 70000000 }, { lenderName: 'Second Bank', amount: 30000000 }],
+    100000000
+  );
+
+  it('replaces the placeholder syndicate with the loan lenders', () => {
+    const seeded = seedTradingStatus(createInitialTradingStatus(), { ...loan, lenders });
+
+    expect(seeded.lenderAllocations).toEqual(lenders);
+    expect(seeded.totalFacilityAmount).toBe(100000000);
+  });
+
+  it('keeps the syndicate once trading has started', () => {
+    const traded = applyTrade(createInitialTradingStatus(), { sellerName: 'Bank A', buyerName: 'Fund X', amount: 10000000 });
+
+    expect(seedTradingStatus(traded, { ...loan, lenders })).toBe(traded);
+    expect(seedTradingStatus(traded, loan)).toBe(traded);
+  });
+});
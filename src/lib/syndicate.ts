@@ -0,0 +1,50 @@
+/**
+ * Lender Syndicate
+ * Commitment allocations of the original lenders and their reconciliation to the facility amount
+ */
+
+import { LenderAllocation, getCommitmentTotal } from '@/types';
+
+export interface LenderCommitment {
+  lenderName: string;
+  amount: number;
+}
+
+export interface SyndicateReconciliation {
+  commitmentTotal: number;
+  facilityAmount: number;
+  // Commitments less the facility amount
+  difference: number;
+  isReconciled: boolean;
+}
+
+/**
+ * Merge commitments by lender and express each as a share of the total amount
+ */
+export function buildLenderAllocations(commitments: LenderCommitment[], totalAmount: number): LenderAllocation[] {
+  const merged = new Map<string, number>();
+  commitments.forEach(commitment => {
+    merged.set(commitment.lenderName, (merged.get(commitment.lenderName) ?? 0) + commitment.amount);
+  });
+
+  return Array.from(merged.entries()).map(([lenderName, amount]) => ({
+    lenderName,
+    amount,
+    percentage: totalAmount > 0 ? (amount / totalAmount) * 100 : 0,
+  }));
+}
+
+/**
+ * Compare the sum of lender commitments with the facility amount
+ */
+export function reconcileSyndicate(lenders: LenderAllocation[], facilityAmount: number): SyndicateReconciliation {
+  const commitmentTotal = getCommitmentTotal(lenders);
+  const difference = commitmentTotal - facilityAmount;
+
+  return {
+    commitmentTotal,
+    facilityAmount,
+    difference,
+    isReconciled: Math.abs(difference) < 1,
+  };
+}
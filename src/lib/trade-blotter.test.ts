@@ -0,0 +1,109 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for trade blotter filtering, export and the export audit event
+ */
+
+import { TradingStatus } from '@/types';
+import { createInitialTradingStatus } from './loan-state';
+import { advanceTrade, agreeTrade, executeInstantTrade } from './trade-lifecycle';
+import { exportTradesCsv, exportTradesJson, filterTrades, getTradeStatus } from './trade-blotter';
+import { auditLogger, AuditAction } from './audit';
+import { logTradeExport } from '@/actions/trade-blotter';
+
+const buildTrades = () => {
+  let tradingStatus: TradingStatus = createInitialTradingStatus();
+  tradingStatus = executeInstantTrade(
+    tradingStatus,
+    { sellerName: 'Bank A', buyerName: 'Fund D', amount: 10000000, price: 99.5 },
+    { id: 'trade_1', tradeDate: '2026-01-02' }
+  );
+  tradingStatus = agreeTrade(
+    tradingStatus,
+    { sellerName: 'Bank B', buyerName: 'Credit Fund, "Alpha"', amount: 5000000, price: 98 },
+    { id: 'trade_2', tradeDate: '2026-02-10' }
+  );
+  tradingStatus = agreeTrade(
+    tradingStatus,
+    { sellerName: 'Bank C', buyerName: 'Fund E', amount: 5000000 },
+    { id: 'trade_3', tradeDate: '2026-03-15' }
+  );
+  tradingStatus = advanceTrade(tradingStatus, 'trade_3', 'cancelled');
+  return tradingStatus.trades ?? [];
+};
+
+describe('filterTrades', () => {
+  const trades = buildTrades();
+
+  it('lists every trade, most recent first', () => {
+    expect(filterTrades(trades).map(trade => trade.id)).toEqual(['trade_3', 'trade_2', 'trade_1']);
+    expect(trades.map(getTradeStatus)).toEqual(['settled', 'open', 'cancelled']);
+  });
+
+  it('filters by counterparty on either side of the trade', () => {
+    expect(filterTrades(trades, { counterparty: 'fund d' }).map(trade => trade.id)).toEqual(['trade_1']);
+    expect(filterTrades(trades, { counterparty: 'Bank' })).toHaveLength(3);
+  });
+
+  it('filters by an inclusive date range and by status', () => {
+    expect(filterTrades(trades, { from: '2026-02-10', to: '2026-03-14' }).map(trade => trade.id)).toEqual(['trade_2']);
+    expect(filterTrades(trades, { status: 'cancelled' }).map(trade => trade.id)).toEqual(['trade_3']);
+    expect(filterTrades(trades, { counterparty: 'Bank C', status: 'open' })).toEqual([]);
+  });
+});
+
+describe('trade export', () => {
+  const trades = buildTrades();
+
+  it('writes one CSV row per trade, quoting values with commas and quotes', () => {
+    const lines = exportTradesCsv(trades).trim().split('\n');
+
+    expect(lines).toHaveLength(4);
+    expect(lines[0]).toBe('id,tradeDate,sellerName,buyerName,amount,price,settlementType,status,stage,targetSettlementDate,settlementDate,delayedCompensation,agreedAt,updatedAt');
+    expect(lines[1]).toMatch(/^trade_1,2026-01-02,Bank A,Fund D,10000000,99.5,par,settled,settled,2026-01-02,2026-01-02,0,/);
+    expect(lines[2]).toMatch(/^trade_2,2026-02-10,Bank B,"Credit Fund, ""Alpha""",5000000,98,par,open,agreed,2026-02-19,,0,/);
+  });
+
+  it('keeps names that spreadsheets would run as formulas as text', () => {
+    const [trade] = trades;
+    const csv = exportTradesCsv([
+      { ...trade, buyerName: '=HYPERLINK("http://example.com","Fund D")', sellerName: '@SUM(1+1)' },
+    ]);
+
+    expect(csv.trim().split('\n')[1]).toMatch(/^trade_1,2026-01-02,'@SUM\(1\+1\),"'=HYPERLINK\(""http:\/\/example.com"",""Fund D""\)",10000000,/);
+  });
+
+  it('also keeps formulas behind leading whitespace, tabs or carriage returns as text', () => {
+    const [trade] = trades;
+    const row = (sellerName: string) => exportTradesCsv([{ ...trade, sellerName }]).split('\n').slice(1).join('\n');
+
+    expect(row('  =1+1')).toMatch(/^trade_1,2026-01-02,'  =1\+1,/);
+    expect(row(' -2')).toMatch(/^trade_1,2026-01-02,' -2,/);
+    expect(row('\tBank A')).toMatch(/^trade_1,2026-01-02,'\tBank A,/);
+    expect(row('\rBank A')).toMatch(/^trade_1,2026-01-02,"'\rBank A",/);
+    expect(row('Bank-A')).toMatch(/^trade_1,2026-01-02,Bank-A,/);
+  });
+
+  it('writes JSON rows with the same fields', () => {
+    const rows = JSON.parse(exportTradesJson(trades));
+
+    expect(rows).toHaveLength(3);
+    expect(rows[2]).toMatchObject({ id: 'trade_3', status: 'cancelled', stage: 'cancelled', settlementDate: null });
+    expect(rows[2].updatedAt >= rows[2].agreedAt).toBe(true);
+  });
+
+  it('records a data export audit event', async () => {
+    const log = jest.spyOn(auditLogger, 'log').mockResolvedValue();
+
+    await logTradeExport({ borrower: 'Acme Holdings Ltd', format: 'csv', tradeIds: ['trade_1', 'trade_2'], filter: { status: 'open' } });
+
+    expect(log).toHaveBeenCalledWith(expect.objectContaining({
+      action: AuditAction.DATA_EXPORT,
+      resource: 'trade_blotter',
+      details: expect.objectContaining({ format: 'csv', tradeCount: 2, filter: { status: 'open' } }),
+    }));
+    log.mockRestore();
+  });
+});
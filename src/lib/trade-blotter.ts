@@ -0,0 +1,128 @@
+/**
+ * Trade Blotter
+ * Every trade in a loan with filtering and CSV/JSON export
+ */
+
+import { TradeRecord, TradeStage } from '@/types';
+import { isOpenTrade } from '@/lib/trade-lifecycle';
+
+export type TradeBlotterStatus = 'open' | 'settled' | 'cancelled';
+
+export type TradeExportFormat = 'csv' | 'json';
+
+export interface TradeBlotterFilter {
+  // Matches seller or buyer, case-insensitive
+  counterparty?: string;
+  // Inclusive trade date range, ISO yyyy-mm-dd
+  from?: string;
+  to?: string;
+  status?: TradeBlotterStatus;
+}
+
+export interface TradeBlotterRow {
+  id: string;
+  tradeDate: string;
+  sellerName: string;
+  buyerName: string;
+  amount: number;
+  price: number;
+  settlementType: string;
+  status: TradeBlotterStatus;
+  stage: TradeStage;
+  targetSettlementDate: string;
+  settlementDate: string | null;
+  delayedCompensation: number;
+  // ISO timestamps of the first and latest stage changes
+  agreedAt: string;
+  updatedAt: string;
+}
+
+export const TRADE_BLOTTER_STATUS_LABELS: Record<TradeBlotterStatus, string> = {
+  open: 'Open',
+  settled: 'Settled',
+  cancelled: 'Cancelled',
+};
+
+const CSV_COLUMNS: Array<keyof TradeBlotterRow> = [
+  'id',
+  'tradeDate',
+  'sellerName',
+  'buyerName',
+  'amount',
+  'price',
+  'settlementType',
+  'status',
+  'stage',
+  'targetSettlementDate',
+  'settlementDate',
+  'delayedCompensation',
+  'agreedAt',
+  'updatedAt',
+];
+
+export function getTradeStatus(trade: TradeRecord): TradeBlotterStatus {
+  if (isOpenTrade(trade)) return 'open';
+  return trade.stage === 'cancelled' ? 'cancelled' : 'settled';
+}
+
+export function toBlotterRow(trade: TradeRecord): TradeBlotterRow {
+  const first = trade.history[0]?.timestamp ?? '';
+  const latest = trade.history[trade.history.length - 1]?.timestamp ?? first;
+  return {
+    id: trade.id,
+    tradeDate: trade.tradeDate,
+    sellerName: trade.sellerName,
+    buyerName: trade.buyerName,
+    amount: trade.amount,
+    price: trade.price,
+    settlementType: trade.settlementType,
+    status: getTradeStatus(trade),
+    stage: trade.stage,
+    targetSettlementDate: trade.targetSettlementDate,
+    settlementDate: trade.settlementDate,
+    delayedCompensation: trade.delayedCompensation,
+    agreedAt: first,
+    updatedAt: latest,
+  };
+}
+
+/**
+ * Trades matching every given filter, most recent first
+ */
+export function filterTrades(trades: TradeRecord[], filter: TradeBlotterFilter = {}): TradeRecord[] {
+  const counterparty = filter.counterparty?.trim().toLowerCase();
+  return trades
+    .filter(trade =>
+      (!counterparty ||
+        trade.sellerName.toLowerCase().includes(counterparty) ||
+        trade.buyerName.toLowerCase().includes(counterparty)) &&
+      (!filter.from || trade.tradeDate >= filter.from) &&
+      (!filter.to || trade.tradeDate <= filter.to) &&
+      (!filter.status || getTradeStatus(trade) === filter.status)
+    )
+    .map((trade, index) => ({ trade, index }))
+    // Stable for trades on the same date: later entries were recorded later
+    .sort((a, b) => b.trade.tradeDate.localeCompare(a.trade.tradeDate) || b.index - a.index)
+    .map(({ trade }) => trade);
+}
+
+const escapeCsv = (value: string | number | null): string => {
+  const text = value === null ? '' : String(value);
+  // Spreadsheets run text starting with these, even after leading whitespace, as a
+  // formula, and treat a leading tab or carriage return as one too, so it is kept as text
+  const safe = typeof value === 'string' && /^(\s*[=+\-@]|[\t\r])/.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export function exportTradesCsv(trades: TradeRecord[]): string {
+  const rows = trades.map(toBlotterRow).map(row => CSV_COLUMNS.map(column => escapeCsv(row[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+export function exportTradesJson(trades: TradeRecord[]): string {
+  return JSON.stringify(trades.map(toBlotterRow), null, 2);
+}
+
+export function exportTrades(trades: TradeRecord[], format: TradeExportFormat): string {
+  return format === 'csv' ? exportTradesCsv(trades) : exportTradesJson(trades);
+}
@@ -0,0 +1,150 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the secondary trade settlement lifecycle
+ */
+
+import { TradeStage, TradingStatus } from '@/types';
+import { TradeRejectedError, createInitialTradingStatus } from './loan-state';
+import {
+  TradeTransitionError,
+  addBusinessDays,
+  advanceTrade,
+  agreeTrade,
+  calculateDelayedCompensation,
+  executeInstantTrade,
+  getOpenTrades
+} from './trade-lifecycle';
+
+const SETTLEMENT_PATH: TradeStage[] = ['confirmed', 'documentation_drafted', 'consent_requested', 'agent_processing', 'funded'];
+
+const holdingOf = (tradingStatus: TradingStatus, lenderName: string) =>
+  tradingStatus.lenderAllocations.find(lender => lender.lenderName === lenderName)?.amount;
+
+describe('addBusinessDays', () => {
+  it('skips weekends', () => {
+    // 2026-01-02 is a Friday
+    expect(addBusinessDays('2026-01-02', 1)).toBe('2026-01-05');
+    expect(addBusinessDays('2026-01-02', 7)).toBe('2026-01-13');
+    expect(addBusinessDays('2026-01-02', 20)).toBe('2026-01-30');
+  });
+});
+
+describe('trade lifecycle', () => {
+  const agreed = agreeTrade(
+    createInitialTradingStatus(),
+    { sellerName: 'Bank A', buyerName: 'Fund D', amount: 10000000 },
+    { id: 'trade_1', tradeDate: '2026-01-02' }
+  );
+
+  it('records agreed trades without moving holdings', () => {
+    const [trade] = getOpenTrades(agreed);
+
+    expect(trade).toMatchObject({ stage: 'agreed', settlementType: 'par', targetSettlementDate: '2026-01-13' });
+    expect(trade.history).toHaveLength(1);
+    expect(agreed.settlementStatus).toBe('pending');
+    expect(holdingOf(agreed, 'Bank A')).toBe(50000000);
+  });
+
+  it('targets T+20 for distressed trades', () => {
+    const distressed = agreeTrade(
+      createInitialTradingStatus(),
+      { sellerName: 'Bank B', buyerName: 'Fund D', amount: 10000000 },
+      { tradeDate: '2026-01-02', settlementType: 'distressed' }
+    );
+
+    expect(getOpenTrades(distressed)[0].targetSettlementDate).toBe('2026-01-30');
+  });
+
+  it('transfers the participation only once the trade settles', () => {
+    let tradingStatus = agreed;
+    SETTLEMENT_PATH.forEach(stage => {
+      tradingStatus = advanceTrade(tradingStatus, 'trade_1', stage, { at: new Date('2026-01-12T12:00:00Z') });
+      expect(holdingOf(tradingStatus, 'Fund D')).toBeUndefined();
+    });
+
+    const settled = advanceTrade(tradingStatus, 'trade_1', 'settled', { at: new Date('2026-01-13T12:00:00Z'), annualRate: 3.6 });
+    const trade = settled.trades?.[0];
+
+    expect(holdingOf(settled, 'Bank A')).toBe(40000000);
+    expect(holdingOf(settled, 'Fund D')).toBe(10000000);
+    expect(settled.settlementStatus).toBe('instant');
+    expect(trade?.settlementDate).toBe('2026-01-13');
+    expect(trade?.delayedCompensation).toBe(0);
+    expect(trade?.history.map(change => change.stage)).toEqual(['agreed', ...SETTLEMENT_PATH, 'settled']);
+  });
+
+  it('guards transitions the lifecycle does not allow', () => {
+    expect(() => advanceTrade(agreed, 'trade_1', 'settled')).toThrow(TradeTransitionError);
+    expect(() => advanceTrade(agreed, 'trade_1', 'funded')).toThrow('Cannot move trade from Trade Agreed to Funded');
+    expect(() => advanceTrade(agreed, 'missing', 'confirmed')).toThrow('Trade missing not found');
+
+    const cancelled = advanceTrade(agreed, 'trade_1', 'cancelled');
+    expect(getOpenTrades(cancelled)).toEqual([]);
+    expect(() => advanceTrade(cancelled, 'trade_1', 'confirmed')).toThrow(TradeTransitionError);
+  });
+
+  it('checks new trades against holdings net of open trades', () => {
+    // Bank A has 40M left to sell once the open 10M trade settles
+    expect(() => agreeTrade(agreed, { sellerName: 'Bank A', buyerName: 'Fund E', amount: 45000000 })).toThrow(TradeRejectedError);
+    expect(getOpenTrades(agreeTrade(agreed, { sellerName: 'Bank A', buyerName: 'Fund E', amount: 40000000 }))).toHaveLength(2);
+  });
+});
+
+describe('calculateDelayedCompensation', () => {
+  const [trade] = getOpenTrades(agreeTrade(
+    createInitialTradingStatus(),
+    { sellerName: 'Bank A', buyerName: 'Fund D', amount: 36000000 },
+    { tradeDate: '2026-01-02' }
+  ));
+
+  it('accrues actual/360 from the target settlement date', () => {
+    expect(calculateDelayedCompensation(trade, '2026-01-13', 5)).toBe(0);
+    // 10 days late at 5% on 36M
+    expect(calculateDelayedCompensation(trade, '2026-01-23', 5)).toBe(50000);
+  });
+
+  it('fixes the compensation at settlement and skips distressed trades', () => {
+    expect(calculateDelayedCompensation({ ...trade, settlementDate: '2026-01-15' }, '2026-03-01', 5)).toBe(10000);
+    expect(calculateDelayedCompensation({ ...trade, settlementType: 'distressed' }, '2026-03-01', 5)).toBe(0);
+  });
+});
+
+describe('executeInstantTrade', () => {
+  it('transfers the participation and records a settled trade', () => {
+    const tradingStatus = executeInstantTrade(
+      createInitialTradingStatus(),
+      { sellerName: 'Bank A', buyerName: 'Fund D', amount: 10000000, price: 99 },
+      { id: 'trade_1', tradeDate: '2026-01-02' }
+    );
+
+    expect(holdingOf(tradingStatus, 'Fund D')).toBe(10000000);
+    expect(tradingStatus.settlementStatus).toBe('instant');
+    expect(tradingStatus.trades).toEqual([
+      expect.objectContaining({ id: 'trade_1', price: 99, stage: 'settled', settlementDate: '2026-01-02' }),
+    ]);
+    expect(tradingStatus.trades?.[0].history.map(change => change.stage)).toEqual(['agreed', 'settled']);
+  });
+
+  it('will not sell a participation already committed to an open trade', () => {
+    const agreed = agreeTrade(
+      createInitialTradingStatus(),
+      { sellerName: 'Bank C', buyerName: 'Fund D', amount: 20000000 },
+      { id: 'trade_1', tradeDate: '2026-01-02' }
+    );
+
+    expect(() => executeInstantTrade(agreed, { sellerName: 'Bank C', buyerName: 'Fund E', amount: 10000000 }))
+      .toThrow(expect.objectContaining({ reason: 'unknown_seller' }));
+    expect(() => executeInstantTrade(agreed, { sellerName: 'Bank A', buyerName: 'Fund E', amount: 10000000 })).not.toThrow();
+  });
+
+  it('records nothing when the trade is rejected', () => {
+    const initial = createInitialTradingStatus();
+
+    expect(() => executeInstantTrade(initial, { sellerName: 'Bank A', buyerName: 'Fund D', amount: 10000000, price: 0 }))
+      .toThrow(TradeRejectedError);
+    expect(initial.trades ?? []).toHaveLength(0);
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Trade Lifecycle
+ * Settlement state machine for secondary trades, from trade date to settlement
+ */
+
+import {
+  TradeRecord,
+  TradeRequest,
+  TradeSettlementType,
+  TradeStage,
+  TradingStatus,
+  TransferRestrictions,
+} from '@/types';
+import { ErrorCode } from '@/lib/enterprise-errors';
+import { DEFAULT_TRADE_LIMITS, TradeLimits, TradeRejectedError, applyTrade } from '@/lib/loan-state';
+import { applyEligibleTrade, checkProposedTrade, getTradeLimits } from '@/lib/transfer-restrictions';
+
+export class TradeTransitionError extends Error {
+  public readonly code = ErrorCode.TRADE_REJECTED;
+
+  constructor(public readonly from: TradeStage | null, public readonly to: TradeStage, message: string) {
+    super(message);
+    this.name = 'TradeTransitionError';
+  }
+}
+
+export const TRADE_STAGE_LABELS: Record<TradeStage, string> = {
+  agreed: 'Trade Agreed',
+  confirmed: 'Confirmation Signed',
+  documentation_drafted: 'Transfer Certificate Drafted',
+  consent_requested: 'Borrower Consent Requested',
+  agent_processing: 'Agent Processing',
+  funded: 'Funded',
+  settled: 'Settled',
+  cancelled: 'Cancelled',
+};
+
+// Borrower consent is only requested when the agreement requires it
+const TRADE_TRANSITIONS: Record<TradeStage, TradeStage[]> = {
+  agreed: ['confirmed', 'cancelled'],
+  confirmed: ['documentation_drafted', 'cancelled'],
+  documentation_drafted: ['consent_requested', 'agent_processing', 'cancelled'],
+  consent_requested: ['agent_processing', 'cancelled'],
+  agent_processing: ['funded', 'cancelled'],
+  funded: ['settled'],
+  settled: [],
+  cancelled: [],
+};
+
+export const PAR_PRICE = 100;
+export const MAX_TRADE_PRICE = 150;
+
+export const SETTLEMENT_BUSINESS_DAYS: Record<TradeSettlementType, number> = {
+  par: 7,
+  distressed: 20,
+};
+
+export interface AgreeTradeOptions {
+  settlementType?: TradeSettlementType;
+  tradeDate?: string;
+  limits?: TradeLimits;
+  id?: string;
+  // The loan's transfer restrictions, checked before the trade is recorded
+  restrictions?: TransferRestrictions;
+  eventOfDefault?: boolean;
+}
+
+export interface AdvanceTradeOptions {
+  // All-in annual rate (percent) used to accrue delayed compensation
+  annualRate?: number;
+  note?: string;
+  limits?: TradeLimits;
+  // When the stage was reached, defaults to now
+  at?: Date;
+}
+
+export function generateTradeId(): string {
+  return `trade_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+const toISODate = (date: Date): string => date.toISOString().substring(0, 10);
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+
+/**
+ * Add business days to an ISO date, skipping weekends
+ */
+export function addBusinessDays(date: string, days: number): string {
+  const current = new Date(`${date}T00:00:00Z`);
+  let remaining = days;
+  while (remaining > 0) {
+    current.setUTCDate(current.getUTCDate() + 1);
+    const weekday = current.getUTCDay();
+    if (weekday !== 0 && weekday !== 6) remaining--;
+  }
+  return toISODate(current);
+}
+
+export function canTransition(from: TradeStage, to: TradeStage): boolean {
+  return TRADE_TRANSITIONS[from].includes(to);
+}
+
+export function getNextStages(trade: TradeRecord): TradeStage[] {
+  // Trades needing consent cannot skip the consent request
+  return TRADE_TRANSITIONS[trade.stage].filter(
+    stage => !(trade.consentRequired && trade.stage === 'documentation_drafted' && stage === 'agent_processing')
+  );
+}
+
+export function isOpenTrade(trade: TradeRecord): boolean {
+  return trade.stage !== 'settled' && trade.stage !== 'cancelled';
+}
+
+export function getOpenTrades(tradingStatus: TradingStatus): TradeRecord[] {
+  return (tradingStatus.trades ?? []).filter(isOpenTrade);
+}
+
+/**
+ * Delayed compensation owed to the buyer of a par trade for each day settlement runs
+ * past the target date, accrued on an actual/360 basis
+ */
+export function calculateDelayedCompensation(trade: TradeRecord, asOf: string, annualRate: number): number {
+  if (trade.settlementType !== 'par') return 0;
+
+  const daysLate = Math.max(0, daysBetween(trade.targetSettlementDate, trade.settlementDate ?? asOf));
+  return Math.round(trade.amount * (annualRate / 100) * (daysLate / 360) * 100) / 100;
+}
+
+/**
+ * Holdings once every open trade has settled, used to check a new trade can be honoured
+ */
+function projectSettledHoldings(tradingStatus: TradingStatus, limits: TradeLimits): TradingStatus {
+  return getOpenTrades(tradingStatus).reduce(
+    (projected, trade) => applyTrade(projected, trade, limits),
+    tradingStatus
+  );
+}
+
+function validatePrice(request: TradeRequest): number {
+  const price = request.price ?? PAR_PRICE;
+  if (!Number.isFinite(price) || price <= 0 || price > MAX_TRADE_PRICE) {
+    throw new TradeRejectedError('invalid_price', `Trade price must be above 0 and at most ${MAX_TRADE_PRICE} (percent of par)`);
+  }
+  return price;
+}
+
+function createTradeRecord(request: TradeRequest, price: number, options: AgreeTradeOptions, now: Date): TradeRecord {
+  const settlementType = options.settlementType ?? 'par';
+  const tradeDate = options.tradeDate ?? toISODate(now);
+  return {
+    id: options.id ?? generateTradeId(),
+    sellerName: request.sellerName,
+    buyerName: request.buyerName,
+    amount: request.amount,
+    price,
+    ...(request.buyerCategory ? { buyerCategory: request.buyerCategory } : {}),
+    ...(request.buyerIsAffiliate ? { buyerIsAffiliate: true } : {}),
+    settlementType,
+    tradeDate,
+    targetSettlementDate: addBusinessDays(tradeDate, SETTLEMENT_BUSINESS_DAYS[settlementType]),
+    settlementDate: null,
+    stage: 'agreed',
+    history: [{ stage: 'agreed', timestamp: now.toISOString() }],
+    delayedCompensation: 0,
+  };
+}
+
+/**
+ * Record a newly agreed trade. Holdings only change when the trade settles, but the
+ * trade is checked against the loan's transfer restrictions and the seller's position
+ * net of its other open trades. Throws TradeRejectedError when the buyer is ineligible
+ * or the seller cannot honour it.
+ */
+export function agreeTrade(
+  tradingStatus: TradingStatus,
+  request: TradeRequest,
+  options: AgreeTradeOptions = {}
+): TradingStatus {
+  const price = validatePrice(request);
+  const check = checkProposedTrade(tradingStatus, request, options.restrictions, options.eventOfDefault);
+  const limits = options.limits ?? check.limits;
+  applyTrade(projectSettledHoldings(tradingStatus, limits), request, limits);
+
+  const now = new Date();
+  const trade: TradeRecord = {
+    ...createTradeRecord(request, price, options, now),
+    consentRequired: check.consentRequired,
+  };
+
+  return {
+    ...tradingStatus,
+    trades: [...(tradingStatus.trades ?? []), trade],
+    lastTradeTimestamp: now,
+    settlementStatus: 'pending',
+  };
+}
+
+/**
+ * Transfer a participation straight away, recording the trade as agreed and settled
+ * on the same day. Like agreeTrade, the seller's position net of its open trades must
+ * cover it, so an agreed trade is never left unable to settle. Throws TradeRejectedError
+ * like agreeTrade.
+ */
+export function executeInstantTrade(
+  tradingStatus: TradingStatus,
+  request: TradeRequest,
+  options: AgreeTradeOptions = {}
+): TradingStatus {
+  const price = validatePrice(request);
+  const settled = applyEligibleTrade(tradingStatus, request, options.restrictions, options.eventOfDefault);
+  const limits = options.limits ?? getTradeLimits(options.restrictions);
+  applyTrade(projectSettledHoldings(tradingStatus, limits), request, limits);
+
+  const now = new Date();
+  const agreed = createTradeRecord(request, price, options, now);
+  const trade: TradeRecord = {
+    ...agreed,
+    targetSettlementDate: agreed.tradeDate,
+    settlementDate: agreed.tradeDate,
+    stage: 'settled',
+    history: [...agreed.history, { stage: 'settled', timestamp: now.toISOString() }],
+  };
+
+  const trades = [...(tradingStatus.trades ?? []), trade];
+  return {
+    ...settled,
+    settlementStatus: trades.some(isOpenTrade) ? 'pending' : 'instant',
+    trades,
+  };
+}
+
+/**
+ * Move a trade to its next stage. Settling the trade transfers the participation
+ * and fixes the delayed compensation. Throws TradeTransitionError for transitions
+ * the lifecycle does not allow.
+ */
+export function advanceTrade(
+  tradingStatus: TradingStatus,
+  tradeId: string,
+  stage: TradeStage,
+  options: AdvanceTradeOptions = {}
+): TradingStatus {
+  const trade = (tradingStatus.trades ?? []).find(candidate => candidate.id === tradeId);
+  if (!trade) {
+    throw new TradeTransitionError(null, stage, `Trade ${tradeId} not found`);
+  }
+  if (canTransition(trade.stage, stage) && !getNextStages(trade).includes(stage)) {
+    throw new TradeTransitionError(trade.stage, stage, 'Borrower consent must be requested before agent processing');
+  }
+  if (!canTransition(trade.stage, stage)) {
+    throw new TradeTransitionError(
+      trade.stage,
+      stage,
+      `Cannot move trade from ${TRADE_STAGE_LABELS[trade.stage]} to ${TRADE_STAGE_LABELS[stage]}`
+    );
+  }
+
+  const now = options.at ?? new Date();
+  const settlementDate = stage === 'settled' ? toISODate(now) : null;
+  const updatedTrade: TradeRecord = {
+    ...trade,
+    stage,
+    settlementDate,
+    history: [
+      ...trade.history,
+      { stage, timestamp: now.toISOString(), ...(options.note ? { note: options.note } : {}) },
+    ],
+  };
+  if (settlementDate) {
+    updatedTrade.delayedCompensation = calculateDelayedCompensation(updatedTrade, settlementDate, options.annualRate ?? 0);
+  }
+
+  const trades = (tradingStatus.trades ?? []).map(candidate => candidate.id === tradeId ? updatedTrade : candidate);
+  const settled = stage === 'settled'
+    ? applyTrade(tradingStatus, trade, options.limits ?? DEFAULT_TRADE_LIMITS)
+    : tradingStatus;
+
+  return {
+    ...settled,
+    trades,
+    settlementStatus: trades.some(isOpenTrade) ? 'pending' : 'instant',
+  };
+}
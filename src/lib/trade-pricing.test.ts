@@ -0,0 +1,110 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for trade pricing, accrued interest and the cash settlement amount
+ */
+
+import * as fc from 'fast-check';
+import { TradeRejectedError, createInitialTradingStatus } from './loan-state';
+import { advanceTrade, agreeTrade, getOpenTrades } from './trade-lifecycle';
+import { TradePricingTerms, calculateTradeSettlement, getInterestPeriod } from './trade-pricing';
+
+const terms: TradePricingTerms = {
+  margin: 2.5,
+  referenceRate: 4.3,
+  dayCount: 'ACT/360',
+  interestPeriodMonths: 3,
+  interestPeriodAnchor: '2025-12-10',
+  fees: [{ label: 'Agent transfer fee', amount: 3500, payer: 'buyer' }],
+};
+
+const agreed = agreeTrade(
+  createInitialTradingStatus(),
+  { sellerName: 'Bank A', buyerName: 'Fund D', amount: 10000000, price: 98.5 },
+  { id: 'trade_1', tradeDate: '2026-01-02' }
+);
+
+describe('getInterestPeriod', () => {
+  it('rolls periods from the anchor date', () => {
+    expect(getInterestPeriod('2026-04-15', 3, '2025-12-31')).toEqual({ start: '2026-03-31', end: '2026-06-30' });
+    expect(getInterestPeriod('2026-03-31', 3, '2025-12-31')).toEqual({ start: '2026-03-31', end: '2026-06-30' });
+  });
+
+  it('uses calendar periods when there is no anchor', () => {
+    expect(getInterestPeriod('2026-05-01', 3)).toEqual({ start: '2026-04-01', end: '2026-07-01' });
+  });
+
+  it('always contains the date', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 3650 }),
+        fc.constantFrom(1, 3, 6, 12),
+        (offset, months) => {
+          const date = new Date(Date.UTC(2026, 0, 1 + offset)).toISOString().substring(0, 10);
+          const period = getInterestPeriod(date, months, '2025-12-31');
+
+          expect(period.start <= date).toBe(true);
+          expect(period.end > date).toBe(true);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('calculateTradeSettlement', () => {
+  it('projects an open trade to its target settlement date', () => {
+    const settlement = calculateTradeSettlement(getOpenTrades(agreed)[0], terms, '2026-01-05');
+
+    expect(settlement).toMatchObject({
+      settlementDate: '2026-01-13',
+      projected: true,
+      purchasePrice: 9850000,
+      accruedDays: 34,
+      delayedCompensation: 0,
+    });
+    // 10,000,000 x 6.8% x 34 / 360
+    expect(settlement.accruedInterest).toBe(64222.22);
+    expect(settlement.settlementAmount).toBe(9914222.22);
+  });
+
+  it('nets delayed compensation and fees once the trade settles late', () => {
+    let tradingStatus = agreed;
+    (['confirmed', 'documentation_drafted', 'agent_processing', 'funded'] as const).forEach(stage => {
+      tradingStatus = advanceTrade(tradingStatus, 'trade_1', stage);
+    });
+    tradingStatus = advanceTrade(tradingStatus, 'trade_1', 'settled', { at: new Date('2026-01-20T12:00:00Z'), annualRate: 6.8 });
+
+    const [settled] = tradingStatus.trades ?? [];
+    const settlement = calculateTradeSettlement(settled, terms, '2026-02-01');
+
+    expect(settlement.projected).toBe(false);
+    expect(settlement.accruedInterest).toBe(77444.44);
+    expect(settlement.delayedCompensation).toBe(13222.22);
+    expect(settlement.settlementAmount).toBe(9914222.22);
+    expect(settlement.buyerFunding).toBe(9917722.22);
+    expect(settlement.sellerProceeds).toBe(9914222.22);
+  });
+});
+
+describe('trade prices', () => {
+  it('records par when no price is given', () => {
+    const trade = agreeTrade(
+      createInitialTradingStatus(),
+      { sellerName: 'Bank B', buyerName: 'Fund D', amount: 10000000 }
+    ).trades?.[0];
+
+    expect(trade?.price).toBe(100);
+  });
+
+  it('rejects prices outside the tradeable range', () => {
+    [0, -5, 151, Number.NaN].forEach(price => {
+      expect(() => agreeTrade(
+        createInitialTradingStatus(),
+        { sellerName: 'Bank B', buyerName: 'Fund D', amount: 10000000, price }
+      )).toThrow(TradeRejectedError);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Trade Pricing
+ * Purchase price, accrued interest, delayed compensation and fees making up the
+ * cash settlement amount of a secondary trade
+ */
+
+import { LoanData, TradeRecord } from '@/types';
+import { defaultEnterpriseConfig } from '@/config/enterprise-config';
+import { addMonths } from '@/lib/repayment-schedule';
+import { calculateDelayedCompensation } from '@/lib/trade-lifecycle';
+import { DAY_COUNT_BASIS, DayCountConvention, ReferenceRateCurve } from '@/lib/reference-rates';
+import { getInterestTerms, getPeriodReferenceRate } from '@/lib/interest-schedule';
+
+export type FeePayer = 'buyer' | 'seller';
+
+export interface TradeFee {
+  label: string;
+  amount: number;
+  payer: FeePayer;
+}
+
+export interface TradePricingTerms {
+  // Percent per annum
+  margin: number;
+  referenceRate: number;
+  dayCount: DayCountConvention;
+  interestPeriodMonths: number;
+  // Interest periods roll from this date, normally the signing date
+  interestPeriodAnchor?: string;
+  fees: TradeFee[];
+}
+
+export interface InterestPeriod {
+  start: string;
+  end: string;
+}
+
+export interface TradeSettlement {
+  settlementDate: string;
+  // True until the trade has settled and the date is known
+  projected: boolean;
+  purchasePrice: number;
+  interestPeriod: InterestPeriod;
+  accruedDays: number;
+  allInRate: number;
+  accruedInterest: number;
+  delayedCompensation: number;
+  // Cash the buyer pays the seller
+  settlementAmount: number;
+  fees: TradeFee[];
+  buyerFunding: number;
+  sellerProceeds: number;
+}
+
+const roundToCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+
+/**
+ * Pricing terms for trades in a loan on a date. The reference rate is the loan's
+ * index over the interest period containing the date, after any floor, or the
+ * configured reference rate when there is no curve.
+ */
+export function getPricingTerms(
+  loan?: LoanData | null,
+  rates?: ReferenceRateCurve,
+  asOf: string = new Date().toISOString().substring(0, 10)
+): TradePricingTerms {
+  const { business } = defaultEnterpriseConfig;
+  const interestTerms = loan ? getInterestTerms(loan) : null;
+
+  let referenceRate = business.referenceRate;
+  if (loan && interestTerms && rates) {
+    const period = getInterestPeriod(asOf, business.interestPeriodMonths, loan.signingDate);
+    referenceRate = getPeriodReferenceRate(rates, interestTerms, period.start, period.end).rate;
+  }
+
+  return {
+    margin: loan?.interestRateMargin ?? 0,
+    referenceRate,
+    dayCount: interestTerms?.dayCount ?? 'ACT/360',
+    interestPeriodMonths: business.interestPeriodMonths,
+    ...(loan?.signingDate ? { interestPeriodAnchor: loan.signingDate } : {}),
+    fees: [{ label: 'Agent transfer fee', amount: business.transferFee, payer: 'buyer' }],
+  };
+}
+
+export function getAllInRate(terms: TradePricingTerms): number {
+  return terms.margin + terms.referenceRate;
+}
+
+/**
+ * The interest period containing a date. Periods roll from the anchor, or from the
+ * start of the year when the loan has no signing date.
+ */
+export function getInterestPeriod(date: string, periodMonths: number, anchor?: string): InterestPeriod {
+  const start = anchor && anchor <= date ? anchor : `${date.substring(0, 4)}-01-01`;
+
+  // Stepped from the anchor so month-end dates do not drift
+  let period = 0;
+  while (addMonths(start, (period + 1) * periodMonths) <= date) period++;
+  return {
+    start: addMonths(start, period * periodMonths),
+    end: addMonths(start, (period + 1) * periodMonths),
+  };
+}
+
+/**
+ * Cash settlement of a trade. The buyer pays the purchase price plus interest accrued
+ * on the traded amount since the start of the current interest period (on the loan's day count),
+ * less any delayed compensation owed to it. Open trades are projected to settle on
+ * their target date, or on `asOf` once that has passed.
+ */
+export function calculateTradeSettlement(trade: TradeRecord, terms: TradePricingTerms, asOf: string): TradeSettlement {
+  const projected = trade.settlementDate === null;
+  const settlementDate = trade.settlementDate ?? (trade.targetSettlementDate < asOf ? asOf : trade.targetSettlementDate);
+  const allInRate = getAllInRate(terms);
+
+  const interestPeriod = getInterestPeriod(settlementDate, terms.interestPeriodMonths, terms.interestPeriodAnchor);
+  const accruedDays = daysBetween(interestPeriod.start, settlementDate);
+  const accruedInterest = roundToCents(trade.amount * (allInRate / 100) * (accruedDays / DAY_COUNT_BASIS[terms.dayCount]));
+
+  const purchasePrice = roundToCents(trade.amount * trade.price / 100);
+  const delayedCompensation = projected
+    ? calculateDelayedCompensation(trade, settlementDate, allInRate)
+    : trade.delayedCompensation;
+  const settlementAmount = roundToCents(purchasePrice + accruedInterest - delayedCompensation);
+
+  const feesPaidBy = (payer: FeePayer) =>
+    terms.fees.filter(fee => fee.payer === payer).reduce((sum, fee) => sum + fee.amount, 0);
+
+  return {
+    settlementDate,
+    projected,
+    purchasePrice,
+    interestPeriod,
+    accruedDays,
+    allInRate,
+    accruedInterest,
+    delayedCompensation,
+    settlementAmount,
+    fees: terms.fees,
+    buyerFunding: roundToCents(settlementAmount + feesPaidBy('buyer')),
+    sellerProceeds: roundToCents(settlementAmount - feesPaidBy('seller')),
+  };
+}
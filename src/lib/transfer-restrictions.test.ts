@@ -0,0 +1,175 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for buyer eligibility, borrower consent and their extraction from the assignments clause
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { LoanData, TransferRestrictions, validateLoanData } from '@/types';
+import { TradeRejectedError, createInitialTradingStatus } from './loan-state';
+import { advanceTrade, agreeTrade, getNextStages, getOpenTrades } from './trade-lifecycle';
+import { applyEligibleTrade, checkTransferEligibility, getTradeLimits } from './transfer-restrictions';
+import { SmartLoanExtractor } from './smart-loan-extractor';
+
+const restrictions: TransferRestrictions = {
+  borrowerConsentRequired: true,
+  consentExceptions: ['existing_lender', 'affiliate', 'event_of_default'],
+  deemedConsentDays: 10,
+  minimumTransferAmount: 5000000,
+  minimumHoldAmount: 10000000,
+  prohibitedCategories: ['competitor', 'loan_to_own_fund'],
+  approvedLenders: [],
+  restrictedLenders: ['Apollo Global Management', 'Elliott Management Corporation'],
+};
+
+const existingLenders = ['Bank A', 'Bank B', 'Bank C'];
+
+describe('checkTransferEligibility', () => {
+  it('requires borrower consent for a new lender', () => {
+    expect(checkTransferEligibility(restrictions, { sellerName: 'Bank A', buyerName: 'Fund D', amount: 10000000 }, existingLenders))
+      .toEqual({ eligible: true, consentRequired: true, reasons: [] });
+  });
+
+  it('waives consent for the listed exceptions', () => {
+    const trade = { sellerName: 'Bank A', buyerName: 'Fund D', amount: 10000000 };
+
+    expect(checkTransferEligibility(restrictions, { ...trade, buyerName: 'Bank B' }, existingLenders).consentRequired).toBe(false);
+    expect(checkTransferEligibility(restrictions, { ...trade, buyerIsAffiliate: true }, existingLenders).consentRequired).toBe(false);
+    expect(checkTransferEligibility(restrictions, trade, existingLenders, true).consentRequired).toBe(false);
+    expect(checkTransferEligibility({ ...restrictions, consentExceptions: [] }, trade, existingLenders, true).consentRequired).toBe(true);
+  });
+
+  it('lists every reason a buyer is ineligible', () => {
+    const eligibility = checkTransferEligibility(
+      { ...restrictions, approvedLenders: ['Fund D'] },
+      { sellerName: 'Bank A', buyerName: 'Elliott', buyerCategory: 'loan_to_own_fund', amount: 10000000 },
+      existingLenders
+    );
+
+    expect(eligibility.eligible).toBe(false);
+    expect(eligibility.reasons).toEqual([
+      'Elliott is on the restricted lender list (Elliott Management Corporation)',
+      'Elliott is not on the approved lender list',
+      'Transfers to a loan-to-own / distressed fund are prohibited',
+    ]);
+  });
+
+  it('approves only the listed legal names and restricts on whole words', () => {
+    const approved = { ...restrictions, approvedLenders: ['JPMorgan Chase Bank, N.A.', 'Fund D LP'], restrictedLenders: ['ING'] };
+    const eligible = (buyerName: string) =>
+      checkTransferEligibility(approved, { sellerName: 'Bank A', buyerName, amount: 10000000 }, existingLenders).reasons;
+
+    expect(eligible('A')).toEqual(['A is not on the approved lender list']);
+    expect(eligible('JPMorgan')).toEqual(['JPMorgan is not on the approved lender list']);
+    expect(eligible('Fund D, L.P.')).toEqual([]);
+    expect(eligible('JPMorgan Chase Bank NA')).toEqual([]);
+    expect(checkTransferEligibility(restrictions, { sellerName: 'Bank A', buyerName: 'Banking Partners', amount: 10000000 }, existingLenders).eligible)
+      .toBe(true);
+    expect(checkTransferEligibility(restrictions, { sellerName: 'Bank A', buyerName: 'Apollo Global Management, Inc.', amount: 10000000 }, existingLenders).reasons)
+      .toEqual(['Apollo Global Management, Inc. is on the restricted lender list (Apollo Global Management)']);
+  });
+
+  it('allows any transfer when the loan has no restrictions', () => {
+    expect(checkTransferEligibility(undefined, { sellerName: 'Bank A', buyerName: 'Apollo', amount: 1 }, existingLenders))
+      .toEqual({ eligible: true, consentRequired: false, reasons: [] });
+  });
+});
+
+describe('trades under transfer restrictions', () => {
+  const initial = createInitialTradingStatus();
+
+  it('rejects ineligible buyers with a typed reason', () => {
+    let rejection: unknown = null;
+    try {
+      applyEligibleTrade(initial, { sellerName: 'Bank A', buyerName: 'Apollo Global Management', amount: 10000000 }, restrictions);
+    } catch (error) {
+      rejection = error;
+    }
+
+    expect(rejection).toBeInstanceOf(TradeRejectedError);
+    expect((rejection as TradeRejectedError).reason).toBe('ineligible_buyer');
+    expect((rejection as TradeRejectedError).details).toHaveLength(1);
+  });
+
+  it('applies the loan minimum amounts', () => {
+    expect(getTradeLimits(restrictions)).toEqual({ minTransferAmount: 5000000, minHoldAmount: 10000000 });
+    // Existing lenders need no consent, so only the amounts stand in the way
+    expect(() => applyEligibleTrade(initial, { sellerName: 'Bank A', buyerName: 'Bank B', amount: 2000000 }, restrictions))
+      .toThrow(expect.objectContaining({ reason: 'minimum_transfer' }));
+    expect(() => applyEligibleTrade(initial, { sellerName: 'Bank C', buyerName: 'Bank B', amount: 15000000 }, restrictions))
+      .toThrow(expect.objectContaining({ reason: 'minimum_hold' }));
+  });
+
+  it('will not settle a trade needing consent straight away', () => {
+    expect(() => applyEligibleTrade(initial, { sellerName: 'Bank A', buyerName: 'Fund D', amount: 10000000 }, restrictions))
+      .toThrow(expect.objectContaining({ reason: 'consent_required' }));
+    expect(applyEligibleTrade(initial, { sellerName: 'Bank A', buyerName: 'Fund D', amount: 10000000, buyerIsAffiliate: true }, restrictions)
+      .lenderAllocations.find(lender => lender.lenderName === 'Fund D')?.amount).toBe(10000000);
+  });
+
+  it('will not process a trade needing consent until consent is requested', () => {
+    let tradingStatus = agreeTrade(
+      initial,
+      { sellerName: 'Bank A', buyerName: 'Fund D', amount: 10000000 },
+      { id: 'trade_1', tradeDate: '2026-01-02', restrictions }
+    );
+    tradingStatus = advanceTrade(tradingStatus, 'trade_1', 'confirmed');
+    tradingStatus = advanceTrade(tradingStatus, 'trade_1', 'documentation_drafted');
+    const [trade] = getOpenTrades(tradingStatus);
+
+    expect(trade.consentRequired).toBe(true);
+    expect(getNextStages(trade)).toEqual(['consent_requested', 'cancelled']);
+    expect(() => advanceTrade(tradingStatus, 'trade_1', 'agent_processing'))
+      .toThrow('Borrower consent must be requested before agent processing');
+  });
+});
+
+describe('transfer restriction validation', () => {
+  const loan: LoanData = {
+    borrowerName: 'Acme Holdings Ltd',
+    facilityAmount: 100000000,
+    currency: 'USD',
+    interestRateMargin: 2.5,
+    leverageCovenant: 4,
+    esgTarget: 'Reduce carbon emissions by 30% by 2030',
+  };
+
+  it('accepts the extracted restrictions and rejects unknown categories', () => {
+    expect(validateLoanData({ ...loan, transferRestrictions: restrictions }).errors).toEqual([]);
+
+    const invalid = {
+      ...loan,
+      transferRestrictions: { ...restrictions, prohibitedCategories: ['hedge_fund'] },
+    } as unknown as LoanData;
+    expect(validateLoanData(invalid).errors.some(error => error.startsWith('Transfer restrictions'))).toBe(true);
+  });
+});
+
+describe('SmartLoanExtractor transfer restrictions', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reads the Changes to the Lenders clause of the acquisition facility', async () => {
+    const text = readFileSync(join(process.cwd(), 'sample-documents', 'acquisition-loan-agreement.txt'), 'utf-8');
+    const { data, provenance } = await new SmartLoanExtractor().extractLoanData(text);
+
+    expect(data.transferRestrictions).toEqual(restrictions);
+    expect(provenance.transferRestrictions?.method).toBe('pattern');
+  });
+
+  it('leaves loans without an assignments clause unrestricted', async () => {
+    const text = readFileSync(join(process.cwd(), 'sample-documents', 'corporate-loan-agreement.txt'), 'utf-8');
+    const { data } = await new SmartLoanExtractor().extractLoanData(text);
+
+    expect(data.transferRestrictions).toBeUndefined();
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Transfer Restrictions
+ * Buyer eligibility and borrower consent for secondary trades under a loan's
+ * "Changes to the Lenders" clause
+ */
+
+import { LenderCategory, TradeRequest, TradingStatus, TransferRestrictions } from '@/types';
+import { DEFAULT_TRADE_LIMITS, TradeLimits, TradeRejectedError, applyTrade } from '@/lib/loan-state';
+
+export const LENDER_CATEGORY_LABELS: Record<LenderCategory, string> = {
+  bank: 'Bank',
+  financial_institution: 'Financial Institution',
+  fund: 'Fund',
+  loan_to_own_fund: 'Loan-to-Own / Distressed Fund',
+  competitor: 'Competitor of the Borrower',
+};
+
+export interface TransferEligibility {
+  eligible: boolean;
+  consentRequired: boolean;
+  // Why the buyer is ineligible, empty when eligible
+  reasons: string[];
+}
+
+export interface ProposedTradeCheck {
+  limits: TradeLimits;
+  consentRequired: boolean;
+}
+
+const LEGAL_FORM_SUFFIXES = new Set([
+  'ag', 'bv', 'co', 'company', 'corp', 'corporation', 'gmbh', 'inc', 'incorporated',
+  'limited', 'llc', 'llp', 'lp', 'ltd', 'nv', 'plc', 'sa', 'sarl', 'se',
+]);
+
+// Lower-cased words of a name without trailing legal forms: "Fund D, L.P." is "fund d"
+const normalizeName = (name: string): string => {
+  const words = name.toLowerCase().replace(/\./g, '').split(/[^a-z0-9]+/).filter(word => word.length > 0);
+  while (words.length > 1 && LEGAL_FORM_SUFFIXES.has(words[words.length - 1])) words.pop();
+  return words.join(' ');
+};
+
+// The same legal name, so approval never extends to a different entity
+const sameLegalName = (a: string, b: string): boolean => {
+  const left = normalizeName(a);
+  return left.length > 0 && left === normalizeName(b);
+};
+
+// Whole words of one name within the other: "Elliott" and "Elliott Management Corporation"
+// match, "ING" and "Banking Partners" do not
+const namesOverlap = (a: string, b: string): boolean => {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  return left.length > 0 && right.length > 0 && (` ${left} `.includes(` ${right} `) || ` ${right} `.includes(` ${left} `));
+};
+
+/**
+ * Minimum transfer and hold amounts, with the loan's own minimums taking precedence
+ */
+export function getTradeLimits(restrictions?: TransferRestrictions): TradeLimits {
+  return {
+    minTransferAmount: restrictions?.minimumTransferAmount ?? DEFAULT_TRADE_LIMITS.minTransferAmount,
+    minHoldAmount: restrictions?.minimumHoldAmount ?? DEFAULT_TRADE_LIMITS.minHoldAmount,
+  };
+}
+
+/**
+ * Whether the buyer may take the transfer and whether the borrower must consent
+ */
+export function checkTransferEligibility(
+  restrictions: TransferRestrictions | undefined,
+  trade: TradeRequest,
+  existingLenders: string[],
+  eventOfDefault: boolean = false
+): TransferEligibility {
+  if (!restrictions) {
+    return { eligible: true, consentRequired: false, reasons: [] };
+  }
+
+  const reasons: string[] = [];
+  const isExistingLender = existingLenders.some(lender => sameLegalName(lender, trade.buyerName));
+
+  const restricted = restrictions.restrictedLenders.find(name => namesOverlap(name, trade.buyerName));
+  if (restricted) {
+    reasons.push(`${trade.buyerName} is on the restricted lender list (${restricted})`);
+  }
+
+  if (
+    restrictions.approvedLenders.length > 0 &&
+    !isExistingLender &&
+    !restrictions.approvedLenders.some(name => sameLegalName(name, trade.buyerName))
+  ) {
+    reasons.push(`${trade.buyerName} is not on the approved lender list`);
+  }
+
+  if (trade.buyerCategory && restrictions.prohibitedCategories.includes(trade.buyerCategory)) {
+    reasons.push(`Transfers to a ${LENDER_CATEGORY_LABELS[trade.buyerCategory].toLowerCase()} are prohibited`);
+  }
+
+  const exceptions = restrictions.consentExceptions;
+  const consentWaived =
+    (isExistingLender && exceptions.includes('existing_lender')) ||
+    (trade.buyerIsAffiliate === true && exceptions.includes('affiliate')) ||
+    (eventOfDefault && exceptions.includes('event_of_default'));
+
+  return {
+    eligible: reasons.length === 0,
+    consentRequired: restrictions.borrowerConsentRequired && !consentWaived,
+    reasons,
+  };
+}
+
+/**
+ * Check a proposed trade against the loan's transfer restrictions.
+ * Throws TradeRejectedError listing every reason the buyer is ineligible.
+ */
+export function checkProposedTrade(
+  tradingStatus: TradingStatus,
+  trade: TradeRequest,
+  restrictions: TransferRestrictions | undefined,
+  eventOfDefault: boolean = false
+): ProposedTradeCheck {
+  const eligibility = checkTransferEligibility(
+    restrictions,
+    trade,
+    tradingStatus.lenderAllocations.map(lender => lender.lenderName),
+    eventOfDefault
+  );
+
+  if (!eligibility.eligible) {
+    throw new TradeRejectedError('ineligible_buyer', eligibility.reasons.join('; '), eligibility.reasons);
+  }
+
+  return { limits: getTradeLimits(restrictions), consentRequired: eligibility.consentRequired };
+}
+
+/**
+ * Settle a trade immediately once the buyer is eligible, using the loan's minimum amounts.
+ * A trade needing borrower consent cannot settle before consent is requested, so it
+ * is rejected and has to be agreed instead.
+ */
+export function applyEligibleTrade(
+  tradingStatus: TradingStatus,
+  trade: TradeRequest,
+  restrictions: TransferRestrictions | undefined,
+  eventOfDefault: boolean = false
+): TradingStatus {
+  const { limits, consentRequired } = checkProposedTrade(tradingStatus, trade, restrictions, eventOfDefault);
+  if (consentRequired) {
+    throw new TradeRejectedError(
+      'consent_required',
+      `The transfer to ${trade.buyerName} needs borrower consent, so it must be agreed and settled through the consent request`
+    );
+  }
+  return applyTrade(tradingStatus, trade, limits);
+}
@@ -0,0 +1,118 @@
+/**
+ * ZIP Archive Reader
+ * Reads entries from the central directory of a ZIP container such as an OOXML package.
+ * Supports stored and deflated entries, which covers files written by Word.
+ */
+
+import { MAX_INFLATED_BYTES, inflateRaw } from '@/lib/inflate';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+export class ZipArchive {
+  private readonly view: DataView;
+  private readonly entries = new Map<string, ZipEntry>();
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.readCentralDirectory();
+  }
+
+  public get names(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  public has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  /**
+   * Read an entry's contents, or null when the archive has no such entry
+   */
+  public read(name: string): Uint8Array | null {
+    const entry = this.entries.get(name);
+    if (!entry) return null;
+
+    const offset = entry.localHeaderOffset;
+    if (offset + 30 > this.bytes.length || this.view.getUint32(offset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP entry: ${name}`);
+    }
+    const nameLength = this.view.getUint16(offset + 26, true);
+    const extraLength = this.view.getUint16(offset + 28, true);
+    const start = offset + 30 + nameLength + extraLength;
+    if (start + entry.compressedSize > this.bytes.length) {
+      throw new Error(`Corrupt ZIP entry: ${name}`);
+    }
+    if (entry.uncompressedSize > MAX_INFLATED_BYTES) {
+      throw new Error(`ZIP entry ${name} is too large to extract`);
+    }
+    const data = this.bytes.subarray(start, start + entry.compressedSize);
+
+    if (entry.method === 0) return data;
+    if (entry.method === 8) {
+      // Inflate no further than the declared size, so a bomb cannot outgrow its header
+      const inflated = inflateRaw(data, entry.uncompressedSize);
+      if (inflated.length !== entry.uncompressedSize) {
+        throw new Error(`Corrupt ZIP entry: ${name}`);
+      }
+      return inflated;
+    }
+    throw new Error(`Unsupported ZIP compression method ${entry.method} for ${name}`);
+  }
+
+  public readText(name: string): string | null {
+    const data = this.read(name);
+    return data ? new TextDecoder('utf-8').decode(data) : null;
+  }
+
+  private readCentralDirectory(): void {
+    const endOffset = this.findEndOfCentralDirectory();
+    const entryCount = this.view.getUint16(endOffset + 10, true);
+    let offset = this.view.getUint32(endOffset + 16, true);
+    const decoder = new TextDecoder('utf-8');
+
+    for (let i = 0; i < entryCount; i++) {
+      if (offset + 46 > this.bytes.length || this.view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+        throw new Error('Corrupt ZIP central directory');
+      }
+      const nameLength = this.view.getUint16(offset + 28, true);
+      const extraLength = this.view.getUint16(offset + 30, true);
+      const commentLength = this.view.getUint16(offset + 32, true);
+      const name = decoder.decode(this.bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+      this.entries.set(name, {
+        name,
+        method: this.view.getUint16(offset + 10, true),
+        compressedSize: this.view.getUint32(offset + 20, true),
+        uncompressedSize: this.view.getUint32(offset + 24, true),
+        localHeaderOffset: this.view.getUint32(offset + 42, true),
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+  }
+
+  private findEndOfCentralDirectory(): number {
+    // The record is 22 bytes plus an optional comment of up to 64KB
+    const lowest = Math.max(0, this.bytes.length - 22 - 0xffff);
+    for (let offset = this.bytes.length - 22; offset >= lowest; offset--) {
+      if (this.view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+    }
+    throw new Error('Not a ZIP archive');
+  }
+}
+
+/**
+ * Whether the bytes start with a ZIP local file header
+ */
+export function isZipArchive(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
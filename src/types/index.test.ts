@@ -9,8 +9,13 @@ import * as fc from 'fast-check';
 import { 
   validateLoanData, 
   validateField, 
+  validateTranches,
+  calculateTrancheTotals,
+  getTotalFacilityAmount,
+  sanitizeLoanData,
   loanDataValidationSchema,
-  LoanData 
+  LoanData,
+  Tranche
 } from './index';
 
 describe('Data Model Validation', () => {
@@ -199,4 +204,126 @@ describe('Data Model Validation', () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('Multi-facility tranches', () => {
+    const baseLoan: LoanData = {
+      borrowerName: 'Acme Holdings Inc.',
+      facilityAmount: 800000000,
+      currency: 'USD',
+      interestRateMargin: 2.75,
+      leverageCovenant: 4.5,
+      esgTarget: 'Reduce carbon emissions by 30% by 2027'
+    };
+
+    const tranches: Tranche[] = [
+      { id: 't1', name: 'Term Loan A', facilityType: 'term_loan_a', amount: 250000000, currency: 'USD', interestRateMargin: 2.5, tenorMonths: 60 },
+      { id: 't2', name: 'Term Loan B', facilityType: 'term_loan_b', amount: 400000000, currency: 'USD', interestRateMargin: 3.25, tenorMonths: 84 },
+      { id: 't3', name: 'Revolver', facilityType: 'revolving_credit', amount: 150000000, currency: 'USD', interestRateMargin: 2.25, tenorMonths: 60 }
+    ];
+
+    it('should roll tranche amounts up into loan-level totals', () => {
+      const totals = calculateTrancheTotals(tranches);
+
+      expect(totals.totalAmount).toBe(800000000);
+      expect(totals.longestTenorMonths).toBe(84);
+      expect(totals.amountByCurrency).toEqual({ USD: 800000000 });
+      expect(totals.weightedAverageMargin).toBeCloseTo((250 * 2.5 + 400 * 3.25 + 150 * 2.25) / 800, 6);
+      expect(getTotalFacilityAmount({ ...baseLoan, tranches })).toBe(800000000);
+    });
+
+    it('should fall back to the single facility amount when there are no tranches', () => {
+      expect(getTotalFacilityAmount(baseLoan)).toBe(800000000);
+      expect(getTotalFacilityAmount({ ...baseLoan, tranches: [] })).toBe(800000000);
+    });
+
+    it('should accept a consistent multi-facility loan', () => {
+      const result = validateLoanData({ ...baseLoan, tranches });
+      expect(result.isValid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('should reject tranches that do not sum to the facility amount', () => {
+      const result = validateLoanData({ ...baseLoan, facilityAmount: 900000000, tranches });
+      expect(result.isValid).toBe(false);
+      expect(result.errors.some(error => error.includes('must sum to the facility amount'))).toBe(true);
+    });
+
+    it('should report per-tranche field errors', () => {
+      const errors = validateTranches([
+        { ...tranches[0], amount: -5, interestRateMargin: 25 },
+        { ...tranches[1], name: 'Term Loan A', currency: 'XYZ', tenorMonths: 0 }
+      ]);
+
+      expect(errors).toContain('Tranche 1 amount must be a positive number');
+      expect(errors.some(error => error.startsWith('Tranche 1 margin'))).toBe(true);
+      expect(errors.some(error => error.includes('is duplicated'))).toBe(true);
+      expect(errors.some(error => error.startsWith('Tranche 2 currency'))).toBe(true);
+      expect(errors.some(error => error.startsWith('Tranche 2 tenor'))).toBe(true);
+    });
+
+    it('should accept tranches in other currencies and a missing tenor', () => {
+      const errors = validateTranches(
+        [tranches[0], { ...tranches[1], currency: 'EUR' }, { ...tranches[2], tenorMonths: undefined }],
+        800000000,
+        'USD'
+      );
+
+      expect(errors).toEqual([]);
+    });
+
+    it('should keep the converted facility amount for tranches in several currencies', () => {
+      const multiCurrency = [tranches[0], { ...tranches[1], currency: 'EUR' }, tranches[2]];
+
+      expect(calculateTrancheTotals(multiCurrency).amountByCurrency).toEqual({ USD: 400000000, EUR: 400000000 });
+      expect(getTotalFacilityAmount({ ...baseLoan, facilityAmount: 835000000, tranches: multiCurrency })).toBe(835000000);
+    });
+
+    it('should sum any generated set of tranches exactly', () => {
+      fc.assert(
+        fc.property(
+          fc.array(fc.integer({ min: 1000000, max: 200000000 }), { minLength: 1, maxLength: 10 }),
+          (amounts: number[]) => {
+            const generated = amounts.map((amount, index) => ({
+              ...tranches[0],
+              id: `t${index}`,
+              name: `Facility ${index}`,
+              amount
+            }));
+            const total = amounts.reduce((sum, amount) => sum + amount, 0);
+
+            expect(calculateTrancheTotals(generated).totalAmount).toBe(total);
+            expect(validateTranches(generated, total, 'USD')).toHaveLength(0);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should sanitize tranche fields', () => {
+      const sanitized = sanitizeLoanData({
+        tranches: [{ ...tranches[0], name: '  Term <Loan> A ', currency: 'usd', tenorMonths: 59.6 }]
+      });
+
+      expect(sanitized.tranches?.[0].name).toBe('Term Loan A');
+      expect(sanitized.tranches?.[0].currency).toBe('USD');
+      expect(sanitized.tranches?.[0].tenorMonths).toBe(60);
+    });
+
+    it('should validate fee terms and keep unreadable amounts for validation', () => {
+      const feeTerms = { commitmentFeePercentOfMargin: 35, utilisationFeeBands: [{ aboveUtilisation: 33, rate: 0.1 }], agencyFee: 50000 };
+
+      expect(validateLoanData({ ...baseLoan, feeTerms }).errors).toEqual([]);
+      expect(sanitizeLoanData({ feeTerms: { ...feeTerms, agencyFee: '$50,000' as unknown as number } }).feeTerms)
+        .toEqual(feeTerms);
+
+      const junk = sanitizeLoanData({
+        feeTerms: { commitmentFeePercentOfMargin: 'lots', utilisationFeeBands: [null], agencyFee: -1 },
+      } as unknown as Partial<LoanData>);
+      expect(validateLoanData({ ...baseLoan, ...junk }).errors).toEqual([
+        'Commitment fee must be between 0% and 100% of the margin',
+        'Utilisation fee bands must each give a utilisation level between 0% and 100% and a rate',
+        'Agency fee must be zero or a positive amount',
+      ]);
+    });
+  });
+});
@@ -1,14 +1,358 @@
 // Core data models for LMA Bridge
 
+export type FacilityType =
+  | 'term_loan_a'
+  | 'term_loan_b'
+  | 'term_loan'
+  | 'revolving_credit'
+  | 'capex'
+  | 'bridge';
+
+export const FACILITY_TYPE_LABELS: Record<FacilityType, string> = {
+  term_loan_a: 'Term Loan A',
+  term_loan_b: 'Term Loan B',
+  term_loan: 'Term Loan',
+  revolving_credit: 'Revolving Credit Facility',
+  capex: 'Capex Facility',
+  bridge: 'Bridge Facility',
+};
+
+// Industry sectors offered when entering a loan
+export const LOAN_SECTORS = [
+  'Manufacturing',
+  'Technology',
+  'Healthcare',
+  'Energy',
+  'Utilities',
+  'Real Estate',
+  'Consumer',
+  'Financial Services',
+  'Telecommunications',
+  'Transportation',
+] as const;
+
+export interface Tranche {
+  id: string;
+  name: string;
+  facilityType: FacilityType;
+  amount: number;
+  currency: string;
+  interestRateMargin: number;
+  // Not every agreement states a tenor per facility
+  tenorMonths?: number;
+}
+
+export type CovenantMetric =
+  | 'leverage'
+  | 'interest_cover'
+  | 'debt_service_cover'
+  | 'minimum_net_worth'
+  | 'minimum_liquidity'
+  | 'capex';
+
+export type CovenantOperator = '<=' | '>=';
+
+export type CovenantTestFrequency = 'quarterly' | 'semi_annual' | 'annual';
+
+export interface CovenantStepDown {
+  // Threshold applies to test dates on or before this ISO date
+  until: string;
+  threshold: number;
+}
+
+export interface Covenant {
+  id: string;
+  metric: CovenantMetric;
+  label: string;
+  operator: CovenantOperator;
+  // Threshold applying after the last step-down ("thereafter")
+  threshold: number;
+  unit: 'ratio' | 'amount';
+  testFrequency: CovenantTestFrequency;
+  testDates: string[];
+  stepDowns: CovenantStepDown[];
+}
+
+export type CovenantStatus = 'compliant' | 'warning' | 'breach';
+
+export interface CovenantTestResult {
+  covenantId: string;
+  metric: CovenantMetric;
+  label: string;
+  testDate: string;
+  actual: number;
+  threshold: number;
+  headroom: number; // Distance to threshold as a fraction of it; negative when breached
+  status: CovenantStatus;
+}
+
 export interface LoanData {
   borrowerName: string;
   facilityAmount: number;
   currency: string;
   interestRateMargin: number;
+  // Minimum reference rate (percent) before the margin is added; 0 when the agreement sets none
+  referenceRateFloor?: number;
   leverageCovenant: number;
   esgTarget: string;
+  // Borrower's industry, used to group portfolio exposure
+  sector?: string;
+  // Individual facilities making up the loan; facilityAmount is their roll-up
+  tranches?: Tranche[];
+  // Full financial covenant schedule; leverageCovenant remains the headline ratio
+  covenants?: Covenant[];
+  // Original lenders and their commitments (Schedule 1 or the signature pages)
+  lenders?: LenderAllocation[];
+  // Key dates (ISO yyyy-mm-dd)
+  signingDate?: string;
+  availabilityPeriodEnd?: string;
+  terminationDate?: string;
+  // Principal repayments up to the termination date
+  repaymentSchedule?: RepaymentSchedule;
+  // Eligibility rules for secondary transfers ("Changes to the Lenders")
+  transferRestrictions?: TransferRestrictions;
+  // Drawdowns and repayments of the revolving facilities
+  revolverMovements?: RevolverMovement[];
+  // Commitment, utilisation and agency fees; the configured defaults apply when absent
+  feeTerms?: FeeTerms;
+  // KPIs and margin ratchet of a sustainability-linked loan
+  sustainabilityTerms?: SustainabilityLinkedTerms;
+  // Sustainability margin adjustments in effective date order; interestRateMargin includes the latest
+  marginHistory?: MarginAdjustment[];
+  // Borrower's latest greenhouse gas emissions, for financed emissions reporting
+  borrowerEmissions?: BorrowerEmissions;
+  // EU Taxonomy screening of what the proceeds finance
+  taxonomyScreening?: TaxonomyScreening;
+}
+
+// Environmental objectives of the EU Taxonomy Regulation
+export type EnvironmentalObjective =
+  | 'climate_mitigation'
+  | 'climate_adaptation'
+  | 'water'
+  | 'circular_economy'
+  | 'pollution'
+  | 'biodiversity';
+
+// Minimum safeguards the borrower must have in place
+export type SafeguardTopic = 'human_rights' | 'anti_corruption' | 'taxation' | 'fair_competition';
+
+// Part of a facility's proceeds and the economic activity it finances
+export interface UseOfProceeds {
+  id: string;
+  // Facility it is drawn from; null for a loan without tranches
+  trancheId: string | null;
+  description: string;
+  // NACE Rev. 2 code of the activity, e.g. D35.11
+  naceCode: string;
+  // Taxonomy activity it is screened as, e.g. '4.1'; null when not taxonomy-eligible
+  activityId: string | null;
+  // In the facility currency
+  amount: number;
+  // Value reported against the activity's screening threshold, if it has one
+  metricValue: number | null;
+  // Qualitative technical screening criteria confirmed
+  criteriaConfirmed: boolean;
+  // Do no significant harm confirmed for each objective other than the one contributed to
+  dnsh: Partial<Record<EnvironmentalObjective, boolean>>;
+}
+
+export interface TaxonomyScreening {
+  useOfProceeds: UseOfProceeds[];
+  minimumSafeguards: Partial<Record<SafeguardTopic, boolean>>;
+}
+
+// Where emissions figures come from, best first: PCAF data quality scores 1 to 5
+export type EmissionsDataSource =
+  | 'verified_reported'
+  | 'unverified_reported'
+  | 'physical_activity'
+  | 'revenue_based'
+  | 'asset_based';
+
+// Enterprise value including cash for listed borrowers, total equity plus debt otherwise
+export type AttributionBasis = 'evic' | 'equity_and_debt';
+
+// Borrower's annual emissions in tonnes CO2e and the value they are attributed against
+export interface BorrowerEmissions {
+  reportingYear: number;
+  scope1: number;
+  scope2: number;
+  // Null when the borrower does not report Scope 3
+  scope3: number | null;
+  attributionBasis: AttributionBasis;
+  // EVIC or total equity plus debt, in `currency`
+  attributionValue: number;
+  // Annual revenue in `currency` for emission intensity; null when unknown
+  revenue: number | null;
+  currency: string;
+  dataSource: EmissionsDataSource;
+}
+
+export type RevolverMovementType = 'drawdown' | 'repayment';
+
+// Cash drawn from or repaid to a revolving tranche on a date (ISO yyyy-mm-dd)
+export interface RevolverMovement {
+  id: string;
+  trancheId: string;
+  type: RevolverMovementType;
+  date: string;
+  amount: number;
+}
+
+// Fee rate applying to all drawn amounts once utilisation exceeds a level
+export interface UtilisationFeeBand {
+  // Percent of total revolving commitments
+  aboveUtilisation: number;
+  // Percent per annum
+  rate: number;
+}
+
+export interface FeeTerms {
+  // Commitment fee on undrawn amounts, as a percentage of the applicable margin
+  commitmentFeePercentOfMargin: number;
+  utilisationFeeBands: UtilisationFeeBand[];
+  // Paid to the agent annually in advance from signing
+  agencyFee: number;
 }
 
+// Whether a KPI improves by going down (emissions) or up (renewable share)
+export type KpiDirection = 'decrease' | 'increase';
+
+// Sustainability performance target (SPT) a KPI is tested against for a year
+export interface SustainabilityPerformanceTarget {
+  testYear: number;
+  target: number;
+}
+
+export interface SustainabilityKpi {
+  id: string;
+  metric: string;
+  unit: string;
+  direction: KpiDirection;
+  baselineYear: number;
+  // Null when the agreement does not state the baseline level
+  baselineValue: number | null;
+  targets: SustainabilityPerformanceTarget[];
+  // Percent of the margin ratchet riding on this KPI; the KPIs of a loan add up to 100
+  weighting: number;
+  // Step-down when the agreement prices this KPI's target on its own, instead of its
+  // weighting's share of the ratchet
+  discountBps?: number;
+}
+
+export interface SustainabilityLinkedTerms {
+  kpis: SustainabilityKpi[];
+  // Margin change in basis points when every KPI tested meets its target, or misses it
+  ratchetDownBps: number;
+  ratchetUpBps: number;
+  // Agreement's cap on the step-down in any test year
+  maxDiscountBps?: number;
+}
+
+// KPI values reported for a test year, by KPI id
+export interface KpiReport {
+  testYear: number;
+  reportedOn: string;
+  values: Record<string, number>;
+}
+
+// Submitted certificates await the agent's review; a rejected one may be resubmitted
+// before the deadline, and a test year with no certificate by then is missed
+export type ComplianceCertificateStatus = 'submitted' | 'accepted' | 'rejected' | 'missed';
+
+// External verifier's assurance over the reported KPI values
+export interface AssuranceReport {
+  verifier: string;
+  fileName: string;
+}
+
+export interface ComplianceCertificateEvent {
+  status: ComplianceCertificateStatus;
+  // ISO timestamp
+  at: string;
+  note?: string;
+}
+
+// Borrower's annual certificate of KPI performance for a test year
+export interface ComplianceCertificate {
+  id: string;
+  testYear: number;
+  // Last day (ISO yyyy-mm-dd) to submit
+  deadline: string;
+  status: ComplianceCertificateStatus;
+  // Reported values by KPI id; empty for a missed test year
+  values: Record<string, number>;
+  assurance: AssuranceReport | null;
+  // Every transition, oldest first
+  events: ComplianceCertificateEvent[];
+}
+
+// Margin from a date (ISO yyyy-mm-dd) following a sustainability test
+export interface MarginAdjustment {
+  effectiveDate: string;
+  // Test year assessed; null for a one-off verification of the ESG target
+  testYear: number | null;
+  // Against the contractual margin: negative steps down, positive steps up
+  adjustmentBps: number;
+  // Resulting loan margin, percent
+  margin: number;
+  // Margins the adjustment is measured against, percent: the loan's and its tranches' by id
+  contractualMargin?: number;
+  contractualTrancheMargins?: Record<string, number>;
+}
+
+export type RepaymentType = 'bullet' | 'amortising';
+
+// Principal repayment due on a date (ISO yyyy-mm-dd)
+export interface RepaymentInstalment {
+  date: string;
+  amount: number;
+}
+
+export interface RepaymentSchedule {
+  type: RepaymentType;
+  instalments: RepaymentInstalment[];
+}
+
+export interface TrancheTotals {
+  totalAmount: number;
+  weightedAverageMargin: number;
+  longestTenorMonths: number;
+  amountByCurrency: Record<string, number>;
+}
+
+// Roll-up of a tranche list into loan-level totals. Amounts are summed as they are,
+// so totalAmount is only meaningful when every tranche shares a currency
+export const calculateTrancheTotals = (tranches: Tranche[]): TrancheTotals => {
+  const totalAmount = tranches.reduce((sum, tranche) => sum + tranche.amount, 0);
+  const weightedAverageMargin = totalAmount > 0
+    ? tranches.reduce((sum, tranche) => sum + tranche.amount * tranche.interestRateMargin, 0) / totalAmount
+    : 0;
+  const longestTenorMonths = tranches.reduce((max, tranche) => Math.max(max, tranche.tenorMonths ?? 0), 0);
+  const amountByCurrency = tranches.reduce((acc, tranche) => {
+    acc[tranche.currency] = (acc[tranche.currency] || 0) + tranche.amount;
+    return acc;
+  }, {} as Record<string, number>);
+
+  return { totalAmount, weightedAverageMargin, longestTenorMonths, amountByCurrency };
+};
+
+// Total commitments of a loan in its currency: the sum of its tranches, or the single
+// facility amount. Tranches in other currencies keep the facility amount converted at origination
+export const getTotalFacilityAmount = (loan: LoanData): number => {
+  if (loan.tranches && loan.tranches.length > 0) {
+    const { totalAmount, amountByCurrency } = calculateTrancheTotals(loan.tranches);
+    const currencies = Object.keys(amountByCurrency);
+    return currencies.length === 1 && currencies[0] === loan.currency ? totalAmount : loan.facilityAmount;
+  }
+  return loan.facilityAmount;
+};
+
+// Sum of the lender commitments in a syndicate
+export const getCommitmentTotal = (lenders: LenderAllocation[]): number =>
+  lenders.reduce((sum, lender) => sum + lender.amount, 0);
+
 export interface VerificationState {
   isVerified: boolean;
   isLocked: boolean;
@@ -19,12 +363,18 @@ export interface ESGStatus {
   target: string;
   discountApplied: boolean;
   verificationUploaded: boolean;
+  // Sustainability KPI values reported for each test year
+  kpiReports?: KpiReport[];
+  // Annual compliance certificates, including rejected ones
+  complianceCertificates?: ComplianceCertificate[];
 }
 
 export interface RiskStatus {
   currentLeverage: number;
   isInDefault: boolean;
   warningLevel: 'safe' | 'warning' | 'breach';
+  covenantStatuses: CovenantTestResult[];
+  lastCovenantTestDate: string | null;
 }
 
 export interface LenderAllocation {
@@ -33,19 +383,126 @@ export interface LenderAllocation {
   percentage: number;
 }
 
+// Kinds of buyer that agreements commonly restrict
+export type LenderCategory = 'bank' | 'financial_institution' | 'fund' | 'loan_to_own_fund' | 'competitor';
+
+// Transfers that do not need borrower consent
+export type ConsentException = 'existing_lender' | 'affiliate' | 'event_of_default';
+
+export interface TransferRestrictions {
+  borrowerConsentRequired: boolean;
+  consentExceptions: ConsentException[];
+  // Consent is deemed given unless refused within this many business days
+  deemedConsentDays?: number;
+  minimumTransferAmount?: number;
+  minimumHoldAmount?: number;
+  prohibitedCategories: LenderCategory[];
+  // When not empty, only these institutions (or existing lenders) may buy
+  approvedLenders: string[];
+  restrictedLenders: string[];
+}
+
+// Secondary transfer of a participation between two named lenders
+export interface TradeRequest {
+  sellerName: string;
+  buyerName: string;
+  amount: number;
+  buyerCategory?: LenderCategory;
+  buyerIsAffiliate?: boolean;
+  // Percent of par, 100 when not given
+  price?: number;
+}
+
+export type TradeRejectionReason =
+  | 'unknown_seller'
+  | 'same_party'
+  | 'invalid_amount'
+  | 'exceeds_holding'
+  | 'minimum_transfer'
+  | 'minimum_hold'
+  | 'ineligible_buyer'
+  | 'consent_required'
+  | 'invalid_price';
+
+// Settlement stages of a secondary trade, in order
+export type TradeStage =
+  | 'agreed'
+  | 'confirmed'
+  | 'documentation_drafted'
+  | 'consent_requested'
+  | 'agent_processing'
+  | 'funded'
+  | 'settled'
+  | 'cancelled';
+
+// Par trades target T+7 and distressed trades T+20 business days
+export type TradeSettlementType = 'par' | 'distressed';
+
+export interface TradeStageChange {
+  stage: TradeStage;
+  timestamp: string;
+  note?: string;
+}
+
+export interface TradeRecord extends TradeRequest {
+  id: string;
+  price: number;
+  settlementType: TradeSettlementType;
+  // ISO yyyy-mm-dd
+  tradeDate: string;
+  targetSettlementDate: string;
+  settlementDate: string | null;
+  // Trades needing borrower consent must pass through 'consent_requested'
+  consentRequired?: boolean;
+  stage: TradeStage;
+  history: TradeStageChange[];
+  // Accrued for the buyer when a par trade settles after its target date
+  delayedCompensation: number;
+}
+
 export interface TradingStatus {
   lenderAllocations: LenderAllocation[];
   totalFacilityAmount: number;
   lastTradeTimestamp: Date | null;
+  // 'pending' while any trade is still working through settlement
   settlementStatus: 'instant' | 'pending';
+  trades?: TradeRecord[];
 }
 
 export interface ApplicationState {
   currentLoan: LoanData | null;
+  // ID of the current loan in the portfolio store (null until first saved)
+  currentLoanId: string | null;
+  portfolio: PortfolioLoanSummary[];
+  verificationStatus: VerificationState;
+  esgStatus: ESGStatus;
+  riskStatus: RiskStatus;
+  tradingStatus: TradingStatus;
+}
+
+// Persisted snapshot of one loan and its workflow state
+export interface PortfolioLoanRecord {
+  id: string;
+  loan: LoanData;
   verificationStatus: VerificationState;
   esgStatus: ESGStatus;
   riskStatus: RiskStatus;
   tradingStatus: TradingStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PortfolioLoanInput = Omit<PortfolioLoanRecord, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Lightweight listing entry for the loan picker
+export interface PortfolioLoanSummary {
+  id: string;
+  borrowerName: string;
+  facilityAmount: number;
+  currency: string;
+  isVerified: boolean;
+  isInDefault: boolean;
+  updatedAt: string;
 }
 
 export interface FormFieldState {
@@ -100,6 +557,30 @@ export interface LoanDataValidationSchema {
     minLength: number;
     maxLength: number;
   };
+  tranches: {
+    maxCount: number;
+    validFacilityTypes: FacilityType[];
+    tenorMonths: {
+      min: number;
+      max: number;
+    };
+  };
+  covenants: {
+    maxCount: number;
+    validMetrics: CovenantMetric[];
+  };
+  lenders: {
+    maxCount: number;
+    maxNameLength: number;
+  };
+  repaymentSchedule: {
+    maxInstalments: number;
+  };
+  transferRestrictions: {
+    maxListLength: number;
+    validCategories: LenderCategory[];
+    validConsentExceptions: ConsentException[];
+  };
 }
 
 // Validation schema instance
@@ -136,10 +617,38 @@ export const loanDataValidationSchema: LoanDataValidationSchema = {
     required: true,
     minLength: 5,
     maxLength: 500
+  },
+  tranches: {
+    maxCount: 10,
+    validFacilityTypes: ['term_loan_a', 'term_loan_b', 'term_loan', 'revolving_credit', 'capex', 'bridge'],
+    tenorMonths: {
+      min: 1,
+      max: 480 // 40 years
+    }
+  },
+  covenants: {
+    maxCount: 20,
+    validMetrics: ['leverage', 'interest_cover', 'debt_service_cover', 'minimum_net_worth', 'minimum_liquidity', 'capex']
+  },
+  lenders: {
+    maxCount: 100,
+    maxNameLength: 200
+  },
+  repaymentSchedule: {
+    maxInstalments: 480 // Monthly over 40 years
+  },
+  transferRestrictions: {
+    maxListLength: 200,
+    validCategories: ['bank', 'financial_institution', 'fund', 'loan_to_own_fund', 'competitor'],
+    validConsentExceptions: ['existing_lender', 'affiliate', 'event_of_default']
   }
 };
 
 // Validation functions
+// Entries of structured fields arrive as untyped JSON on the API path
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
 export const validateLoanData = (data: Partial<LoanData>): ValidationResult => {
   const errors: string[] = [];
   const schema = loanDataValidationSchema;
@@ -246,12 +755,394 @@ export const validateLoanData = (data: Partial<LoanData>): ValidationResult => {
     }
   }
 
+  // Validate tranches (optional - single-facility loans have none)
+  if (data.tranches !== undefined) {
+    errors.push(...validateTranches(data.tranches, data.facilityAmount, data.currency));
+  }
+
+  // Validate covenant schedule (optional - falls back to leverageCovenant)
+  if (data.covenants !== undefined) {
+    errors.push(...validateCovenants(data.covenants));
+  }
+
+  const totalAmount = Array.isArray(data.tranches) && data.tranches.length > 0 && data.tranches.every(isRecord)
+    ? calculateTrancheTotals(data.tranches).totalAmount
+    : data.facilityAmount;
+
+  // Validate lender syndicate (optional - commitments reconcile to the facility)
+  if (data.lenders !== undefined) {
+    errors.push(...validateLenders(data.lenders, totalAmount));
+  }
+
+  // Validate key dates and repayments (optional)
+  errors.push(...validateKeyDates(data));
+  if (data.repaymentSchedule !== undefined) {
+    errors.push(...validateRepaymentSchedule(data.repaymentSchedule, totalAmount, data.signingDate, data.terminationDate));
+  }
+
+  // Validate transfer restrictions (optional)
+  if (data.transferRestrictions !== undefined) {
+    errors.push(...validateTransferRestrictions(data.transferRestrictions));
+  }
+
+  // Validate fees (optional)
+  if (data.feeTerms !== undefined) {
+    errors.push(...validateFeeTerms(data.feeTerms));
+  }
+
   return {
     isValid: errors.length === 0,
     errors
   };
 };
 
+// Validate a tranche list and its consistency with the loan-level facility amount
+export const validateTranches = (
+  tranches: Tranche[],
+  facilityAmount?: number,
+  loanCurrency?: string
+): string[] => {
+  const errors: string[] = [];
+  const schema = loanDataValidationSchema;
+
+  if (!Array.isArray(tranches)) {
+    return ['Tranches must be a list'];
+  }
+
+  if (tranches.length > schema.tranches.maxCount) {
+    errors.push(`Tranches must not exceed ${schema.tranches.maxCount} facilities`);
+  }
+
+  const names = new Set<string>();
+  tranches.forEach((tranche, index) => {
+    const label = `Tranche ${index + 1}`;
+
+    if (!isRecord(tranche)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+
+    if (typeof tranche.name !== 'string' || tranche.name.trim().length === 0) {
+      errors.push(`${label} name is required`);
+    } else if (names.has(tranche.name.trim().toLowerCase())) {
+      errors.push(`${label} name "${tranche.name}" is duplicated`);
+    } else {
+      names.add(tranche.name.trim().toLowerCase());
+    }
+
+    if (!schema.tranches.validFacilityTypes.includes(tranche.facilityType)) {
+      errors.push(`${label} facility type must be one of: ${schema.tranches.validFacilityTypes.join(', ')}`);
+    }
+
+    if (typeof tranche.amount !== 'number' || isNaN(tranche.amount) || tranche.amount <= 0) {
+      errors.push(`${label} amount must be a positive number`);
+    } else if (tranche.amount > schema.facilityAmount.max) {
+      errors.push(`${label} amount must not exceed $${schema.facilityAmount.max.toLocaleString()}`);
+    }
+
+    if (!schema.currency.validCurrencies.includes(tranche.currency)) {
+      errors.push(`${label} currency must be one of: ${schema.currency.validCurrencies.join(', ')}`);
+    }
+
+    if (typeof tranche.interestRateMargin !== 'number' || isNaN(tranche.interestRateMargin)) {
+      errors.push(`${label} margin must be a valid number`);
+    } else if (
+      tranche.interestRateMargin < schema.interestRateMargin.min ||
+      tranche.interestRateMargin > schema.interestRateMargin.max
+    ) {
+      errors.push(`${label} margin must be between ${schema.interestRateMargin.min}% and ${schema.interestRateMargin.max}%`);
+    }
+
+    if (
+      tranche.tenorMonths !== undefined && (
+        typeof tranche.tenorMonths !== 'number' ||
+        !Number.isInteger(tranche.tenorMonths) ||
+        tranche.tenorMonths < schema.tranches.tenorMonths.min ||
+        tranche.tenorMonths > schema.tranches.tenorMonths.max
+      )
+    ) {
+      errors.push(`${label} tenor must be a whole number of months between ${schema.tranches.tenorMonths.min} and ${schema.tranches.tenorMonths.max}`);
+    }
+  });
+
+  // Roll-up check only applies when every tranche is in the loan currency
+  const singleCurrency = tranches.every(tranche => isRecord(tranche) && tranche.currency === loanCurrency);
+  if (tranches.length > 0 && singleCurrency && typeof facilityAmount === 'number' && !isNaN(facilityAmount)) {
+    const { totalAmount } = calculateTrancheTotals(tranches);
+    if (Math.abs(totalAmount - facilityAmount) >= 1) {
+      errors.push(`Tranche amounts (${totalAmount.toLocaleString()}) must sum to the facility amount (${facilityAmount.toLocaleString()})`);
+    }
+  }
+
+  return errors;
+};
+
+// Validate a covenant schedule: thresholds, operators and step-down ordering
+export const validateCovenants = (covenants: Covenant[]): string[] => {
+  const errors: string[] = [];
+  const schema = loanDataValidationSchema;
+
+  if (!Array.isArray(covenants)) {
+    return ['Covenants must be a list'];
+  }
+
+  if (covenants.length > schema.covenants.maxCount) {
+    errors.push(`Covenants must not exceed ${schema.covenants.maxCount} entries`);
+  }
+
+  covenants.forEach((covenant, index) => {
+    const label = `Covenant ${index + 1}`;
+
+    if (!isRecord(covenant)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+
+    if (!schema.covenants.validMetrics.includes(covenant.metric)) {
+      errors.push(`${label} metric must be one of: ${schema.covenants.validMetrics.join(', ')}`);
+    }
+
+    if (covenant.operator !== '<=' && covenant.operator !== '>=') {
+      errors.push(`${label} operator must be <= or >=`);
+    }
+
+    if (typeof covenant.threshold !== 'number' || isNaN(covenant.threshold) || covenant.threshold <= 0) {
+      errors.push(`${label} threshold must be a positive number`);
+    }
+
+    if (!Array.isArray(covenant.testDates) || covenant.testDates.some(date => typeof date !== 'string' || isNaN(Date.parse(date)))) {
+      errors.push(`${label} test dates must be a list of valid dates`);
+    }
+
+    if (!Array.isArray(covenant.stepDowns)) {
+      errors.push(`${label} step-downs must be a list`);
+      return;
+    }
+
+    let previousUntil = '';
+    covenant.stepDowns.forEach(stepDown => {
+      if (!isRecord(stepDown)) {
+        errors.push(`${label} step-downs must be objects`);
+        return;
+      }
+      if (typeof stepDown.until !== 'string' || isNaN(Date.parse(stepDown.until))) {
+        errors.push(`${label} step-down date must be a valid date`);
+      } else if (stepDown.until <= previousUntil) {
+        errors.push(`${label} step-downs must be in chronological order`);
+      }
+      if (typeof stepDown.threshold !== 'number' || isNaN(stepDown.threshold) || stepDown.threshold <= 0) {
+        errors.push(`${label} step-down threshold must be a positive number`);
+      }
+      previousUntil = stepDown.until;
+    });
+  });
+
+  return errors;
+};
+
+// Validate a lender syndicate: names, commitments and their reconciliation to the facility amount
+export const validateLenders = (lenders: LenderAllocation[], facilityAmount: number | undefined): string[] => {
+  const errors: string[] = [];
+  const schema = loanDataValidationSchema;
+
+  if (!Array.isArray(lenders)) {
+    return ['Lenders must be a list'];
+  }
+
+  if (lenders.length > schema.lenders.maxCount) {
+    errors.push(`Lenders must not exceed ${schema.lenders.maxCount} entries`);
+  }
+
+  lenders.forEach((lender, index) => {
+    const label = `Lender ${index + 1}`;
+
+    if (!isRecord(lender)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+
+    if (typeof lender.lenderName !== 'string' || lender.lenderName.trim().length === 0) {
+      errors.push(`${label} name is required`);
+    } else if (lender.lenderName.length > schema.lenders.maxNameLength) {
+      errors.push(`${label} name must not exceed ${schema.lenders.maxNameLength} characters`);
+    }
+
+    if (typeof lender.amount !== 'number' || isNaN(lender.amount) || lender.amount <= 0) {
+      errors.push(`${label} commitment must be a positive number`);
+    }
+  });
+
+  if (lenders.length > 0 && lenders.every(isRecord) && typeof facilityAmount === 'number' && !isNaN(facilityAmount)) {
+    const commitmentTotal = getCommitmentTotal(lenders);
+    if (Math.abs(commitmentTotal - facilityAmount) >= 1) {
+      errors.push(`Lender commitments (${commitmentTotal.toLocaleString()}) must sum to the facility amount (${facilityAmount.toLocaleString()})`);
+    }
+  }
+
+  return errors;
+};
+
+const isISODate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+
+// Validate signing, availability and termination dates and their order
+export const validateKeyDates = (data: Partial<LoanData>): string[] => {
+  const errors: string[] = [];
+  const dates: [string | undefined, string][] = [
+    [data.signingDate, 'Signing date'],
+    [data.availabilityPeriodEnd, 'Availability period end'],
+    [data.terminationDate, 'Termination date'],
+  ];
+
+  dates.forEach(([value, label]) => {
+    if (value !== undefined && !isISODate(value)) {
+      errors.push(`${label} must be a valid date (YYYY-MM-DD)`);
+    }
+  });
+  if (errors.length > 0) return errors;
+
+  const { signingDate, availabilityPeriodEnd, terminationDate } = data;
+  if (signingDate && terminationDate && terminationDate <= signingDate) {
+    errors.push('Termination date must be after the signing date');
+  }
+  if (availabilityPeriodEnd && signingDate && availabilityPeriodEnd < signingDate) {
+    errors.push('Availability period end must not be before the signing date');
+  }
+  if (availabilityPeriodEnd && terminationDate && availabilityPeriodEnd > terminationDate) {
+    errors.push('Availability period end must not be after the termination date');
+  }
+
+  return errors;
+};
+
+// Validate a repayment schedule: dates within the loan term, positive amounts, full repayment
+export const validateRepaymentSchedule = (
+  schedule: RepaymentSchedule,
+  facilityAmount: number | undefined,
+  signingDate?: string,
+  terminationDate?: string
+): string[] => {
+  const errors: string[] = [];
+  const schema = loanDataValidationSchema;
+
+  if (!isRecord(schedule) || !Array.isArray(schedule.instalments)) {
+    return ['Repayment schedule must have a list of instalments'];
+  }
+
+  if (schedule.type !== 'bullet' && schedule.type !== 'amortising') {
+    errors.push('Repayment schedule type must be bullet or amortising');
+  }
+
+  if (schedule.instalments.length > schema.repaymentSchedule.maxInstalments) {
+    errors.push(`Repayment schedule must not exceed ${schema.repaymentSchedule.maxInstalments} instalments`);
+  }
+
+  let previousDate = '';
+  schedule.instalments.forEach((instalment, index) => {
+    const label = `Repayment ${index + 1}`;
+
+    if (!isRecord(instalment)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+
+    if (!isISODate(instalment.date)) {
+      errors.push(`${label} date must be a valid date (YYYY-MM-DD)`);
+    } else {
+      if (instalment.date <= previousDate) {
+        errors.push(`${label} must fall after the previous repayment`);
+      }
+      if (signingDate && isISODate(signingDate) && instalment.date <= signingDate) {
+        errors.push(`${label} must fall after the signing date`);
+      }
+      if (terminationDate && isISODate(terminationDate) && instalment.date > terminationDate) {
+        errors.push(`${label} must not fall after the termination date`);
+      }
+      previousDate = instalment.date;
+    }
+
+    if (typeof instalment.amount !== 'number' || isNaN(instalment.amount) || instalment.amount <= 0) {
+      errors.push(`${label} amount must be a positive number`);
+    }
+  });
+
+  if (schedule.instalments.length > 0 && schedule.instalments.every(isRecord) && typeof facilityAmount === 'number' && !isNaN(facilityAmount)) {
+    const totalRepaid = schedule.instalments.reduce((sum, instalment) => sum + instalment.amount, 0);
+    if (Math.abs(totalRepaid - facilityAmount) >= 1) {
+      errors.push(`Repayments (${totalRepaid.toLocaleString()}) must sum to the facility amount (${facilityAmount.toLocaleString()})`);
+    }
+  }
+
+  return errors;
+};
+
+// Validate transfer restrictions: known categories and exceptions, positive amounts, bounded lists
+export const validateTransferRestrictions = (restrictions: TransferRestrictions): string[] => {
+  const errors: string[] = [];
+  const schema = loanDataValidationSchema.transferRestrictions;
+
+  if (!isRecord(restrictions)) {
+    return ['Transfer restrictions must be an object'];
+  }
+
+  if (typeof restrictions.borrowerConsentRequired !== 'boolean') {
+    errors.push('Transfer restrictions must state whether borrower consent is required');
+  }
+
+  const categories = restrictions.prohibitedCategories ?? [];
+  if (!Array.isArray(categories) || categories.some(category => !schema.validCategories.includes(category))) {
+    errors.push(`Transfer restrictions category must be one of: ${schema.validCategories.join(', ')}`);
+  }
+
+  const exceptions = restrictions.consentExceptions ?? [];
+  if (!Array.isArray(exceptions) || exceptions.some(exception => !schema.validConsentExceptions.includes(exception))) {
+    errors.push(`Transfer restrictions consent exception must be one of: ${schema.validConsentExceptions.join(', ')}`);
+  }
+
+  (['minimumTransferAmount', 'minimumHoldAmount', 'deemedConsentDays'] as const).forEach(field => {
+    const value = restrictions[field];
+    if (value !== undefined && (typeof value !== 'number' || isNaN(value) || value <= 0)) {
+      errors.push(`Transfer restrictions ${field} must be a positive number`);
+    }
+  });
+
+  (['approvedLenders', 'restrictedLenders'] as const).forEach(field => {
+    const names = restrictions[field] ?? [];
+    if (!Array.isArray(names) || names.some(name => typeof name !== 'string' || name.trim().length === 0)) {
+      errors.push(`Transfer restrictions ${field} must be a list of lender names`);
+    } else if (names.length > schema.maxListLength) {
+      errors.push(`Transfer restrictions ${field} must not exceed ${schema.maxListLength} names`);
+    }
+  });
+
+  return errors;
+};
+
+export const validateFeeTerms = (terms: FeeTerms): string[] => {
+  if (!isRecord(terms)) {
+    return ['Fee terms must be an object'];
+  }
+
+  const errors: string[] = [];
+  const isRate = (value: unknown, max = Infinity) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= max;
+
+  if (!isRate(terms.commitmentFeePercentOfMargin, 100)) {
+    errors.push('Commitment fee must be between 0% and 100% of the margin');
+  }
+
+  const bands = terms.utilisationFeeBands;
+  if (!Array.isArray(bands) || bands.some(band => !isRecord(band) || !isRate(band.aboveUtilisation, 100) || !isRate(band.rate))) {
+    errors.push('Utilisation fee bands must each give a utilisation level between 0% and 100% and a rate');
+  }
+
+  if (!isRate(terms.agencyFee)) {
+    errors.push('Agency fee must be zero or a positive amount');
+  }
+
+  return errors;
+};
+
 // Helper function to validate individual fields
 export const validateField = (fieldName: keyof LoanData, value: unknown): ValidationResult => {
   const partialData: Partial<LoanData> = {};
@@ -265,7 +1156,15 @@ export const validateField = (fieldName: keyof LoanData, value: unknown): Valida
     (fieldName === 'facilityAmount' && error.includes('Facility amount')) ||
     (fieldName === 'interestRateMargin' && error.includes('Interest rate margin')) ||
     (fieldName === 'leverageCovenant' && error.includes('Leverage covenant')) ||
-    (fieldName === 'esgTarget' && error.includes('ESG target'))
+    (fieldName === 'esgTarget' && error.includes('ESG target')) ||
+    (fieldName === 'tranches' && error.startsWith('Tranche')) ||
+    (fieldName === 'covenants' && error.startsWith('Covenant')) ||
+    (fieldName === 'lenders' && error.startsWith('Lender')) ||
+    (fieldName === 'signingDate' && error.startsWith('Signing date')) ||
+    (fieldName === 'availabilityPeriodEnd' && error.startsWith('Availability period')) ||
+    (fieldName === 'terminationDate' && error.startsWith('Termination date')) ||
+    (fieldName === 'repaymentSchedule' && error.startsWith('Repayment')) ||
+    (fieldName === 'transferRestrictions' && error.startsWith('Transfer restrictions'))
   );
   
   return {
@@ -303,6 +1202,9 @@ export const sanitizeNumber = (input: unknown): number | null => {
   return null;
 };
 
+// Numbers that cannot be read are kept as they are for validateLoanData to reject
+const sanitizeNumberOrKeep = (input: number): number => sanitizeNumber(input) ?? input;
+
 export const sanitizeLoanData = (data: Partial<LoanData>): Partial<LoanData> => {
   const sanitized: Partial<LoanData> = {};
   
@@ -318,11 +1220,20 @@ export const sanitizeLoanData = (data: Partial<LoanData>): Partial<LoanData> =>
   if (data.currency !== undefined) {
     sanitized.currency = sanitizeString(data.currency).toUpperCase();
   }
+
+  if (data.sector !== undefined) {
+    sanitized.sector = sanitizeString(data.sector);
+  }
   
   if (data.interestRateMargin !== undefined) {
     const margin = sanitizeNumber(data.interestRateMargin);
     if (margin !== null) sanitized.interestRateMargin = margin;
   }
+
+  if (data.referenceRateFloor !== undefined) {
+    const floor = sanitizeNumber(data.referenceRateFloor);
+    if (floor !== null) sanitized.referenceRateFloor = floor;
+  }
   
   if (data.leverageCovenant !== undefined) {
     const covenant = sanitizeNumber(data.leverageCovenant);
@@ -333,9 +1244,166 @@ export const sanitizeLoanData = (data: Partial<LoanData>): Partial<LoanData> =>
     sanitized.esgTarget = sanitizeString(data.esgTarget);
   }
   
+  // Malformed entries are kept as they are for validateLoanData to reject
+  if (Array.isArray(data.tranches)) {
+    sanitized.tranches = data.tranches.map(tranche => (isRecord(tranche) ? sanitizeTranche(tranche) : tranche));
+  }
+  
+  if (Array.isArray(data.covenants)) {
+    sanitized.covenants = data.covenants.map(covenant => (isRecord(covenant) ? {
+      ...covenant,
+      id: sanitizeString(covenant.id),
+      label: sanitizeString(covenant.label),
+      threshold: sanitizeNumber(covenant.threshold) ?? 0,
+      stepDowns: Array.isArray(covenant.stepDowns)
+        ? covenant.stepDowns.map(stepDown => (isRecord(stepDown) ? {
+          until: sanitizeString(stepDown.until),
+          threshold: sanitizeNumber(stepDown.threshold) ?? 0,
+        } : stepDown))
+        : covenant.stepDowns,
+    } : covenant));
+  }
+
+  if (Array.isArray(data.lenders)) {
+    sanitized.lenders = data.lenders.map(lender => (isRecord(lender) ? sanitizeLenderAllocation(lender) : lender));
+  }
+
+  (['signingDate', 'availabilityPeriodEnd', 'terminationDate'] as const).forEach(field => {
+    if (data[field] !== undefined) {
+      sanitized[field] = sanitizeString(data[field] as string);
+    }
+  });
+
+  if (isRecord(data.repaymentSchedule) && Array.isArray(data.repaymentSchedule.instalments)) {
+    sanitized.repaymentSchedule = {
+      type: data.repaymentSchedule.type,
+      instalments: data.repaymentSchedule.instalments.map(instalment => (isRecord(instalment) ? {
+        date: sanitizeString(instalment.date),
+        amount: sanitizeNumber(instalment.amount) ?? 0,
+      } : instalment)),
+    };
+  }
+
+  if (Array.isArray(data.revolverMovements)) {
+    sanitized.revolverMovements = data.revolverMovements.map(movement => (isRecord(movement) ? {
+      ...movement,
+      id: sanitizeString(movement.id),
+      trancheId: sanitizeString(movement.trancheId),
+      date: sanitizeString(movement.date),
+      amount: sanitizeNumberOrKeep(movement.amount),
+    } : movement));
+  }
+
+  if (isRecord(data.feeTerms)) {
+    const terms = data.feeTerms;
+    sanitized.feeTerms = {
+      commitmentFeePercentOfMargin: sanitizeNumberOrKeep(terms.commitmentFeePercentOfMargin),
+      utilisationFeeBands: Array.isArray(terms.utilisationFeeBands)
+        ? terms.utilisationFeeBands.map(band => (isRecord(band) ? {
+          aboveUtilisation: sanitizeNumberOrKeep(band.aboveUtilisation),
+          rate: sanitizeNumberOrKeep(band.rate),
+        } : band))
+        : terms.utilisationFeeBands,
+      agencyFee: sanitizeNumberOrKeep(terms.agencyFee),
+    };
+  }
+
+  if (isRecord(data.sustainabilityTerms) && Array.isArray(data.sustainabilityTerms.kpis)) {
+    const terms = data.sustainabilityTerms;
+    sanitized.sustainabilityTerms = {
+      kpis: terms.kpis.map(kpi => (isRecord(kpi) ? {
+        ...kpi,
+        id: sanitizeString(kpi.id),
+        metric: sanitizeString(kpi.metric),
+        unit: sanitizeString(kpi.unit),
+        baselineValue: sanitizeNumber(kpi.baselineValue),
+        targets: Array.isArray(kpi.targets)
+          ? kpi.targets.map(target => (isRecord(target) ? {
+            testYear: Math.round(sanitizeNumber(target.testYear) ?? 0),
+            target: sanitizeNumber(target.target) ?? 0,
+          } : target))
+          : kpi.targets,
+        weighting: sanitizeNumber(kpi.weighting) ?? 0,
+        ...(kpi.discountBps !== undefined && { discountBps: sanitizeNumber(kpi.discountBps) ?? 0 }),
+      } : kpi)),
+      ratchetDownBps: sanitizeNumber(terms.ratchetDownBps) ?? 0,
+      ratchetUpBps: sanitizeNumber(terms.ratchetUpBps) ?? 0,
+      ...(terms.maxDiscountBps !== undefined && { maxDiscountBps: sanitizeNumber(terms.maxDiscountBps) ?? 0 }),
+    };
+  }
+
+  if (isRecord(data.borrowerEmissions)) {
+    const emissions = data.borrowerEmissions;
+    sanitized.borrowerEmissions = {
+      ...emissions,
+      reportingYear: sanitizeNumberOrKeep(emissions.reportingYear),
+      scope1: sanitizeNumberOrKeep(emissions.scope1),
+      scope2: sanitizeNumberOrKeep(emissions.scope2),
+      scope3: emissions.scope3 === null ? null : sanitizeNumberOrKeep(emissions.scope3),
+      attributionValue: sanitizeNumberOrKeep(emissions.attributionValue),
+      revenue: emissions.revenue === null ? null : sanitizeNumberOrKeep(emissions.revenue),
+      currency: typeof emissions.currency === 'string' ? sanitizeString(emissions.currency).toUpperCase() : emissions.currency,
+    };
+  }
+
+  if (isRecord(data.taxonomyScreening) && Array.isArray(data.taxonomyScreening.useOfProceeds)) {
+    const screening = data.taxonomyScreening;
+    sanitized.taxonomyScreening = {
+      ...screening,
+      useOfProceeds: screening.useOfProceeds.map(entry => (isRecord(entry) ? {
+        ...entry,
+        id: sanitizeString(entry.id),
+        description: typeof entry.description === 'string' ? sanitizeString(entry.description) : entry.description,
+        naceCode: typeof entry.naceCode === 'string' ? sanitizeString(entry.naceCode).toUpperCase() : entry.naceCode,
+        amount: sanitizeNumberOrKeep(entry.amount),
+        metricValue: entry.metricValue === null ? null : sanitizeNumberOrKeep(entry.metricValue),
+      } : entry)),
+    };
+  }
+
+  if (Array.isArray(data.marginHistory)) {
+    sanitized.marginHistory = data.marginHistory.map(entry => (isRecord(entry) ? {
+      effectiveDate: sanitizeString(entry.effectiveDate),
+      testYear: entry.testYear === null ? null : sanitizeNumberOrKeep(entry.testYear),
+      adjustmentBps: sanitizeNumberOrKeep(entry.adjustmentBps),
+      margin: sanitizeNumberOrKeep(entry.margin),
+      ...(entry.contractualMargin !== undefined && { contractualMargin: sanitizeNumberOrKeep(entry.contractualMargin) }),
+      ...(isRecord(entry.contractualTrancheMargins) && {
+        contractualTrancheMargins: Object.fromEntries(Object.entries(entry.contractualTrancheMargins)
+          .map(([trancheId, margin]) => [sanitizeString(trancheId), sanitizeNumberOrKeep(margin)])),
+      }),
+    } : entry));
+  }
+
+  if (isRecord(data.transferRestrictions)) {
+    const restrictions = data.transferRestrictions;
+    const sanitizeNames = (names: string[] | undefined) => (Array.isArray(names) ? names.map(sanitizeString) : names ?? []);
+    sanitized.transferRestrictions = {
+      ...restrictions,
+      approvedLenders: sanitizeNames(restrictions.approvedLenders),
+      restrictedLenders: sanitizeNames(restrictions.restrictedLenders),
+    };
+  }
+  
   return sanitized;
 };
 
+export const sanitizeLenderAllocation = (lender: LenderAllocation): LenderAllocation => ({
+  lenderName: sanitizeString(lender.lenderName),
+  amount: sanitizeNumber(lender.amount) ?? 0,
+  percentage: sanitizeNumber(lender.percentage) ?? 0,
+});
+
+export const sanitizeTranche = (tranche: Tranche): Tranche => ({
+  id: sanitizeString(tranche.id),
+  name: sanitizeString(tranche.name),
+  facilityType: tranche.facilityType,
+  amount: sanitizeNumber(tranche.amount) ?? 0,
+  currency: sanitizeString(tranche.currency).toUpperCase(),
+  interestRateMargin: sanitizeNumber(tranche.interestRateMargin) ?? 0,
+  ...(tranche.tenorMonths !== undefined && { tenorMonths: Math.round(sanitizeNumber(tranche.tenorMonths) ?? 0) }),
+});
+
 // Error handling types and utilities
 export interface APIError {
   code: string;
@@ -455,9 +1523,39 @@ export const getUserFriendlyError = (error: APIError | Error | string): UserFrie
   }
 };
 
+// Extraction provenance types
+export type ExtractionMethod = 'pattern' | 'nlp' | 'derived' | 'default';
+
+/**
+ * Character range of a source page within the analysed document text
+ */
+export interface PageRange {
+  pageNumber: number;
+  startOffset: number;
+  endOffset: number;
+}
+
+/**
+ * Where an extracted field value came from in the analysed document text.
+ * Offsets are null for values that were defaulted rather than found.
+ */
+export interface FieldProvenance {
+  field: keyof LoanData;
+  method: ExtractionMethod;
+  pattern: string | null;
+  startOffset: number | null;
+  endOffset: number | null;
+  snippet: string;
+  pageNumber: number | null;
+  confidence: number;
+}
+
+export type ExtractionProvenance = Partial<Record<keyof LoanData, FieldProvenance>>;
+
 // API Response types
 export interface AnalyzeLoanRequest {
   documentText: string;
+  pages?: PageRange[];
 }
 
 export interface AnalyzeLoanResponse {
@@ -470,4 +1568,5 @@ export interface AnalyzeLoanResponse {
   suggestions?: string[];
   processingTime?: number;
   extractedFields?: string[];
+  provenance?: ExtractionProvenance;
 }
\ No newline at end of file